@@ -1,21 +1,20 @@
 // Background service worker for ComplyCA extension
 
-import {
-  cancelScan,
-  resumeScan,
-  type ScanProgress,
-  type SiteReport,
-  scanFullSite,
-} from './multi-page-scanner';
+import { DEFAULT_JURISDICTION, DEFAULT_SCORING_MODEL, type SiteReport } from '@moderna11y/scanner';
+import { type ScanProgress, cancelScan, resumeScan, scanFullSite } from './multi-page-scanner';
 
 chrome.runtime.onInstalled.addListener(() => {
   console.log('🚀 ComplyCA extension installed - Open source, privacy-first');
 
-  // Initialize default settings
-  chrome.storage.local.set({
-    jurisdiction: 'federal', // federal, ontario, quebec
+  // Initialize default settings, keeping the user's choices across updates
+  const defaults = {
+    jurisdiction: DEFAULT_JURISDICTION, // ontario, federal, quebec, manitoba, eu
+    scoringModel: DEFAULT_SCORING_MODEL, // weighted-impact, pass-ratio, criterion-cap, page-weighted
     darkMode: false,
     autoScan: false,
+  };
+  chrome.storage.local.get(Object.keys(defaults), (stored) => {
+    chrome.storage.local.set({ ...defaults, ...stored });
   });
 });
 
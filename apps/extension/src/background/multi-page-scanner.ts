@@ -6,73 +6,52 @@
  * Features: Session persistence, resume capability, robust error handling
  */
 
-import { discoverRoutes } from '@moderna11y/scanner';
 import {
+  DEFAULT_SCORING_MODEL,
+  type DiscoveryResult,
+  type ExclusionReason,
+  type JurisdictionId,
+  type Organization,
+  type PageScanResult,
+  RESULT_SCHEMA_VERSION,
+  type ScoringModelId,
+  type SiteReport,
+  type UrlFilter,
+  type UrlFilterRules,
+  auditLanguageParity,
+  createUrlFilter,
+  discoverRoutes,
+  estimateEffort,
+  findLanguagePairs,
+  findSharedComponents,
+  findUnscannedCounterparts,
+  getJurisdiction,
+  normalizeUrl,
+  parseScanResult,
+  scorePage,
+  scoreSitePages,
+  snapshotSiteReport,
+  summarizeObligations,
+} from '@moderna11y/scanner';
+import { recordScan } from '../utils/history';
+import {
+  type ScanSession,
   clearScanSession,
+  loadOrganization,
   loadScanSession,
   saveScanSession,
   updateScanSession,
 } from '../utils/storage';
 
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
-}
-
-interface EnhancedViolation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-  nodes: ViolationNode[];
-}
-
-interface BilingualCheck {
-  hasLangAttribute: boolean;
-  isBilingual: boolean;
-  detectedLanguages: string[];
-  hasLanguageToggle: boolean;
-  hasFrenchContent: boolean;
-  isOntarioGov: boolean;
-  languageToggles: number;
-}
-
-export interface PageScanResult {
-  url: string;
-  score: number;
-  grade: string;
-  violations: EnhancedViolation[];
-  passes: number;
-  incomplete: number;
-  bilingualCheck?: BilingualCheck;
-  timestamp: string;
-  error?: string;
-}
-
-export interface SiteReport {
-  baseUrl: string;
-  totalPages: number;
-  scannedPages: number;
-  avgScore: number;
-  grade: string;
-  pageResults: PageScanResult[];
-  topViolations: Array<{
-    ruleId: string;
-    description: string;
-    frequency: number;
-    impact: string;
-  }>;
-  estimatedFixTime: number;
-  complianceRate: number;
-  timestamp: string;
-  strategy: string;
+export interface SiteScanConfig {
+  maxPages?: number;
+  maxDepth?: number;
+  discoveryMode?: 'fallback' | 'hybrid';
+  changedSince?: string; // Only scan sitemap pages modified after this date
+  filters?: UrlFilterRules; // Path scope, include/exclude patterns, query-string handling
+  languageParity?: boolean; // Also scan each English page's French version and compare them
+  jurisdiction?: JurisdictionId; // Profile pages are assessed against (default Ontario)
+  scoringModel?: ScoringModelId; // Scoring model for pages and the site (default weighted-impact)
 }
 
 export interface ScanProgress {
@@ -84,19 +63,8 @@ export interface ScanProgress {
   canResume?: boolean;
 }
 
-interface ScanSession {
-  id: string;
-  baseUrl: string;
-  status: 'discovering' | 'scanning' | 'aggregating' | 'complete' | 'error' | 'cancelled';
-  currentPage: number;
-  totalPages: number;
-  scannedUrls: string[];
-  remainingUrls: string[];
-  pageResults: PageScanResult[];
-  startTime: string;
-  lastUpdate: string;
-  error?: string;
-}
+// Minimum pause between page scans
+const MIN_PAGE_DELAY_MS = 500;
 
 // Track active scan cancellation
 let cancelRequested = false;
@@ -130,7 +98,7 @@ export async function scanFullSite(
   baseUrl: string,
   progressCallback?: (progress: ScanProgress) => void,
   resume = false,
-  config?: { maxPages?: number; maxDepth?: number }
+  config?: SiteScanConfig
 ): Promise<SiteReport> {
   try {
     // Reset cancel flag
@@ -157,6 +125,10 @@ export async function scanFullSite(
     const discoveryResult = await discoverRoutes(baseUrl, {
       maxPages: config?.maxPages || 50,
       maxDepth: config?.maxDepth || 2,
+      mode: config?.discoveryMode || 'fallback',
+      selection: 'sample',
+      changedSince: config?.changedSince || undefined,
+      filters: config?.filters,
     });
 
     let urls = discoveryResult.urls;
@@ -165,6 +137,9 @@ export async function scanFullSite(
     console.log(`[Scanner] URLs to scan:`, urls);
 
     if (urls.length === 0) {
+      if (!createUrlFilter(config?.filters).matches(baseUrl)) {
+        throw new Error('No pages match the scan filters');
+      }
       // Fallback to just scanning the base URL
       console.log('[Scanner] No URLs found, falling back to base URL only');
       urls = [baseUrl];
@@ -180,6 +155,18 @@ export async function scanFullSite(
       scannedUrls: [],
       remainingUrls: urls,
       pageResults: [],
+      strategy: discoveryResult.strategy,
+      sourceCounts: discoveryResult.sourceCounts,
+      robots: discoveryResult.robots,
+      excludedCounts: countExclusions(discoveryResult.excluded),
+      filters: config?.filters,
+      languageParity: config?.languageParity,
+      languagePairs: config?.languageParity
+        ? findLanguagePairs(discoveryResult.entries, normalizeUrl)
+        : undefined,
+      jurisdiction: config?.jurisdiction,
+      scoringModel: config?.scoringModel,
+      organization: await loadOrganization(),
       startTime: new Date().toISOString(),
       lastUpdate: new Date().toISOString(),
     };
@@ -210,6 +197,8 @@ async function continueScanning(
 ): Promise<SiteReport> {
   try {
     const { remainingUrls, pageResults, baseUrl } = session;
+    // French counterparts are scanned wherever they live, even outside the filters
+    const urlFilter = session.parityExpanded ? undefined : createUrlFilter(session.filters);
 
     // Scan remaining pages
     for (let i = 0; i < remainingUrls.length; i++) {
@@ -230,7 +219,7 @@ async function continueScanning(
       const url = remainingUrls[i];
 
       // Skip non-scanneable URLs silently
-      if (!isScannableUrl(url)) {
+      if (!isScannableUrl(url, urlFilter)) {
         console.log(`Skipping non-scanneable URL: ${url}`);
         await updateScanSession({
           currentPage: session.scannedUrls.length + i + 1,
@@ -249,7 +238,7 @@ async function continueScanning(
       });
 
       try {
-        const result = await scanSinglePage(url);
+        const result = await scanSinglePage(url, session.jurisdiction, session.scoringModel);
         pageResults.push(result);
 
         // Update session after each page
@@ -263,6 +252,7 @@ async function continueScanning(
         // Log error but continue with other pages
         console.error(`Failed to scan ${url}:`, error);
         const errorResult: PageScanResult = {
+          schemaVersion: RESULT_SCHEMA_VERSION,
           url,
           score: 0,
           grade: 'F',
@@ -283,8 +273,14 @@ async function continueScanning(
         });
       }
 
-      // Small delay to avoid overwhelming the browser
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      // Small delay to avoid overwhelming the browser, or the site's crawl-delay if longer
+      await new Promise((resolve) => setTimeout(resolve, getPageDelay(session)));
+    }
+
+    // English pages are scanned; queue the French versions the audit still needs
+    if (session.languageParity && !session.parityExpanded) {
+      const expanded = await queueFrenchCounterparts(session, pageResults);
+      if (expanded) return continueScanning(expanded, progressCallback);
     }
 
     // Phase 3: Aggregate results
@@ -294,14 +290,31 @@ async function continueScanning(
       totalPages: session.totalPages,
     });
 
-    // Import strategy from discovery or default
-    const strategy = 'sitemap-crawl';
-    const report = aggregateResults(baseUrl, pageResults, strategy);
+    // Sessions saved before discovery attribution was recorded have no strategy
+    const strategy = session.strategy || 'sitemap-crawl';
+    const report = aggregateResults(
+      baseUrl,
+      pageResults,
+      strategy,
+      session.sourceCounts,
+      session.robots,
+      session.excludedCounts,
+      session.filters,
+      session.languageParity ? auditLanguageParity(pageResults, session.languagePairs) : undefined,
+      session.jurisdiction,
+      session.organization,
+      session.scoringModel
+    );
 
     await updateScanSession({
       status: 'complete',
     });
 
+    // Keep the report in the site's scan history for trends
+    await recordScan(snapshotSiteReport(report), report).catch((error) =>
+      console.warn('Could not record scan history:', error)
+    );
+
     progressCallback?.({
       status: 'complete',
       currentPage: session.totalPages,
@@ -331,17 +344,103 @@ async function continueScanning(
 }
 
 /**
- * Check if URL is scanneable (not XML, PDF, etc.)
+ * Queue the unscanned French counterparts of scanned English pages
+ * Counterparts that do not exist (or are off-site) are recorded as failed pages
+ * instead of being opened, so the parity audit reports them as missing. The rest
+ * are scanned even when the scan's URL filters leave them out (e.g. /fr/ pages
+ * of a scan limited to /en).
  */
-function isScannableUrl(url: string): boolean {
+async function queueFrenchCounterparts(
+  session: ScanSession,
+  pageResults: PageScanResult[]
+): Promise<ScanSession | null> {
+  const origin = new URL(session.baseUrl).origin;
+  const queued: string[] = [];
+
+  for (const url of findUnscannedCounterparts(pageResults, session.languagePairs)) {
+    const error = await checkPageExists(url, origin);
+    if (!error) {
+      queued.push(url);
+      continue;
+    }
+    pageResults.push({
+      schemaVersion: RESULT_SCHEMA_VERSION,
+      url,
+      score: 0,
+      grade: 'F',
+      violations: [],
+      passes: 0,
+      incomplete: 0,
+      timestamp: new Date().toISOString(),
+      error,
+    });
+  }
+
+  console.log(`[Scanner] Language parity: ${queued.length} French pages to scan`);
+
+  return updateScanSession({
+    parityExpanded: true,
+    totalPages: session.totalPages + queued.length,
+    scannedUrls: [...session.scannedUrls, ...session.remainingUrls],
+    remainingUrls: queued,
+    pageResults: [...pageResults],
+  });
+}
+
+/**
+ * Check that a page exists before opening it; returns the failure, if any
+ */
+async function checkPageExists(url: string, origin: string): Promise<string | undefined> {
+  try {
+    if (new URL(url).origin !== origin) return 'Outside the scanned site';
+    const response = await fetch(url, { method: 'HEAD' });
+    // Some servers refuse HEAD; only a missing page counts against the pair
+    return response.status === 404 || response.status === 410
+      ? `HTTP ${response.status}`
+      : undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Summarize discovered-but-skipped URLs by reason (the full list can be thousands long)
+ */
+function countExclusions(
+  excluded: DiscoveryResult['excluded']
+): Partial<Record<ExclusionReason, number>> {
+  const counts: Partial<Record<ExclusionReason, number>> = {};
+  for (const { reason } of excluded) {
+    counts[reason] = (counts[reason] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Delay between page scans in ms, honouring robots.txt Crawl-delay
+ */
+function getPageDelay(session: ScanSession): number {
+  const crawlDelay = session.robots?.respected ? session.robots.crawlDelay : undefined;
+  return Math.max(MIN_PAGE_DELAY_MS, (crawlDelay ?? 0) * 1000);
+}
+
+/**
+ * Check if URL is scanneable (not XML, PDF, etc.) and within the scan's URL filters
+ */
+function isScannableUrl(url: string, urlFilter?: UrlFilter): boolean {
   try {
+    if (urlFilter && !urlFilter.matches(url)) {
+      console.log(`[Scanner] Skipping URL outside scan filters: ${url}`);
+      return false;
+    }
+
     const urlObj = new URL(url);
     const pathname = urlObj.pathname.toLowerCase();
 
     // List of non-scanneable extensions
     const unscannable = ['.xml', '.pdf', '.jpg', '.jpeg', '.png', '.gif',
                         '.svg', '.json', '.css', '.js', '.rss', '.xsl',
-                        '.atom', '.mp4', '.mp3', '.zip', '.ico'];
+                        '.atom', '.mp4', '.mp3', '.zip', '.gz', '.ico'];
 
     // Check file extension
     for (const ext of unscannable) {
@@ -352,13 +451,17 @@ function isScannableUrl(url: string): boolean {
     }
 
     // Check if it's a sitemap (even if already filtered, double-check)
-    if (pathname.includes('sitemap') && pathname.endsWith('.xml')) {
+    if (pathname.includes('sitemap') && /\.xml(\.gz)?$/.test(pathname)) {
       console.log(`[Scanner] Skipping sitemap XML: ${url}`);
       return false;
     }
 
     // Check if URL contains feed keywords
-    if (pathname.includes('/feed/') || pathname.includes('rss')) {
+    if (
+      pathname.includes('/feed/') ||
+      /\/(feed|atom)$/.test(pathname) ||
+      pathname.includes('rss')
+    ) {
       console.log(`[Scanner] Skipping feed: ${url}`);
       return false;
     }
@@ -373,7 +476,12 @@ function isScannableUrl(url: string): boolean {
  * Scan a single page by creating a hidden tab
  * Includes retry logic and content script injection
  */
-async function scanSinglePage(url: string, retries = 2): Promise<PageScanResult> {
+async function scanSinglePage(
+  url: string,
+  jurisdiction?: JurisdictionId,
+  scoringModel?: ScoringModelId,
+  retries = 2
+): Promise<PageScanResult> {
   // Skip non-scanneable URLs
   if (!isScannableUrl(url)) {
     throw new Error('URL is not scanneable (XML, PDF, image, etc.)');
@@ -413,25 +521,36 @@ async function scanSinglePage(url: string, retries = 2): Promise<PageScanResult>
 
       // Send scan message to content script with timeout
       const response = await Promise.race([
-        chrome.tabs.sendMessage(tabId, { action: 'scan' }),
+        chrome.tabs.sendMessage(tabId, { action: 'scan', jurisdiction, scoringModel }),
         new Promise((_, reject) =>
           setTimeout(() => reject(new Error('Scan timeout')), 30000)
         ),
       ]);
 
-      // Import scoring functions dynamically
-      const { calculateScore } = await import('@moderna11y/scanner');
-      const scoreData = calculateScore(response);
+      if (response?.error) {
+        throw new Error(response.error);
+      }
+
+      const result = parseScanResult(response);
+
+      const scoreData =
+        result.score ??
+        scorePage(scoringModel ?? DEFAULT_SCORING_MODEL, result, {
+          jurisdiction: getJurisdiction(jurisdiction),
+        });
 
       return {
+        schemaVersion: RESULT_SCHEMA_VERSION,
         url,
         score: scoreData.score,
         grade: scoreData.grade,
-        violations: response.violations || [],
-        passes: response.passes || 0,
-        incomplete: response.incomplete || 0,
-        bilingualCheck: response.bilingualCheck,
-        timestamp: new Date().toISOString(),
+        violations: result.violations,
+        passes: result.passes,
+        incomplete: result.incomplete,
+        bilingualCheck: result.bilingualCheck,
+        structure: result.structure,
+        jurisdiction: result.jurisdiction,
+        timestamp: result.timestamp,
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown scan error');
@@ -518,72 +637,61 @@ function waitForTabLoad(tabId: number): Promise<void> {
 function aggregateResults(
   baseUrl: string,
   pageResults: PageScanResult[],
-  strategy: string
+  strategy: string,
+  sourceCounts?: SiteReport['sourceCounts'],
+  robots?: SiteReport['robots'],
+  excludedCounts?: SiteReport['excludedCounts'],
+  filters?: SiteReport['filters'],
+  parity?: SiteReport['parity'],
+  jurisdiction?: JurisdictionId,
+  organization?: Organization,
+  scoringModel: ScoringModelId = DEFAULT_SCORING_MODEL
 ): SiteReport {
   const validResults = pageResults.filter((r) => !r.error);
 
-  // Calculate average score
-  const avgScore =
-    validResults.length > 0
-      ? Math.round(validResults.reduce((sum, r) => sum + r.score, 0) / validResults.length)
-      : 0;
-
-  // Determine overall grade
-  const { getGrade } = require('@moderna11y/scanner');
-  const grade = getGrade(avgScore);
-
-  // Find top violations (most frequent across all pages)
-  const violationFrequency = new Map<
-    string,
-    { count: number; description: string; impact: string }
-  >();
-
-  for (const page of validResults) {
-    for (const violation of page.violations) {
-      const existing = violationFrequency.get(violation.id);
-      if (existing) {
-        existing.count++;
-      } else {
-        violationFrequency.set(violation.id, {
-          count: 1,
-          description: violation.description || violation.help || violation.id,
-          impact: violation.impact || 'unknown',
-        });
-      }
-    }
-  }
+  // Site score, compliance and rule reach, with templated pages counted once and
+  // key pages weighted more
+  const profile = getJurisdiction(jurisdiction);
+  const site = scoreSitePages(validResults, { model: scoringModel, jurisdiction: profile });
+
+  // Issues repeated across pages (headers, footers, navigation) are fixed once
+  const sharedComponents = findSharedComponents(validResults);
+  const effort = estimateEffort(validResults);
 
-  const topViolations = Array.from(violationFrequency.entries())
-    .map(([ruleId, data]) => ({
-      ruleId,
-      description: data.description,
-      frequency: data.count,
-      impact: data.impact,
-    }))
-    .sort((a, b) => b.frequency - a.frequency)
-    .slice(0, 10);
-
-  // Calculate total estimated fix time
-  const estimatedFixTime = validResults.reduce((sum, page) => {
-    return sum + page.violations.reduce((vSum, v) => vSum + (v.fixTime || 0), 0);
-  }, 0);
-
-  // Calculate compliance rate (pages scoring 90+)
-  const compliantPages = validResults.filter((r) => r.score >= 90).length;
-  const complianceRate =
-    validResults.length > 0 ? Math.round((compliantPages / validResults.length) * 100) : 0;
+  // Which IASR requirements apply, by when, and how many violations fall under each (AODA only)
+  const obligations =
+    organization && profile.id === 'ontario'
+      ? summarizeObligations(
+          validResults.flatMap((page) => page.violations),
+          organization
+        )
+      : undefined;
 
   return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
     baseUrl,
     totalPages: pageResults.length,
     scannedPages: validResults.length,
-    avgScore,
-    grade,
+    avgScore: site.score,
+    grade: site.grade,
     pageResults,
-    topViolations,
-    estimatedFixTime: Math.round(estimatedFixTime),
-    complianceRate,
+    topViolations: site.topViolations,
+    estimatedFixTime: effort.minutes,
+    effort,
+    complianceRate: site.complianceRate,
     timestamp: new Date().toISOString(),
     strategy,
+    sourceCounts,
+    robots,
+    excludedCounts,
+    filters,
+    parity,
+    jurisdiction,
+    scoringModel: site.model,
+    templates: site.templates,
+    systemicRules: site.systemicRules,
+    sharedComponents,
+    organization: obligations && organization,
+    obligations,
   };
 }
@@ -5,7 +5,16 @@
  * Runs axe-core in an offscreen document for true headless scanning
  */
 
-import type { PageScanResult } from './multi-page-scanner';
+import {
+  DEFAULT_SCORING_MODEL,
+  type JurisdictionId,
+  type PageScanResult,
+  RESULT_SCHEMA_VERSION,
+  type ScoringModelId,
+  getJurisdiction,
+  parseScanResult,
+  scorePage,
+} from '@moderna11y/scanner';
 
 let offscreenDocumentCreated = false;
 
@@ -52,7 +61,12 @@ async function ensureOffscreenDocument(): Promise<void> {
 /**
  * Scan a single page headlessly (no tab opening)
  */
-export async function scanPageHeadless(url: string, retries = 2): Promise<PageScanResult> {
+export async function scanPageHeadless(
+  url: string,
+  jurisdiction?: JurisdictionId,
+  scoringModel: ScoringModelId = DEFAULT_SCORING_MODEL,
+  retries = 2
+): Promise<PageScanResult> {
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= retries; attempt++) {
@@ -65,25 +79,30 @@ export async function scanPageHeadless(url: string, retries = 2): Promise<PageSc
         target: 'offscreen',
         action: 'scanUrl',
         url,
+        jurisdiction,
       });
 
       if (response.error) {
         throw new Error(response.error);
       }
 
-      // Import scoring functions
-      const { calculateScore } = await import('@moderna11y/scanner');
-      const scoreData = calculateScore(response.result);
+      const result = parseScanResult(response.result);
+      const scoreData = scorePage(scoringModel, result, {
+        jurisdiction: getJurisdiction(jurisdiction),
+      });
 
       return {
+        schemaVersion: RESULT_SCHEMA_VERSION,
         url,
         score: scoreData.score,
         grade: scoreData.grade,
-        violations: response.result.violations || [],
-        passes: response.result.passes || 0,
-        incomplete: response.result.incomplete || 0,
-        bilingualCheck: response.result.bilingualCheck,
-        timestamp: new Date().toISOString(),
+        violations: result.violations,
+        passes: result.passes,
+        incomplete: result.incomplete,
+        bilingualCheck: result.bilingualCheck,
+        structure: result.structure,
+        jurisdiction: result.jurisdiction,
+        timestamp: result.timestamp,
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown scan error');
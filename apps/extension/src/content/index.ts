@@ -1,159 +1,99 @@
-import { type ScanScore, calculateScore, getAODAMapping } from '@moderna11y/scanner';
+import {
+  type IncompleteResult,
+  ONTARIO_AXE_SPEC,
+  type ScanResult,
+  type Violation,
+  analyzeBilingualDocument,
+  applyJurisdiction,
+  applyObligations,
+  buildCoverageReport,
+  checkLanguageToggles,
+  collectPageStructure,
+  configureRulePack,
+  createScanResult,
+  expectsLanguageToggle,
+  getAODAMapping,
+  getJurisdiction,
+  getJurisdictionCriteria,
+  getRuleCriteria,
+  getScoringModel,
+  resetRulePack,
+  scorePage,
+} from '@moderna11y/scanner';
 import axe from 'axe-core';
+import { loadOrganization, loadRuleOverrides } from '../utils/storage';
+
+// Ontario IASR rules (feedback, accessible formats, ...) run alongside the stock rules
+axe.configure(ONTARIO_AXE_SPEC);
 
 // ============================================
 // TYPES
 // ============================================
 
-interface BilingualCheck {
-  hasLangAttribute: boolean;
-  isBilingual: boolean;
-  detectedLanguages: string[];
-  hasLanguageToggle: boolean;
-  hasFrenchContent: boolean;
-  isOntarioGov: boolean;
-  languageToggles: number;
-}
-
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
-}
-
-interface EnhancedViolation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-  nodes: ViolationNode[];
-}
-
-interface ScanResponse {
-  violations: EnhancedViolation[];
-  passes: number;
-  incomplete: number;
-  timestamp: string;
-  bilingualCheck: BilingualCheck;
-  score?: ScanScore;
-  error?: string;
-}
+// Failed scans carry only the error; the popup and site scanner check it before validating
+type ScanResponse = ScanResult | { error: string };
 
 // ============================================
-// BILINGUAL DETECTION
+// ACCESSIBILITY SCAN
 // ============================================
 
-const checkBilingualSupport = (): BilingualCheck => {
-  const htmlLang = document.documentElement.lang;
-  const hasLangAttribute = !!htmlLang;
-
-  // Check for language toggles (more specific patterns to avoid false matches)
-  const languageToggles = document.querySelectorAll(
-    'a[href$="/fr"], a[href$="/en"], a[href*="/fr/"], a[href*="/en/"], button[aria-label*="French"], button[aria-label*="Français"], button[aria-label*="English"], [class*="language-toggle"], [id*="language-toggle"], [data-lang]'
-  );
-
-  // Check for substantial French content (requires multiple keywords)
-  const bodyText = document.body.innerText.toLowerCase();
-
-  // French UI keywords
-  const frenchUIWords = [
-    'accueil',
-    'à propos',
-    'contactez',
-    'recherche',
-    'services',
-    'politique',
-    'confidentialité',
-  ];
-  const uiWordsFound = frenchUIWords.filter((word) => bodyText.includes(word)).length;
-
-  // French structural words
-  const frenchStructuralWords = ['bienvenue', 'français', 'langue'];
-  const structuralWordsFound = frenchStructuralWords.filter((word) =>
-    bodyText.includes(word)
-  ).length;
-
-  // Require multiple keywords (at least 3 UI words OR 2+ structural words)
-  const hasFrenchContent = uiWordsFound >= 3 || structuralWordsFound >= 2;
-
-  // Check for multiple lang attributes
-  const elementsWithLang = document.querySelectorAll('[lang]');
-  const languages = new Set<string>();
-
-  for (const el of elementsWithLang) {
-    const lang = el.getAttribute('lang');
-    if (lang) {
-      languages.add(lang.substring(0, 2).toLowerCase());
+const applyRuleOverrides = async (): Promise<void> => {
+  try {
+    const info = configureRulePack(await loadRuleOverrides());
+    if (info.overrides.length > 0) {
+      console.log(
+        `📋 Rule pack ${info.id}@${info.version} with overrides:`,
+        info.overrides.map((pack) => `${pack.id}@${pack.version}`).join(', ')
+      );
     }
+  } catch (error) {
+    // A broken override pack must not block scanning; fall back to the base pack
+    console.error('Invalid rule overrides, using base rule pack:', error);
+    resetRulePack();
   }
-
-  // Check if it's an Ontario government site
-  const isOntarioGov =
-    window.location.hostname.includes('ontario.ca') ||
-    window.location.hostname.includes('.on.ca') ||
-    window.location.hostname.includes('.gc.ca') ||
-    window.location.hostname.includes('.gouv.qc.ca');
-
-  // Strict bilingual detection
-  const hasEnglish = languages.has('en');
-  const hasFrench = languages.has('fr');
-
-  // PRIMARY: Both lang attributes present
-  const isBilingual =
-    (hasEnglish && hasFrench) ||
-    // SECONDARY: Government sites with toggle AND substantial French content
-    (isOntarioGov && languageToggles.length > 0 && hasFrenchContent);
-
-  return {
-    hasLangAttribute,
-    isBilingual,
-    detectedLanguages: Array.from(languages),
-    hasLanguageToggle: languageToggles.length > 0,
-    hasFrenchContent,
-    isOntarioGov,
-    languageToggles: languageToggles.length,
-  };
 };
 
-// ============================================
-// ACCESSIBILITY SCAN
-// ============================================
-
-const runAccessibilityScan = async (): Promise<ScanResponse> => {
-  console.log('🔍 Running AODA accessibility scan...');
+const runAccessibilityScan = async (
+  jurisdictionId?: string,
+  scoringModelId?: string
+): Promise<ScanResponse> => {
+  const jurisdiction = getJurisdiction(jurisdictionId);
+  const scoringModel = getScoringModel(scoringModelId);
+  console.log(`🔍 Running accessibility scan (${jurisdiction.name}, ${scoringModel.name})...`);
 
   try {
+    // Apply the organization's rule overrides (severities, fix times, sections)
+    await applyRuleOverrides();
+
     // Run axe-core scan
     const results = await axe.run(document, {
       runOnly: {
         type: 'tag',
-        values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'],
+        values: jurisdiction.axeTags,
       },
     });
 
     // Run bilingual check
-    const bilingualCheck = checkBilingualSupport();
+    const bilingualCheck = analyzeBilingualDocument(document, window.location.href, jurisdiction);
+
+    // Record what the English/French parity audit compares between page versions
+    const structure = collectPageStructure(document, window.location.href);
 
     // Enhance violations with AODA data
-    const enhancedViolations = results.violations.map((violation) => {
+    const enhancedViolations = results.violations.map((violation): Violation => {
       const aodaData = getAODAMapping(violation.id);
 
       return {
         id: violation.id,
-        impact: (violation.impact || 'moderate') as 'critical' | 'serious' | 'moderate' | 'minor',
+        impact: aodaData?.impact ?? ((violation.impact || 'moderate') as Violation['impact']),
         description: violation.description,
         help: violation.help,
         helpUrl: violation.helpUrl,
         wcagCriterion: aodaData?.wcagCriterion,
+        wcagLevel: aodaData?.wcagLevel,
         aodaSection: aodaData?.aodaSection,
         penalty: aodaData?.penalty,
-        fixTime: aodaData?.estimatedFixTime,
+        estimatedFixTime: aodaData?.estimatedFixTime,
         affectedUsers: aodaData?.affectedUsers,
         nodes: violation.nodes.map((node) => ({
           html: node.html,
@@ -167,39 +107,74 @@ const runAccessibilityScan = async (): Promise<ScanResponse> => {
       };
     });
 
-    // Calculate AODA score
-    const scoreData = calculateScore({
-      violations: enhancedViolations,
-      passes: results.passes.length,
-      incomplete: results.incomplete.length,
-      bilingualCheck,
+    // Ontario rules for the English/French toggle, reported alongside the axe-core results
+    // (only where the jurisdiction has two official languages)
+    const toggleCheck = expectsLanguageToggle(jurisdiction)
+      ? checkLanguageToggles(document, window.location.href)
+      : { violations: [], passes: 0 };
+    enhancedViolations.push(...toggleCheck.violations);
+    const passes = results.passes.length + toggleCheck.passes;
+    const cited = applyJurisdiction(enhancedViolations, jurisdiction);
+
+    // Deadlines and penalty ranges for the organization's type and size (AODA only)
+    const organization = jurisdiction.id === 'ontario' ? await loadOrganization() : undefined;
+    const violations = organization ? applyObligations(cited, organization) : cited;
+
+    // Keep results axe-core could not decide, with their nodes, for manual review
+    const incompleteResults: IncompleteResult[] = results.incomplete.map((result) => ({
+      id: result.id,
+      description: result.description,
+      help: result.help,
+      helpUrl: result.helpUrl,
+      impact: result.impact ?? undefined,
+      criteria: getRuleCriteria(result),
+      nodes: result.nodes.map((node) => ({
+        html: node.html,
+        target: node.target.map(String),
+        failureSummary: node.failureSummary || '',
+      })),
+    }));
+
+    // Calculate AODA score with the selected model
+    const scoreData = scorePage(
+      scoringModel.id,
+      {
+        violations,
+        passes,
+        incomplete: results.incomplete.length,
+        bilingualCheck,
+      },
+      { jurisdiction }
+    );
+
+    // Which WCAG criteria passed, failed, need manual review or were never tested
+    const coverage = buildCoverageReport(results, {
+      criteria: getJurisdictionCriteria(jurisdiction),
     });
 
     console.log('✅ Scan complete:', {
-      violations: enhancedViolations.length,
+      violations: violations.length,
       bilingual: bilingualCheck.isBilingual,
       score: scoreData.score,
       grade: scoreData.grade,
     });
 
-    return {
-      violations: enhancedViolations,
-      passes: results.passes.length,
-      incomplete: results.incomplete.length,
+    return createScanResult({
+      url: window.location.href,
       timestamp: new Date().toISOString(),
+      violations,
+      passes,
+      incomplete: results.incomplete.length,
+      incompleteResults,
       bilingualCheck,
+      structure,
       score: scoreData,
-    };
+      coverage,
+      jurisdiction: jurisdiction.id,
+    });
   } catch (error) {
     console.error('❌ Scan failed:', error);
-    return {
-      violations: [],
-      passes: 0,
-      incomplete: 0,
-      timestamp: new Date().toISOString(),
-      bilingualCheck: checkBilingualSupport(),
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    };
+    return { error: error instanceof Error ? error.message : 'Unknown error occurred' };
   }
 };
 
@@ -215,18 +190,11 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 
   if (request.action === 'scan') {
-    runAccessibilityScan()
+    runAccessibilityScan(request.jurisdiction, request.scoringModel)
       .then(sendResponse)
       .catch((error) => {
         console.error('Scan error:', error);
-        sendResponse({
-          error: error.message,
-          violations: [],
-          passes: 0,
-          incomplete: 0,
-          timestamp: new Date().toISOString(),
-          bilingualCheck: checkBilingualSupport(),
-        });
+        sendResponse({ error: error.message });
       });
     return true; // Keep message channel open for async response
   }
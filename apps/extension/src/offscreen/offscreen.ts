@@ -5,12 +5,26 @@
  * Fetches HTML, loads it into DOM, runs axe-core
  */
 
+import {
+  ONTARIO_AXE_SPEC,
+  type ScanResult,
+  analyzeBilingualDocument,
+  checkLanguageToggles,
+  collectPageStructure,
+  createScanResult,
+  expectsLanguageToggle,
+  getJurisdiction,
+} from '@moderna11y/scanner';
 import axe from 'axe-core';
 
+// Ontario IASR rules (feedback, accessible formats, ...) run alongside the stock rules
+axe.configure(ONTARIO_AXE_SPEC);
+
 /**
  * Fetch and scan a URL
  */
-async function scanUrl(url: string): Promise<any> {
+async function scanUrl(url: string, jurisdictionId?: string): Promise<ScanResult> {
+  const jurisdiction = getJurisdiction(jurisdictionId);
   try {
     console.log(`[Offscreen] Fetching ${url}`);
 
@@ -49,10 +63,17 @@ async function scanUrl(url: string): Promise<any> {
       resultTypes: ['violations', 'passes', 'incomplete'],
       runOnly: {
         type: 'tag',
-        values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'],
+        values: [...jurisdiction.axeTags, 'best-practice'],
       },
     });
 
+    // Check for bilingual support on the parsed document, as the content script does
+    const bilingualCheck = analyzeBilingualDocument(iframeDoc, url, jurisdiction);
+    const structure = collectPageStructure(iframeDoc, url);
+    const toggleCheck = expectsLanguageToggle(jurisdiction)
+      ? checkLanguageToggles(iframeDoc, url)
+      : { violations: [], passes: 0 };
+
     // Cleanup iframe
     document.body.removeChild(iframe);
 
@@ -69,49 +90,27 @@ async function scanUrl(url: string): Promise<any> {
       helpUrl: violation.helpUrl,
       nodes: violation.nodes.map((node) => ({
         html: node.html,
-        target: node.target,
+        target: node.target.map(String),
         failureSummary: node.failureSummary || '',
       })),
     }));
 
-    // Check for bilingual support (basic check on HTML content)
-    const bilingualCheck = checkBilingualSupport(html, url);
-
-    return {
-      violations: enhancedViolations,
-      passes: results.passes.length,
+    return createScanResult({
+      url,
+      timestamp: new Date().toISOString(),
+      violations: [...enhancedViolations, ...toggleCheck.violations],
+      passes: results.passes.length + toggleCheck.passes,
       incomplete: results.incomplete.length,
       bilingualCheck,
-    };
+      structure,
+      jurisdiction: jurisdiction.id,
+    });
   } catch (error) {
     console.error(`[Offscreen] Scan error for ${url}:`, error);
     throw error;
   }
 }
 
-/**
- * Basic bilingual support check
- */
-function checkBilingualSupport(html: string, url: string): any {
-  const hasLangAttribute = /lang=["'](en|fr)["']/i.test(html);
-  const hasFrenchContent =
-    /français|french/i.test(html) || html.toLowerCase().includes('lang="fr"');
-  const hasLanguageToggle =
-    /(toggle|switch|changer).*lang/i.test(html) ||
-    /lang.*(toggle|switch|changer)/i.test(html);
-  const isOntarioGov = /\.ontario\.ca|\.on\.ca/i.test(url);
-
-  return {
-    hasLangAttribute,
-    isBilingual: hasLangAttribute && hasFrenchContent,
-    detectedLanguages: hasLangAttribute ? ['en', 'fr'] : ['en'],
-    hasLanguageToggle,
-    hasFrenchContent,
-    isOntarioGov,
-    languageToggles: hasLanguageToggle ? 1 : 0,
-  };
-}
-
 /**
  * Message listener
  */
@@ -121,7 +120,7 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 
   if (request.action === 'scanUrl') {
-    scanUrl(request.url)
+    scanUrl(request.url, request.jurisdiction)
       .then((result) => {
         sendResponse({ success: true, result });
       })
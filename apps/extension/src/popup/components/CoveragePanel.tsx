@@ -0,0 +1,92 @@
+import type { CoverageReport, CoverageStatus } from '@moderna11y/scanner';
+import type React from 'react';
+import { useTranslation } from '../../utils/i18n';
+
+interface CoveragePanelProps {
+  coverage: CoverageReport;
+  onStartReview?: () => void;
+}
+
+const STATUS_ORDER: CoverageStatus[] = ['failed', 'manual', 'untested', 'passed', 'not-applicable'];
+
+const STATUS_LABELS: Record<CoverageStatus, string> = {
+  passed: 'coveragePassed',
+  failed: 'coverageFailed',
+  manual: 'coverageManual',
+  untested: 'coverageUntested',
+  'not-applicable': 'coverageNotApplicable',
+};
+
+const SUMMARY_KEYS: Record<CoverageStatus, keyof CoverageReport['summary']> = {
+  passed: 'passed',
+  failed: 'failed',
+  manual: 'manual',
+  untested: 'untested',
+  'not-applicable': 'notApplicable',
+};
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({ coverage, onStartReview }) => {
+  const { t } = useTranslation();
+  const { summary } = coverage;
+  const reviewed = coverage.criteria.filter((entry) => entry.review).length;
+
+  return (
+    <section className="coverage-bento" aria-labelledby="coverage-title">
+      <div className="coverage-header">
+        <h3 id="coverage-title" className="coverage-title">
+          {t('wcagCoverage')}
+        </h3>
+        <div className="coverage-subtitle">
+          {t('coverageSummary', [String(summary.passed + summary.failed), String(summary.total)])}
+          {reviewed > 0 && ` · ${t('manualReviewCount', [String(reviewed)])}`}
+        </div>
+      </div>
+
+      <div className="coverage-counts">
+        {STATUS_ORDER.filter(
+          (status) => status !== 'not-applicable' || summary.notApplicable > 0
+        ).map((status) => (
+          <div key={status} className={`coverage-count ${status}`}>
+            <div className="coverage-count-value">{summary[SUMMARY_KEYS[status]]}</div>
+            <div className="coverage-count-label">{t(STATUS_LABELS[status])}</div>
+          </div>
+        ))}
+      </div>
+
+      {onStartReview && summary.manual + summary.untested + reviewed > 0 && (
+        <button type="button" className="coverage-review-button" onClick={onStartReview}>
+          📝 {t('startManualReview')}
+        </button>
+      )}
+
+      <details className="coverage-details">
+        <summary>{t('coverageDetails')}</summary>
+        {STATUS_ORDER.map((status) => {
+          const entries = coverage.criteria.filter((entry) => entry.status === status);
+          if (entries.length === 0) return null;
+
+          return (
+            <div key={status} className="coverage-group">
+              <h4 className={`coverage-group-title ${status}`}>
+                {t(STATUS_LABELS[status])} ({entries.length})
+              </h4>
+              <ul>
+                {entries.map(({ criterion, review }) => (
+                  <li key={criterion.id}>
+                    <strong>{criterion.id}</strong> {criterion.title}{' '}
+                    <span className="coverage-level">({criterion.level})</span>
+                    {review && (
+                      <span className="coverage-reviewed"> · {t('manuallyReviewed')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </details>
+    </section>
+  );
+};
+
+export default CoveragePanel;
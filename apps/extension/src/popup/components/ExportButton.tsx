@@ -1,59 +1,78 @@
+import type {
+  CoverageReport,
+  CoverageStatus,
+  ManualReviewEntry,
+  ScanResult,
+} from '@moderna11y/scanner';
 import type React from 'react';
 import { useCallback } from 'react';
 import { useTranslation } from '../../utils/i18n';
 
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
+interface ExportButtonProps {
+  result: ScanResult;
 }
 
-interface EnhancedViolation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-  nodes: ViolationNode[];
-}
+const COVERAGE_LABELS: Record<CoverageStatus, string> = {
+  failed: '❌ Failed',
+  manual: '🔍 Manual review',
+  untested: '➖ Not tested',
+  passed: '✅ Passed',
+  'not-applicable': '⚪ Not applicable',
+};
 
-interface ScanResult {
-  url: string;
-  timestamp: string;
-  violations: EnhancedViolation[];
-  passes: number;
-  incomplete: number;
-  bilingualCheck?: {
-    isBilingual: boolean;
-    hasLangAttribute: boolean;
-    detectedLanguages: string[];
-  };
-  score?: {
-    score: number;
-    grade: string;
-    deductions: {
-      critical: number;
-      serious: number;
-      moderate: number;
-      minor: number;
-      total: number;
-    };
-    breakdown: {
-      passedChecks: number;
-      totalChecks: number;
-      violationCount: number;
-      elementCount: number;
-    };
-  };
+/**
+ * WCAG coverage table: every criterion IASR 14 requires, with its status
+ */
+function renderCoverageSection(coverage: CoverageReport, escapeHtml: (text: string) => string) {
+  const { summary } = coverage;
+  const order: CoverageStatus[] = ['failed', 'manual', 'untested', 'passed', 'not-applicable'];
+  const reviewed = coverage.criteria.filter((entry) => entry.review).length;
+  const rows = order
+    .flatMap((status) => coverage.criteria.filter((entry) => entry.status === status))
+    .map(
+      ({ criterion, status, review }) => `
+      <tr>
+        <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb;"><strong>${criterion.id}</strong> ${escapeHtml(criterion.title)}</td>
+        <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb;">${criterion.level}</td>
+        <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb;">${COVERAGE_LABELS[status]}${review ? ' (manual)' : ''}</td>
+        <td style="padding: 6px 8px; border-bottom: 1px solid #e5e7eb; font-size: 12px;">${review ? renderReviewNotes(review, escapeHtml) : ''}</td>
+      </tr>`
+    )
+    .join('');
+
+  return `
+  <div class="section">
+    <h2 class="section-title">🧭 WCAG 2.0 AA Coverage (IASR s.14)</h2>
+    <p style="margin-bottom: 12px;">
+      ${summary.passed} passed • ${summary.failed} failed • ${summary.manual} need manual review • ${summary.untested} not tested • ${summary.notApplicable} not applicable
+      (${summary.testedPercent}% of required criteria have a definitive result; ${reviewed} verified by manual review)
+    </p>
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+      <thead>
+        <tr style="text-align: left; background: #f9fafb;">
+          <th style="padding: 6px 8px;">Criterion</th>
+          <th style="padding: 6px 8px;">Level</th>
+          <th style="padding: 6px 8px;">Status</th>
+          <th style="padding: 6px 8px;">Auditor notes</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </div>`;
 }
 
-interface ExportButtonProps {
-  result: ScanResult;
+/**
+ * Auditor notes, evidence and review date for one criterion
+ */
+function renderReviewNotes(review: ManualReviewEntry, escapeHtml: (text: string) => string) {
+  const parts = [
+    review.notes ? escapeHtml(review.notes) : '',
+    review.evidence.length > 0
+      ? `<strong>Evidence:</strong> ${review.evidence.map(escapeHtml).join(', ')}`
+      : '',
+    `<span style="color: #6b7280;">Reviewed ${new Date(review.reviewedAt).toLocaleDateString()}</span>`,
+  ];
+  return parts.filter(Boolean).join('<br>');
 }
 
 const ExportButton: React.FC<ExportButtonProps> = ({ result }) => {
@@ -355,7 +374,11 @@ const ExportButton: React.FC<ExportButtonProps> = ({ result }) => {
     <div style="text-align: center; padding: 40px 20px; background: #d1fae5; border-radius: 12px; color: #065f46;">
       <div style="font-size: 48px; margin-bottom: 16px;">✨</div>
       <h3 style="font-size: 24px; margin-bottom: 8px;">Perfect! No Issues Found</h3>
-      <p style="font-size: 16px;">This page meets WCAG 2.0 Level AA accessibility standards.</p>
+      <p style="font-size: 16px;">${
+        result.coverage
+          ? `No automated checks failed. ${result.coverage.summary.manual + result.coverage.summary.untested} of ${result.coverage.summary.total} required criteria still need manual review.`
+          : 'This page meets WCAG 2.0 Level AA accessibility standards.'
+      }</p>
     </div>
   `
       : result.violations
@@ -380,6 +403,8 @@ const ExportButton: React.FC<ExportButtonProps> = ({ result }) => {
   }
   </div>
 
+  ${result.coverage ? renderCoverageSection(result.coverage, escapeHtml) : ''}
+
   <!-- Footer -->
   <div class="footer">
     <p><strong>Made with ❤️ by Nizar Amanchar for Canada</strong></p>
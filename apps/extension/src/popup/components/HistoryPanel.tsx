@@ -0,0 +1,144 @@
+import {
+  type ScanDiff,
+  type ScanSnapshot,
+  compareSnapshots,
+  detectRegressions,
+  diffScans,
+  getScoreTrend,
+  historyToCsv,
+  isComparable,
+  parseScanResult,
+  parseSiteReport,
+} from '@moderna11y/scanner';
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { type HistoryRecord, loadHistory, loadOriginHistory } from '../../utils/history';
+import { useTranslation } from '../../utils/i18n';
+import ScanChanges from './ScanChanges';
+
+interface HistoryPanelProps {
+  historyKey: string; // Page URL without its fragment, or the site's origin
+  kind: ScanSnapshot['kind'];
+  timestamp: string; // Scan on screen, compared with the comparable scan before it
+}
+
+// Scores shown in the trend bars
+const TREND_POINTS = 12;
+
+/**
+ * Diff the results kept with two history records (null when either no longer validates)
+ */
+const diffRecords = (previous: HistoryRecord, current: HistoryRecord): ScanDiff | null => {
+  const parse = current.kind === 'site' ? parseSiteReport : parseScanResult;
+  try {
+    return diffScans(parse(previous.result), parse(current.result));
+  } catch (error) {
+    console.warn('[History] Could not compare with the previous scan:', error);
+    return null;
+  }
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ historyKey, kind, timestamp }) => {
+  const { t } = useTranslation();
+  const [history, setHistory] = useState<HistoryRecord[]>([]);
+
+  useEffect(() => {
+    loadHistory(historyKey, kind)
+      .then(setHistory)
+      .catch((error) => console.warn('[History] Could not load scan history:', error));
+  }, [historyKey, kind]);
+
+  const summary = useMemo(() => {
+    const index = history.findIndex((record) => record.timestamp === timestamp);
+    if (index === -1) return null;
+    const current = history[index];
+    // Scans of another scope, model or jurisdiction are left out of the trend
+    const comparable = history
+      .slice(0, index + 1)
+      .filter((record) => isComparable(record, current));
+    const previous = comparable[comparable.length - 2];
+    if (!previous) return null;
+    return {
+      trend: getScoreTrend(comparable),
+      changes: compareSnapshots(previous, current),
+      diff: diffRecords(previous, current),
+      regressions: detectRegressions(previous, current),
+    };
+  }, [history, timestamp]);
+
+  const handleExportCsv = async () => {
+    const origin = history[0]?.origin ?? historyKey;
+    const csv = historyToCsv(await loadOriginHistory(origin));
+    const link = document.createElement('a');
+    link.href = `data:text/csv;charset=utf-8,${encodeURIComponent(csv)}`;
+    link.download = `scan-history-${new URL(origin).hostname}.csv`;
+    link.click();
+  };
+
+  if (!summary) return null;
+  const { trend, changes, diff, regressions } = summary;
+
+  return (
+    <section className="history-bento" aria-labelledby="history-title">
+      <div className="history-header">
+        <h3 id="history-title" className="history-title">
+          {t('scanHistory')}
+        </h3>
+        <div className="history-subtitle">
+          {t('scoreTrend', [
+            `${trend.change > 0 ? '+' : ''}${trend.change}`,
+            String(trend.points.length),
+          ])}
+        </div>
+      </div>
+
+      {regressions.length > 0 && (
+        <div className="regression-alert" role="alert">
+          <strong>⚠️ {t('regression')}</strong>
+          <ul>
+            {regressions.map((regression) => (
+              <li key={regression.kind}>
+                {regression.kind === 'score-drop' &&
+                  t('regressionScoreDrop', [String(regression.points)])}
+                {regression.kind === 'compliance-lost' &&
+                  t('regressionComplianceLost', [String(regression.score)])}
+                {regression.kind === 'new-blockers' &&
+                  t('regressionNewBlockers', [regression.ruleIds.join(', ')])}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="history-trend" aria-hidden="true">
+        {trend.points.slice(-TREND_POINTS).map((point) => (
+          <div
+            key={point.timestamp}
+            className="history-bar"
+            style={{ height: `${Math.max(point.score, 4)}%` }}
+            title={`${new Date(point.timestamp).toLocaleDateString()}: ${point.score}`}
+          />
+        ))}
+      </div>
+
+      {diff ? (
+        <ScanChanges diff={diff} />
+      ) : (
+        <div className="history-changes">
+          <span className="history-introduced">
+            {t('introducedCount', [String(changes.introduced.length)])}
+          </span>
+          <span className="history-resolved">
+            {t('resolvedCount', [String(changes.resolved.length)])}
+          </span>
+        </div>
+      )}
+
+      <button type="button" className="history-export-button" onClick={handleExportCsv}>
+        📈 {t('exportHistory')}
+      </button>
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,307 @@
+import {
+  type CoverageReport,
+  type ImpactLevel,
+  type IncompleteResult,
+  type ManualReview,
+  type ManualReviewEntry,
+  type ReviewDecision,
+  createManualReview,
+  type ReviewItem,
+  getReviewQueue,
+  recordReviewDecision,
+} from '@moderna11y/scanner';
+import type React from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from '../../utils/i18n';
+
+interface ManualReviewModalProps {
+  url: string;
+  coverage: CoverageReport; // Automated coverage, before review decisions
+  incompleteResults: IncompleteResult[];
+  review: ManualReview | null;
+  onChange: (review: ManualReview) => void;
+  onClose: () => void;
+}
+
+const DECISIONS: Array<{ value: ReviewDecision; label: string }> = [
+  { value: 'pass', label: 'reviewPass' },
+  { value: 'fail', label: 'reviewFail' },
+  { value: 'not-applicable', label: 'reviewNotApplicable' },
+];
+
+const IMPACTS: ImpactLevel[] = ['critical', 'serious', 'moderate', 'minor'];
+
+interface ReviewStepProps {
+  item: ReviewItem;
+  existing?: ManualReviewEntry;
+  canGoBack: boolean;
+  onSave: (entry: Pick<ManualReviewEntry, 'decision' | 'impact' | 'notes' | 'evidence'>) => void;
+  onPrevious: () => void;
+  onSkip: () => void;
+}
+
+/**
+ * One criterion of the guided review; remounted per criterion so the form starts
+ * from that criterion's stored decision
+ */
+const ReviewStep: React.FC<ReviewStepProps> = ({
+  item,
+  existing,
+  canGoBack,
+  onSave,
+  onPrevious,
+  onSkip,
+}) => {
+  const { t } = useTranslation();
+  const [decision, setDecision] = useState<ReviewDecision | null>(existing?.decision ?? null);
+  const [impact, setImpact] = useState<ImpactLevel>(existing?.impact ?? 'serious');
+  const [notes, setNotes] = useState(existing?.notes ?? '');
+  const [evidence, setEvidence] = useState(existing?.evidence.join('\n') ?? '');
+  const { criterion } = item.coverage;
+
+  const handleSave = () => {
+    if (!decision) return;
+    onSave({
+      decision,
+      impact,
+      notes: notes.trim(),
+      evidence: evidence
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean),
+    });
+  };
+
+  return (
+    <>
+      <div className="modal-section">
+        <strong>
+          {criterion.id} {criterion.title}
+        </strong>{' '}
+        ({criterion.level})
+        <div className="review-hint">
+          {item.coverage.status === 'untested' ? t('reviewHintUntested') : t('reviewHintManual')}
+        </div>
+      </div>
+
+      {item.incomplete.length > 0 && (
+        <div className="modal-section">
+          <strong>{t('reviewAutomatedFindings')}</strong>
+          {item.incomplete.map((result) => (
+            <div key={result.id} className="review-finding">
+              <div>{result.help}</div>
+              <ul>
+                {result.nodes.slice(0, 5).map((node) => (
+                  <li key={node.target.join(' ')}>
+                    <code>{node.target.join(' ')}</code>
+                  </li>
+                ))}
+              </ul>
+              {result.nodes.length > 5 && (
+                <div className="review-hint">
+                  {t('reviewMoreElements', [String(result.nodes.length - 5)])}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <fieldset className="modal-section review-decision">
+        <legend>{t('reviewDecision')}</legend>
+        {DECISIONS.map((option) => (
+          <label key={option.value} className="review-option">
+            <input
+              type="radio"
+              name="review-decision"
+              value={option.value}
+              checked={decision === option.value}
+              onChange={() => setDecision(option.value)}
+            />
+            {t(option.label)}
+          </label>
+        ))}
+      </fieldset>
+
+      {decision === 'fail' && (
+        <div className="modal-section">
+          <label htmlFor="review-impact" className="review-label">
+            {t('reviewImpact')}
+          </label>
+          <select
+            id="review-impact"
+            value={impact}
+            onChange={(e) => setImpact(e.target.value as ImpactLevel)}
+          >
+            {IMPACTS.map((level) => (
+              <option key={level} value={level}>
+                {t(level)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="modal-section">
+        <label htmlFor="review-notes" className="review-label">
+          {t('reviewNotes')}
+        </label>
+        <textarea
+          id="review-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+        />
+      </div>
+
+      <div className="modal-section">
+        <label htmlFor="review-evidence" className="review-label">
+          {t('reviewEvidence')}
+        </label>
+        <textarea
+          id="review-evidence"
+          value={evidence}
+          onChange={(e) => setEvidence(e.target.value)}
+          rows={2}
+          placeholder={t('reviewEvidencePlaceholder')}
+        />
+      </div>
+
+      <div className="review-actions">
+        <button
+          type="button"
+          className="modal-close-button secondary"
+          onClick={onPrevious}
+          disabled={!canGoBack}
+        >
+          ← {t('previous')}
+        </button>
+        <button type="button" className="modal-close-button secondary" onClick={onSkip}>
+          {t('skip')}
+        </button>
+        <button
+          type="button"
+          className="modal-close-button"
+          onClick={handleSave}
+          disabled={!decision}
+        >
+          {t('saveAndNext')} →
+        </button>
+      </div>
+    </>
+  );
+};
+
+const ManualReviewModal: React.FC<ManualReviewModalProps> = ({
+  url,
+  coverage,
+  incompleteResults,
+  review,
+  onChange,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const modalRef = useRef<HTMLDialogElement>(null);
+  const queue = useMemo(
+    () => getReviewQueue(coverage, incompleteResults),
+    [coverage, incompleteResults]
+  );
+  const [index, setIndex] = useState(() => {
+    // Resume at the first criterion without a decision
+    const next = queue.findIndex((item) => !review?.entries[item.coverage.criterion.id]);
+    return next === -1 ? 0 : next;
+  });
+
+  useEffect(() => {
+    if (modalRef.current) {
+      modalRef.current.focus();
+    }
+  }, []);
+
+  const item = queue[index];
+  const reviewedCount = queue.filter(
+    (entry) => review?.entries[entry.coverage.criterion.id]
+  ).length;
+
+  const goTo = (next: number) => {
+    if (next >= queue.length) {
+      onClose();
+      return;
+    }
+    setIndex(Math.max(0, next));
+  };
+
+  const handleSave = (
+    entry: Pick<ManualReviewEntry, 'decision' | 'impact' | 'notes' | 'evidence'>
+  ) => {
+    if (!item) return;
+    onChange(
+      recordReviewDecision(review ?? createManualReview(url), {
+        criterionId: item.coverage.criterion.id,
+        ...entry,
+      })
+    );
+    goTo(index + 1);
+  };
+
+  const handleOverlayClick = (e: React.MouseEvent | React.KeyboardEvent) => {
+    if (e.type === 'click' || (e as React.KeyboardEvent).key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleContentClick = (e: React.MouseEvent | React.KeyboardEvent) => {
+    e.stopPropagation();
+    if ((e as React.KeyboardEvent).key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={handleOverlayClick} onKeyDown={handleOverlayClick}>
+      <dialog
+        ref={modalRef}
+        className="modal-content"
+        onClick={handleContentClick}
+        onKeyDown={handleContentClick}
+        open
+        aria-labelledby="review-title"
+      >
+        <div className="modal-header">
+          <h3 id="review-title" className="modal-title">
+            {t('manualReview')}
+          </h3>
+          {item && (
+            <div className="review-progress">
+              {t('reviewProgress', [
+                String(index + 1),
+                String(queue.length),
+                String(reviewedCount),
+              ])}
+            </div>
+          )}
+        </div>
+
+        {item ? (
+          <ReviewStep
+            key={item.coverage.criterion.id}
+            item={item}
+            existing={review?.entries[item.coverage.criterion.id]}
+            canGoBack={index > 0}
+            onSave={handleSave}
+            onPrevious={() => goTo(index - 1)}
+            onSkip={() => goTo(index + 1)}
+          />
+        ) : (
+          <div className="modal-section">{t('reviewNothingToReview')}</div>
+        )}
+
+        <button type="button" onClick={onClose} className="modal-close-button secondary">
+          {t('close')}
+        </button>
+      </dialog>
+    </div>
+  );
+};
+
+export default ManualReviewModal;
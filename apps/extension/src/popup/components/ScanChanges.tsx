@@ -0,0 +1,104 @@
+import type { DiffStatus, ScanDiff, ScoreAttribution } from '@moderna11y/scanner';
+import type React from 'react';
+import { useTranslation } from '../../utils/i18n';
+
+interface ScanChangesProps {
+  diff: ScanDiff;
+}
+
+// Score attributions listed under the counts
+const TOP_ATTRIBUTIONS = 3;
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  new: 'diffNew',
+  fixed: 'diffFixed',
+  persisting: 'diffPersisting',
+  'changed-severity': 'diffChangedSeverity',
+};
+
+const formatPoints = (points: number) => `${points > 0 ? '+' : ''}${Math.round(points * 10) / 10}`;
+
+const pathOf = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+const ScanChanges: React.FC<ScanChangesProps> = ({ diff }) => {
+  const { t } = useTranslation();
+  const { counts } = diff;
+
+  const attributionLabel = (attribution: ScoreAttribution) => {
+    if (attribution.source === 'other' || !attribution.id) return t('otherChanges');
+    return attribution.source === 'page' ? pathOf(attribution.id) : attribution.id;
+  };
+
+  // Pages in both scans with rules that gained, lost or changed elements
+  const changedPages = diff.pages
+    .filter((page) => page.status === 'compared')
+    .map((page) => ({
+      ...page,
+      rules: page.rules.filter(
+        (rule) => rule.status !== 'persisting' || rule.counts.new + rule.counts.fixed > 0
+      ),
+    }))
+    .filter((page) => page.rules.length > 0);
+
+  return (
+    <div className="scan-changes">
+      <h4 className="scan-changes-title">
+        {t('changesSinceLastScan')} ({formatPoints(diff.score.delta)})
+      </h4>
+
+      <div className="history-changes">
+        <span className="history-introduced">{t('introducedCount', [String(counts.new)])}</span>
+        <span className="history-resolved">{t('resolvedCount', [String(counts.fixed)])}</span>
+        <span>{t('persistingCount', [String(counts.persisting)])}</span>
+        {counts.changedSeverity > 0 && (
+          <span>{t('changedSeverityCount', [String(counts.changedSeverity)])}</span>
+        )}
+      </div>
+
+      {diff.attribution.length > 0 && (
+        <ul className="scan-attribution">
+          {diff.attribution.slice(0, TOP_ATTRIBUTIONS).map((attribution) => (
+            <li key={`${attribution.source}-${attribution.id ?? ''}`}>
+              <span className={attribution.points > 0 ? 'history-resolved' : 'history-introduced'}>
+                {formatPoints(attribution.points)}
+              </span>{' '}
+              {attributionLabel(attribution)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {changedPages.length > 0 && (
+        <details className="scan-changes-details">
+          <summary>{t('changeDetails')}</summary>
+          {changedPages.map((page) => (
+            <div key={page.url} className="scan-changes-page">
+              {diff.kind === 'site' && <h5>{pathOf(page.url)}</h5>}
+              <ul>
+                {page.rules.map((rule) => (
+                  <li key={rule.ruleId}>
+                    <span className={`diff-badge ${rule.status}`}>
+                      {t(STATUS_LABELS[rule.status])}
+                    </span>{' '}
+                    {rule.description}
+                    {rule.status === 'changed-severity' && rule.previousImpact
+                      ? ` (${t(rule.previousImpact)} → ${t(rule.impact)})`
+                      : ` (+${rule.counts.new} / −${rule.counts.fixed})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ScanChanges;
@@ -1,6 +1,19 @@
+import {
+  AODA_BASE_PACK,
+  type Organization,
+  type OrganizationType,
+  parseRuleOverridePack,
+  resolveRulePacks,
+} from '@moderna11y/scanner';
 import type React from 'react';
 import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from '../../utils/i18n';
+import {
+  loadOrganization,
+  loadRuleOverrides,
+  saveOrganization,
+  saveRuleOverrides,
+} from '../../utils/storage';
 
 interface Settings {
   autoScan: boolean;
@@ -14,9 +27,27 @@ interface SettingsModalProps {
   onClose: () => void;
 }
 
+/**
+ * Parse and validate rule override JSON (one pack or an array of packs)
+ * Throws with a readable message so the user can fix the pack before saving.
+ */
+function parseRuleOverrides(text: string): unknown[] {
+  if (!text.trim()) return [];
+
+  const data: unknown = JSON.parse(text);
+  const packs = Array.isArray(data) ? data : [data];
+  resolveRulePacks(AODA_BASE_PACK, packs.map(parseRuleOverridePack));
+  return packs;
+}
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose }) => {
   const [localSettings, setLocalSettings] = useState<Settings>(settings);
   const { t, language, changeLanguage } = useTranslation();
+  const [ruleOverrides, setRuleOverrides] = useState('');
+  const [ruleOverridesError, setRuleOverridesError] = useState<string | null>(null);
+  const [organizationType, setOrganizationType] = useState<OrganizationType | ''>('');
+  const [employees, setEmployees] = useState(1);
+  const [incorporated, setIncorporated] = useState(true);
   const modalRef = useRef<HTMLDialogElement>(null);
 
   useEffect(() => {
@@ -25,7 +56,39 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose
     }
   }, []);
 
-  const handleSave = () => {
+  useEffect(() => {
+    loadRuleOverrides().then((packs) => {
+      if (packs.length > 0) setRuleOverrides(JSON.stringify(packs, null, 2));
+    });
+    loadOrganization().then((organization) => {
+      if (!organization) return;
+      setOrganizationType(organization.type);
+      setEmployees(organization.employees);
+      setIncorporated(organization.incorporated ?? true);
+    });
+  }, []);
+
+  const handleRuleOverridesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setRuleOverrides(await file.text());
+    setRuleOverridesError(null);
+  };
+
+  const handleSave = async () => {
+    let packs: unknown[];
+    try {
+      packs = parseRuleOverrides(ruleOverrides);
+    } catch (error) {
+      setRuleOverridesError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    await saveRuleOverrides(packs);
+    const organization: Organization | null = organizationType
+      ? { type: organizationType, employees: Math.max(1, Math.round(employees)), incorporated }
+      : null;
+    await saveOrganization(organization);
     onSave(localSettings);
     onClose();
   };
@@ -144,6 +207,106 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose
           </div>
         </div>
 
+        <div className="modal-section">
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>{t('organization')}</div>
+          <p style={{ fontSize: '12px', color: '#6b7280', marginBottom: '8px' }}>
+            {t('organizationHelp')}
+          </p>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '13px' }}>
+            <label>
+              {t('organizationType')}
+              <select
+                value={organizationType}
+                onChange={(e) => setOrganizationType(e.target.value as OrganizationType | '')}
+                style={{ display: 'block', width: '100%', marginTop: '4px', padding: '6px' }}
+              >
+                <option value="">{t('orgNotSet')}</option>
+                <option value="government">{t('orgGovernment')}</option>
+                <option value="public-sector">{t('orgPublicSector')}</option>
+                <option value="private">{t('orgPrivate')}</option>
+              </select>
+            </label>
+            {organizationType && organizationType !== 'government' && (
+              <>
+                <label>
+                  {t('employees')}
+                  <input
+                    type="number"
+                    min={1}
+                    value={employees}
+                    onChange={(e) => setEmployees(Number(e.target.value))}
+                    style={{ display: 'block', width: '100%', marginTop: '4px', padding: '6px' }}
+                  />
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <input
+                    type="checkbox"
+                    checked={incorporated}
+                    onChange={(e) => setIncorporated(e.target.checked)}
+                  />
+                  {t('incorporated')}
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-section">
+          <label
+            htmlFor="rule-overrides"
+            style={{ display: 'block', fontWeight: 600, marginBottom: '4px' }}
+          >
+            {t('ruleOverrides')}
+          </label>
+          <p
+            id="rule-overrides-help"
+            style={{ fontSize: '12px', color: '#6b7280', marginBottom: '8px' }}
+          >
+            {t('ruleOverridesHelp')}
+          </p>
+          <textarea
+            id="rule-overrides"
+            value={ruleOverrides}
+            onChange={(e) => {
+              setRuleOverrides(e.target.value);
+              setRuleOverridesError(null);
+            }}
+            rows={6}
+            spellCheck={false}
+            aria-describedby="rule-overrides-help"
+            aria-invalid={ruleOverridesError !== null}
+            style={{
+              width: '100%',
+              padding: '8px',
+              border: '1px solid #e5e7eb',
+              borderRadius: '6px',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+            }}
+          />
+          <label
+            style={{
+              display: 'inline-block',
+              marginTop: '8px',
+              fontSize: '13px',
+              cursor: 'pointer',
+            }}
+          >
+            {t('ruleOverridesUpload')}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleRuleOverridesUpload}
+              style={{ display: 'block', marginTop: '4px' }}
+            />
+          </label>
+          {ruleOverridesError && (
+            <div role="alert" style={{ marginTop: '8px', fontSize: '12px', color: '#dc2626' }}>
+              <strong>{t('ruleOverridesInvalid')}:</strong> {ruleOverridesError}
+            </div>
+          )}
+        </div>
+
         <div style={{ display: 'flex', gap: '8px', marginTop: '24px' }}>
           <button
             type="button"
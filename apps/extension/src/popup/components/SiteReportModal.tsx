@@ -1,76 +1,42 @@
+import {
+  type PagePair,
+  type SiteReport,
+  formatEffort,
+  formatScoringModel,
+  getHistoryKey,
+  getJurisdiction,
+  getPenaltyRange,
+  isCompliant,
+} from '@moderna11y/scanner';
 import type React from 'react';
 import { useEffect, useRef } from 'react';
 import { useTranslation } from '../../utils/i18n';
-
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
-}
-
-interface EnhancedViolation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-  nodes: ViolationNode[];
-}
-
-interface BilingualCheck {
-  hasLangAttribute: boolean;
-  isBilingual: boolean;
-  detectedLanguages: string[];
-  hasLanguageToggle: boolean;
-  hasFrenchContent: boolean;
-  isOntarioGov: boolean;
-  languageToggles: number;
-}
-
-interface PageScanResult {
-  url: string;
-  score: number;
-  grade: string;
-  violations: EnhancedViolation[];
-  passes: number;
-  incomplete: number;
-  bilingualCheck?: BilingualCheck;
-  timestamp: string;
-  error?: string;
-}
-
-interface SiteReport {
-  baseUrl: string;
-  totalPages: number;
-  scannedPages: number;
-  avgScore: number;
-  grade: string;
-  pageResults: PageScanResult[];
-  topViolations: Array<{
-    ruleId: string;
-    description: string;
-    frequency: number;
-    impact: string;
-  }>;
-  estimatedFixTime: number;
-  complianceRate: number;
-  timestamp: string;
-  strategy: string;
-}
+import HistoryPanel from './HistoryPanel';
 
 interface SiteReportModalProps {
   report: SiteReport;
   onClose: () => void;
 }
 
+// Badge colour and label of each English/French pair status
+const PARITY_IMPACTS: Record<PagePair['status'], string> = {
+  equivalent: 'minor',
+  degraded: 'serious',
+  missing: 'critical',
+  unscanned: 'minor',
+};
+
+const PARITY_LABELS: Record<PagePair['status'], string> = {
+  equivalent: 'frenchEquivalent',
+  degraded: 'frenchDegraded',
+  missing: 'frenchMissing',
+  unscanned: 'frenchUnscanned',
+};
+
 const SiteReportModal: React.FC<SiteReportModalProps> = ({ report, onClose }) => {
   const { t } = useTranslation();
   const modalRef = useRef<HTMLDialogElement>(null);
+  const jurisdiction = getJurisdiction(report.jurisdiction);
 
   useEffect(() => {
     if (modalRef.current) {
@@ -137,7 +103,13 @@ const SiteReportModal: React.FC<SiteReportModalProps> = ({ report, onClose }) =>
             <div className="site-score-info">
               <div className="site-score-label">{t('averageScore')}</div>
               <div className="site-score-status">
-                {report.avgScore >= 90 ? `✅ ${t('compliant')}` : `⚠️ ${t('needsImprovement')}`}
+                {isCompliant(report.avgScore, jurisdiction)
+                  ? `✅ ${t('compliant')}`
+                  : `⚠️ ${t('needsImprovement')}`}
+              </div>
+              <div className="jurisdiction-standard">{jurisdiction.standard}</div>
+              <div className="score-model">
+                {t('scoredWith', [formatScoringModel(report.scoringModel)])}
               </div>
             </div>
           </div>
@@ -153,12 +125,76 @@ const SiteReportModal: React.FC<SiteReportModalProps> = ({ report, onClose }) =>
               <div className="site-stat-label">{t('complianceRate')}</div>
             </div>
             <div className="site-stat">
-              <div className="site-stat-value">{Math.round(report.estimatedFixTime / 60)}h</div>
+              <div className="site-stat-value">
+                {report.effort
+                  ? formatEffort(report.effort)
+                  : `${Math.round(report.estimatedFixTime / 60)}h`}
+              </div>
               <div className="site-stat-label">{t('estimatedFixTime')}</div>
             </div>
           </div>
         </div>
 
+        {/* Site score trend and regressions since the last site scan */}
+        <HistoryPanel
+          key={report.timestamp}
+          historyKey={getHistoryKey(report.baseUrl, 'site')}
+          kind="site"
+          timestamp={report.timestamp}
+        />
+
+        {/* Systemic (site-wide) issues */}
+        {report.systemicRules && report.systemicRules.length > 0 && (
+          <div className="site-section">
+            <h3 className="site-section-title">{t('systemicIssues')}</h3>
+            <div className="top-violations-list">
+              {report.systemicRules.map((rule) => (
+                <div key={rule.ruleId} className={`top-violation ${rule.impact}`}>
+                  <div className="top-violation-info">
+                    <div className="top-violation-desc">{rule.description}</div>
+                    <div className="top-violation-meta">
+                      <span className={`impact-badge ${rule.impact}`}>{t(rule.impact)}</span>
+                      <span className="frequency-badge">
+                        {rule.templates} {t('templates')} · {rule.pages} {t('pages')}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Shared components: the same failing element on many pages, fixed once */}
+        {report.sharedComponents && report.sharedComponents.length > 0 && (
+          <div className="site-section">
+            <h3 className="site-section-title">{t('sharedComponents')}</h3>
+            <div className="top-violations-list">
+              {report.sharedComponents.slice(0, 5).map((component) => (
+                <div key={component.fingerprint} className={`top-violation ${component.impact}`}>
+                  <div className="top-violation-info">
+                    <div className="top-violation-desc">{component.description}</div>
+                    <code>{component.selector}</code>
+                    <div className="top-violation-meta">
+                      <span className={`impact-badge ${component.impact}`}>
+                        {t(component.impact)}
+                      </span>
+                      <span className="frequency-badge">
+                        {component.pages} {t('pages')}
+                      </span>
+                      {component.estimatedFixTime !== undefined && (
+                        <span className="frequency-badge">
+                          {t('fixOnce', [String(component.estimatedFixTime)])}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Top Violations */}
         {report.topViolations.length > 0 && (
           <div className="site-section">
@@ -171,7 +207,80 @@ const SiteReportModal: React.FC<SiteReportModalProps> = ({ report, onClose }) =>
                     <div className="top-violation-meta">
                       <span className={`impact-badge ${v.impact}`}>{t(v.impact)}</span>
                       <span className="frequency-badge">
-                        {v.frequency} {t('pages')}
+                        {v.pages === undefined
+                          ? `${v.frequency} ${t('pages')}`
+                          : `${v.frequency} ${t('elements')} · ${v.pages} ${t('pages')}`}
+                      </span>
+                      {v.systemic && <span className="frequency-badge">{t('siteWide')}</span>}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* English/French Parity */}
+        {report.parity && (
+          <div className="site-section">
+            <h3 className="site-section-title">{t('languageParity')}</h3>
+            <p className="parity-summary">
+              {t('paritySummary', [
+                String(report.parity.summary.equivalent),
+                String(report.parity.summary.degraded),
+                String(report.parity.summary.missing),
+              ])}
+              {report.parity.summary.unscanned
+                ? ` ${t('parityUnscanned', [String(report.parity.summary.unscanned)])}`
+                : ''}
+            </p>
+            <div className="top-violations-list">
+              {report.parity.pairs
+                .filter((pair) => pair.status !== 'equivalent')
+                .map((pair) => (
+                  <div key={pair.en} className={`top-violation ${PARITY_IMPACTS[pair.status]}`}>
+                    <div className="top-violation-info">
+                      <div className="top-violation-desc">{new URL(pair.en).pathname || '/'}</div>
+                      <div className="top-violation-meta">
+                        <span className={`impact-badge ${PARITY_IMPACTS[pair.status]}`}>
+                          {t(PARITY_LABELS[pair.status])}
+                        </span>
+                      </div>
+                      <ul className="parity-issues">
+                        {pair.issues.map((issue) => (
+                          <li key={issue.kind}>{issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {/* AODA Obligations */}
+        {report.obligations && report.organization && (
+          <div className="site-section">
+            <h3 className="site-section-title">{t('obligations')}</h3>
+            <p className="parity-summary">{getPenaltyRange(report.organization)}</p>
+            <div className="top-violations-list">
+              {report.obligations.map((obligation) => (
+                <div
+                  key={obligation.section}
+                  className={`top-violation ${obligationImpact(obligation)}`}
+                >
+                  <div className="top-violation-info">
+                    <div className="top-violation-desc">
+                      {obligation.section}: {obligation.requirement}
+                    </div>
+                    <div className="top-violation-meta">
+                      <span className={`impact-badge ${obligationImpact(obligation)}`}>
+                        {obligation.applies
+                          ? t('complianceDeadline', [obligation.deadline ?? ''])
+                          : t('obligationNotApplicable')}
+                      </span>
+                      <span className="frequency-badge">
+                        {obligation.violations} {t('violations')}
                       </span>
                     </div>
                   </div>
@@ -228,7 +337,198 @@ const SiteReportModal: React.FC<SiteReportModalProps> = ({ report, onClose }) =>
   );
 };
 
+/**
+ * Severity class for an obligation: violations under a requirement in effect are critical
+ */
+function obligationImpact(obligation: NonNullable<SiteReport['obligations']>[number]): string {
+  if (!obligation.applies || obligation.violations === 0) return 'minor';
+  return obligation.inEffect ? 'critical' : 'moderate';
+}
+
+/**
+ * AODA obligations section of the HTML report
+ */
+function generateObligationsSection(
+  obligations: NonNullable<SiteReport['obligations']>,
+  organization: NonNullable<SiteReport['organization']>
+): string {
+  return `
+  <div class="section">
+    <h2 class="section-title">⚖️ AODA Obligations</h2>
+    <p>${escapeHtml(getPenaltyRange(organization))}</p>
+    ${obligations
+      .map(
+        (obligation) => `
+    <div class="violation-item ${obligationImpact(obligation)}">
+      <div class="violation-title">${obligation.section}: ${escapeHtml(obligation.requirement)}</div>
+      <div class="violation-meta">
+        <strong>Deadline:</strong> ${obligation.applies ? obligation.deadline : 'Does not apply'} •
+        <strong>Violations:</strong> ${obligation.violations}
+      </div>
+    </div>`
+      )
+      .join('')}
+  </div>`;
+}
+
+/**
+ * Systemic issues section of the HTML report: rules failing across most page templates
+ */
+function generateSystemicSection(rules: NonNullable<SiteReport['systemicRules']>): string {
+  return `
+  <div class="section">
+    <h2 class="section-title">🧩 Site-wide Issues</h2>
+    <p>Rules failing across most page templates, usually in shared layout such as headers, footers and navigation</p>
+    ${rules
+      .map(
+        (rule) => `
+    <div class="violation-item ${rule.impact}">
+      <div class="violation-title">${escapeHtml(rule.description)}</div>
+      <div class="violation-meta">
+        <strong>Impact:</strong> ${rule.impact.toUpperCase()} •
+        <strong>Templates:</strong> ${rule.templates} •
+        <strong>Pages:</strong> ${rule.pages} •
+        <strong>Elements:</strong> ${rule.elements}
+      </div>
+    </div>`
+      )
+      .join('')}
+  </div>`;
+}
+
+/**
+ * Shared components section of the HTML report: identical failing elements found
+ * on several pages
+ */
+function generateSharedComponentsSection(
+  components: NonNullable<SiteReport['sharedComponents']>
+): string {
+  return `
+  <div class="section">
+    <h2 class="section-title">🔁 Shared Components</h2>
+    <p>The same failing element on several pages. Fixing it once fixes every page it appears on.</p>
+    ${components
+      .map(
+        (component) => `
+    <div class="violation-item ${component.impact}">
+      <div class="violation-title">${escapeHtml(component.description)}</div>
+      <div class="violation-meta">
+        <strong>Element:</strong> <code>${escapeHtml(component.selector)}</code> •
+        <strong>Impact:</strong> ${component.impact.toUpperCase()} •
+        <strong>Pages:</strong> ${component.pages}${
+          component.estimatedFixTime !== undefined
+            ? ` • <strong>Fix time:</strong> ~${component.estimatedFixTime} min, once`
+            : ''
+        }
+      </div>
+    </div>`
+      )
+      .join('')}
+  </div>`;
+}
+
+/**
+ * Effort section of the HTML report: the estimate's range and the rules costing
+ * the most, for sprint planning and quotes
+ */
+function generateEffortSection(effort: NonNullable<SiteReport['effort']>): string {
+  return `
+  <div class="section">
+    <h2 class="section-title">⏱️ Effort Estimate</h2>
+    <p><strong>Most likely:</strong> ${formatEffort({ low: effort.minutes, high: effort.minutes })} (range ${formatEffort(effort)}).
+    Each rule costs a base effort once, plus a smaller effort for each further element; elements shared across pages count once.</p>
+    ${effort.lines
+      .slice(0, 10)
+      .map(
+        (line) => `
+    <div class="violation-item ${line.impact}">
+      <div class="violation-title">${escapeHtml(line.ruleId)}</div>
+      <div class="violation-meta">
+        <strong>Elements:</strong> ${line.instances} •
+        <strong>Base:</strong> ${line.base} min •
+        <strong>Each further:</strong> ${line.perInstance} min •
+        <strong>Total:</strong> ~${Math.round(line.minutes)} min${line.defaulted ? ' (estimated from impact)' : ''}
+      </div>
+    </div>`
+      )
+      .join('')}
+  </div>`;
+}
+
+/**
+ * English/French parity section of the HTML report: pairs that are not equivalent
+ */
+function generateParitySection(parity: NonNullable<SiteReport['parity']>): string {
+  const { summary } = parity;
+  const pairs = parity.pairs.filter((pair) => pair.status !== 'equivalent');
+
+  return `
+  <div class="section">
+    <h2 class="section-title">🇫🇷 English/French Parity</h2>
+    <p>${summary.pairs} English pages: ${summary.equivalent} with an equivalent French version, ${summary.degraded} degraded, ${summary.missing} missing${summary.unscanned ? `, ${summary.unscanned} not scanned` : ''}</p>
+    ${pairs
+      .map(
+        (pair) => `
+    <div class="violation-item ${PARITY_IMPACTS[pair.status]}">
+      <div class="violation-title">${escapeHtml(pair.en)}</div>
+      <div class="violation-meta">
+        <strong>French version:</strong> ${pair.status === 'unscanned' ? 'NOT SCANNED' : pair.status.toUpperCase()}
+        ${pair.fr ? ` • ${escapeHtml(pair.fr)}` : ''}
+      </div>
+      <ul style="margin-top: 8px; font-size: 14px; padding-left: 20px;">
+        ${pair.issues.map((issue) => `<li>${escapeHtml(issue.message)}</li>`).join('')}
+      </ul>
+    </div>`
+      )
+      .join('')}
+  </div>`;
+}
+
+/**
+ * Summarize discovered pages that were left out of the scan
+ */
+function describeExclusions(counts: NonNullable<SiteReport['excludedCounts']>): string {
+  const parts = [
+    `${counts['template-sampled'] ?? 0} similar to a scanned page`,
+    `${counts.budget ?? 0} over the page limit`,
+    `${counts.duplicate ?? 0} duplicates`,
+  ];
+  if (counts.unchanged) parts.push(`${counts.unchanged} unchanged since the last audit`);
+  if (counts.filtered) parts.push(`${counts.filtered} outside the URL filters`);
+  return parts.join(', ');
+}
+
+/**
+ * Describe the URL filters a scan ran with, or an empty string when there were none
+ */
+function describeFilters(filters: NonNullable<SiteReport['filters']>): string {
+  const parts: string[] = [];
+  if (filters.pathPrefix) parts.push(`scope ${filters.pathPrefix}`);
+  if (filters.include?.length) parts.push(`include ${filters.include.join(', ')}`);
+  if (filters.exclude?.length) parts.push(`exclude ${filters.exclude.join(', ')}`);
+  if (filters.query === 'strip') parts.push('query strings stripped');
+  if (Array.isArray(filters.query)) {
+    parts.push(`query parameters kept: ${filters.query.join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * HTML escape user-entered text (filter patterns) for the exported report
+ */
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
 function generateHTMLReport(report: SiteReport): string {
+  const jurisdiction = getJurisdiction(report.jurisdiction);
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -350,7 +650,8 @@ function generateHTMLReport(report: SiteReport): string {
 
   <div class="header">
     <h1>ComplyCA - Full Site AODA Report</h1>
-    <div class="subtitle">Ontario AODA Scanner</div>
+    <div class="subtitle">${jurisdiction.name} - ${jurisdiction.standard}</div>
+    <div class="subtitle">Scoring model: ${formatScoringModel(report.scoringModel)}</div>
     <div class="branding">Made with ❤️ by Nizar Amanchar for small business owners</div>
   </div>
 
@@ -369,7 +670,7 @@ function generateHTMLReport(report: SiteReport): string {
         <div class="stat-label">Compliance Rate</div>
       </div>
       <div class="stat">
-        <div class="stat-value">${Math.round(report.estimatedFixTime / 60)}h</div>
+        <div class="stat-value">${report.effort ? formatEffort(report.effort) : `${Math.round(report.estimatedFixTime / 60)}h`}</div>
         <div class="stat-label">Est. Fix Time</div>
       </div>
     </div>
@@ -380,9 +681,42 @@ function generateHTMLReport(report: SiteReport): string {
     <p><strong>Base URL:</strong> ${report.baseUrl}</p>
     <p><strong>Scanned:</strong> ${new Date(report.timestamp).toLocaleString()}</p>
     <p><strong>Average Score:</strong> ${report.avgScore}/100 (${report.grade})</p>
-    <p><strong>Strategy:</strong> ${report.strategy}</p>
+    <p><strong>Strategy:</strong> ${report.strategy}${
+      report.sourceCounts
+        ? ` (sitemap: ${report.sourceCounts.sitemap}, robots.txt: ${report.sourceCounts.robots}, feeds: ${report.sourceCounts.feed ?? 0}, crawl: ${report.sourceCounts.dom})`
+        : ''
+    }</p>
+    ${
+      report.robots?.found
+        ? `<p><strong>robots.txt:</strong> ${
+            report.robots.respected
+              ? `respected, ${report.robots.blockedUrls.length} URLs excluded${
+                  report.robots.crawlDelay !== undefined
+                    ? `, ${report.robots.crawlDelay}s crawl delay`
+                    : ''
+                }`
+              : 'ignored'
+          }</p>`
+        : ''
+    }
+    ${
+      report.excludedCounts && Object.keys(report.excludedCounts).length > 0
+        ? `<p><strong>Not scanned:</strong> ${describeExclusions(report.excludedCounts)}</p>`
+        : ''
+    }
+    ${
+      report.filters && describeFilters(report.filters)
+        ? `<p><strong>URL filters:</strong> ${escapeHtml(describeFilters(report.filters))}</p>`
+        : ''
+    }
   </div>
 
+  ${report.systemicRules && report.systemicRules.length > 0 ? generateSystemicSection(report.systemicRules) : ''}
+  ${report.sharedComponents && report.sharedComponents.length > 0 ? generateSharedComponentsSection(report.sharedComponents) : ''}
+  ${report.effort && report.effort.lines.length > 0 ? generateEffortSection(report.effort) : ''}
+  ${report.parity ? generateParitySection(report.parity) : ''}
+  ${report.obligations && report.organization ? generateObligationsSection(report.obligations, report.organization) : ''}
+
   <div class="section">
     <h2 class="section-title">📄 Page Results (${report.pageResults.length})</h2>
     ${report.pageResults
@@ -416,7 +750,7 @@ function generateHTMLReport(report: SiteReport): string {
           <div class="violation-meta">
             <strong>Impact:</strong> ${v.impact.toUpperCase()} •
             ${v.wcagCriterion ? `<strong>WCAG:</strong> ${v.wcagCriterion} •` : ''}
-            ${v.aodaSection ? `<strong>AODA:</strong> ${v.aodaSection} •` : ''}
+            ${v.aodaSection ? `<strong>${jurisdiction.id === 'ontario' ? 'AODA' : 'Citation'}:</strong> ${v.aodaSection} •` : ''}
             <strong>Elements:</strong> ${v.nodes?.length || 0}
           </div>
           ${v.help ? `<p style="margin-top: 8px; font-size: 14px;"><strong>How to fix:</strong> ${v.help}</p>` : ''}
@@ -1,3 +1,9 @@
+import {
+  type JurisdictionId,
+  type ScoringModelId,
+  type SiteReport,
+  parseSiteReport,
+} from '@moderna11y/scanner';
 import type React from 'react';
 import { useCallback, useState } from 'react';
 import { useTranslation } from '../../utils/i18n';
@@ -5,6 +11,14 @@ import { useTranslation } from '../../utils/i18n';
 interface ScanConfig {
   maxPages: number;
   maxDepth: number;
+  discoveryMode: 'fallback' | 'hybrid';
+  changedSince: string; // yyyy-mm-dd, empty to scan all pages
+  languageParity: boolean;
+  pathPrefix: string;
+  includePatterns: string; // One pattern per line
+  excludePatterns: string;
+  queryHandling: 'keep' | 'strip' | 'allowlist';
+  allowedParams: string; // Comma-separated, used with 'allowlist'
 }
 
 interface ScanProgress {
@@ -16,15 +30,65 @@ interface ScanProgress {
 
 interface SiteScannerProps {
   baseUrl: string;
-  onComplete: (report: unknown) => void;
+  jurisdiction: JurisdictionId; // Profile the pages are assessed against
+  scoringModel: ScoringModelId; // Model pages and the site are scored with
+  onComplete: (report: SiteReport) => void;
   onCancel: () => void;
 }
 
-const SiteScanner: React.FC<SiteScannerProps> = ({ baseUrl, onComplete, onCancel }) => {
+/**
+ * Split a textarea into trimmed, non-empty lines
+ * Patterns are one per line rather than comma-separated, since regexes may contain commas.
+ */
+function splitLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Convert form state into the config expected by the background scanFullSite handler
+ */
+function toSiteScanConfig(config: ScanConfig) {
+  const { pathPrefix, includePatterns, excludePatterns, queryHandling, allowedParams, ...rest } =
+    config;
+  return {
+    ...rest,
+    filters: {
+      pathPrefix: pathPrefix.trim() || undefined,
+      include: splitLines(includePatterns),
+      exclude: splitLines(excludePatterns),
+      query:
+        queryHandling === 'allowlist'
+          ? allowedParams
+              .split(',')
+              .map((name) => name.trim())
+              .filter(Boolean)
+          : queryHandling,
+    },
+  };
+}
+
+const SiteScanner: React.FC<SiteScannerProps> = ({
+  baseUrl,
+  jurisdiction,
+  scoringModel,
+  onComplete,
+  onCancel,
+}) => {
   const { t } = useTranslation();
   const [config, setConfig] = useState<ScanConfig>({
     maxPages: 20,
     maxDepth: 2,
+    discoveryMode: 'fallback',
+    changedSince: '',
+    languageParity: false,
+    pathPrefix: '',
+    includePatterns: '',
+    excludePatterns: '',
+    queryHandling: 'keep',
+    allowedParams: '',
   });
   const [progress, setProgress] = useState<ScanProgress>({
     current: 0,
@@ -66,14 +130,15 @@ const SiteScanner: React.FC<SiteScannerProps> = ({ baseUrl, onComplete, onCancel
       const response = await chrome.runtime.sendMessage({
         action: 'scanFullSite',
         baseUrl,
-        config,
+        config: { ...toSiteScanConfig(config), jurisdiction, scoringModel },
       });
 
       chrome.runtime.onMessage.removeListener(progressListener);
 
       if (response.success) {
+        const report = parseSiteReport(response.report);
         setProgress((prev) => ({ ...prev, status: 'complete' }));
-        onComplete(response.report);
+        onComplete(report);
       } else {
         throw new Error(response.error || 'Scan failed');
       }
@@ -82,7 +147,7 @@ const SiteScanner: React.FC<SiteScannerProps> = ({ baseUrl, onComplete, onCancel
       setError(message);
       setProgress((prev) => ({ ...prev, status: 'error' }));
     }
-  }, [baseUrl, config, onComplete]);
+  }, [baseUrl, config, jurisdiction, scoringModel, onComplete]);
 
   const handleCancel = useCallback(async () => {
     try {
@@ -185,6 +250,158 @@ const SiteScanner: React.FC<SiteScannerProps> = ({ baseUrl, onComplete, onCancel
               <span className="setting-value">{config.maxDepth}</span>
             </div>
           </div>
+
+          <div className="setting-item">
+            <label htmlFor="discoveryMode">
+              Page Discovery
+              <span className="setting-hint">
+                Hybrid combines the sitemap with crawled links to find unlisted pages
+              </span>
+            </label>
+            <div className="setting-control">
+              <select
+                id="discoveryMode"
+                value={config.discoveryMode}
+                onChange={(e) =>
+                  setConfig({
+                    ...config,
+                    discoveryMode: e.target.value as ScanConfig['discoveryMode'],
+                  })
+                }
+              >
+                <option value="fallback">Sitemap first, crawl if missing</option>
+                <option value="hybrid">Hybrid (sitemap + robots.txt + feeds + crawl)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="changedSince">
+              Changed Since
+              <span className="setting-hint">
+                Only scan sitemap pages updated after this date (leave empty for all)
+              </span>
+            </label>
+            <div className="setting-control">
+              <input
+                type="date"
+                id="changedSince"
+                value={config.changedSince}
+                onChange={(e) => setConfig({ ...config, changedSince: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="languageParity">
+              English/French Parity
+              <span className="setting-hint">
+                Also scan each page's French version and check the two are equivalent
+              </span>
+            </label>
+            <div className="setting-control">
+              <input
+                type="checkbox"
+                id="languageParity"
+                checked={config.languageParity}
+                onChange={(e) => setConfig({ ...config, languageParity: e.target.checked })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="scanner-settings">
+          <h4>URL Filters</h4>
+
+          <div className="setting-item">
+            <label htmlFor="pathPrefix">
+              Path Scope
+              <span className="setting-hint">
+                Only scan pages under this path, e.g. /fr/services
+              </span>
+            </label>
+            <div className="setting-control">
+              <input
+                type="text"
+                id="pathPrefix"
+                placeholder="/"
+                value={config.pathPrefix}
+                onChange={(e) => setConfig({ ...config, pathPrefix: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="includePatterns">
+              Include Patterns
+              <span className="setting-hint">
+                One per line. Globs match the path (* within a segment, ** across); prefix with re:
+                for a regular expression
+              </span>
+            </label>
+            <div className="setting-control">
+              <textarea
+                id="includePatterns"
+                rows={2}
+                placeholder="/fr/services/**"
+                value={config.includePatterns}
+                onChange={(e) => setConfig({ ...config, includePatterns: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="excludePatterns">
+              Exclude Patterns
+              <span className="setting-hint">Skipped pages are not crawled through either</span>
+            </label>
+            <div className="setting-control">
+              <textarea
+                id="excludePatterns"
+                rows={2}
+                placeholder={'/events/**\nre:/calendar/\\d{4}'}
+                value={config.excludePatterns}
+                onChange={(e) => setConfig({ ...config, excludePatterns: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label htmlFor="queryHandling">
+              Query Strings
+              <span className="setting-hint">
+                Stripping avoids scanning the same page once per tracking parameter
+              </span>
+            </label>
+            <div className="setting-control">
+              <select
+                id="queryHandling"
+                value={config.queryHandling}
+                onChange={(e) =>
+                  setConfig({
+                    ...config,
+                    queryHandling: e.target.value as ScanConfig['queryHandling'],
+                  })
+                }
+              >
+                <option value="keep">Keep all parameters</option>
+                <option value="strip">Strip all parameters</option>
+                <option value="allowlist">Keep only listed parameters</option>
+              </select>
+            </div>
+            {config.queryHandling === 'allowlist' && (
+              <div className="setting-control">
+                <input
+                  type="text"
+                  id="allowedParams"
+                  aria-label="Allowed query parameters"
+                  placeholder="page, lang"
+                  value={config.allowedParams}
+                  onChange={(e) => setConfig({ ...config, allowedParams: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="scanner-actions">
@@ -259,7 +476,7 @@ const SiteScanner: React.FC<SiteScannerProps> = ({ baseUrl, onComplete, onCancel
       {progress.status === 'discovering' && (
         <div className="scanner-status">
           <div className="status-spinner">⟳</div>
-          Discovering pages via sitemap and crawling...
+          Discovering pages via sitemap, feeds and crawling...
         </div>
       )}
 
@@ -1,27 +1,8 @@
+import type { Violation } from '@moderna11y/scanner';
 import type React from 'react';
 import { useEffect, useRef } from 'react';
 import { useTranslation } from '../../utils/i18n';
 
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
-}
-
-interface Violation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  nodes: ViolationNode[];
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-}
-
 interface ViolationModalProps {
   violation: Violation;
   onClose: () => void;
@@ -93,6 +74,16 @@ const ViolationModal: React.FC<ViolationModalProps> = ({ violation, onClose }) =
                 ⚠️ {t('penalty')}: {violation.penalty}
               </div>
             )}
+            {violation.obligation && (
+              <div className="modal-obligation">
+                {violation.obligation.applies
+                  ? t('complianceDeadline', [violation.obligation.deadline ?? ''])
+                  : t('obligationNotApplicable')}
+                {violation.obligation.applies &&
+                  !violation.obligation.inEffect &&
+                  ` (${t('obligationUpcoming')})`}
+              </div>
+            )}
           </div>
         )}
 
@@ -102,9 +93,9 @@ const ViolationModal: React.FC<ViolationModalProps> = ({ violation, onClose }) =
           </div>
         )}
 
-        {violation.fixTime && (
+        {violation.estimatedFixTime && (
           <div className="modal-section">
-            <strong>{t('estimatedFixTime')}:</strong> ~{violation.fixTime} {t('minutes')}
+            <strong>{t('estimatedFixTime')}:</strong> ~{violation.estimatedFixTime} {t('minutes')}
           </div>
         )}
 
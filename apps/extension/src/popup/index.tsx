@@ -1,8 +1,52 @@
-import { useCallback, useEffect, useState } from 'react';
+import {
+  type ScanResult as CanonicalScanResult,
+  DEFAULT_JURISDICTION,
+  DEFAULT_SCORING_MODEL,
+  JURISDICTIONS,
+  type JurisdictionId,
+  type ManualReview,
+  SCORING_MODELS,
+  type ScoreInput,
+  type ScoringConfigs,
+  type ScoringModelId,
+  type SiteReport,
+  type Violation,
+  applyManualReview,
+  estimateEffort,
+  formatEffort,
+  formatScoringModel,
+  getHistoryKey,
+  getJurisdiction,
+  getManualReviewScore,
+  isCompliant,
+  parseScanResult,
+  parseSiteReport,
+  planNextMilestone,
+  rankFixes,
+  scorePage,
+  snapshotScan,
+} from '@moderna11y/scanner';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { recordScan } from '../utils/history';
 import { useTranslation } from '../utils/i18n';
-import { clearScanState, hasResumableScan, loadScanState, loadScanSession, saveScanState } from '../utils/storage';
+import {
+  clearScanState,
+  hasResumableScan,
+  loadJurisdiction,
+  loadManualReview,
+  loadScanSession,
+  loadScanState,
+  loadScoringModel,
+  saveJurisdiction,
+  saveManualReview,
+  saveScanState,
+  saveScoringModel,
+} from '../utils/storage';
+import CoveragePanel from './components/CoveragePanel';
 import ExportButton from './components/ExportButton';
+import HistoryPanel from './components/HistoryPanel';
+import ManualReviewModal from './components/ManualReviewModal';
 import SettingsModal from './components/SettingsModal';
 import SiteReportModal from './components/SiteReportModal';
 import SiteScanner from './components/SiteScanner';
@@ -12,54 +56,9 @@ import ViolationModal from './components/ViolationModal';
 // TYPES
 // ============================================
 
-interface ViolationNode {
-  html: string;
-  target: string[];
-  failureSummary: string;
-}
-
-interface Violation {
-  id: string;
-  impact: 'critical' | 'serious' | 'moderate' | 'minor';
-  description: string;
-  help: string;
-  helpUrl: string;
-  nodes: ViolationNode[];
-  wcagCriterion?: string;
-  aodaSection?: string;
-  penalty?: string;
-  fixTime?: number;
-  affectedUsers?: string[];
-}
-
-interface ScanResult {
-  url: string;
-  timestamp: string;
-  violations: Violation[];
-  passes: number;
-  incomplete: number;
-  bilingualCheck?: {
-    isBilingual: boolean;
-    hasLangAttribute: boolean;
-    detectedLanguages: string[];
-  };
-  score?: {
-    score: number;
-    grade: string;
-    deductions: {
-      critical: number;
-      serious: number;
-      moderate: number;
-      minor: number;
-      total: number;
-    };
-    breakdown: {
-      passedChecks: number;
-      totalChecks: number;
-      violationCount: number;
-      elementCount: number;
-    };
-  };
+// A scan result with the auditor's manual review decisions applied
+interface ScanResult extends CanonicalScanResult {
+  manualReview?: ManualReview;
 }
 
 interface Settings {
@@ -70,11 +69,47 @@ interface Settings {
 
 type FilterType = 'all' | 'critical' | 'serious' | 'moderate' | 'minor';
 
+// ============================================
+// MANUAL REVIEW
+// ============================================
+
+/**
+ * What a result's score is calculated from, including the auditor's manual failures
+ */
+const toScoreInput = (result: ScanResult, review: ManualReview | null): ScoreInput => ({
+  violations: result.violations,
+  passes: result.passes,
+  incomplete: result.incomplete,
+  bilingualCheck: result.bilingualCheck,
+  manualReview: review ? getManualReviewScore(review, result.coverage) : undefined,
+});
+
+/**
+ * Layer the auditor's decisions over the automated coverage report and score
+ */
+const withManualReview = (result: ScanResult, review: ManualReview | null): ScanResult => {
+  if (!review || Object.keys(review.entries).length === 0) return result;
+
+  // Rescore with the model (and config) the scan was scored with
+  const model = result.score?.model;
+  const score = scorePage(model?.id ?? DEFAULT_SCORING_MODEL, toScoreInput(result, review), {
+    config: model?.config as Partial<ScoringConfigs[ScoringModelId]> | undefined,
+    jurisdiction: getJurisdiction(result.jurisdiction),
+  });
+
+  return {
+    ...result,
+    score,
+    coverage: result.coverage && applyManualReview(result.coverage, review),
+    manualReview: review,
+  };
+};
+
 // ============================================
 // HOOKS
 // ============================================
 
-const useScan = () => {
+const useScan = (jurisdiction: JurisdictionId, scoringModel: ScoringModelId) => {
   const [scanning, setScanning] = useState(false);
   const [result, setResult] = useState<ScanResult | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -84,19 +119,7 @@ const useScan = () => {
     total: number;
     url?: string;
   } | null>(null);
-  const [siteReport, setSiteReport] = useState<{
-    baseUrl: string;
-    totalPages: number;
-    scannedPages: number;
-    avgScore: number;
-    grade: string;
-    pageResults: unknown[];
-    topViolations: unknown[];
-    estimatedFixTime: number;
-    complianceRate: number;
-    timestamp: string;
-    strategy: string;
-  } | null>(null);
+  const [siteReport, setSiteReport] = useState<SiteReport | null>(null);
   const [canResume, setCanResume] = useState(false);
 
   // Load saved state on mount
@@ -105,10 +128,10 @@ const useScan = () => {
       const savedState = await loadScanState();
       if (savedState) {
         if (savedState.result) {
-          setResult(savedState.result as ScanResult);
+          setResult(savedState.result);
         }
         if (savedState.siteReport) {
-          setSiteReport(savedState.siteReport as typeof siteReport);
+          setSiteReport(savedState.siteReport);
         }
         if (savedState.scanProgress) {
           setScanProgress(savedState.scanProgress);
@@ -162,10 +185,14 @@ const useScan = () => {
         );
       }
 
-      let response: ScanResult;
+      let response: unknown;
       try {
         // Try to send message to content script
-        response = await chrome.tabs.sendMessage(tab.id, { action: 'scan' });
+        response = await chrome.tabs.sendMessage(tab.id, {
+          action: 'scan',
+          jurisdiction,
+          scoringModel,
+        });
       } catch (messageError) {
         // Content script not loaded - try to inject it programmatically
         console.log('Content script not found, injecting programmatically...');
@@ -180,27 +207,25 @@ const useScan = () => {
           await new Promise((resolve) => setTimeout(resolve, 500));
 
           // Try sending message again
-          response = await chrome.tabs.sendMessage(tab.id, { action: 'scan' });
+          response = await chrome.tabs.sendMessage(tab.id, {
+            action: 'scan',
+            jurisdiction,
+            scoringModel,
+          });
         } catch (injectError) {
           throw new Error('Could not load scanner. Please refresh the page and try again.');
         }
       }
 
-      if (response.error) {
-        throw new Error(response.error);
+      if (response && typeof response === 'object' && 'error' in response) {
+        throw new Error(String(response.error));
       }
 
-      const scanResult: ScanResult = {
-        url: tab.url || '',
-        timestamp: new Date().toISOString(),
-        violations: response.violations || [],
-        passes: response.passes || 0,
-        incomplete: response.incomplete || 0,
-        bilingualCheck: response.bilingualCheck,
-        score: response.score,
-      };
-
-      setResult(scanResult);
+      const scan = parseScanResult(response);
+      await recordScan(snapshotScan(scan), scan).catch((historyError) =>
+        console.warn('Could not record scan history:', historyError)
+      );
+      setResult(scan);
     } catch (err) {
       const message =
         err instanceof Error ? err.message : 'Scan failed. Please refresh the page and try again.';
@@ -209,7 +234,7 @@ const useScan = () => {
     } finally {
       setScanning(false);
     }
-  }, []);
+  }, [jurisdiction, scoringModel]);
 
   const runFullSiteScan = useCallback(async () => {
     setFullSiteScanning(true);
@@ -243,13 +268,14 @@ const useScan = () => {
       const response = await chrome.runtime.sendMessage({
         action: 'scanFullSite',
         baseUrl,
+        config: { jurisdiction, scoringModel },
       });
 
       chrome.runtime.onMessage.removeListener(progressListener);
 
       if (response.success) {
         // Show comprehensive site report
-        setSiteReport(response.report);
+        setSiteReport(parseSiteReport(response.report));
         setScanProgress(null);
         setFullSiteScanning(false);
       } else {
@@ -263,7 +289,7 @@ const useScan = () => {
       setFullSiteScanning(false);
       setScanProgress(null);
     }
-  }, []);
+  }, [jurisdiction, scoringModel]);
 
   const resumeFullSiteScan = useCallback(async () => {
     setFullSiteScanning(true);
@@ -297,7 +323,7 @@ const useScan = () => {
       chrome.runtime.onMessage.removeListener(progressListener);
 
       if (response.success && response.report) {
-        setSiteReport(response.report);
+        setSiteReport(parseSiteReport(response.report));
         setScanProgress(null);
         setFullSiteScanning(false);
         setCanResume(false);
@@ -375,6 +401,40 @@ const useSettings = () => {
   return { settings, saveSettings };
 };
 
+const useJurisdiction = () => {
+  const [jurisdiction, setJurisdiction] = useState<JurisdictionId>(DEFAULT_JURISDICTION);
+
+  useEffect(() => {
+    loadJurisdiction().then((stored) => {
+      if (stored) setJurisdiction(stored);
+    });
+  }, []);
+
+  const changeJurisdiction = useCallback((id: JurisdictionId) => {
+    setJurisdiction(id);
+    saveJurisdiction(id);
+  }, []);
+
+  return { jurisdiction, changeJurisdiction };
+};
+
+const useScoringModel = () => {
+  const [scoringModel, setScoringModel] = useState<ScoringModelId>(DEFAULT_SCORING_MODEL);
+
+  useEffect(() => {
+    loadScoringModel().then((stored) => {
+      if (stored) setScoringModel(stored);
+    });
+  }, []);
+
+  const changeScoringModel = useCallback((id: ScoringModelId) => {
+    setScoringModel(id);
+    saveScoringModel(id);
+  }, []);
+
+  return { scoringModel, changeScoringModel };
+};
+
 // ============================================
 // COMPONENTS
 // ============================================
@@ -392,7 +452,11 @@ const SummaryCard = ({
   );
 };
 
-const ViolationItem = ({ violation, onClick }: { violation: Violation; onClick: () => void }) => {
+const ViolationItem = ({
+  violation,
+  gain,
+  onClick,
+}: { violation: Violation; gain?: number; onClick: () => void }) => {
   const { t } = useTranslation();
 
   return (
@@ -407,6 +471,9 @@ const ViolationItem = ({ violation, onClick }: { violation: Violation; onClick:
           <div className="violation-description">{violation.description}</div>
           <div className="violation-count">
             {violation.nodes.length} {violation.nodes.length !== 1 ? t('elements') : t('element')}
+            {gain !== undefined && gain > 0 && (
+              <span className="violation-gain">{t('pointsGain', [String(gain)])}</span>
+            )}
           </div>
         </div>
         <div className={`badge ${violation.impact}`}>{t(violation.impact)}</div>
@@ -460,6 +527,8 @@ const ErrorDisplay = ({
 // ============================================
 
 const App = () => {
+  const { jurisdiction, changeJurisdiction } = useJurisdiction();
+  const { scoringModel, changeScoringModel } = useScoringModel();
   const {
     scanning,
     result,
@@ -475,7 +544,7 @@ const App = () => {
     resumeFullSiteScan,
     cancelFullSiteScan,
     clearResults,
-  } = useScan();
+  } = useScan(jurisdiction, scoringModel);
   const { settings, saveSettings } = useSettings();
   const { t, language, changeLanguage } = useTranslation();
   const [selectedViolation, setSelectedViolation] = useState<Violation | null>(null);
@@ -483,6 +552,48 @@ const App = () => {
   const [filter, setFilter] = useState<FilterType>('all');
   const [showSiteScanner, setShowSiteScanner] = useState(false);
   const [baseUrl, setBaseUrl] = useState<string>('');
+  const [manualReview, setManualReview] = useState<ManualReview | null>(null);
+  const [showManualReview, setShowManualReview] = useState(false);
+
+  // Load the stored manual review decisions for the scanned page
+  useEffect(() => {
+    if (!result?.url) {
+      setManualReview(null);
+      return;
+    }
+    loadManualReview(result.url).then(setManualReview);
+  }, [result?.url]);
+
+  const handleManualReviewChange = (review: ManualReview) => {
+    setManualReview(review);
+    saveManualReview(review);
+  };
+
+  // Scan result with manual review decisions applied (score, coverage, exports)
+  const reviewedResult = useMemo(
+    () => (result ? withManualReview(result, manualReview) : null),
+    [result, manualReview]
+  );
+
+  // Points each fix is worth, and the fixes that reach the next grade milestone
+  const whatIf = useMemo(() => {
+    if (!result?.score) return null;
+    const input = toScoreInput(result, manualReview);
+    const options = {
+      model: result.score.model,
+      jurisdiction: getJurisdiction(result.jurisdiction),
+    };
+    return {
+      gains: new Map(rankFixes(input, options).map((fix) => [fix.ruleId, fix.gain])),
+      plan: planNextMilestone(input, options),
+    };
+  }, [result, manualReview]);
+
+  // Effort to fix the page's violations, as a range
+  const effort = useMemo(
+    () => (result && result.violations.length > 0 ? estimateEffort([result]) : null),
+    [result]
+  );
 
   // Load scanner UI state on mount and check for active scans
   useEffect(() => {
@@ -636,21 +747,90 @@ const App = () => {
 
       <div className="content">
         {/* Score Display - Bento Style */}
-        {result?.score && (
+        {reviewedResult?.score && (
           <div className="score-bento">
             <div className="score-circle">
-              <div className="score-number">{result.score.score}</div>
-              <div className="score-grade">{result.score.grade}</div>
+              <div className="score-number">{reviewedResult.score.score}</div>
+              <div className="score-grade">{reviewedResult.score.grade}</div>
             </div>
             <div className="score-info">
               <h3>{t('scoreLabel')}</h3>
               <div className="score-status">
-                {result.score.score >= 90 ? `✅ ${t('compliant')}` : `⚠️ ${t('needsImprovement')}`}
+                {isCompliant(
+                  reviewedResult.score.score,
+                  getJurisdiction(reviewedResult.jurisdiction)
+                )
+                  ? `✅ ${t('compliant')}`
+                  : `⚠️ ${t('needsImprovement')}`}
+              </div>
+              {reviewedResult.manualReview && (
+                <div className="score-reviewed">{t('includesManualReview')}</div>
+              )}
+              {whatIf?.plan?.reachable && whatIf.plan.fixes.length > 0 && (
+                <div className="score-milestone">
+                  {t('nextMilestone', [
+                    String(whatIf.plan.milestone.score),
+                    whatIf.plan.milestone.grade,
+                    String(whatIf.plan.fixes.length),
+                  ])}
+                </div>
+              )}
+              {effort && (
+                <div className="score-effort">{t('effortEstimate', [formatEffort(effort)])}</div>
+              )}
+              <div className="score-model">
+                {t('scoredWith', [formatScoringModel(reviewedResult.score.model)])}
               </div>
             </div>
           </div>
         )}
 
+        {/* Score trend, changes and regressions since the last scan of this page */}
+        {result && (
+          <HistoryPanel
+            key={result.timestamp}
+            historyKey={getHistoryKey(result.url)}
+            kind="page"
+            timestamp={result.timestamp}
+          />
+        )}
+
+        <div className="jurisdiction-picker">
+          <label htmlFor="jurisdiction">{t('jurisdiction')}</label>
+          <select
+            id="jurisdiction"
+            value={jurisdiction}
+            onChange={(e) => changeJurisdiction(e.target.value as JurisdictionId)}
+            disabled={scanning || fullSiteScanning}
+          >
+            {Object.values(JURISDICTIONS).map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <span className="jurisdiction-standard">{getJurisdiction(jurisdiction).standard}</span>
+        </div>
+
+        <div className="scoring-model-picker">
+          <label htmlFor="scoring-model">{t('scoringModel')}</label>
+          <select
+            id="scoring-model"
+            value={scoringModel}
+            onChange={(e) => changeScoringModel(e.target.value as ScoringModelId)}
+            disabled={scanning || fullSiteScanning}
+          >
+            {Object.values(SCORING_MODELS).map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+          <span className="scoring-model-description">
+            {SCORING_MODELS[scoringModel].description}
+          </span>
+        </div>
+
         <button
           type="button"
           className="scan-button"
@@ -732,6 +912,26 @@ const App = () => {
                         {result.bilingualCheck.detectedLanguages.join(', ').toUpperCase()}
                       </div>
                     )}
+                    {result.bilingualCheck.language && (
+                      <div className="bilingual-languages">
+                        {t('languageMix', [
+                          String(Math.round(result.bilingualCheck.language.proportions.en * 100)),
+                          String(Math.round(result.bilingualCheck.language.proportions.fr * 100)),
+                        ])}
+                      </div>
+                    )}
+                    {result.bilingualCheck.language?.mismatches.length ? (
+                      <div
+                        className="bilingual-mismatch"
+                        title={result.bilingualCheck.language.mismatches
+                          .map((mismatch) => `${mismatch.selector}: ${mismatch.text}`)
+                          .join('\n')}
+                      >
+                        {t('languageMismatches', [
+                          String(result.bilingualCheck.language.mismatches.length),
+                        ])}
+                      </div>
+                    ) : null}
                   </div>
                 </div>
               )}
@@ -796,6 +996,7 @@ const App = () => {
                     <ViolationItem
                       key={`${violation.id}-${idx}`}
                       violation={violation}
+                      gain={whatIf?.gains.get(violation.id)}
                       onClick={() => setSelectedViolation(violation)}
                     />
                   ))}
@@ -803,14 +1004,32 @@ const App = () => {
               </div>
             </div>
           ))}
+
+        {reviewedResult?.coverage && (
+          <CoveragePanel
+            coverage={reviewedResult.coverage}
+            onStartReview={() => setShowManualReview(true)}
+          />
+        )}
       </div>
 
-      {result && (
+      {reviewedResult && (
         <footer className="footer">
-          <ExportButton result={result} />
+          <ExportButton result={reviewedResult} />
         </footer>
       )}
 
+      {showManualReview && result?.coverage && (
+        <ManualReviewModal
+          url={result.url}
+          coverage={result.coverage}
+          incompleteResults={result.incompleteResults || []}
+          review={manualReview}
+          onChange={handleManualReviewChange}
+          onClose={() => setShowManualReview(false)}
+        />
+      )}
+
       {selectedViolation && (
         <ViolationModal violation={selectedViolation} onClose={() => setSelectedViolation(null)} />
       )}
@@ -843,6 +1062,8 @@ const App = () => {
           <div className="scanner-tab-content">
             <SiteScanner
               baseUrl={baseUrl}
+              jurisdiction={jurisdiction}
+              scoringModel={scoringModel}
               onComplete={(report) => {
                 setSiteReport(report);
                 setShowSiteScanner(false);
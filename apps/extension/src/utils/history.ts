@@ -0,0 +1,128 @@
+/**
+ * Scan history, persisted in IndexedDB
+ * Keeps a snapshot of every page scan (by URL) and site scan (by origin), with the
+ * full result, pruned to the retention policy after each new scan
+ */
+
+import {
+  DEFAULT_RETENTION,
+  type RetentionPolicy,
+  type ScanResult,
+  type ScanSnapshot,
+  ScanSnapshotSchema,
+  type SiteReport,
+  isComparable,
+  selectExpired,
+} from '@moderna11y/scanner';
+
+export interface HistoryRecord extends ScanSnapshot {
+  id?: number;
+  result: ScanResult | SiteReport; // Kept to compare scans in detail
+}
+
+const DB_NAME = 'moderna11y-history';
+const DB_VERSION = 1;
+const STORE = 'scans';
+
+/**
+ * Open the history database, creating the store and its indexes on first use
+ */
+function openHistory(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('key', 'key');
+      store.createIndex('origin', 'origin');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the store and wait for its transaction to finish
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openHistory();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load records by index, oldest first, skipping snapshots that fail validation
+ */
+async function loadRecords(index: 'key' | 'origin', value: string): Promise<HistoryRecord[]> {
+  const records = await withStore('readonly', (store) => store.index(index).getAll(value));
+  return (records as HistoryRecord[])
+    .filter((record) => {
+      const parsed = ScanSnapshotSchema.safeParse(record);
+      if (!parsed.success) {
+        console.warn('[History] Ignoring invalid snapshot', record.id, parsed.error.issues);
+      }
+      return parsed.success;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Record a scan and prune its page or site history
+ * Returns the latest earlier snapshot it can be compared with (same scope, scoring
+ * model and jurisdiction), if any.
+ */
+export async function recordScan(
+  snapshot: ScanSnapshot,
+  result: ScanResult | SiteReport,
+  policy: RetentionPolicy = DEFAULT_RETENTION
+): Promise<HistoryRecord | null> {
+  const history = await loadRecords('key', snapshot.key);
+  const previous = history.filter((record) => isComparable(record, snapshot)).pop() ?? null;
+
+  const id = await withStore('readwrite', (store) => store.add({ ...snapshot, result }));
+  const expired = selectExpired([...history, { ...snapshot, id: Number(id), result }], policy);
+  for (const record of expired) {
+    if (record.id !== undefined) {
+      const expiredId = record.id;
+      await withStore('readwrite', (store) => store.delete(expiredId));
+    }
+  }
+
+  return previous;
+}
+
+/**
+ * Load the history of a page (by history key) or a site (by origin), oldest first
+ */
+export async function loadHistory(
+  key: string,
+  kind: ScanSnapshot['kind'] = 'page'
+): Promise<HistoryRecord[]> {
+  const records = await loadRecords('key', key);
+  return records.filter((record) => record.kind === kind);
+}
+
+/**
+ * Load every page and site scan recorded on an origin, oldest first
+ */
+export async function loadOriginHistory(origin: string): Promise<HistoryRecord[]> {
+  return loadRecords('origin', origin);
+}
+
+/**
+ * Delete all scan history
+ */
+export async function clearHistory(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+}
@@ -4,9 +4,25 @@
  * Uses chrome.storage.local for permanent data
  */
 
+import {
+  JurisdictionId,
+  type LanguagePair,
+  type ManualReview,
+  ManualReviewSchema,
+  type Organization,
+  OrganizationSchema,
+  type PageScanResult,
+  type ScanResult,
+  ScoringModelId,
+  type SiteReport,
+  parsePageScanResult,
+  parseScanResult,
+  parseSiteReport,
+} from '@moderna11y/scanner';
+
 interface ScanState {
-  result?: unknown;
-  siteReport?: unknown;
+  result?: ScanResult | null;
+  siteReport?: SiteReport | null;
   scanProgress?: {
     current: number;
     total: number;
@@ -18,7 +34,7 @@ interface ScanState {
   timestamp?: string;
 }
 
-interface ScanSession {
+export interface ScanSession {
   id: string;
   baseUrl: string;
   status: 'discovering' | 'scanning' | 'aggregating' | 'complete' | 'error' | 'cancelled';
@@ -26,7 +42,18 @@ interface ScanSession {
   totalPages: number;
   scannedUrls: string[];
   remainingUrls: string[];
-  pageResults: unknown[];
+  pageResults: PageScanResult[];
+  strategy?: string;
+  sourceCounts?: SiteReport['sourceCounts'];
+  robots?: SiteReport['robots'];
+  excludedCounts?: SiteReport['excludedCounts'];
+  filters?: SiteReport['filters'];
+  languageParity?: boolean; // Audit English/French page pairs
+  languagePairs?: LanguagePair[]; // English/French pairs declared in the sitemap
+  parityExpanded?: boolean; // French counterparts have been queued
+  jurisdiction?: JurisdictionId; // Profile the pages are assessed against
+  scoringModel?: ScoringModelId; // Model pages and the site are scored with
+  organization?: Organization; // Organization the AODA obligations are derived for
   startTime: string;
   lastUpdate: string;
   error?: string;
@@ -35,6 +62,11 @@ interface ScanSession {
 const SCAN_STATE_KEY = 'currentScanState';
 const SCAN_SESSION_KEY = 'activeScanSession';
 const SETTINGS_KEY = 'settings';
+const JURISDICTION_KEY = 'jurisdiction';
+const ORGANIZATION_KEY = 'organization';
+const SCORING_MODEL_KEY = 'scoringModel';
+const RULE_OVERRIDES_KEY = 'ruleOverrides';
+const MANUAL_REVIEWS_KEY = 'manualReviews';
 
 /**
  * Save current scan state (persists across popup close/open)
@@ -49,11 +81,19 @@ export async function saveScanState(state: ScanState): Promise<void> {
 }
 
 /**
- * Load saved scan state
+ * Load saved scan state, migrating results saved by older versions
+ * A result that no longer validates is dropped rather than shown half-broken.
  */
 export async function loadScanState(): Promise<ScanState | null> {
   const result = await chrome.storage.session.get(SCAN_STATE_KEY);
-  return result[SCAN_STATE_KEY] || null;
+  const state: ScanState | undefined = result[SCAN_STATE_KEY];
+  if (!state) return null;
+
+  return {
+    ...state,
+    result: state.result ? migrateStored(state.result, parseScanResult) : null,
+    siteReport: state.siteReport ? migrateStored(state.siteReport, parseSiteReport) : null,
+  };
 }
 
 /**
@@ -76,11 +116,19 @@ export async function saveScanSession(session: ScanSession): Promise<void> {
 }
 
 /**
- * Load active scan session
+ * Load active scan session, migrating page results saved by older versions
  */
 export async function loadScanSession(): Promise<ScanSession | null> {
   const result = await chrome.storage.local.get(SCAN_SESSION_KEY);
-  return result[SCAN_SESSION_KEY] || null;
+  const session: ScanSession | undefined = result[SCAN_SESSION_KEY];
+  if (!session) return null;
+
+  const pageResults: PageScanResult[] = [];
+  for (const page of session.pageResults ?? []) {
+    const migrated = migrateStored(page, parsePageScanResult);
+    if (migrated) pageResults.push(migrated);
+  }
+  return { ...session, pageResults };
 }
 
 /**
@@ -109,6 +157,18 @@ export async function updateScanSession(
   return updatedSession;
 }
 
+/**
+ * Validate stored data with a scanner parse function (null when it cannot be migrated)
+ */
+function migrateStored<T>(data: unknown, parse: (data: unknown) => T): T | null {
+  try {
+    return parse(data);
+  } catch (error) {
+    console.warn('[Storage] Dropping stored result that failed validation:', error);
+    return null;
+  }
+}
+
 /**
  * Save settings
  */
@@ -124,6 +184,112 @@ export async function loadSettings(): Promise<unknown | null> {
   return result[SETTINGS_KEY] || null;
 }
 
+/**
+ * Save the jurisdiction scans are assessed against
+ */
+export async function saveJurisdiction(jurisdiction: JurisdictionId): Promise<void> {
+  await chrome.storage.local.set({ [JURISDICTION_KEY]: jurisdiction });
+}
+
+/**
+ * Load the jurisdiction scans are assessed against (undefined when unset or unknown)
+ */
+export async function loadJurisdiction(): Promise<JurisdictionId | undefined> {
+  const result = await chrome.storage.local.get(JURISDICTION_KEY);
+  const parsed = JurisdictionId.safeParse(result[JURISDICTION_KEY]);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Save the model scans are scored with
+ */
+export async function saveScoringModel(model: ScoringModelId): Promise<void> {
+  await chrome.storage.local.set({ [SCORING_MODEL_KEY]: model });
+}
+
+/**
+ * Load the model scans are scored with (undefined when unset or unknown)
+ */
+export async function loadScoringModel(): Promise<ScoringModelId | undefined> {
+  const result = await chrome.storage.local.get(SCORING_MODEL_KEY);
+  const parsed = ScoringModelId.safeParse(result[SCORING_MODEL_KEY]);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Save the organization type and size AODA obligations are derived for
+ */
+export async function saveOrganization(organization: Organization | null): Promise<void> {
+  if (organization) {
+    await chrome.storage.local.set({ [ORGANIZATION_KEY]: organization });
+  } else {
+    await chrome.storage.local.remove(ORGANIZATION_KEY);
+  }
+}
+
+/**
+ * Load the organization (undefined when unset, or when stored data is invalid)
+ */
+export async function loadOrganization(): Promise<Organization | undefined> {
+  const result = await chrome.storage.local.get(ORGANIZATION_KEY);
+  const parsed = OrganizationSchema.safeParse(result[ORGANIZATION_KEY]);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Save organization rule override packs (parsed JSON, applied in order)
+ */
+export async function saveRuleOverrides(packs: unknown[]): Promise<void> {
+  await chrome.storage.local.set({ [RULE_OVERRIDES_KEY]: packs });
+}
+
+/**
+ * Load organization rule override packs
+ */
+export async function loadRuleOverrides(): Promise<unknown[]> {
+  const result = await chrome.storage.local.get(RULE_OVERRIDES_KEY);
+  return result[RULE_OVERRIDES_KEY] || [];
+}
+
+/**
+ * Key manual reviews by page, ignoring the fragment
+ */
+function reviewKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Save the manual review decisions for a page
+ */
+export async function saveManualReview(review: ManualReview): Promise<void> {
+  const result = await chrome.storage.local.get(MANUAL_REVIEWS_KEY);
+  const reviews = (result[MANUAL_REVIEWS_KEY] || {}) as Record<string, ManualReview>;
+  reviews[reviewKey(review.url)] = review;
+  await chrome.storage.local.set({ [MANUAL_REVIEWS_KEY]: reviews });
+}
+
+/**
+ * Load the manual review decisions for a page (null when none, or when stored data is invalid)
+ */
+export async function loadManualReview(url: string): Promise<ManualReview | null> {
+  const result = await chrome.storage.local.get(MANUAL_REVIEWS_KEY);
+  const stored = result[MANUAL_REVIEWS_KEY]?.[reviewKey(url)];
+  if (!stored) return null;
+
+  const parsed = ManualReviewSchema.safeParse(stored);
+  if (!parsed.success) {
+    console.warn('[Storage] Ignoring invalid manual review for', url, parsed.error.issues);
+    return null;
+  }
+  return parsed.data;
+}
+
 /**
  * Check if there's an active scan session that can be resumed
  */
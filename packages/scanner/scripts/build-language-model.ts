@@ -0,0 +1,58 @@
+#!/usr/bin/env bun
+
+/**
+ * Language Model Builder
+ *
+ * Counts character trigrams in the English and French corpora under
+ * scripts/language-corpus/ and writes the model bundled with the package
+ * (src/language/language-model.json). Re-run after editing a corpus.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { NGRAM_SIZE, extractNgrams } from '../src/language/ngrams';
+
+const LANGUAGES = ['en', 'fr'] as const;
+
+// Most frequent n-grams kept per language; the rest are too rare to discriminate
+const MAX_NGRAMS = 600;
+
+const corpusDir = join(import.meta.dir, 'language-corpus');
+const outputPath = join(import.meta.dir, '../src/language/language-model.json');
+
+function buildProfile(text: string) {
+  const counts = new Map<string, number>();
+  for (const ngram of extractNgrams(text)) {
+    counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+  }
+
+  const top = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_NGRAMS);
+
+  return {
+    total: top.reduce((sum, [, count]) => sum + count, 0),
+    ngrams: Object.fromEntries(top),
+  };
+}
+
+const model = {
+  schemaVersion: 1,
+  n: NGRAM_SIZE,
+  languages: Object.fromEntries(
+    LANGUAGES.map((language) => [
+      language,
+      buildProfile(readFileSync(join(corpusDir, `${language}.txt`), 'utf8')),
+    ])
+  ),
+};
+
+writeFileSync(outputPath, `${JSON.stringify(model, null, 2)}\n`);
+
+for (const language of LANGUAGES) {
+  const profile = model.languages[language];
+  console.log(
+    `${language}: ${Object.keys(profile.ngrams).length} n-grams (${profile.total} occurrences)`
+  );
+}
+console.log(`✅ Wrote ${outputPath}`);
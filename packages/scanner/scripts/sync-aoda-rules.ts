@@ -13,7 +13,7 @@
 
 import { mkdirSync, writeFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
-import { AODA_RULES_MAP } from '../src/ontario/aoda-rules';
+import { AODA_BASE_PACK, AODA_RULES_MAP } from '../src/ontario/aoda-rules';
 import type { ImpactLevel } from '../src/types';
 
 interface RuleStats {
@@ -132,7 +132,7 @@ function exportRulesJSON(): void {
   const outputPath = join(import.meta.dir, '../dist/aoda-rules.json');
 
   const exportData = {
-    version: '1.0.0',
+    version: AODA_BASE_PACK.version,
     generated: new Date().toISOString(),
     rules: AODA_RULES_MAP,
     stats: generateStats(),
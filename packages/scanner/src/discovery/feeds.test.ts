@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { extractFeedLinks, isFeedUrl, isFeedXML, parseFeed } from './feeds';
+
+describe('Feed Mining', () => {
+  describe('isFeedXML', () => {
+    it('should recognise RSS, RDF and Atom documents', () => {
+      expect(isFeedXML('<?xml version="1.0"?><rss version="2.0"><channel/></rss>')).toBe(true);
+      expect(isFeedXML('<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">')).toBe(
+        true
+      );
+      expect(isFeedXML('<feed xmlns="http://www.w3.org/2005/Atom"></feed>')).toBe(true);
+    });
+
+    it('should not treat sitemaps as feeds', () => {
+      expect(isFeedXML('<urlset><url><loc>https://example.com/</loc></url></urlset>')).toBe(false);
+    });
+  });
+
+  describe('isFeedUrl', () => {
+    it('should match feed endpoints', () => {
+      expect(isFeedUrl('https://example.com/feed')).toBe(true);
+      expect(isFeedUrl('https://example.com/news/feed/')).toBe(true);
+      expect(isFeedUrl('https://example.com/blog/atom')).toBe(true);
+    });
+
+    it('should not match pages that merely mention feeds', () => {
+      expect(isFeedUrl('https://example.com/feedback')).toBe(false);
+      expect(isFeedUrl('https://example.com/feed/how-to-subscribe')).toBe(false);
+    });
+  });
+
+  describe('parseFeed', () => {
+    it('should extract RSS item links and publication dates', () => {
+      const xml = `<rss><channel>
+        <link>https://example.com/</link>
+        <item>
+          <link><![CDATA[https://example.com/news/a?x=1&y=2]]></link>
+          <pubDate>Mon, 04 Mar 2024 09:00:00 -0500</pubDate>
+        </item>
+        <item>
+          <guid isPermaLink="true">https://example.com/news/b</guid>
+        </item>
+        <item>
+          <guid isPermaLink="false">urn:uuid:1234</guid>
+        </item>
+      </channel></rss>`;
+
+      expect(parseFeed(xml, 'https://example.com/feed')).toEqual([
+        {
+          url: 'https://example.com/news/a?x=1&y=2',
+          lastmod: '2024-03-04T14:00:00.000Z',
+          alternates: [],
+        },
+        { url: 'https://example.com/news/b', lastmod: undefined, alternates: [] },
+      ]);
+    });
+
+    it('should extract Atom entry links, resolving relative hrefs', () => {
+      const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+        <link rel="self" href="https://example.com/atom.xml"/>
+        <entry>
+          <link rel="edit" href="/admin/posts/1"/>
+          <link rel="alternate" type="text/html" href="/blog/first-post"/>
+          <updated>2024-02-01T12:00:00Z</updated>
+        </entry>
+        <entry>
+          <link href="https://example.com/blog/second-post"/>
+        </entry>
+      </feed>`;
+
+      expect(parseFeed(xml, 'https://example.com/atom.xml')).toEqual([
+        {
+          url: 'https://example.com/blog/first-post',
+          lastmod: '2024-02-01T12:00:00.000Z',
+          alternates: [],
+        },
+        { url: 'https://example.com/blog/second-post', lastmod: undefined, alternates: [] },
+      ]);
+    });
+  });
+
+  describe('extractFeedLinks', () => {
+    it('should find advertised RSS and Atom feeds', () => {
+      const html = `<head>
+        <link rel="stylesheet" href="/style.css">
+        <link rel="alternate" type="application/rss+xml" title="News" href="/news/rss">
+        <link type="application/atom+xml" rel="alternate" href="https://example.com/atom.xml">
+        <link rel="alternate" hreflang="fr" href="/fr">
+      </head>`;
+
+      expect(extractFeedLinks(html, 'https://example.com/')).toEqual([
+        'https://example.com/news/rss',
+        'https://example.com/atom.xml',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * RSS/Atom Feed Mining
+ *
+ * Some CMS-hosted sites publish feeds but no sitemap. Feed entries link to
+ * real pages, so they are mined for URLs; the feeds themselves are never
+ * scanned as pages.
+ */
+
+import type { SitemapEntry } from './sitemap-metadata';
+
+// Conventional feed locations tried when a page advertises none
+export const WELL_KNOWN_FEED_PATHS = ['/feed', '/rss.xml', '/feed.xml', '/atom.xml', '/index.xml'];
+
+// Path segments that serve feeds rather than pages (/feed, /news/rss, /blog/atom/)
+const FEED_PATH = /\/(feed|rss|atom)\/?$/i;
+
+const FEED_MIME_TYPES = /^application\/(rss|atom)\+xml$/i;
+
+/**
+ * Check whether an XML document is an RSS or Atom feed rather than a sitemap
+ */
+export function isFeedXML(xml: string): boolean {
+  return /<rss[\s>]/i.test(xml) || /<feed[\s>]/i.test(xml) || /<rdf:RDF[\s>]/i.test(xml);
+}
+
+/**
+ * Check whether a URL points at a feed endpoint
+ */
+export function isFeedUrl(url: string): boolean {
+  try {
+    return FEED_PATH.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract the page URLs of RSS `<item>` and Atom `<entry>` elements
+ * Publication dates become `lastmod` so feeds work with `changedSince`.
+ */
+export function parseFeed(xml: string, feedUrl: string): SitemapEntry[] {
+  const entries: SitemapEntry[] = [];
+
+  // RSS 2.0 and RSS 1.0 (RDF) items
+  for (const match of xml.matchAll(/<item(?:\s[^>]*)?>([\s\S]*?)<\/item>/gi)) {
+    const link = readText(match[1], 'link') ?? readPermalinkGuid(match[1]);
+    const url = resolve(link, feedUrl);
+    if (!url) continue;
+
+    const published =
+      readText(match[1], 'pubDate') ??
+      readText(match[1], 'dc:date') ??
+      readText(match[1], 'updated');
+    entries.push({ url, lastmod: toISODate(published), alternates: [] });
+  }
+
+  // Atom entries
+  for (const match of xml.matchAll(/<entry(?:\s[^>]*)?>([\s\S]*?)<\/entry>/gi)) {
+    const url = resolve(readAtomLink(match[1]), feedUrl);
+    if (!url) continue;
+
+    const updated = readText(match[1], 'updated') ?? readText(match[1], 'published');
+    entries.push({ url, lastmod: toISODate(updated), alternates: [] });
+  }
+
+  return entries;
+}
+
+/**
+ * Find feeds advertised by `<link rel="alternate" type="application/rss+xml">` in an HTML page
+ */
+export function extractFeedLinks(html: string, pageUrl: string): string[] {
+  const feeds: string[] = [];
+
+  for (const match of html.matchAll(/<link\s[^>]*>/gi)) {
+    const tag = match[0];
+    const rel = readAttribute(tag, 'rel')?.toLowerCase().split(/\s+/) ?? [];
+    const type = readAttribute(tag, 'type') ?? '';
+    if (!rel.includes('alternate') || !FEED_MIME_TYPES.test(type)) continue;
+
+    const url = resolve(readAttribute(tag, 'href'), pageUrl);
+    if (url && !feeds.includes(url)) feeds.push(url);
+  }
+
+  return feeds;
+}
+
+/**
+ * Read the text content of the first <tag> in a fragment, unwrapping CDATA
+ */
+function readText(fragment: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i').exec(fragment);
+  const value = match
+    ? decodeXmlText(match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim())
+    : '';
+  return value || undefined;
+}
+
+/**
+ * RSS items without <link> may carry their URL in a permalink <guid>
+ */
+function readPermalinkGuid(fragment: string): string | undefined {
+  const match = /<guid(\s[^>]*)?>([\s\S]*?)<\/guid>/i.exec(fragment);
+  if (!match || /isPermaLink\s*=\s*["']false["']/i.test(match[1] ?? '')) return undefined;
+  return decodeXmlText(match[2].trim()) || undefined;
+}
+
+/**
+ * Read the page link of an Atom entry: rel="alternate", or a link without rel
+ */
+function readAtomLink(fragment: string): string | undefined {
+  for (const match of fragment.matchAll(/<link\s[^>]*>/gi)) {
+    const rel = readAttribute(match[0], 'rel') ?? 'alternate';
+    if (rel.toLowerCase() === 'alternate') return readAttribute(match[0], 'href');
+  }
+  return undefined;
+}
+
+/**
+ * Read a quoted attribute value from a single tag
+ * Shared with the sitemap reader, so both XML readers decode attributes alike.
+ */
+export function readAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(tag);
+  const value = match ? decodeXmlText((match[1] ?? match[2]).trim()) : '';
+  return value || undefined;
+}
+
+/**
+ * Resolve a feed link to an absolute http(s) URL
+ */
+function resolve(link: string | undefined, baseUrl: string): string | null {
+  if (!link) return null;
+  try {
+    const url = new URL(link, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert RFC 822 (RSS) or RFC 3339 (Atom) dates to ISO 8601
+ */
+function toISODate(value?: string): string | undefined {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Decode the predefined XML entities (also used for HTML attribute values)
+ */
+export function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&amp;|&#0*38;/g, '&');
+}
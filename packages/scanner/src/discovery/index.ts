@@ -1,6 +1,54 @@
 export {
   discoverRoutes,
+  extractLinks,
   normalizeUrl,
+  parseSitemapXML,
   type DiscoveryOptions,
   type DiscoveryResult,
+  type DiscoverySource,
 } from './route-discovery';
+export {
+  ROBOTS_USER_AGENT,
+  isAllowedByRobots,
+  matchesRobotsPattern,
+  parseRobotsTxt,
+  type RobotsPolicy,
+  type RobotsRule,
+} from './robots';
+export {
+  WELL_KNOWN_FEED_PATHS,
+  extractFeedLinks,
+  isFeedUrl,
+  isFeedXML,
+  parseFeed,
+} from './feeds';
+export {
+  findLanguagePairs,
+  isChangedSince,
+  parseChangeFrequency,
+  type ChangeFrequency,
+  type LanguagePair,
+  type SitemapAlternate,
+  type SitemapEntry,
+} from './sitemap-metadata';
+export {
+  getHighValueKind,
+  getPathTemplate,
+  groupByTemplate,
+  sampleUrls,
+  type ExcludedUrl,
+  type ExclusionReason,
+  type HighValueKind,
+  type SampleResult,
+  type UrlCandidate,
+} from './url-sampling';
+export {
+  applyQueryHandling,
+  compileUrlPattern,
+  createUrlFilter,
+  isWithinPathPrefix,
+  type CompiledPattern,
+  type QueryHandling,
+  type UrlFilter,
+  type UrlFilterRules,
+} from './url-filters';
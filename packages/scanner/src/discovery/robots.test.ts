@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, matchesRobotsPattern, parseRobotsTxt } from './robots';
+
+describe('robots.txt Parser', () => {
+  describe('parseRobotsTxt', () => {
+    it('should use the * group when no group names our user agent', () => {
+      const policy = parseRobotsTxt(`
+User-agent: Googlebot
+Disallow: /private-google
+
+User-agent: *
+Disallow: /admin
+Crawl-delay: 5
+`);
+
+      expect(policy.userAgent).toBe('*');
+      expect(policy.rules).toEqual([{ allow: false, path: '/admin' }]);
+      expect(policy.crawlDelay).toBe(5);
+    });
+
+    it('should prefer a group that names our user agent', () => {
+      const policy = parseRobotsTxt(`
+User-agent: *
+Disallow: /
+
+User-agent: ComplyCA
+Disallow: /calendar
+Crawl-delay: 2
+`);
+
+      expect(policy.userAgent).toBe('complyca');
+      expect(policy.rules).toEqual([{ allow: false, path: '/calendar' }]);
+      expect(policy.crawlDelay).toBe(2);
+    });
+
+    it('should share rules across consecutive user-agent lines', () => {
+      const policy = parseRobotsTxt(`
+User-agent: Bingbot
+User-agent: *
+Disallow: /search
+`);
+
+      expect(policy.rules).toEqual([{ allow: false, path: '/search' }]);
+    });
+
+    it('should collect sitemap directives from anywhere in the file', () => {
+      const policy = parseRobotsTxt(`
+Sitemap: https://example.com/sitemap.xml
+User-agent: *
+Disallow:
+Sitemap: https://example.com/news.xml
+`);
+
+      expect(policy.sitemaps).toEqual([
+        'https://example.com/sitemap.xml',
+        'https://example.com/news.xml',
+      ]);
+      expect(policy.rules).toEqual([]);
+    });
+
+    it('should ignore comments, blank lines and unknown fields', () => {
+      const policy = parseRobotsTxt(`
+# Ontario ministry robots policy
+User-agent: * # everyone
+Host: example.com
+Disallow: /tmp # scratch space
+`);
+
+      expect(policy.rules).toEqual([{ allow: false, path: '/tmp' }]);
+    });
+
+    it('should ignore invalid crawl-delay values', () => {
+      const policy = parseRobotsTxt('User-agent: *\nCrawl-delay: soon');
+      expect(policy.crawlDelay).toBeUndefined();
+    });
+
+    it('should return an empty policy for empty content', () => {
+      const policy = parseRobotsTxt('');
+      expect(policy.rules).toEqual([]);
+      expect(policy.sitemaps).toEqual([]);
+    });
+  });
+
+  describe('isAllowedByRobots', () => {
+    const policy = parseRobotsTxt(`
+User-agent: *
+Disallow: /fr/recherche
+Disallow: /*.php$
+Disallow: /events/*?date=
+Allow: /fr/recherche/aide
+`);
+
+    it('should allow URLs that match no rule', () => {
+      expect(isAllowedByRobots('https://example.com/fr/services', policy)).toBe(true);
+    });
+
+    it('should block URLs matching a Disallow prefix', () => {
+      expect(isAllowedByRobots('https://example.com/fr/recherche?q=taxe', policy)).toBe(false);
+    });
+
+    it('should let the longest matching rule win', () => {
+      expect(isAllowedByRobots('https://example.com/fr/recherche/aide', policy)).toBe(true);
+    });
+
+    it('should support * wildcards and $ anchors', () => {
+      expect(isAllowedByRobots('https://example.com/index.php', policy)).toBe(false);
+      expect(isAllowedByRobots('https://example.com/index.php?id=1', policy)).toBe(true);
+      expect(isAllowedByRobots('https://example.com/events/list?date=2024-01', policy)).toBe(false);
+    });
+
+    it('should let Allow win a tie with Disallow', () => {
+      const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+      expect(isAllowedByRobots('https://example.com/page', tie)).toBe(true);
+    });
+
+    it('should always allow robots.txt itself', () => {
+      const all = parseRobotsTxt('User-agent: *\nDisallow: /');
+      expect(isAllowedByRobots('https://example.com/robots.txt', all)).toBe(true);
+      expect(isAllowedByRobots('https://example.com/', all)).toBe(false);
+    });
+  });
+
+  describe('matchesRobotsPattern', () => {
+    it('should match percent-encoded paths against decoded patterns', () => {
+      expect(matchesRobotsPattern('/caf%C3%A9', '/café')).toBe(true);
+    });
+
+    it('should match percent-encoded patterns against encoded and decoded paths', () => {
+      expect(matchesRobotsPattern('/caf%C3%A9', '/caf%C3%A9')).toBe(true);
+      expect(matchesRobotsPattern('/café/menu', '/caf%C3%A9')).toBe(true);
+      expect(matchesRobotsPattern('/caf%C3%A9/menu', '/caf%C3%A9*menu$')).toBe(true);
+
+      const encoded = parseRobotsTxt('User-agent: *\nDisallow: /caf%C3%A9\n');
+      expect(isAllowedByRobots('https://x.ca/caf%C3%A9/menu', encoded)).toBe(false);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchesRobotsPattern('/a+b', '/a+b')).toBe(true);
+      expect(matchesRobotsPattern('/aab', '/a+b')).toBe(false);
+      expect(matchesRobotsPattern('/a*b', '/a%2Ab')).toBe(true);
+      expect(matchesRobotsPattern('/aab', '/a%2Ab')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * robots.txt Parser
+ *
+ * Implements the Robots Exclusion Protocol (RFC 9309) closely enough for audit crawls:
+ * user-agent groups, Allow/Disallow with `*` and `$` patterns (longest match wins,
+ * Allow wins ties), Crawl-delay and Sitemap directives.
+ */
+
+// Product token the scanner identifies as when matching user-agent groups
+export const ROBOTS_USER_AGENT = 'ComplyCA';
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  userAgent: string; // Group that applied: the matched user-agent line, or '*'
+  rules: RobotsRule[];
+  crawlDelay?: number; // Seconds between requests
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * Parse robots.txt content into the policy that applies to the given user agent
+ */
+export function parseRobotsTxt(text: string, userAgent = ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow allows everything, so it adds no rule
+        if (current && value) {
+          current.rules.push({ allow: field === 'allow', path: value });
+        }
+        break;
+      case 'crawl-delay': {
+        const delay = Number.parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        // Sitemap lines are global, not part of any group
+        if (value) sitemaps.push(value);
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  const group = selectGroup(groups, userAgent);
+
+  return {
+    userAgent: group ? (group.agents.find((a) => a !== '*') ?? '*') : '*',
+    rules: group?.rules ?? [],
+    crawlDelay: group?.crawlDelay,
+    sitemaps,
+  };
+}
+
+/**
+ * Pick the group for our user agent, falling back to the `*` group
+ */
+function selectGroup(groups: RobotsGroup[], userAgent: string): RobotsGroup | undefined {
+  const token = userAgent.toLowerCase();
+  const specific = groups.find((group) =>
+    group.agents.some((agent) => agent !== '*' && token.includes(agent))
+  );
+  return specific ?? groups.find((group) => group.agents.includes('*'));
+}
+
+/**
+ * Check whether a URL may be crawled under a robots policy
+ */
+export function isAllowedByRobots(url: string, policy: RobotsPolicy): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch {
+    return false;
+  }
+
+  // robots.txt itself is always allowed
+  if (path === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!matchesRobotsPattern(path, rule.path)) continue;
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Match a URL path against a robots.txt path pattern (`*` wildcard, `$` end anchor)
+ * Both sides are decoded the same way; the wildcard and anchor are split off first
+ * so an encoded `%2A` or `%24` stays literal.
+ */
+export function matchesRobotsPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const escaped = body
+    .split('*')
+    .map((part) => safeDecode(part).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${escaped}${anchored ? '$' : ''}`).test(safeDecode(path));
+}
+
+/**
+ * Decode percent-escapes so `/caf%C3%A9` and `/café` patterns compare equal
+ */
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
@@ -1,5 +1,24 @@
-import { describe, expect, it } from 'vitest';
-import { normalizeUrl } from './route-discovery';
+import { gzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { discoverRoutes, extractLinks, normalizeUrl, parseSitemapXML } from './route-discovery';
+
+/**
+ * Stub global fetch with a map of URL -> HTML body; unknown URLs return 404
+ */
+function stubSite(pages: Record<string, string>) {
+  const fetchMock = vi.fn(async (input: string | URL) => {
+    const url = String(input);
+    if (url in pages) {
+      return new Response(pages[url], {
+        status: 200,
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+      });
+    }
+    return new Response('Not found', { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
 
 describe('Route Discovery', () => {
   describe('normalizeUrl', () => {
@@ -140,4 +159,713 @@ describe('Route Discovery', () => {
       );
     });
   });
+
+  describe('extractLinks', () => {
+    it('should resolve relative and absolute hrefs against the page URL', () => {
+      const html = `
+        <a href="/about">About</a>
+        <a class="nav" href='services/'>Services</a>
+        <a href="https://example.com/contact">Contact</a>
+      `;
+      expect(extractLinks(html, 'https://example.com/en/')).toEqual([
+        'https://example.com/about',
+        'https://example.com/en/services/',
+        'https://example.com/contact',
+      ]);
+    });
+
+    it('should skip fragments and non-http schemes', () => {
+      const html = `
+        <a href="#main">Skip</a>
+        <a href="mailto:info@example.com">Email</a>
+        <a href="tel:+14165550100">Call</a>
+        <a href="javascript:void(0)">Menu</a>
+        <a href="/page">Page</a>
+      `;
+      expect(extractLinks(html, 'https://example.com/')).toEqual(['https://example.com/page']);
+    });
+
+    it('should honour <base href> and decode entities', () => {
+      const html = `
+        <base href="https://example.com/fr/">
+        <a href="recherche?q=a&amp;page=2">Recherche</a>
+      `;
+      expect(extractLinks(html, 'https://example.com/')).toEqual([
+        'https://example.com/fr/recherche?q=a&page=2',
+      ]);
+    });
+
+    it('should ignore anchors without href', () => {
+      expect(extractLinks('<a name="top">Top</a>', 'https://example.com/')).toEqual([]);
+    });
+  });
+
+  describe('discoverRoutes DOM crawling', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should crawl same-origin links breadth-first when no sitemap exists', async () => {
+      stubSite({
+        'https://example.com/': `
+          <a href="/about/">About</a>
+          <a href="/services#top">Services</a>
+          <a href="https://other.org/">Partner</a>
+        `,
+        'https://example.com/about': '<a href="/about/team">Team</a><a href="/">Home</a>',
+        'https://example.com/services': '<a href="/services/permits">Permits</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { maxDepth: 2 });
+
+      expect(result.strategy).toBe('dom');
+      expect(result.urls).toHaveLength(5);
+      expect(result.urls).toEqual(
+        expect.arrayContaining([
+          'https://example.com/',
+          'https://example.com/about',
+          'https://example.com/services',
+          'https://example.com/about/team',
+          'https://example.com/services/permits',
+        ])
+      );
+      expect(result.urls).not.toContain('https://other.org/');
+    });
+
+    it('should not follow links beyond maxDepth', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/': '<a href="/level-1">One</a>',
+        'https://example.com/level-1': '<a href="/level-2">Two</a>',
+        'https://example.com/level-2': '<a href="/level-3">Three</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { maxDepth: 1 });
+
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/level-1']);
+      expect(fetchMock).not.toHaveBeenCalledWith('https://example.com/level-1', expect.anything());
+    });
+
+    it('should stop crawling once maxPages is reached', async () => {
+      stubSite({
+        'https://example.com/': '<a href="/a">A</a><a href="/b">B</a><a href="/c">C</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { maxPages: 3 });
+
+      expect(result.urls).toHaveLength(3);
+      expect(result.limitReached).toBe(true);
+    });
+
+    it('should include external links when includeExternal is set, without crawling them', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/': '<a href="https://partner.ca/info">Partner</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { includeExternal: true });
+
+      expect(result.urls).toContain('https://partner.ca/info');
+      expect(fetchMock).not.toHaveBeenCalledWith('https://partner.ca/info', expect.anything());
+    });
+
+    it('should skip links to media and document files', async () => {
+      stubSite({
+        'https://example.com/': '<a href="/report.pdf">Report</a><a href="/logo.png">Logo</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.urls).toEqual(['https://example.com/']);
+    });
+  });
+
+  describe('discoverRoutes hybrid mode', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    const sitemap = (urls: string[]) =>
+      `<?xml version="1.0"?><urlset>${urls.map((u) => `<url><loc>${u}</loc></url>`).join('')}</urlset>`;
+
+    it('should merge sitemap, robots and crawl results with source attribution', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': sitemap([
+          'https://example.com/',
+          'https://example.com/about',
+        ]),
+        'https://example.com/robots.txt': 'Sitemap: https://example.com/news-sitemap.xml',
+        'https://example.com/news-sitemap.xml': sitemap(['https://example.com/news/budget']),
+        'https://example.com/': '<a href="/about/">About</a><a href="/forms">Forms</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { mode: 'hybrid' });
+
+      expect(result.strategy).toBe('hybrid');
+      expect(result.discoveredCount).toBe(4);
+      expect(result.sources['https://example.com/']).toEqual(['sitemap', 'dom']);
+      expect(result.sources['https://example.com/about']).toEqual(['sitemap', 'dom']);
+      expect(result.sources['https://example.com/news/budget']).toEqual(['robots']);
+      expect(result.sources['https://example.com/forms']).toEqual(['dom']);
+      expect(result.sourceCounts).toEqual({ sitemap: 2, robots: 1, feed: 0, dom: 3 });
+    });
+
+    it('should still crawl when a sitemap is present', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': sitemap(['https://example.com/']),
+        'https://example.com/': '<a href="/unlisted">Unlisted</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { mode: 'hybrid' });
+
+      expect(result.urls).toContain('https://example.com/unlisted');
+    });
+
+    it('should attribute every URL to the winning strategy in fallback mode', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': sitemap([
+          'https://example.com/',
+          'https://example.com/contact',
+        ]),
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('sitemap');
+      expect(result.sources['https://example.com/contact']).toEqual(['sitemap']);
+      expect(result.sourceCounts).toEqual({ sitemap: 2, robots: 0, feed: 0, dom: 0 });
+    });
+  });
+
+  describe('discoverRoutes robots.txt compliance', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should drop sitemap URLs disallowed by robots.txt', async () => {
+      stubSite({
+        'https://example.com/robots.txt': 'User-agent: *\nDisallow: /admin\nCrawl-delay: 3',
+        'https://example.com/sitemap.xml':
+          '<urlset><url><loc>https://example.com/</loc></url>' +
+          '<url><loc>https://example.com/admin/users</loc></url></urlset>',
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.urls).toEqual(['https://example.com/']);
+      expect(result.robots).toEqual({
+        found: true,
+        respected: true,
+        userAgent: '*',
+        crawlDelay: 3,
+        blockedUrls: ['https://example.com/admin/users'],
+      });
+    });
+
+    it('should never fetch disallowed pages while crawling', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/robots.txt': 'User-agent: *\nDisallow: /calendar',
+        'https://example.com/': '<a href="/calendar/2024">Calendar</a><a href="/news">News</a>',
+        'https://example.com/news': '<a href="/calendar/2025">Calendar</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/news']);
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        'https://example.com/calendar/2024',
+        expect.anything()
+      );
+    });
+
+    it('should wait the Crawl-delay between crawl fetches', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/robots.txt': 'User-agent: *\nCrawl-delay: 0.05',
+        'https://example.com/': '<a href="/a">A</a><a href="/b">B</a>',
+      });
+      const fetchedAt: Record<string, number> = {};
+      const respond = fetchMock.getMockImplementation();
+      fetchMock.mockImplementation(async (input) => {
+        fetchedAt[String(input)] = Date.now();
+        return (respond as NonNullable<typeof respond>)(input);
+      });
+
+      await discoverRoutes('https://example.com/');
+
+      const times = ['https://example.com/', 'https://example.com/a', 'https://example.com/b'].map(
+        (url) => fetchedAt[url]
+      );
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+      expect(times[2] - times[1]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should wait the Crawl-delay between sitemap fetches', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/robots.txt': 'User-agent: *\nCrawl-delay: 0.05',
+        'https://example.com/sitemap.xml':
+          '<sitemapindex><sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap>' +
+          '<sitemap><loc>https://example.com/sitemap-2.xml</loc></sitemap></sitemapindex>',
+        'https://example.com/sitemap-1.xml':
+          '<urlset><url><loc>https://example.com/a</loc></url></urlset>',
+        'https://example.com/sitemap-2.xml':
+          '<urlset><url><loc>https://example.com/b</loc></url></urlset>',
+      });
+      const fetchedAt: Record<string, number> = {};
+      const respond = fetchMock.getMockImplementation();
+      fetchMock.mockImplementation(async (input) => {
+        fetchedAt[String(input)] = Date.now();
+        return (respond as NonNullable<typeof respond>)(input);
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('sitemap');
+      const times = ['sitemap.xml', 'sitemap-1.xml', 'sitemap-2.xml'].map(
+        (path) => fetchedAt[`https://example.com/${path}`]
+      );
+      expect(times[1] - times[0]).toBeGreaterThanOrEqual(45);
+      expect(times[2] - times[1]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should ignore rules when respectRobots is false', async () => {
+      stubSite({
+        'https://example.com/robots.txt': 'User-agent: *\nDisallow: /',
+        'https://example.com/': '<a href="/about">About</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { respectRobots: false });
+
+      expect(result.urls).toContain('https://example.com/about');
+      expect(result.robots.found).toBe(true);
+      expect(result.robots.respected).toBe(false);
+    });
+
+    it('should report a missing robots.txt', async () => {
+      stubSite({ 'https://example.com/': '' });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.robots.found).toBe(false);
+      expect(result.robots.blockedUrls).toEqual([]);
+    });
+  });
+
+  describe('discoverRoutes URL selection', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    const entry = (loc: string, extra = '') => `<url><loc>${loc}</loc>${extra}</url>`;
+
+    it('should keep the shortest URLs by default and report the rest as over budget', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': `<urlset>${[
+          entry('https://example.com/a'),
+          entry('https://example.com/bb'),
+          entry('https://example.com/ccc'),
+        ].join('')}</urlset>`,
+      });
+
+      const result = await discoverRoutes('https://example.com/', { maxPages: 2 });
+
+      expect(result.urls).toEqual(['https://example.com/a', 'https://example.com/bb']);
+      expect(result.excluded).toEqual([{ url: 'https://example.com/ccc', reason: 'budget' }]);
+    });
+
+    it('should sample across templates using sitemap priority in sample mode', async () => {
+      const stories = Array.from({ length: 8 }, (_, i) =>
+        entry(`https://example.com/news/story-${i}`, '<priority>0.4</priority>')
+      );
+      stubSite({
+        'https://example.com/sitemap.xml': `<urlset>${[
+          ...stories,
+          entry('https://example.com/news/story-featured', '<priority>0.9</priority>'),
+          entry('https://example.com/services/permits-and-licences/apply-online/guide'),
+          entry('https://example.com/fr'),
+        ].join('')}</urlset>`,
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        maxPages: 3,
+        selection: 'sample',
+      });
+
+      expect(result.urls).toEqual([
+        'https://example.com/fr',
+        'https://example.com/news/story-featured',
+        'https://example.com/services/permits-and-licences/apply-online/guide',
+      ]);
+      expect(result.excluded).toHaveLength(8);
+      expect(result.excluded[0]).toMatchObject({
+        reason: 'template-sampled',
+        template: '/news/:slug',
+      });
+    });
+
+    it('should decode entities and CDATA in sitemap locations', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': `<urlset>${[
+          entry('https://example.com/search?q=a&amp;lang=fr'),
+          entry('<![CDATA[https://example.com/about]]>'),
+        ].join('')}</urlset>`,
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.urls).toEqual([
+        'https://example.com/about',
+        'https://example.com/search?q=a&lang=fr',
+      ]);
+    });
+  });
+
+  describe('sitemap metadata', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>https://example.com/en/permits</loc>
+    <lastmod>2024-03-01</lastmod>
+    <changefreq>Weekly</changefreq>
+    <priority>0.8</priority>
+    <xhtml:link rel="alternate" hreflang="en-CA" href="https://example.com/en/permits"/>
+    <xhtml:link href="https://example.com/fr/permis" hreflang="fr-CA" rel="alternate"/>
+  </url>
+  <url>
+    <loc>https://example.com/en/news</loc>
+    <lastmod>2023-11-15T09:30:00+00:00</lastmod>
+    <changefreq>sometimes</changefreq>
+  </url>
+</urlset>`;
+
+    it('should keep lastmod, priority, changefreq and hreflang alternates', () => {
+      const entries = parseSitemapXML(sitemap);
+
+      expect(entries).toEqual([
+        {
+          url: 'https://example.com/en/permits',
+          lastmod: '2024-03-01',
+          priority: 0.8,
+          changefreq: 'weekly',
+          alternates: [
+            { hreflang: 'en-CA', href: 'https://example.com/en/permits' },
+            { hreflang: 'fr-CA', href: 'https://example.com/fr/permis' },
+          ],
+        },
+        {
+          url: 'https://example.com/en/news',
+          lastmod: '2023-11-15T09:30:00+00:00',
+          priority: undefined,
+          changefreq: undefined,
+          alternates: [],
+        },
+      ]);
+    });
+
+    it('should return an entry for each selected URL', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': sitemap,
+        'https://example.com/': '<a href="/en/contact">Contact</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', { mode: 'hybrid' });
+
+      expect(result.entries.map((entry) => entry.url)).toEqual(result.urls);
+      expect(result.entries.find((e) => e.url.endsWith('/permits'))?.alternates).toHaveLength(2);
+      expect(result.entries.find((e) => e.url.endsWith('/contact'))).toEqual({
+        url: 'https://example.com/en/contact',
+        alternates: [],
+      });
+    });
+
+    it('should skip sitemap pages not modified since changedSince', async () => {
+      stubSite({ 'https://example.com/sitemap.xml': sitemap });
+
+      const result = await discoverRoutes('https://example.com/', {
+        changedSince: '2024-01-01',
+      });
+
+      expect(result.urls).toEqual(['https://example.com/en/permits']);
+      expect(result.excluded).toEqual([
+        { url: 'https://example.com/en/news', reason: 'unchanged' },
+      ]);
+    });
+  });
+
+  describe('gzipped sitemaps and feeds', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    const urlset = (urls: string[]) =>
+      `<urlset>${urls.map((u) => `<url><loc>${u}</loc></url>`).join('')}</urlset>`;
+
+    const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Ministry news</title>
+  <link>https://example.com/news</link>
+  <item>
+    <title>Budget</title>
+    <link>https://example.com/news/budget</link>
+    <pubDate>Tue, 05 Mar 2024 14:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Report</title>
+    <link>https://example.com/files/report.pdf</link>
+  </item>
+</channel></rss>`;
+
+    it('should decompress sitemap.xml.gz', async () => {
+      const gzipped = gzipSync(urlset(['https://example.com/', 'https://example.com/services']));
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (input: string | URL) =>
+          String(input) === 'https://example.com/sitemap.xml.gz'
+            ? new Response(gzipped, { headers: { 'content-type': 'application/x-gzip' } })
+            : new Response('Not found', { status: 404 })
+        )
+      );
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('sitemap');
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/services']);
+    });
+
+    it('should follow gzipped child sitemaps from a sitemap index', async () => {
+      const child = gzipSync(urlset(['https://example.com/about']));
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (input: string | URL) => {
+          const url = String(input);
+          if (url === 'https://example.com/sitemap.xml') {
+            return new Response(
+              '<sitemapindex><sitemap><loc>https://example.com/sitemap-1.xml.gz</loc></sitemap></sitemapindex>'
+            );
+          }
+          if (url === 'https://example.com/sitemap-1.xml.gz') return new Response(child);
+          return new Response('Not found', { status: 404 });
+        })
+      );
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.urls).toEqual(['https://example.com/about']);
+    });
+
+    it('should mine advertised feeds when there is no sitemap', async () => {
+      stubSite({
+        'https://example.com/':
+          '<head><link rel="alternate" type="application/rss+xml" href="/news/rss"></head>',
+        'https://example.com/news/rss': rss,
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('feed');
+      expect(result.urls).toEqual(['https://example.com/news/budget']);
+      expect(result.entries[0].lastmod).toBe('2024-03-05T14:00:00.000Z');
+    });
+
+    it('should try well-known feed paths when none are advertised', async () => {
+      stubSite({
+        'https://example.com/': '<p>No links here</p>',
+        'https://example.com/feed': rss,
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('feed');
+      expect(result.urls).toEqual(['https://example.com/news/budget']);
+    });
+
+    it('should read feeds listed as sitemaps in robots.txt', async () => {
+      stubSite({
+        'https://example.com/robots.txt': 'Sitemap: https://example.com/news.rss',
+        'https://example.com/news.rss': rss,
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('robots');
+      expect(result.urls).toEqual(['https://example.com/news/budget']);
+    });
+
+    it('should not list feed endpoints as pages when crawling', async () => {
+      stubSite({
+        'https://example.com/':
+          '<a href="/feed/">Feed</a><a href="/news/rss">RSS</a><a href="/about">About</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/');
+
+      expect(result.strategy).toBe('dom');
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/about']);
+    });
+  });
+
+  describe('discoverRoutes URL filters', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    const urlset = (urls: string[]) =>
+      `<urlset>${urls.map((u) => `<url><loc>${u}</loc></url>`).join('')}</urlset>`;
+
+    it('should scope sitemap URLs to a path prefix and report the rest as filtered', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': urlset([
+          'https://example.com/',
+          'https://example.com/fr/services/permis',
+          'https://example.com/en/services/permits',
+        ]),
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        filters: { pathPrefix: '/fr/services' },
+      });
+
+      expect(result.urls).toEqual(['https://example.com/fr/services/permis']);
+      expect(result.excluded).toEqual([
+        { url: 'https://example.com/', reason: 'filtered' },
+        { url: 'https://example.com/en/services/permits', reason: 'filtered' },
+      ]);
+    });
+
+    it('should only count URLs within the filters towards the page limit', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': urlset([
+          'https://example.com/en/a',
+          'https://example.com/en/b',
+          'https://example.com/en/c',
+          'https://example.com/fr/a',
+        ]),
+      });
+
+      const scoped = await discoverRoutes('https://example.com/', {
+        maxPages: 2,
+        filters: { pathPrefix: '/fr' },
+      });
+      const unscoped = await discoverRoutes('https://example.com/', { maxPages: 2 });
+
+      expect(scoped.urls).toEqual(['https://example.com/fr/a']);
+      expect(scoped.limitReached).toBe(false);
+      expect(unscoped.limitReached).toBe(true);
+    });
+
+    it('should fall back to crawling when the filters remove every sitemap URL', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': urlset([
+          'https://example.com/',
+          'https://example.com/en',
+        ]),
+        'https://example.com/': '<a href="/fr/services">Services</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        filters: { pathPrefix: '/fr' },
+      });
+
+      expect(result.strategy).toBe('dom');
+      expect(result.urls).toEqual(['https://example.com/fr/services']);
+    });
+
+    it('should crawl through out-of-scope pages without listing them', async () => {
+      stubSite({
+        'https://example.com/': '<a href="/fr">Français</a>',
+        'https://example.com/fr': '<a href="/fr/services/permis">Permis</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        maxDepth: 3,
+        filters: { include: ['/fr/services/**'] },
+      });
+
+      expect(result.urls).toEqual(['https://example.com/fr/services/permis']);
+    });
+
+    it('should not crawl through excluded pages', async () => {
+      const fetchMock = stubSite({
+        'https://example.com/':
+          '<a href="/calendar/2024/05">Calendar</a><a href="/about">About</a>',
+        'https://example.com/calendar/2024/05': '<a href="/calendar/2024/06">Next</a>',
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        maxDepth: 3,
+        filters: { exclude: ['/calendar/**'] },
+      });
+
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/about']);
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        'https://example.com/calendar/2024/05',
+        expect.anything()
+      );
+    });
+
+    it('should collapse URLs that differ only by stripped query strings', async () => {
+      stubSite({
+        'https://example.com/sitemap.xml': urlset([
+          'https://example.com/news?utm_source=mail',
+          'https://example.com/news?utm_source=social',
+          'https://example.com/search?q=permits&amp;sort=date',
+        ]),
+      });
+
+      const result = await discoverRoutes('https://example.com/', {
+        filters: { query: ['q'] },
+      });
+
+      expect(result.urls).toEqual([
+        'https://example.com/news',
+        'https://example.com/search?q=permits',
+      ]);
+    });
+
+    it('should reject invalid patterns before fetching anything', async () => {
+      const fetchMock = stubSite({});
+
+      await expect(
+        discoverRoutes('https://example.com/', { filters: { exclude: ['re:(unclosed'] } })
+      ).rejects.toThrow('Invalid URL pattern');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -4,30 +4,118 @@
  * Discovers all pages/routes on a website using multiple strategies:
  * 1. Sitemap.xml parsing
  * 2. Robots.txt analysis
- * 3. DOM link crawling (limited depth)
+ * 3. RSS/Atom feed entries
+ * 4. DOM link crawling (limited depth)
+ *
+ * Gzipped sitemaps (sitemap.xml.gz) are decompressed transparently.
+ * By default the first strategy that finds URLs wins; hybrid mode merges them all.
+ * URLs disallowed by the site's robots.txt are dropped from every strategy.
+ * When more pages are found than maxPages allows, 'sample' selection picks
+ * representatives of each path template instead of the shortest URLs.
+ * User filters (path scope, include/exclude patterns, query handling) apply to
+ * every strategy; excluded pages are not even crawled through.
+ * Sitemap metadata (lastmod, priority, changefreq, hreflang alternates) is kept
+ * on the returned entries, and `changedSince` skips pages not modified since then.
  */
 
+import {
+  WELL_KNOWN_FEED_PATHS,
+  decodeXmlText,
+  extractFeedLinks,
+  isFeedUrl,
+  isFeedXML,
+  parseFeed,
+  readAttribute,
+} from './feeds';
+import { type RobotsPolicy, isAllowedByRobots, parseRobotsTxt } from './robots';
+import {
+  type SitemapAlternate,
+  type SitemapEntry,
+  isChangedSince,
+  parseChangeFrequency,
+} from './sitemap-metadata';
+import { type UrlFilter, type UrlFilterRules, createUrlFilter } from './url-filters';
+import { type ExcludedUrl, type SampleResult, type UrlCandidate, sampleUrls } from './url-sampling';
+
+export type DiscoverySource = 'sitemap' | 'robots' | 'feed' | 'dom';
+
 export interface DiscoveryOptions {
   maxPages?: number; // Maximum pages to discover (default: 50)
   maxDepth?: number; // Maximum crawl depth for DOM strategy (default: 2)
   timeout?: number; // Request timeout in ms (default: 5000)
   includeExternal?: boolean; // Include external links (default: false)
+  mode?: 'fallback' | 'hybrid'; // Stop at first successful strategy, or merge all (default: 'fallback')
+  respectRobots?: boolean; // Apply robots.txt Allow/Disallow rules (default: true)
+  selection?: 'shortest' | 'sample'; // How to pick pages beyond maxPages (default: 'shortest')
+  changedSince?: string; // Skip sitemap pages whose <lastmod> is not after this date
+  filters?: UrlFilterRules; // Path scope, include/exclude patterns and query-string handling
 }
 
+// Options after defaults are applied; changedSince and filters have no default
+type ResolvedOptions = Required<Omit<DiscoveryOptions, 'changedSince' | 'filters'>> &
+  Pick<DiscoveryOptions, 'changedSince' | 'filters'>;
+
 export interface DiscoveryResult {
   urls: string[];
-  strategy: 'sitemap' | 'robots' | 'dom' | 'hybrid';
+  entries: SitemapEntry[]; // Metadata for each of `urls`, in the same order
+  strategy: 'sitemap' | 'robots' | 'feed' | 'dom' | 'hybrid';
   discoveredCount: number;
   limitReached: boolean;
+  sources: Record<string, DiscoverySource[]>; // Strategies that found each returned URL
+  sourceCounts: Record<DiscoverySource, number>; // Unique URLs found by each strategy
+  robots: {
+    found: boolean; // Whether the site serves a robots.txt
+    respected: boolean; // Whether its rules were applied
+    userAgent?: string; // Group the rules came from
+    crawlDelay?: number; // Seconds to wait between requests
+    blockedUrls: string[]; // Discovered URLs excluded by Disallow rules
+  };
+  excluded: ExcludedUrl[]; // Discovered URLs left out of `urls`, with the reason
 }
 
-const DEFAULT_OPTIONS: Required<DiscoveryOptions> = {
+// Per-run robots state shared by the strategies
+interface RobotsContext {
+  policy: RobotsPolicy | null;
+  isAllowed: (url: string) => boolean;
+  throttle: () => Promise<void>; // Waits out the Crawl-delay before each discovery fetch
+}
+
+// Media, document and feed files that should never be scanned as pages
+const NON_PAGE_EXTENSIONS = [
+  '.xml',
+  '.xsl',
+  '.rss',
+  '.atom',
+  '.pdf',
+  '.jpg',
+  '.jpeg',
+  '.png',
+  '.gif',
+  '.svg',
+  '.mp4',
+  '.mp3',
+  '.zip',
+  '.gz',
+  '.css',
+  '.js',
+];
+
+const DEFAULT_OPTIONS: ResolvedOptions = {
   maxPages: 50,
   maxDepth: 2,
   timeout: 5000,
   includeExternal: false,
+  mode: 'fallback',
+  respectRobots: true,
+  selection: 'shortest',
 };
 
+// Most advertised feeds a single page is mined for
+const MAX_FEEDS = 5;
+
+// In sample mode the crawler looks this many times further than maxPages for candidates
+const CRAWL_OVERSAMPLE = 3;
+
 /**
  * Discover all pages on a website
  */
@@ -41,54 +129,260 @@ export async function discoverRoutes(
   console.log(`[Discovery] Starting route discovery for: ${origin}`);
   console.log(`[Discovery] Options:`, opts);
 
+  // Compiled up front so an invalid pattern fails before any request is made
+  const urlFilter = createUrlFilter(opts.filters);
+
+  const robotsPolicy = await fetchRobotsPolicy(origin, opts.timeout);
+  const blocked = new Set<string>();
+  const crawlDelayMs = opts.respectRobots ? (robotsPolicy?.crawlDelay ?? 0) * 1000 : 0;
+  let lastFetch = 0;
+  const robots: RobotsContext = {
+    policy: robotsPolicy,
+    isAllowed: (url) => {
+      if (!robotsPolicy || !opts.respectRobots) return true;
+      if (isAllowedByRobots(url, robotsPolicy)) return true;
+      blocked.add(url);
+      return false;
+    },
+    throttle: async () => {
+      const wait = lastFetch + crawlDelayMs - Date.now();
+      if (lastFetch > 0 && wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      lastFetch = Date.now();
+    },
+  };
+
+  const result = await runStrategies(baseUrl, opts, origin, robots, urlFilter);
+
+  if (blocked.size > 0) {
+    console.log(`[Discovery] 🤖 robots.txt excluded ${blocked.size} URLs`);
+  }
+
+  return {
+    ...result,
+    robots: {
+      found: robotsPolicy !== null,
+      respected: robotsPolicy !== null && opts.respectRobots,
+      userAgent: robotsPolicy?.userAgent,
+      crawlDelay: robotsPolicy?.crawlDelay,
+      blockedUrls: Array.from(blocked),
+    },
+  };
+}
+
+/**
+ * Run the discovery strategies, in fallback order or merged
+ */
+async function runStrategies(
+  baseUrl: string,
+  opts: ResolvedOptions,
+  origin: string,
+  robots: RobotsContext,
+  urlFilter: UrlFilter
+): Promise<Omit<DiscoveryResult, 'robots'>> {
+  if (opts.mode === 'hybrid') {
+    return discoverHybrid(baseUrl, opts, origin, robots, urlFilter);
+  }
+
   // Strategy 1: Try sitemap.xml (fastest and most reliable)
-  let urls = await discoverFromSitemap(origin, opts.timeout);
+  let found = filterAllowed(await discoverFromSitemap(origin, opts.timeout, robots), robots);
 
-  if (urls.length > 0) {
-    console.log(`[Discovery] ✅ Sitemap strategy succeeded: ${urls.length} URLs found`);
-    const limited = limitUrls(urls, opts.maxPages);
-    console.log(`[Discovery] After limit: ${limited.length} URLs (max: ${opts.maxPages})`);
+  if (hasScopedUrls(found, urlFilter)) {
+    console.log(`[Discovery] ✅ Sitemap strategy succeeded: ${found.length} URLs found`);
+    const { urls, entries, excluded, limitReached } = selectUrls(found, opts, urlFilter);
+    console.log(`[Discovery] After limit: ${urls.length} URLs (max: ${opts.maxPages})`);
     return {
-      urls: limited,
+      urls,
+      entries,
       strategy: 'sitemap',
-      discoveredCount: urls.length,
-      limitReached: urls.length > opts.maxPages,
+      discoveredCount: found.length,
+      limitReached,
+      excluded,
+      ...singleSourceAttribution(urls, found, 'sitemap'),
     };
   }
 
   // Strategy 2: Try robots.txt
   console.log('[Discovery] Trying robots.txt strategy...');
-  urls = await discoverFromRobots(origin, opts.timeout);
+  found = filterAllowed(await discoverFromRobots(robots, opts.timeout), robots);
 
-  if (urls.length > 0) {
-    console.log(`[Discovery] ✅ Robots.txt strategy succeeded: ${urls.length} URLs found`);
+  if (hasScopedUrls(found, urlFilter)) {
+    console.log(`[Discovery] ✅ Robots.txt strategy succeeded: ${found.length} URLs found`);
+    const { urls, entries, excluded, limitReached } = selectUrls(found, opts, urlFilter);
     return {
-      urls: limitUrls(urls, opts.maxPages),
+      urls,
+      entries,
       strategy: 'robots',
-      discoveredCount: urls.length,
-      limitReached: urls.length > opts.maxPages,
+      discoveredCount: found.length,
+      limitReached,
+      excluded,
+      ...singleSourceAttribution(urls, found, 'robots'),
     };
   }
 
-  // Strategy 3: DOM crawling (fallback, slower)
+  // Strategy 3: RSS/Atom feeds
+  console.log('[Discovery] Trying feed strategy...');
+  found = filterAllowed(await discoverFromFeeds(baseUrl, opts, origin, robots), robots);
+
+  if (hasScopedUrls(found, urlFilter)) {
+    console.log(`[Discovery] ✅ Feed strategy succeeded: ${found.length} URLs found`);
+    const { urls, entries, excluded, limitReached } = selectUrls(found, opts, urlFilter);
+    return {
+      urls,
+      entries,
+      strategy: 'feed',
+      discoveredCount: found.length,
+      limitReached,
+      excluded,
+      ...singleSourceAttribution(urls, found, 'feed'),
+    };
+  }
+
+  // Strategy 4: DOM crawling (fallback, slower)
   console.log('[Discovery] Falling back to DOM crawling...');
-  urls = await discoverFromDOM(baseUrl, opts.maxDepth, origin, opts.includeExternal);
+  found = await discoverFromDOM(baseUrl, opts, origin, robots, urlFilter);
 
-  console.log(`[Discovery] DOM strategy found: ${urls.length} URLs`);
+  console.log(`[Discovery] DOM strategy found: ${found.length} URLs`);
+  const { urls, entries, excluded } = selectUrls(found, opts, urlFilter);
   return {
-    urls: limitUrls(urls, opts.maxPages),
+    urls,
+    entries,
     strategy: 'dom',
-    discoveredCount: urls.length,
-    limitReached: urls.length > opts.maxPages,
+    discoveredCount: found.length,
+    // The crawler stops as soon as it reaches its page budget
+    limitReached: found.length >= getCrawlBudget(opts),
+    excluded,
+    ...singleSourceAttribution(urls, found, 'dom'),
+  };
+}
+
+/**
+ * Run every strategy and merge their results
+ * Sitemaps are often stale, so crawled links are added even when a sitemap exists
+ */
+async function discoverHybrid(
+  baseUrl: string,
+  opts: ResolvedOptions,
+  origin: string,
+  robots: RobotsContext,
+  urlFilter: UrlFilter
+): Promise<Omit<DiscoveryResult, 'robots'>> {
+  const found: Record<DiscoverySource, SitemapEntry[]> = {
+    sitemap: filterAllowed(await discoverFromSitemap(origin, opts.timeout, robots), robots),
+    robots: filterAllowed(await discoverFromRobots(robots, opts.timeout), robots),
+    feed: filterAllowed(await discoverFromFeeds(baseUrl, opts, origin, robots), robots),
+    dom: await discoverFromDOM(baseUrl, opts, origin, robots, urlFilter),
+  };
+
+  // Merge by normalized URL, keeping the first spelling seen and any sitemap metadata
+  const merged = new Map<string, { candidate: SitemapEntry; sources: DiscoverySource[] }>();
+  for (const source of Object.keys(found) as DiscoverySource[]) {
+    for (const candidate of found[source]) {
+      const key = normalizeUrl(candidate.url);
+      const entry = merged.get(key);
+      if (!entry) {
+        merged.set(key, { candidate, sources: [source] });
+      } else if (!entry.sources.includes(source)) {
+        entry.sources.push(source);
+      }
+    }
+  }
+
+  const sourceCounts = {
+    sitemap: countUnique(found.sitemap),
+    robots: countUnique(found.robots),
+    feed: countUnique(found.feed),
+    dom: countUnique(found.dom),
+  };
+
+  const allCandidates = Array.from(merged.values(), (entry) => entry.candidate);
+  const { urls, entries, excluded, limitReached } = selectUrls(allCandidates, opts, urlFilter);
+
+  const sources: Record<string, DiscoverySource[]> = {};
+  for (const url of urls) {
+    sources[url] = merged.get(normalizeUrl(url))?.sources ?? [];
+  }
+
+  const crawlOnly = Array.from(merged.values()).filter(
+    (entry) => entry.sources.length === 1 && entry.sources[0] === 'dom'
+  ).length;
+  console.log(
+    `[Discovery] ✅ Hybrid strategy merged ${allCandidates.length} URLs ` +
+      `(sitemap: ${sourceCounts.sitemap}, robots: ${sourceCounts.robots}, feed: ${sourceCounts.feed}, ` +
+      `crawl: ${sourceCounts.dom}, crawl-only: ${crawlOnly})`
+  );
+
+  return {
+    urls,
+    entries,
+    strategy: 'hybrid',
+    discoveredCount: allCandidates.length,
+    limitReached,
+    excluded,
+    sources,
+    sourceCounts,
+  };
+}
+
+/**
+ * Source attribution for results that came from a single strategy
+ */
+function singleSourceAttribution(
+  selected: string[],
+  discovered: UrlCandidate[],
+  source: DiscoverySource
+): Pick<DiscoveryResult, 'sources' | 'sourceCounts'> {
+  const sources: Record<string, DiscoverySource[]> = {};
+  for (const url of selected) {
+    sources[url] = [source];
+  }
+
+  return {
+    sources,
+    sourceCounts: { sitemap: 0, robots: 0, feed: 0, dom: 0, [source]: countUnique(discovered) },
   };
 }
 
+/**
+ * Count distinct URLs after normalization
+ */
+function countUnique(candidates: UrlCandidate[]): number {
+  return new Set(candidates.map((candidate) => normalizeUrl(candidate.url))).size;
+}
+
+/**
+ * Whether any candidate is within the user's URL filters, so a fallback strategy whose
+ * URLs are all filtered out gives way to the next one
+ */
+function hasScopedUrls(candidates: SitemapEntry[], urlFilter: UrlFilter): boolean {
+  const inScope = candidates.some((candidate) =>
+    urlFilter.matches(urlFilter.rewrite(candidate.url))
+  );
+  if (candidates.length > 0 && !inScope) {
+    console.log(`[Discovery] All ${candidates.length} URLs are outside the scan filters`);
+  }
+  return inScope;
+}
+
+/**
+ * Drop candidates disallowed by robots.txt
+ */
+function filterAllowed(candidates: SitemapEntry[], robots: RobotsContext): SitemapEntry[] {
+  return candidates.filter((candidate) => robots.isAllowed(candidate.url));
+}
+
 /**
  * Discover pages from sitemap.xml
  */
-async function discoverFromSitemap(origin: string, timeout: number): Promise<string[]> {
+async function discoverFromSitemap(
+  origin: string,
+  timeout: number,
+  robots: RobotsContext
+): Promise<SitemapEntry[]> {
   const sitemapUrls = [
     `${origin}/sitemap.xml`,
+    `${origin}/sitemap.xml.gz`,
     `${origin}/sitemap_index.xml`,
     `${origin}/sitemap-pages.xml`,
     `${origin}/wp-sitemap.xml`, // WordPress
@@ -97,6 +391,7 @@ async function discoverFromSitemap(origin: string, timeout: number): Promise<str
   for (const sitemapUrl of sitemapUrls) {
     try {
       console.log(`[Discovery] Checking sitemap: ${sitemapUrl}`);
+      await robots.throttle();
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
 
@@ -108,7 +403,7 @@ async function discoverFromSitemap(origin: string, timeout: number): Promise<str
         continue;
       }
 
-      const xml = await response.text();
+      const xml = await readXML(response);
 
       // Check if this is a sitemap index
       const isSitemapIndex = xml.includes('<sitemapindex') ||
@@ -116,13 +411,13 @@ async function discoverFromSitemap(origin: string, timeout: number): Promise<str
 
       if (isSitemapIndex) {
         console.log(`[Discovery] Found sitemap index, fetching child sitemaps...`);
-        const childUrls = await parseAndFetchSitemapIndex(xml, timeout);
+        const childUrls = await parseAndFetchSitemapIndex(xml, timeout, robots);
         console.log(`[Discovery] Extracted ${childUrls.length} URLs from sitemap index`);
         if (childUrls.length > 0) {
           return childUrls;
         }
       } else {
-        const urls = parseSitemapXML(xml);
+        const urls = parseSitemapDocument(xml, sitemapUrl);
         console.log(`[Discovery] Found ${urls.length} URLs in ${sitemapUrl}`);
         if (urls.length > 0) {
           return urls;
@@ -140,8 +435,12 @@ async function discoverFromSitemap(origin: string, timeout: number): Promise<str
 /**
  * Parse sitemap index and fetch all child sitemaps
  */
-async function parseAndFetchSitemapIndex(xml: string, timeout: number): Promise<string[]> {
-  const allUrls: string[] = [];
+async function parseAndFetchSitemapIndex(
+  xml: string,
+  timeout: number,
+  robots: RobotsContext
+): Promise<SitemapEntry[]> {
+  const allUrls: SitemapEntry[] = [];
 
   // Extract child sitemap URLs
   const locRegex = /<loc>\s*([^<]+)\s*<\/loc>/gi;
@@ -151,7 +450,7 @@ async function parseAndFetchSitemapIndex(xml: string, timeout: number): Promise<
   locRegex.lastIndex = 0;
   while ((match = locRegex.exec(xml)) !== null) {
     const url = match[1].trim();
-    if (url && url.includes('sitemap') && url.endsWith('.xml')) {
+    if (url && url.includes('sitemap') && /\.xml(\.gz)?$/i.test(url)) {
       sitemapUrls.push(url);
       console.log(`[Discovery] Found child sitemap: ${url}`);
     }
@@ -163,6 +462,7 @@ async function parseAndFetchSitemapIndex(xml: string, timeout: number): Promise<
   for (const sitemapUrl of sitemapUrls) {
     try {
       console.log(`[Discovery] Fetching child sitemap: ${sitemapUrl}`);
+      await robots.throttle();
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
 
@@ -170,8 +470,8 @@ async function parseAndFetchSitemapIndex(xml: string, timeout: number): Promise<
       clearTimeout(timeoutId);
 
       if (response.ok) {
-        const childXml = await response.text();
-        const urls = parseSitemapXML(childXml);
+        const childXml = await readXML(response);
+        const urls = parseSitemapDocument(childXml, sitemapUrl);
         console.log(`[Discovery] Extracted ${urls.length} URLs from ${sitemapUrl}`);
         allUrls.push(...urls);
       }
@@ -185,34 +485,74 @@ async function parseAndFetchSitemapIndex(xml: string, timeout: number): Promise<
 }
 
 /**
- * Parse sitemap XML and extract URLs
+ * Read a sitemap response body, decompressing gzip (sitemap.xml.gz) when needed
+ * Servers that send Content-Encoding: gzip are already decoded by fetch, so the
+ * gzip magic bytes are checked rather than trusting the URL or content type.
+ */
+async function readXML(response: Response): Promise<string> {
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    return new TextDecoder().decode(bytes);
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/**
+ * Parse a document listed as a sitemap, which the protocol allows to be an RSS/Atom feed
+ */
+function parseSitemapDocument(xml: string, documentUrl: string): SitemapEntry[] {
+  if (!isFeedXML(xml)) {
+    return parseSitemapXML(xml);
+  }
+
+  const entries = parseFeed(xml, documentUrl).filter(({ url }) => isPageUrl(url));
+  console.log(`[Discovery] Found ${entries.length} feed entries in ${documentUrl}`);
+  return entries;
+}
+
+/**
+ * Parse sitemap XML into entries with their <lastmod>, <priority>, <changefreq> and hreflang alternates
  * Handles both sitemap index files and regular sitemaps
  */
-function parseSitemapXML(xml: string): string[] {
-  const urls: string[] = [];
+export function parseSitemapXML(xml: string): SitemapEntry[] {
+  const urls: SitemapEntry[] = [];
 
   // Check if this is a sitemap index (contains <sitemap> tags)
   const isSitemapIndex = xml.includes('<sitemapindex') || xml.includes('<sitemap>');
 
   console.log(`[Discovery] Parsing XML - Type: ${isSitemapIndex ? 'Sitemap Index' : 'Regular Sitemap'}`);
 
-  // Match <loc>URL</loc> tags
-  const locRegex = /<loc>\s*([^<]+)\s*<\/loc>/gi;
-  let match: RegExpExecArray | null;
-
-  // Reset regex state
-  locRegex.lastIndex = 0;
+  // Read each <url> entry so its metadata stays attached to the location
+  for (const match of xml.matchAll(/<url(?:\s[^>]*)?>([\s\S]*?)<\/url>/gi)) {
+    const loc = readTag(match[1], 'loc');
+    if (!loc) continue;
+
+    const priority = Number.parseFloat(readTag(match[1], 'priority') ?? '');
+    urls.push({
+      url: loc,
+      lastmod: readTag(match[1], 'lastmod'),
+      priority: Number.isFinite(priority) ? priority : undefined,
+      changefreq: parseChangeFrequency(readTag(match[1], 'changefreq')),
+      alternates: readAlternates(match[1]),
+    });
+  }
 
-  while ((match = locRegex.exec(xml)) !== null) {
-    const url = match[1].trim();
-    if (url) {
-      urls.push(url);
+  // Fall back to bare <loc> tags (sitemap indexes and loosely formed sitemaps)
+  if (urls.length === 0) {
+    for (const match of xml.matchAll(/<loc>([\s\S]*?)<\/loc>/gi)) {
+      const loc = cleanTagValue(match[1]);
+      if (loc) urls.push({ url: loc, alternates: [] });
     }
   }
 
   console.log(`[Discovery] Extracted ${urls.length} total <loc> entries from XML`);
   if (urls.length > 0) {
-    console.log(`[Discovery] First 5 URLs:`, urls.slice(0, 5));
+    console.log(
+      '[Discovery] First 5 URLs:',
+      urls.slice(0, 5).map((entry) => entry.url)
+    );
   } else {
     console.log(`[Discovery] ⚠️ NO URLs extracted! XML length: ${xml.length} chars`);
     console.log(`[Discovery] First 500 chars of XML:`, xml.substring(0, 500));
@@ -220,27 +560,21 @@ function parseSitemapXML(xml: string): string[] {
 
   // If this is a sitemap index, we need to fetch and parse child sitemaps
   // For now, filter out sitemap references and return page URLs only
-  const pageUrls = urls.filter((url) => {
+  const pageUrls = urls.filter(({ url }) => {
     try {
       const urlObj = new URL(url);
       const pathname = urlObj.pathname.toLowerCase();
 
       // Check if it's a sitemap index or nested sitemap
-      if (pathname.includes('sitemap') && pathname.endsWith('.xml')) {
+      if (pathname.includes('sitemap') && /\.xml(\.gz)?$/.test(pathname)) {
         console.log(`[Discovery] ❌ Filtered sitemap reference: ${url}`);
         return false;
       }
 
       // Filter out media and document files
-      const nonPageExtensions = ['.xml', '.xsl', '.rss', '.atom', '.pdf',
-                                  '.jpg', '.jpeg', '.png', '.gif', '.svg',
-                                  '.mp4', '.mp3', '.zip', '.css', '.js'];
-
-      for (const ext of nonPageExtensions) {
-        if (pathname.endsWith(ext)) {
-          console.log(`[Discovery] ❌ Filtered ${ext} file: ${url}`);
-          return false;
-        }
+      if (!isPageUrl(url)) {
+        console.log(`[Discovery] ❌ Filtered non-page file: ${url}`);
+        return false;
       }
 
       // It's a valid page URL
@@ -258,9 +592,43 @@ function parseSitemapXML(xml: string): string[] {
 }
 
 /**
- * Discover pages from robots.txt
+ * Read the text content of the first <tag> inside an XML fragment
+ */
+function readTag(fragment: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i').exec(fragment);
+  const value = match ? cleanTagValue(match[1]) : '';
+  return value || undefined;
+}
+
+/**
+ * Read the `<xhtml:link rel="alternate" hreflang="..." href="...">` links of a <url> entry
+ */
+function readAlternates(fragment: string): SitemapAlternate[] {
+  const alternates: SitemapAlternate[] = [];
+
+  for (const match of fragment.matchAll(/<(?:xhtml:)?link\s[^>]*>/gi)) {
+    const rel = readAttribute(match[0], 'rel');
+    const hreflang = readAttribute(match[0], 'hreflang');
+    const href = readAttribute(match[0], 'href');
+    if (rel?.toLowerCase() === 'alternate' && hreflang && href) {
+      alternates.push({ hreflang, href });
+    }
+  }
+
+  return alternates;
+}
+
+/**
+ * Unwrap CDATA, decode entities and trim an XML text value
+ */
+function cleanTagValue(value: string): string {
+  return decodeXmlText(value.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim());
+}
+
+/**
+ * Fetch and parse robots.txt, returning null when the site has none
  */
-async function discoverFromRobots(origin: string, timeout: number): Promise<string[]> {
+async function fetchRobotsPolicy(origin: string, timeout: number): Promise<RobotsPolicy | null> {
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -268,70 +636,307 @@ async function discoverFromRobots(origin: string, timeout: number): Promise<stri
     const response = await fetch(`${origin}/robots.txt`, { signal: controller.signal });
     clearTimeout(timeoutId);
 
-    if (!response.ok) return [];
+    if (!response.ok) return null;
+
+    const policy = parseRobotsTxt(await response.text());
+    const delay = policy.crawlDelay !== undefined ? `, crawl-delay ${policy.crawlDelay}s` : '';
+    console.log(
+      `[Discovery] robots.txt: ${policy.rules.length} rules for "${policy.userAgent}"${delay}`
+    );
+    return policy;
+  } catch (error) {
+    console.log('[Discovery] Error fetching robots.txt', error);
+    return null;
+  }
+}
 
-    const text = await response.text();
+/**
+ * Discover pages from the sitemaps referenced in robots.txt
+ */
+async function discoverFromRobots(robots: RobotsContext, timeout: number): Promise<SitemapEntry[]> {
+  const allUrls: SitemapEntry[] = [];
+  if (!robots.policy) return allUrls;
+
+  for (const sitemapUrl of robots.policy.sitemaps) {
+    try {
+      await robots.throttle();
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-    // Extract sitemap URLs
-    const sitemapRegex = /Sitemap:\s*(.+)/gi;
-    const sitemaps: string[] = [];
-    let match: RegExpExecArray | null = sitemapRegex.exec(text);
+      const sitemapResponse = await fetch(sitemapUrl, { signal: controller.signal });
+      clearTimeout(timeoutId);
 
-    while (match !== null) {
-      const sitemapUrl = match[1].trim();
-      if (sitemapUrl) {
-        sitemaps.push(sitemapUrl);
+      if (sitemapResponse.ok) {
+        const xml = await readXML(sitemapResponse);
+        const urls = parseSitemapDocument(xml, sitemapUrl);
+        allUrls.push(...urls);
       }
-      match = sitemapRegex.exec(text);
+    } catch (error) {
+      console.log(`[Discovery] Error fetching robots.txt sitemap: ${sitemapUrl}`, error);
     }
+  }
 
-    // Fetch each sitemap
-    const allUrls: string[] = [];
-    for (const sitemapUrl of sitemaps) {
-      try {
-        const sitemapResponse = await fetch(sitemapUrl, { signal: controller.signal });
-        if (sitemapResponse.ok) {
-          const xml = await sitemapResponse.text();
-          const urls = parseSitemapXML(xml);
-          allUrls.push(...urls);
-        }
-      } catch (e) {}
-    }
+  return allUrls;
+}
 
-    return allUrls;
-  } catch (error) {
-    return [];
+/**
+ * Discover pages from the RSS/Atom feeds a site advertises, or from well-known feed paths
+ */
+async function discoverFromFeeds(
+  startUrl: string,
+  opts: ResolvedOptions,
+  origin: string,
+  robots: RobotsContext
+): Promise<SitemapEntry[]> {
+  await robots.throttle();
+  const html = await fetchPageHTML(startUrl, opts.timeout);
+  const advertised = html ? extractFeedLinks(html, startUrl).slice(0, MAX_FEEDS) : [];
+  const feedUrls =
+    advertised.length > 0 ? advertised : WELL_KNOWN_FEED_PATHS.map((path) => `${origin}${path}`);
+
+  const allUrls: SitemapEntry[] = [];
+  for (const feedUrl of feedUrls) {
+    try {
+      await robots.throttle();
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
+
+      const response = await fetch(feedUrl, { signal: controller.signal });
+      clearTimeout(timeoutId);
+
+      if (!response.ok) continue;
+
+      const xml = await readXML(response);
+      if (!isFeedXML(xml)) continue;
+
+      const entries = parseFeed(xml, feedUrl).filter(
+        ({ url }) => isPageUrl(url) && (opts.includeExternal || new URL(url).origin === origin)
+      );
+      console.log(`[Discovery] Found ${entries.length} URLs in feed ${feedUrl}`);
+      allUrls.push(...entries);
+
+      // Well-known paths usually alias the same feed, so one is enough
+      if (advertised.length === 0 && entries.length > 0) break;
+    } catch (error) {
+      console.log(`[Discovery] Error fetching feed: ${feedUrl}`, error);
+    }
   }
+
+  return allUrls;
 }
 
 /**
  * Discover pages by crawling DOM links
- * Note: This is a placeholder for the extension implementation
- * In browser context, this needs to be done via background worker
+ * Breadth-first crawl from the start URL, following <a href> links up to maxDepth.
+ * Runs in the background worker, so links are extracted from raw HTML rather than a DOM.
+ * Pages outside the user's scope are crawled through but not listed.
  */
 async function discoverFromDOM(
   startUrl: string,
-  _maxDepth: number,
-  _origin: string,
-  _includeExternal: boolean
-): Promise<string[]> {
-  // This is a simplified version - actual implementation will be in extension
-  // For now, just return the start URL
-  return [startUrl];
+  opts: ResolvedOptions,
+  origin: string,
+  robots: RobotsContext,
+  urlFilter: UrlFilter
+): Promise<SitemapEntry[]> {
+  const budget = getCrawlBudget(opts);
+  const start = normalizeUrl(startUrl);
+  if (!robots.isAllowed(start)) {
+    console.log(`[Discovery] robots.txt disallows crawling from ${start}`);
+    return [];
+  }
+
+  const discovered: string[] = urlFilter.matches(start) ? [start] : [];
+  const seen = new Set<string>([start]);
+  let frontier = [start];
+  // Out-of-scope pages are fetched without being listed, so fetches need their own cap
+  const maxFetches = budget * CRAWL_OVERSAMPLE;
+  let fetches = 0;
+
+  for (let depth = 0; depth < opts.maxDepth && frontier.length > 0; depth++) {
+    const nextFrontier: string[] = [];
+
+    for (const pageUrl of frontier) {
+      if (discovered.length >= budget || fetches >= maxFetches) break;
+
+      // Only same-origin pages are fetched; external links are recorded but never followed
+      if (new URL(pageUrl).origin !== origin) continue;
+
+      fetches++;
+      await robots.throttle();
+      const html = await fetchPageHTML(pageUrl, opts.timeout);
+      if (!html) continue;
+
+      for (const link of extractLinks(html, pageUrl)) {
+        const url = normalizeUrl(urlFilter.rewrite(link));
+        if (seen.has(url)) continue;
+        seen.add(url);
+
+        if (!opts.includeExternal && new URL(url).origin !== origin) continue;
+        if (!isPageUrl(url)) continue;
+        // Disallowed pages are neither listed nor fetched
+        if (new URL(url).origin === origin && !robots.isAllowed(url)) continue;
+        // Excluded pages (e.g. endless calendars) are not crawled through either
+        if (urlFilter.isExcluded(url)) continue;
+
+        nextFrontier.push(url);
+        if (!urlFilter.matches(url)) continue;
+
+        discovered.push(url);
+        if (discovered.length >= budget) break;
+      }
+    }
+
+    console.log(`[Discovery] Crawl depth ${depth + 1}: ${discovered.length} URLs so far`);
+    frontier = nextFrontier;
+  }
+
+  return discovered.map((url) => ({ url, alternates: [] }));
+}
+
+/**
+ * Number of pages the crawler collects before stopping
+ */
+function getCrawlBudget(opts: ResolvedOptions): number {
+  return opts.selection === 'sample' ? opts.maxPages * CRAWL_OVERSAMPLE : opts.maxPages;
+}
+
+/**
+ * Fetch a page for crawling, returning null for errors and non-HTML responses
+ */
+async function fetchPageHTML(url: string, timeout: number): Promise<string | null> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    const response = await fetch(url, { signal: controller.signal });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) return null;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) return null;
+
+    return await response.text();
+  } catch (error) {
+    console.log(`[Discovery] Error crawling: ${url}`, error);
+    return null;
+  }
+}
+
+/**
+ * Extract absolute http(s) link targets from the <a href> tags of an HTML document
+ * Relative links resolve against <base href> when present, otherwise the page URL
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const links: string[] = [];
+
+  let baseUrl = pageUrl;
+  const baseMatch = /<base\s[^>]*href\s*=\s*["']([^"']+)["']/i.exec(html);
+  if (baseMatch) {
+    try {
+      baseUrl = new URL(decodeXmlText(baseMatch[1]), pageUrl).href;
+    } catch {
+      // Ignore malformed <base> and keep the page URL
+    }
+  }
+
+  const anchorRegex = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+  for (const match of html.matchAll(anchorRegex)) {
+    const href = decodeXmlText((match[1] ?? match[2] ?? match[3] ?? '').trim());
+    if (!href || href.startsWith('#')) continue;
+
+    try {
+      const resolved = new URL(href, baseUrl);
+      if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+        links.push(resolved.href);
+      }
+    } catch {
+      // Skip hrefs that cannot be resolved
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Check that a URL points to a page rather than a media, document or feed file
+ */
+function isPageUrl(url: string): boolean {
+  const pathname = new URL(url).pathname.toLowerCase();
+  return !NON_PAGE_EXTENSIONS.some((ext) => pathname.endsWith(ext)) && !isFeedUrl(url);
+}
+
+/**
+ * Pick the URLs to scan, recording why the rest were left out
+ */
+function selectUrls(
+  candidates: SitemapEntry[],
+  opts: ResolvedOptions,
+  urlFilter: UrlFilter
+): { urls: string[]; entries: SitemapEntry[]; excluded: ExcludedUrl[]; limitReached: boolean } {
+  const excluded: ExcludedUrl[] = [];
+  const eligible: SitemapEntry[] = [];
+
+  for (const candidate of candidates) {
+    const url = urlFilter.rewrite(candidate.url);
+    if (!urlFilter.matches(url)) {
+      excluded.push({ url, reason: 'filtered' });
+    } else if (opts.changedSince && !isChangedSince(candidate, opts.changedSince)) {
+      excluded.push({ url, reason: 'unchanged' });
+    } else {
+      eligible.push(url === candidate.url ? candidate : { ...candidate, url });
+    }
+  }
+
+  if (eligible.length < candidates.length) {
+    console.log(
+      `[Discovery] ${eligible.length} of ${candidates.length} URLs pass the scan filters`
+    );
+  }
+
+  const selection =
+    opts.selection === 'sample'
+      ? sampleUrls(eligible, opts.maxPages, normalizeUrl)
+      : limitUrls(eligible, opts.maxPages);
+  excluded.push(...selection.excluded);
+  // Only URLs within the filters count towards the page limit
+  const limitReached = selection.excluded.some(
+    ({ reason }) => reason === 'budget' || reason === 'template-sampled'
+  );
+
+  // Selected URLs are spelled exactly as their candidate, so metadata can be looked up directly
+  const byUrl = new Map(eligible.map((candidate) => [candidate.url, candidate]));
+  const entries = selection.selected.map((url) => byUrl.get(url) ?? { url, alternates: [] });
+
+  return { urls: selection.selected, entries, excluded, limitReached };
 }
 
 /**
  * Limit URLs to max count and remove duplicates
  */
-function limitUrls(urls: string[], maxCount: number): string[] {
+function limitUrls(candidates: UrlCandidate[], maxCount: number): SampleResult {
+  const excluded: ExcludedUrl[] = [];
+
   // Remove duplicates
-  const unique = Array.from(new Set(urls));
+  const unique: string[] = [];
+  const seen = new Set<string>();
+  for (const { url } of candidates) {
+    if (seen.has(url)) {
+      excluded.push({ url, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(url);
+    unique.push(url);
+  }
 
   // Sort by URL length (prefer shorter, more important pages)
   unique.sort((a, b) => a.length - b.length);
 
   // Limit to maxCount
-  return unique.slice(0, maxCount);
+  for (const url of unique.slice(maxCount)) {
+    excluded.push({ url, reason: 'budget' });
+  }
+  return { selected: unique.slice(0, maxCount), excluded };
 }
 
 /**
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUrl } from './route-discovery';
+import {
+  type SitemapEntry,
+  findLanguagePairs,
+  isChangedSince,
+  parseChangeFrequency,
+} from './sitemap-metadata';
+
+describe('Sitemap Metadata', () => {
+  describe('parseChangeFrequency', () => {
+    it('should accept sitemap protocol values case-insensitively', () => {
+      expect(parseChangeFrequency('daily')).toBe('daily');
+      expect(parseChangeFrequency(' Monthly ')).toBe('monthly');
+    });
+
+    it('should ignore unknown or missing values', () => {
+      expect(parseChangeFrequency('fortnightly')).toBeUndefined();
+      expect(parseChangeFrequency(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isChangedSince', () => {
+    it('should compare lastmod against the given date', () => {
+      const entry = { url: 'https://example.com/a', lastmod: '2024-03-01T12:00:00Z' };
+      expect(isChangedSince(entry, '2024-02-01')).toBe(true);
+      expect(isChangedSince(entry, '2024-04-01')).toBe(false);
+    });
+
+    it('should treat entries without a usable lastmod as changed', () => {
+      expect(isChangedSince({ url: 'https://example.com/a' }, '2024-01-01')).toBe(true);
+      expect(isChangedSince({ url: 'https://example.com/a', lastmod: 'soon' }, '2024-01-01')).toBe(
+        true
+      );
+    });
+
+    it('should treat an invalid cut-off date as no filter', () => {
+      const entry = { url: 'https://example.com/a', lastmod: '2020-01-01' };
+      expect(isChangedSince(entry, 'last week')).toBe(true);
+    });
+  });
+
+  describe('findLanguagePairs', () => {
+    const page = (url: string, alternates: Array<[string, string]>): SitemapEntry => ({
+      url,
+      alternates: alternates.map(([hreflang, href]) => ({ hreflang, href })),
+    });
+
+    it('should pair English and French alternates once per page pair', () => {
+      const entries = [
+        page('https://example.com/en/permits', [
+          ['en-CA', 'https://example.com/en/permits'],
+          ['fr-CA', 'https://example.com/fr/permis'],
+          ['x-default', 'https://example.com/en/permits'],
+        ]),
+        page('https://example.com/fr/permis', [
+          ['en-CA', 'https://example.com/en/permits'],
+          ['fr-CA', 'https://example.com/fr/permis'],
+        ]),
+      ];
+
+      expect(findLanguagePairs(entries)).toEqual([
+        { en: 'https://example.com/en/permits', fr: 'https://example.com/fr/permis' },
+      ]);
+    });
+
+    it('should use the entry URL when only the other language is listed', () => {
+      const entries = [page('https://example.com/about', [['fr', 'https://example.com/a-propos']])];
+
+      expect(findLanguagePairs(entries)).toEqual([
+        { en: 'https://example.com/about', fr: 'https://example.com/a-propos' },
+      ]);
+    });
+
+    it('should dedupe pairs using the normalizer', () => {
+      const entries = [
+        page('https://example.com/about', [['fr', 'https://example.com/a-propos']]),
+        page('https://example.com/about/', [['fr', 'https://example.com/a-propos/']]),
+      ];
+
+      expect(findLanguagePairs(entries, normalizeUrl)).toHaveLength(1);
+    });
+
+    it('should skip entries without both languages', () => {
+      const entries = [
+        page('https://example.com/news', []),
+        page('https://example.com/fr/nouvelles', [['fr', 'https://example.com/fr/nouvelles']]),
+      ];
+
+      expect(findLanguagePairs(entries)).toEqual([]);
+    });
+  });
+});
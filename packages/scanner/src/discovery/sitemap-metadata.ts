@@ -0,0 +1,99 @@
+/**
+ * Sitemap Metadata
+ *
+ * Structured sitemap entries (`<lastmod>`, `<priority>`, `<changefreq>` and
+ * `xhtml:link` hreflang alternates) and the helpers that use them: pairing the
+ * English and French versions of a page, and incremental re-scans of pages
+ * modified since a previous audit.
+ */
+
+import type { UrlCandidate } from './url-sampling';
+
+export type ChangeFrequency =
+  | 'always'
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'yearly'
+  | 'never';
+
+export interface SitemapAlternate {
+  hreflang: string; // e.g. 'en-CA', 'fr', 'x-default'
+  href: string;
+}
+
+export interface SitemapEntry extends UrlCandidate {
+  changefreq?: ChangeFrequency;
+  alternates: SitemapAlternate[]; // Empty for pages found outside a sitemap
+}
+
+export interface LanguagePair {
+  en: string;
+  fr: string;
+}
+
+const CHANGE_FREQUENCIES: ChangeFrequency[] = [
+  'always',
+  'hourly',
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+  'never',
+];
+
+/**
+ * Parse a <changefreq> value, ignoring anything outside the sitemap protocol's vocabulary
+ */
+export function parseChangeFrequency(value?: string): ChangeFrequency | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return CHANGE_FREQUENCIES.find((frequency) => frequency === normalized);
+}
+
+/**
+ * Check whether an entry was modified after the given date
+ * Entries without a usable <lastmod> are treated as changed so they are never skipped.
+ */
+export function isChangedSince(entry: UrlCandidate, since: string): boolean {
+  const sinceTime = Date.parse(since);
+  const lastmod = entry.lastmod ? Date.parse(entry.lastmod) : Number.NaN;
+  if (Number.isNaN(sinceTime) || Number.isNaN(lastmod)) return true;
+  return lastmod > sinceTime;
+}
+
+/**
+ * Pair English and French versions of pages from their hreflang alternates
+ * When an entry lists only the other language, the entry's own URL fills the gap.
+ */
+export function findLanguagePairs(
+  entries: SitemapEntry[],
+  normalize: (url: string) => string = (url) => url
+): LanguagePair[] {
+  const pairs: LanguagePair[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.alternates.length === 0) continue;
+
+    let en = findAlternate(entry.alternates, 'en');
+    let fr = findAlternate(entry.alternates, 'fr');
+    if (!en && fr && normalize(fr) !== normalize(entry.url)) en = entry.url;
+    if (!fr && en && normalize(en) !== normalize(entry.url)) fr = entry.url;
+    if (!en || !fr) continue;
+
+    const key = `${normalize(en)}|${normalize(fr)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    pairs.push({ en, fr });
+  }
+
+  return pairs;
+}
+
+/**
+ * Find the alternate for a language, matching regional variants (fr-CA) as well
+ */
+function findAlternate(alternates: SitemapAlternate[], language: string): string | undefined {
+  return alternates.find(({ hreflang }) => hreflang.toLowerCase().split('-')[0] === language)?.href;
+}
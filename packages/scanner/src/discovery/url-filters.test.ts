@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyQueryHandling,
+  compileUrlPattern,
+  createUrlFilter,
+  isWithinPathPrefix,
+} from './url-filters';
+
+describe('URL Filters', () => {
+  describe('compileUrlPattern', () => {
+    it('should match * within a single path segment', () => {
+      const { regex, target } = compileUrlPattern('/fr/services/*');
+      expect(target).toBe('path');
+      expect(regex.test('/fr/services/permis')).toBe(true);
+      expect(regex.test('/fr/services/permis/demande')).toBe(false);
+    });
+
+    it('should match ** across segments, including the directory itself', () => {
+      const { regex } = compileUrlPattern('/events/**');
+      expect(regex.test('/events')).toBe(true);
+      expect(regex.test('/events/2024/03/15')).toBe(true);
+      expect(regex.test('/eventsarchive')).toBe(false);
+    });
+
+    it('should treat regex metacharacters in globs literally', () => {
+      const { regex, target } = compileUrlPattern('/search?q=*');
+      expect(target).toBe('pathAndQuery');
+      expect(regex.test('/search?q=permits')).toBe(true);
+      expect(regex.test('/searchXq=permits')).toBe(false);
+    });
+
+    it('should compile re: patterns against the full URL', () => {
+      const { regex, target } = compileUrlPattern('re:/calendar/\\d{4}');
+      expect(target).toBe('url');
+      expect(regex.test('https://example.com/calendar/2024/05')).toBe(true);
+    });
+
+    it('should reject invalid regular expressions with the offending pattern', () => {
+      expect(() => compileUrlPattern('re:/news/(')).toThrow('Invalid URL pattern "re:/news/("');
+    });
+  });
+
+  describe('applyQueryHandling', () => {
+    const url = 'https://example.com/search?q=permits&utm_source=mail&page=2';
+
+    it('should keep query strings by default', () => {
+      expect(applyQueryHandling(url)).toBe(url);
+    });
+
+    it('should strip query strings', () => {
+      expect(applyQueryHandling(url, 'strip')).toBe('https://example.com/search');
+    });
+
+    it('should keep only allowlisted parameters', () => {
+      expect(applyQueryHandling(url, ['q', 'PAGE'])).toBe(
+        'https://example.com/search?q=permits&page=2'
+      );
+    });
+  });
+
+  describe('isWithinPathPrefix', () => {
+    it('should scope on segment boundaries', () => {
+      expect(isWithinPathPrefix('https://example.com/fr/services', '/fr/services/')).toBe(true);
+      expect(isWithinPathPrefix('https://example.com/fr/services/permis', 'fr/services')).toBe(
+        true
+      );
+      expect(isWithinPathPrefix('https://example.com/fr/services-old', '/fr/services')).toBe(false);
+    });
+
+    it('should treat the root prefix as the whole site', () => {
+      expect(isWithinPathPrefix('https://example.com/anything', '/')).toBe(true);
+    });
+
+    it('should compare accented paths in decoded form', () => {
+      expect(
+        isWithinPathPrefix('https://example.com/fr/accessibilit%C3%A9/plan', '/fr/accessibilité')
+      ).toBe(true);
+    });
+  });
+
+  describe('createUrlFilter', () => {
+    it('should match everything when no rules are given', () => {
+      const filter = createUrlFilter();
+      expect(filter.matches('https://example.com/any/page?x=1')).toBe(true);
+      expect(filter.rewrite('https://example.com/a?x=1')).toBe('https://example.com/a?x=1');
+    });
+
+    it('should combine scope, include and exclude rules', () => {
+      const filter = createUrlFilter({
+        pathPrefix: '/fr',
+        include: ['/fr/services/**', '/fr/contact'],
+        exclude: ['re:/calendrier/'],
+      });
+
+      expect(filter.matches('https://example.com/fr/services/permis')).toBe(true);
+      expect(filter.matches('https://example.com/fr/contact')).toBe(true);
+      expect(filter.matches('https://example.com/fr/nouvelles')).toBe(false);
+      expect(filter.matches('https://example.com/en/services/permits')).toBe(false);
+      expect(filter.matches('https://example.com/fr/services/calendrier/2024')).toBe(false);
+      expect(filter.isExcluded('https://example.com/fr/services/calendrier/2024')).toBe(true);
+    });
+
+    it('should ignore blank patterns', () => {
+      const filter = createUrlFilter({ include: [''], exclude: [''] });
+      expect(filter.matches('https://example.com/about')).toBe(true);
+    });
+  });
+});
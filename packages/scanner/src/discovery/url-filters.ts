@@ -0,0 +1,158 @@
+/**
+ * URL Filters
+ *
+ * User-defined rules that limit which URLs a site scan covers:
+ * - `pathPrefix` scopes the scan to one section (`/fr/services`)
+ * - `include` / `exclude` patterns are globs matched against the path (`*` within a
+ *   segment, `**` across segments; the query too when the glob contains `?`), or
+ *   regular expressions prefixed with `re:` matched against the full URL (`re:/calendar/\d{4}`)
+ * - `query` strips query strings, keeps them, or keeps only allowlisted parameters
+ */
+
+export type QueryHandling = 'keep' | 'strip' | string[]; // An array allowlists parameter names
+
+export interface UrlFilterRules {
+  pathPrefix?: string;
+  include?: string[]; // When set, URLs must match at least one pattern
+  exclude?: string[]; // URLs matching any pattern are skipped (and not crawled through)
+  query?: QueryHandling; // Default: 'keep'
+}
+
+export interface UrlFilter {
+  rewrite: (url: string) => string; // Apply the query-string handling
+  isExcluded: (url: string) => boolean; // Matches an exclude pattern
+  matches: (url: string) => boolean; // In scope, included and not excluded
+}
+
+const REGEX_PREFIX = 're:';
+
+// The part of a URL a compiled pattern is tested against
+type PatternTarget = 'url' | 'path' | 'pathAndQuery';
+
+export interface CompiledPattern {
+  regex: RegExp;
+  target: PatternTarget;
+}
+
+/**
+ * Compile a glob or `re:` pattern
+ * Throws when a regular expression is invalid, so bad input surfaces before a scan starts.
+ */
+export function compileUrlPattern(pattern: string): CompiledPattern {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    const source = pattern.slice(REGEX_PREFIX.length);
+    try {
+      return { regex: new RegExp(source, 'i'), target: 'url' };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid URL pattern "${pattern}": ${reason}`);
+    }
+  }
+
+  let target: PatternTarget = pattern.includes('?') ? 'pathAndQuery' : 'path';
+  if (/^https?:\/\//i.test(pattern)) target = 'url';
+  return { regex: globToRegExp(pattern), target };
+}
+
+/**
+ * Convert a glob to an anchored regular expression
+ * `**` matches across path segments, `*` within one; a trailing `/**` also matches the
+ * directory itself. Everything else, including `?`, is literal.
+ */
+function globToRegExp(glob: string): RegExp {
+  const recursiveSuffix = glob.endsWith('/**');
+  const body = recursiveSuffix ? glob.slice(0, -3) : glob;
+
+  const source = body
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*')
+    )
+    .join('.*');
+
+  return new RegExp(`^${source}${recursiveSuffix ? '(/.*)?' : ''}$`, 'i');
+}
+
+/**
+ * Apply query-string handling to a URL
+ */
+export function applyQueryHandling(url: string, query: QueryHandling = 'keep'): string {
+  if (query === 'keep') return url;
+
+  try {
+    const parsed = new URL(url);
+    if (query === 'strip') {
+      parsed.search = '';
+    } else {
+      const allowed = new Set(query.map((name) => name.toLowerCase()));
+      for (const name of Array.from(parsed.searchParams.keys())) {
+        if (!allowed.has(name.toLowerCase())) parsed.searchParams.delete(name);
+      }
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Check that a URL's path lies under a prefix, on a segment boundary
+ * `/fr/services` covers `/fr/services` and `/fr/services/permits`, not `/fr/services-old`.
+ */
+export function isWithinPathPrefix(url: string, pathPrefix: string): boolean {
+  const prefix = `/${pathPrefix.replace(/^\/+|\/+$/g, '')}`;
+  if (prefix === '/') return true;
+
+  try {
+    const pathname = safeDecode(new URL(url).pathname).toLowerCase();
+    const scope = safeDecode(prefix).toLowerCase();
+    return pathname === scope || pathname.startsWith(`${scope}/`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a filter from user rules; with no rules every URL matches unchanged
+ */
+export function createUrlFilter(rules: UrlFilterRules = {}): UrlFilter {
+  const include = (rules.include ?? []).filter(Boolean).map(compileUrlPattern);
+  const exclude = (rules.exclude ?? []).filter(Boolean).map(compileUrlPattern);
+
+  const test = (patterns: CompiledPattern[], url: string) => {
+    let targets: Record<PatternTarget, string>;
+    try {
+      const parsed = new URL(url);
+      const path = safeDecode(parsed.pathname);
+      targets = { url, path, pathAndQuery: path + parsed.search };
+    } catch {
+      return false;
+    }
+    return patterns.some(({ regex, target }) => regex.test(targets[target]));
+  };
+
+  const isExcluded = (url: string) => test(exclude, url);
+
+  return {
+    rewrite: (url) => applyQueryHandling(url, rules.query),
+    isExcluded,
+    matches: (url) =>
+      (!rules.pathPrefix || isWithinPathPrefix(url, rules.pathPrefix)) &&
+      (include.length === 0 || test(include, url)) &&
+      !isExcluded(url),
+  };
+}
+
+/**
+ * Decode percent-escapes so globs can be written with accented characters (/fr/accessibilité)
+ */
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
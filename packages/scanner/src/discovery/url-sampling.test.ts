@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { getHighValueKind, getPathTemplate, groupByTemplate, sampleUrls } from './url-sampling';
+
+const site = (path: string) => `https://example.com${path}`;
+
+describe('URL Sampling', () => {
+  describe('getPathTemplate', () => {
+    it('should replace numeric ids and dates', () => {
+      expect(getPathTemplate(site('/products/12345'))).toBe('/products/:id');
+      expect(getPathTemplate(site('/news/2024/03'))).toBe('/news/:date/:id');
+      expect(getPathTemplate(site('/events/2024-05-01'))).toBe('/events/:date');
+    });
+
+    it('should replace long article slugs', () => {
+      expect(getPathTemplate(site('/news/province-announces-new-transit-funding'))).toBe(
+        '/news/:slug'
+      );
+    });
+
+    it('should keep short section names', () => {
+      expect(getPathTemplate(site('/fr/services/permis'))).toBe('/fr/services/permis');
+      expect(getPathTemplate(site('/'))).toBe('/');
+    });
+  });
+
+  describe('groupByTemplate', () => {
+    it('should collapse collections with many children', () => {
+      const urls = ['a', 'b', 'c', 'd', 'e', 'f'].map((slug) => site(`/blog/${slug}`));
+      const templates = groupByTemplate(urls);
+
+      for (const url of urls) {
+        expect(templates.get(url)).toBe('/blog/:slug');
+      }
+    });
+
+    it('should not collapse top-level or language sections', () => {
+      const urls = ['about', 'services', 'news', 'events', 'careers', 'contact'].flatMap(
+        (section) => [site(`/${section}`), site(`/fr/${section}`)]
+      );
+      const templates = groupByTemplate(urls);
+
+      expect(templates.get(site('/about'))).toBe('/about');
+      expect(templates.get(site('/fr/careers'))).toBe('/fr/careers');
+    });
+  });
+
+  describe('getHighValueKind', () => {
+    it('should recognise high-value pages in English and French', () => {
+      expect(getHighValueKind(site('/'))).toBe('home');
+      expect(getHighValueKind(site('/fr/'))).toBe('french');
+      expect(getHighValueKind(site('/contact-us'))).toBe('contact');
+      expect(getHighValueKind(site('/fr/nous-joindre'))).toBe('contact');
+      expect(getHighValueKind(site('/services/apply'))).toBe('form');
+      expect(getHighValueKind(site('/recherche'))).toBe('search');
+      expect(getHighValueKind(site('/accessibility.html'))).toBe('accessibility');
+    });
+
+    it('should return null for ordinary pages', () => {
+      expect(getHighValueKind(site('/news/contact-tracing-update'))).toBeNull();
+      expect(getHighValueKind('not a url')).toBeNull();
+    });
+  });
+
+  describe('sampleUrls', () => {
+    const news = Array.from({ length: 10 }, (_, i) => ({ url: site(`/news/story-${i}`) }));
+
+    it('should pick representatives from every template group', () => {
+      const candidates = [
+        ...news,
+        { url: site('/services/permits') },
+        { url: site('/about/team') },
+      ];
+
+      const { selected } = sampleUrls(candidates, 3);
+
+      expect(selected).toHaveLength(3);
+      expect(selected).toContain(site('/services/permits'));
+      expect(selected).toContain(site('/about/team'));
+      expect(selected.filter((url) => url.includes('/news/'))).toHaveLength(1);
+    });
+
+    it('should always include high-value pages first', () => {
+      const candidates = [...news, { url: site('/fr') }, { url: site('/contact') }];
+
+      const { selected } = sampleUrls(candidates, 2);
+
+      expect(selected).toEqual([site('/fr'), site('/contact')]);
+    });
+
+    it('should prefer higher sitemap priority, then newer lastmod, within a group', () => {
+      const candidates = [
+        { url: site('/news/story-a'), priority: 0.3 },
+        { url: site('/news/story-b'), priority: 0.9 },
+        { url: site('/news/story-c'), priority: 0.9, lastmod: '2024-06-01' },
+        ...news,
+      ];
+
+      const { selected } = sampleUrls(candidates, 1);
+
+      expect(selected).toEqual([site('/news/story-c')]);
+    });
+
+    it('should explain every exclusion', () => {
+      const candidates = [...news, { url: site('/news/story-0') }, { url: site('/about/history') }];
+
+      const { selected, excluded } = sampleUrls(candidates, 1);
+
+      expect(selected).toHaveLength(1);
+      expect(excluded).toContainEqual({ url: site('/news/story-0'), reason: 'duplicate' });
+      expect(excluded.filter((e) => e.reason === 'template-sampled')).toHaveLength(9);
+      expect(excluded.some((e) => e.reason === 'budget')).toBe(true);
+      expect(selected.length + excluded.length).toBe(candidates.length);
+    });
+
+    it('should deduplicate with the provided normalizer', () => {
+      const { selected, excluded } = sampleUrls(
+        [{ url: site('/about') }, { url: site('/about/') }],
+        5,
+        (url) => url.replace(/\/$/, '')
+      );
+
+      expect(selected).toEqual([site('/about')]);
+      expect(excluded).toEqual([{ url: site('/about/'), reason: 'duplicate' }]);
+    });
+  });
+});
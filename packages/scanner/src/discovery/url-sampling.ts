@@ -0,0 +1,230 @@
+/**
+ * URL Sampling
+ *
+ * Chooses which discovered URLs fit the page budget. Instead of keeping the
+ * shortest paths, URLs are grouped by path template (e.g. `/news/:slug`) so each
+ * kind of page gets a representative, with high-value pages always kept.
+ */
+
+export interface UrlCandidate {
+  url: string;
+  priority?: number; // Sitemap <priority>, 0.0-1.0
+  lastmod?: string; // Sitemap <lastmod>, W3C datetime
+}
+
+export type ExclusionReason =
+  | 'duplicate'
+  | 'template-sampled'
+  | 'budget'
+  | 'unchanged'
+  | 'filtered'; // Outside the path scope or include/exclude patterns
+
+export interface ExcludedUrl {
+  url: string;
+  reason: ExclusionReason;
+  template?: string; // Path template the URL was grouped under
+}
+
+export interface SampleResult {
+  selected: string[];
+  excluded: ExcludedUrl[];
+}
+
+export type HighValueKind = 'home' | 'contact' | 'form' | 'search' | 'accessibility' | 'french';
+
+// Parents with more distinct children than this are treated as collections
+const COLLECTION_FANOUT = 5;
+
+const DEFAULT_PRIORITY = 0.5;
+
+const LANGUAGE_PREFIX = /^\/[a-z]{2}(-[a-z]{2})?$/i;
+
+const HIGH_VALUE_PATTERNS: Array<{ kind: HighValueKind; pattern: RegExp }> = [
+  { kind: 'contact', pattern: /^(contact|contact-?us|contactez-?nous|nous-joindre)$/ },
+  {
+    kind: 'form',
+    pattern: /^(forms?|formulaires?|apply|application|register|inscription|feedback|commentaires)$/,
+  },
+  { kind: 'search', pattern: /^(search|recherche)$/ },
+  { kind: 'accessibility', pattern: /^(accessibility|accessibilite|accessibilité)$/ },
+];
+
+// Landing pages of the French version of a site
+const FRENCH_LANDING_PATHS = ['/fr', '/fr-ca', '/francais', '/français', '/accueil'];
+
+/**
+ * Classify a URL as a high-value page that should always be scanned
+ */
+export function getHighValueKind(url: string): HighValueKind | null {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url).pathname).toLowerCase().replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+
+  if (pathname === '') return 'home';
+  if (FRENCH_LANDING_PATHS.includes(pathname)) return 'french';
+
+  // Match the page's own name, with or without an extension (contact.html)
+  const last = pathname.slice(pathname.lastIndexOf('/') + 1).replace(/\.[a-z0-9]+$/, '');
+  return HIGH_VALUE_PATTERNS.find(({ pattern }) => pattern.test(last))?.kind ?? null;
+}
+
+/**
+ * Replace obviously dynamic path segments (ids, dates, slugs) with placeholders
+ */
+function templateSegment(segment: string): string {
+  if (/^(19|20)\d{2}(-\d{2}){0,2}$/.test(segment)) return ':date';
+  if (/^\d+$/.test(segment)) return ':id';
+  if (/^[0-9a-f]{8,}(-[0-9a-f]{4,})*$/i.test(segment)) return ':id';
+  // Long or multi-word hyphenated segments are article-style slugs
+  if (segment.length >= 30 || segment.split(/[-_]/).length >= 4) return ':slug';
+  return segment;
+}
+
+/**
+ * Get the path template for a single URL, e.g. `/news/2024/budget-update-for-ontario` -> `/news/:date/:slug`
+ */
+export function getPathTemplate(url: string): string {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean).map(templateSegment);
+    return `/${segments.join('/')}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Compute path templates for a set of URLs
+ * Besides per-segment patterns, a parent with many distinct children
+ * (`/news/a`, `/news/b`, ...) has its last segment collapsed into `:slug`.
+ */
+export function groupByTemplate(urls: string[]): Map<string, string> {
+  const templates = new Map<string, string>();
+  const children = new Map<string, Set<string>>();
+
+  for (const url of urls) {
+    const template = getPathTemplate(url);
+    templates.set(url, template);
+
+    const lastSlash = template.lastIndexOf('/');
+    const parent = template.slice(0, lastSlash);
+    const leaf = template.slice(lastSlash + 1);
+    if (leaf && !leaf.startsWith(':')) {
+      const set = children.get(parent) ?? new Set<string>();
+      set.add(leaf);
+      children.set(parent, set);
+    }
+  }
+
+  for (const [url, template] of templates) {
+    const lastSlash = template.lastIndexOf('/');
+    const parent = template.slice(0, lastSlash);
+    // Top-level and language sections (/about, /fr/services) stay distinct
+    if (parent === '' || LANGUAGE_PREFIX.test(parent)) continue;
+    if ((children.get(parent)?.size ?? 0) > COLLECTION_FANOUT) {
+      templates.set(url, `${parent}/:slug`);
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Order candidates within a template group: sitemap priority, then most recently modified, then shortest
+ */
+function compareCandidates(a: UrlCandidate, b: UrlCandidate): number {
+  const priority = (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY);
+  if (priority !== 0) return priority;
+
+  const lastmod = parseLastmod(b.lastmod) - parseLastmod(a.lastmod);
+  if (lastmod !== 0) return lastmod;
+
+  return a.url.length - b.url.length;
+}
+
+function parseLastmod(lastmod?: string): number {
+  const time = lastmod ? Date.parse(lastmod) : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Select up to maxPages URLs: high-value pages first, then round-robin across path templates
+ */
+export function sampleUrls(
+  candidates: UrlCandidate[],
+  maxPages: number,
+  normalize: (url: string) => string = (url) => url
+): SampleResult {
+  const excluded: ExcludedUrl[] = [];
+
+  // Deduplicate, keeping the first occurrence
+  const unique: UrlCandidate[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    const key = normalize(candidate.url);
+    if (seen.has(key)) {
+      excluded.push({ url: candidate.url, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(key);
+    unique.push(candidate);
+  }
+
+  const templates = groupByTemplate(unique.map((c) => c.url));
+  const selected: string[] = [];
+  const selectedTemplates = new Set<string>();
+
+  const take = (candidate: UrlCandidate) => {
+    selected.push(candidate.url);
+    selectedTemplates.add(templates.get(candidate.url) ?? candidate.url);
+  };
+
+  // 1. High-value pages (home, contact, forms, search, French landing), shortest first
+  const highValue = unique
+    .filter((c) => getHighValueKind(c.url) !== null)
+    .sort((a, b) => a.url.length - b.url.length);
+  const rest = unique.filter((c) => getHighValueKind(c.url) === null);
+
+  for (const candidate of highValue) {
+    if (selected.length >= maxPages) break;
+    take(candidate);
+  }
+
+  // 2. Round-robin over template groups so every kind of page gets a representative
+  const groups = new Map<string, UrlCandidate[]>();
+  for (const candidate of rest) {
+    const template = templates.get(candidate.url) ?? candidate.url;
+    const group = groups.get(template) ?? [];
+    group.push(candidate);
+    groups.set(template, group);
+  }
+
+  const queues = Array.from(groups.values(), (group) => group.sort(compareCandidates));
+  // Groups whose best page ranks highest go first
+  queues.sort((a, b) => compareCandidates(a[0], b[0]));
+
+  let round = 0;
+  while (selected.length < maxPages && queues.some((queue) => queue.length > round)) {
+    for (const queue of queues) {
+      if (selected.length >= maxPages) break;
+      if (queue.length > round) take(queue[round]);
+    }
+    round++;
+  }
+
+  // 3. Record why everything else was left out
+  const selectedSet = new Set(selected);
+  for (const candidate of unique) {
+    if (selectedSet.has(candidate.url)) continue;
+    const template = templates.get(candidate.url);
+    excluded.push({
+      url: candidate.url,
+      reason: template && selectedTemplates.has(template) ? 'template-sampled' : 'budget',
+      template,
+    });
+  }
+
+  return { selected, excluded };
+}
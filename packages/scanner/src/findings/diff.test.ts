@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult, ScoreLedgerEntry, SiteReport } from '../types';
+import { diffScans } from './diff';
+
+type Impact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+const violation = (id: string, impact: Impact, elements: string[]) => ({
+  id,
+  impact,
+  description: `${id} description`,
+  help: `${id} help`,
+  helpUrl: `https://dequeuniversity.com/rules/axe/4.10/${id}`,
+  nodes: elements.map((element) => ({
+    html: `<${element}></${element}>`,
+    target: [element],
+    failureSummary: 'Fix this',
+  })),
+});
+
+const entry = (ruleId: string, impact: Impact, points: number): ScoreLedgerEntry => ({
+  ruleId,
+  source: 'automated',
+  impact,
+  elementCount: 1,
+  baseWeight: points,
+  scaling: 1,
+  points,
+});
+
+const scan = (
+  timestamp: string,
+  score: number,
+  violations: ReturnType<typeof violation>[],
+  ledger?: ScoreLedgerEntry[]
+) =>
+  ({
+    schemaVersion: 2,
+    url: 'https://www.example.ca/apply#step-1',
+    timestamp,
+    violations,
+    passes: 30,
+    incomplete: 0,
+    score: { score, grade: 'B', ledger },
+    summary: { total: violations.length, critical: 0, serious: 0, moderate: 0, minor: 0 },
+    compliance: { wcag2AA: false, ontarioAODA: false, bilingualCompliant: true },
+  }) as unknown as ScanResult;
+
+describe('Scan diffs', () => {
+  describe('diffScans', () => {
+    const previous = scan(
+      '2026-03-01T00:00:00.000Z',
+      70,
+      [
+        violation('image-alt', 'critical', ['img.logo', 'img.hero']),
+        violation('label', 'serious', ['input.email']),
+        violation('color-contrast', 'serious', ['p.note']),
+      ],
+      [
+        entry('image-alt', 'critical', 16),
+        entry('label', 'serious', 8),
+        entry('color-contrast', 'serious', 6),
+      ]
+    );
+    const current = scan(
+      '2026-04-01T00:00:00.000Z',
+      79,
+      [
+        violation('image-alt', 'critical', ['img.logo']),
+        violation('color-contrast', 'moderate', ['p.note']),
+        violation('region', 'moderate', ['div.banner']),
+      ],
+      [
+        entry('image-alt', 'critical', 10),
+        entry('color-contrast', 'moderate', 4),
+        entry('region', 'moderate', 5),
+      ]
+    );
+
+    it('should classify each element by fingerprint', () => {
+      const diff = diffScans(previous, current);
+      const status = (selector: string) =>
+        diff.pages[0].nodes.find((node) => node.selector === selector)?.status;
+
+      expect(diff.kind).toBe('page');
+      expect(status('img.logo')).toBe('persisting');
+      expect(status('img.hero')).toBe('fixed');
+      expect(status('input.email')).toBe('fixed');
+      expect(status('p.note')).toBe('changed-severity');
+      expect(status('div.banner')).toBe('new');
+      expect(diff.counts).toEqual({ new: 1, fixed: 2, persisting: 1, changedSeverity: 1 });
+    });
+
+    it('should classify rules on each page', () => {
+      const rules = diffScans(previous, current).pages[0].rules;
+      const rule = (ruleId: string) => rules.find((r) => r.ruleId === ruleId);
+
+      expect(rule('image-alt')).toMatchObject({
+        status: 'persisting',
+        counts: { new: 0, fixed: 1, persisting: 1, changedSeverity: 0 },
+      });
+      expect(rule('label')?.status).toBe('fixed');
+      expect(rule('region')?.status).toBe('new');
+      expect(rule('color-contrast')).toMatchObject({
+        status: 'changed-severity',
+        impact: 'moderate',
+        previousImpact: 'serious',
+      });
+    });
+
+    it('should attribute the score change to rules from the ledgers', () => {
+      const diff = diffScans(previous, current);
+
+      expect(diff.score).toEqual({ previous: 70, current: 79, delta: 9 });
+      expect(diff.attribution).toEqual([
+        { source: 'rule', id: 'label', points: 8 },
+        { source: 'rule', id: 'image-alt', points: 6 },
+        { source: 'rule', id: 'region', points: -5 },
+        { source: 'rule', id: 'color-contrast', points: 2 },
+        { source: 'other', points: -2 },
+      ]);
+    });
+
+    it('should keep identical siblings apart', () => {
+      const before = scan('2026-03-01T00:00:00.000Z', 80, [
+        violation('link-name', 'serious', ['a.icon', 'a.icon', 'a.icon']),
+      ]);
+      const after = scan('2026-04-01T00:00:00.000Z', 85, [
+        violation('link-name', 'serious', ['a.icon']),
+      ]);
+
+      expect(diffScans(before, after).counts).toMatchObject({ fixed: 2, persisting: 1 });
+    });
+
+    it('should compare site reports page by page', () => {
+      const page = (path: string, score: number, violations: ReturnType<typeof violation>[]) => ({
+        schemaVersion: 2 as const,
+        url: `https://www.example.ca${path}`,
+        score,
+        grade: 'B',
+        violations,
+        passes: 10,
+        incomplete: 0,
+        timestamp: '2026-03-01T00:00:00.000Z',
+      });
+      const report = (timestamp: string, avgScore: number, pageResults: unknown[]) =>
+        ({ baseUrl: 'https://www.example.ca', timestamp, avgScore, pageResults }) as SiteReport;
+
+      const diff = diffScans(
+        report('2026-03-01T00:00:00.000Z', 70, [
+          page('/', 60, [violation('region', 'moderate', ['div.banner'])]),
+          page('/old', 80, []),
+        ]),
+        report('2026-04-01T00:00:00.000Z', 80, [
+          page('/', 80, []),
+          page('/new', 90, [violation('label', 'serious', ['input'])]),
+        ])
+      );
+
+      expect(diff.kind).toBe('site');
+      expect(diff.pages.map((p) => [p.url, p.status])).toEqual([
+        ['https://www.example.ca/new', 'added'],
+        ['https://www.example.ca/', 'compared'],
+        ['https://www.example.ca/old', 'removed'],
+      ]);
+      // Only pages in both scans count; the new page's label issue was never seen before
+      expect(diff.counts).toEqual({ new: 0, fixed: 1, persisting: 0, changedSeverity: 0 });
+      expect(diff.score).toEqual({ previous: 60, current: 80, delta: 20 });
+      expect(diff.attribution).toEqual([
+        { source: 'page', id: 'https://www.example.ca/', points: 20 },
+      ]);
+    });
+
+    it('should score site reports on the pages both scanned when a page is added', () => {
+      const page = (path: string, score: number) => ({
+        schemaVersion: 2 as const,
+        url: `https://www.example.ca${path}`,
+        score,
+        grade: 'B',
+        violations: [],
+        passes: 10,
+        incomplete: 0,
+        timestamp: '2026-03-01T00:00:00.000Z',
+      });
+      const report = (timestamp: string, avgScore: number, pageResults: unknown[]) =>
+        ({ baseUrl: 'https://www.example.ca', timestamp, avgScore, pageResults }) as SiteReport;
+
+      const diff = diffScans(
+        report('2026-03-01T00:00:00.000Z', 75, [page('/', 70), page('/about', 80)]),
+        report('2026-04-01T00:00:00.000Z', 60, [
+          page('/', 70),
+          page('/about', 90),
+          page('/new', 20),
+        ])
+      );
+
+      // The new page drags the site average down, but the pages scanned twice improved
+      expect(diff.score).toEqual({ previous: 75, current: 80, delta: 5 });
+      expect(diff.attribution).toEqual([
+        { source: 'page', id: 'https://www.example.ca/about', points: 5 },
+      ]);
+    });
+  });
+});
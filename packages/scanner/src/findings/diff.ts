@@ -0,0 +1,322 @@
+/**
+ * Scan Diffs
+ *
+ * Compares two scans of the same page or site to show what a release changed:
+ * every failing element is matched by fingerprint and classified as new, fixed,
+ * persisting or changed-severity, per element and per rule on each page, and
+ * the score change is attributed to the rules (or pages) behind it. Like scan
+ * history, site scores are compared on the pages both reports scanned.
+ */
+
+import { getHistoryKey } from '../history/history';
+import type {
+  ImpactLevel,
+  PageScanResult,
+  ResultNode,
+  ScanResult,
+  ScoreLedgerEntry,
+  SiteReport,
+} from '../types';
+import { fingerprintNode, normalizeSelector } from './fingerprint';
+
+export type DiffStatus = 'new' | 'fixed' | 'persisting' | 'changed-severity';
+
+export interface DiffCounts {
+  new: number;
+  fixed: number;
+  persisting: number;
+  changedSeverity: number;
+}
+
+export interface NodeDiff {
+  fingerprint: string;
+  ruleId: string;
+  status: DiffStatus;
+  impact: ImpactLevel; // Current impact (previous impact once fixed)
+  previousImpact?: ImpactLevel; // When the element failed before
+  selector: string;
+  html: string;
+}
+
+// A rule on one page: new or fixed when it only fails in one scan
+export interface RuleDiff {
+  ruleId: string;
+  description: string;
+  status: DiffStatus;
+  impact: ImpactLevel;
+  previousImpact?: ImpactLevel;
+  counts: DiffCounts; // Its elements
+}
+
+export interface PageDiff {
+  url: string;
+  status: 'compared' | 'added' | 'removed'; // Added and removed pages were scanned once
+  previousScore?: number;
+  currentScore?: number;
+  scoreDelta: number;
+  counts: DiffCounts;
+  rules: RuleDiff[];
+  nodes: NodeDiff[];
+}
+
+// Points of the score change explained by a rule, a page, or neither
+export interface ScoreAttribution {
+  source: 'rule' | 'page' | 'other';
+  id?: string; // Rule id or page URL
+  points: number; // Positive when it raised the score
+}
+
+export interface ScanDiff {
+  kind: 'page' | 'site';
+  previousTimestamp: string;
+  currentTimestamp: string;
+  score: { previous: number; current: number; delta: number }; // On pages in both scans
+  attribution: ScoreAttribution[]; // Largest first; sums to the delta
+  counts: DiffCounts; // Elements on pages present in both scans
+  pages: PageDiff[];
+}
+
+// The parts of a page result a diff reads
+interface DiffPage {
+  url: string;
+  score: number;
+  ledger?: ScoreLedgerEntry[];
+  violations: Array<{
+    id: string;
+    impact: ImpactLevel;
+    description: string;
+    nodes: Array<Pick<ResultNode, 'target' | 'html'>>;
+  }>;
+}
+
+interface NodeEntry {
+  ruleId: string;
+  impact: ImpactLevel;
+  node: Pick<ResultNode, 'target' | 'html'>;
+}
+
+const IMPACT_ORDER: ImpactLevel[] = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * Diff two scans of the same page, or two site reports of the same site
+ */
+export function diffScans(
+  previous: ScanResult | SiteReport,
+  current: ScanResult | SiteReport
+): ScanDiff {
+  const before = toPages(previous);
+  const after = toPages(current);
+
+  const pages: PageDiff[] = [];
+  for (const [key, page] of after) {
+    pages.push(diffPage(before.get(key), page));
+  }
+  for (const [key, page] of before) {
+    if (!after.has(key)) pages.push(diffPage(page, undefined));
+  }
+
+  const compared = pages.filter((page) => page.status === 'compared');
+  const sameScope = compared.length === pages.length || compared.length === 0;
+  const previousScore = sameScope ? getScore(previous) : meanScore(compared, 'previousScore');
+  const currentScore = sameScope ? getScore(current) : meanScore(compared, 'currentScore');
+  const delta = currentScore - previousScore;
+
+  const counts = emptyCounts();
+  for (const page of pages) {
+    if (page.status === 'compared') addCounts(counts, page.counts);
+  }
+
+  return {
+    kind: 'baseUrl' in current ? 'site' : 'page',
+    previousTimestamp: previous.timestamp,
+    currentTimestamp: current.timestamp,
+    score: { previous: previousScore, current: currentScore, delta },
+    attribution: attributeScore(previous, current, pages, delta),
+    counts,
+    pages: pages.sort((a, b) => b.counts.new - a.counts.new || b.counts.fixed - a.counts.fixed),
+  };
+}
+
+/**
+ * Element and rule diffs of one page; a page missing from one scan is added or removed
+ */
+function diffPage(previous: DiffPage | undefined, current: DiffPage | undefined): PageDiff {
+  const before = groupNodes(previous);
+  const after = groupNodes(current);
+  const nodes: NodeDiff[] = [];
+
+  for (const [fingerprint, entries] of after) {
+    const matched = before.get(fingerprint) ?? [];
+    for (const [index, entry] of entries.entries()) {
+      const prior = matched[index];
+      nodes.push({
+        fingerprint,
+        ruleId: entry.ruleId,
+        status: !prior ? 'new' : prior.impact !== entry.impact ? 'changed-severity' : 'persisting',
+        impact: entry.impact,
+        previousImpact: prior?.impact,
+        selector: normalizeSelector(entry.node.target),
+        html: entry.node.html,
+      });
+    }
+  }
+  for (const [fingerprint, entries] of before) {
+    const matched = after.get(fingerprint)?.length ?? 0;
+    for (const entry of entries.slice(matched)) {
+      nodes.push({
+        fingerprint,
+        ruleId: entry.ruleId,
+        status: 'fixed',
+        impact: entry.impact,
+        previousImpact: entry.impact,
+        selector: normalizeSelector(entry.node.target),
+        html: entry.node.html,
+      });
+    }
+  }
+
+  const page = (current ?? previous) as DiffPage;
+  return {
+    url: page.url,
+    status: !previous ? 'added' : !current ? 'removed' : 'compared',
+    previousScore: previous?.score,
+    currentScore: current?.score,
+    scoreDelta: (current?.score ?? 0) - (previous?.score ?? 0),
+    counts: countNodes(nodes),
+    rules: diffRules(previous, current, nodes),
+    nodes,
+  };
+}
+
+/**
+ * Rule-level status on a page, from whether the rule fails in each scan and its impact
+ */
+function diffRules(
+  previous: DiffPage | undefined,
+  current: DiffPage | undefined,
+  nodes: NodeDiff[]
+): RuleDiff[] {
+  const before = new Map(previous?.violations.map((violation) => [violation.id, violation]));
+  const after = new Map(current?.violations.map((violation) => [violation.id, violation]));
+  const ruleIds = [...new Set([...after.keys(), ...before.keys()])];
+
+  return ruleIds
+    .map((ruleId): RuleDiff => {
+      const prior = before.get(ruleId);
+      const now = after.get(ruleId);
+      const violation = (now ?? prior) as DiffPage['violations'][number];
+      return {
+        ruleId,
+        description: violation.description,
+        status: !prior
+          ? 'new'
+          : !now
+            ? 'fixed'
+            : prior.impact !== now.impact
+              ? 'changed-severity'
+              : 'persisting',
+        impact: violation.impact,
+        previousImpact: prior?.impact,
+        counts: countNodes(nodes.filter((node) => node.ruleId === ruleId)),
+      };
+    })
+    .sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact));
+}
+
+/**
+ * Explain the score change: by rule from the score ledgers when both scans are
+ * single pages with ledgers, otherwise by page (each page's share of the mean);
+ * whatever remains (bonuses, caps, page weights, rounding) is attributed to other
+ */
+function attributeScore(
+  previous: ScanResult | SiteReport,
+  current: ScanResult | SiteReport,
+  pages: PageDiff[],
+  delta: number
+): ScoreAttribution[] {
+  const attribution: ScoreAttribution[] = [];
+  const before = 'score' in previous && typeof previous.score === 'object' ? previous.score : null;
+  const after = 'score' in current && typeof current.score === 'object' ? current.score : null;
+
+  if (before?.ledger && after?.ledger) {
+    const points = new Map<string, number>();
+    for (const entry of before.ledger) {
+      if (entry.ruleId) points.set(entry.ruleId, (points.get(entry.ruleId) ?? 0) + entry.points);
+    }
+    for (const entry of after.ledger) {
+      if (entry.ruleId) points.set(entry.ruleId, (points.get(entry.ruleId) ?? 0) - entry.points);
+    }
+    for (const [id, change] of points) {
+      if (change !== 0) attribution.push({ source: 'rule', id, points: round(change) });
+    }
+  } else {
+    const compared = pages.filter((page) => page.status === 'compared');
+    const size = Math.max(compared.length, 1);
+    for (const page of compared) {
+      if (page.scoreDelta !== 0) {
+        attribution.push({ source: 'page', id: page.url, points: round(page.scoreDelta / size) });
+      }
+    }
+  }
+
+  const explained = attribution.reduce((sum, entry) => sum + entry.points, 0);
+  const other = round(delta - explained);
+  if (other !== 0) attribution.push({ source: 'other', points: other });
+
+  return attribution.sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+}
+
+// Pages by history key; failed site pages are left out
+function toPages(scan: ScanResult | SiteReport): Map<string, DiffPage> {
+  const pages: DiffPage[] =
+    'baseUrl' in scan
+      ? scan.pageResults.filter((page: PageScanResult) => !page.error)
+      : [{ ...scan, score: scan.score?.score ?? 0, ledger: scan.score?.ledger }];
+  return new Map(pages.map((page) => [getHistoryKey(page.url), page]));
+}
+
+function getScore(scan: ScanResult | SiteReport): number {
+  return 'baseUrl' in scan ? scan.avgScore : (scan.score?.score ?? 0);
+}
+
+// Mean score of the pages in both scans, rounded like a site score
+function meanScore(pages: PageDiff[], field: 'previousScore' | 'currentScore'): number {
+  return Math.round(pages.reduce((sum, page) => sum + (page[field] ?? 0), 0) / pages.length);
+}
+
+// A page's failing elements by fingerprint; identical siblings share one
+function groupNodes(page: DiffPage | undefined): Map<string, NodeEntry[]> {
+  const groups = new Map<string, NodeEntry[]>();
+  for (const violation of page?.violations ?? []) {
+    for (const node of violation.nodes) {
+      const fingerprint = fingerprintNode(violation.id, node);
+      const entry = { ruleId: violation.id, impact: violation.impact, node };
+      groups.set(fingerprint, [...(groups.get(fingerprint) ?? []), entry]);
+    }
+  }
+  return groups;
+}
+
+function emptyCounts(): DiffCounts {
+  return { new: 0, fixed: 0, persisting: 0, changedSeverity: 0 };
+}
+
+function addCounts(total: DiffCounts, counts: DiffCounts): void {
+  total.new += counts.new;
+  total.fixed += counts.fixed;
+  total.persisting += counts.persisting;
+  total.changedSeverity += counts.changedSeverity;
+}
+
+function countNodes(nodes: NodeDiff[]): DiffCounts {
+  const counts = emptyCounts();
+  for (const node of nodes) {
+    if (node.status === 'changed-severity') counts.changedSeverity++;
+    else counts[node.status]++;
+  }
+  return counts;
+}
+
+function round(points: number): number {
+  return Math.round(points * 100) / 100;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { fingerprintNode, hashString, normalizeHtml, normalizeSelector } from './fingerprint';
+
+describe('Violation fingerprints', () => {
+  describe('normalizeSelector', () => {
+    it('should drop positions, generated ids and hashed classes', () => {
+      expect(normalizeSelector(['header > ul > li:nth-child(3) > a.css-1x2y3z'])).toBe(
+        'header > ul > li > a'
+      );
+      expect(normalizeSelector(['#react-select-12-input'])).toBe('#*');
+      expect(normalizeSelector(['#main-nav'])).toBe('#main-nav');
+    });
+
+    it('should join frame and shadow selectors', () => {
+      expect(normalizeSelector(['iframe', 'button'])).toBe('iframe >>> button');
+    });
+  });
+
+  describe('normalizeHtml', () => {
+    it('should ignore whitespace, generated ids and URL queries', () => {
+      const a = '<a  id="ember123" href="/cart?session=abc">\n  Cart</a>';
+      const b = '<a id="ember456" href="/cart?session=xyz"> Cart</a>';
+
+      expect(normalizeHtml(a)).toBe(normalizeHtml(b));
+      expect(normalizeHtml(a)).toBe('<a id="*" href="/cart"> cart</a>');
+    });
+
+    it('should drop volatile attributes and CSS-in-JS hashes', () => {
+      expect(normalizeHtml('<div data-reactid="7" class="sc-abc123 nav">')).toBe(
+        normalizeHtml('<div class="sc-def456 nav">')
+      );
+    });
+  });
+
+  describe('hashString', () => {
+    it('should return a stable 8-digit hex hash', () => {
+      expect(hashString('')).toBe('811c9dc5');
+      expect(hashString('image-alt')).toMatch(/^[0-9a-f]{8}$/);
+      expect(hashString('image-alt')).toBe(hashString('image-alt'));
+    });
+  });
+
+  describe('fingerprintNode', () => {
+    it('should match the same component across renders', () => {
+      const first = fingerprintNode('link-name', {
+        target: ['nav > a:nth-child(2)'],
+        html: '<a href="/?utm=1" id="link-1234"></a>',
+      });
+      const second = fingerprintNode('link-name', {
+        target: ['nav > a:nth-child(5)'],
+        html: '<a href="/" id="link-9876"></a>',
+      });
+
+      expect(first).toBe(second);
+      expect(first.startsWith('link-name|nav > a|')).toBe(true);
+    });
+
+    it('should tell different rules and elements apart', () => {
+      const node = { target: ['img'], html: '<img src="logo.png">' };
+
+      expect(fingerprintNode('image-alt', node)).not.toBe(fingerprintNode('role-img-alt', node));
+      expect(fingerprintNode('image-alt', node)).not.toBe(
+        fingerprintNode('image-alt', { ...node, html: '<img src="hero.png">' })
+      );
+    });
+  });
+});
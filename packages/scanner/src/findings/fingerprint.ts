@@ -0,0 +1,73 @@
+/**
+ * Violation Fingerprints
+ *
+ * Identifies the same issue across pages and scans. A fingerprint combines the
+ * rule id, the element's selector and a hash of its HTML snippet, both normalized
+ * so that what changes between renders of one component (generated ids, hashed
+ * CSS-in-JS classes, nth-child positions, query strings, whitespace) does not
+ * change the fingerprint.
+ */
+
+import type { ResultNode } from '../types';
+
+// Ids containing runs of digits are generated (ember123, react-select-3-input)
+const GENERATED_ID = /#[\w-]*\d{2,}[\w-]*/g;
+
+// Hashed class names from CSS-in-JS libraries
+const HASHED_CLASS = /\.(?:css|sc|jsx|emotion|svelte)-[\w-]+/g;
+
+// Attributes whose values are per-render, not per-component
+const VOLATILE_ATTRIBUTE = /\s(?:nonce|data-reactid|data-v-[\w-]+)(?:="[^"]*")?/g;
+
+/**
+ * Normalize an axe-core target (one selector per frame or shadow root)
+ */
+export function normalizeSelector(target: string[]): string {
+  return target
+    .map((selector) =>
+      selector
+        .replace(/:nth-(?:child|of-type|last-child|last-of-type)\(\d+\)/g, '')
+        .replace(GENERATED_ID, '#*')
+        .replace(HASHED_CLASS, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .join(' >>> ');
+}
+
+/**
+ * Normalize an HTML snippet: collapse whitespace, blank generated ids and
+ * references to them, drop volatile attributes and strip URL queries and fragments
+ */
+export function normalizeHtml(html: string): string {
+  return html
+    .replace(/\s+/g, ' ')
+    .replace(VOLATILE_ATTRIBUTE, '')
+    .replace(
+      /\s(id|for|aria-labelledby|aria-describedby|aria-controls|aria-owns)="[^"]*\d{2,}[^"]*"/g,
+      ' $1="*"'
+    )
+    .replace(/\s(href|src|action)="([^"?#]*)[?#][^"]*"/g, ' $1="$2"')
+    .replace(/\b(css|sc|jsx|emotion|svelte)-[\w-]+/g, '$1-*')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fingerprint of one failing element: `rule|selector|html-hash`
+ */
+export function fingerprintNode(ruleId: string, node: Pick<ResultNode, 'target' | 'html'>): string {
+  return `${ruleId}|${normalizeSelector(node.target)}|${hashString(normalizeHtml(node.html))}`;
+}
@@ -0,0 +1,21 @@
+export {
+  fingerprintNode,
+  hashString,
+  normalizeHtml,
+  normalizeSelector,
+} from './fingerprint';
+export {
+  SHARED_COMPONENT_MIN_PAGES,
+  findSharedComponents,
+  type FindingPage,
+} from './shared-components';
+export {
+  diffScans,
+  type DiffCounts,
+  type DiffStatus,
+  type NodeDiff,
+  type PageDiff,
+  type RuleDiff,
+  type ScanDiff,
+  type ScoreAttribution,
+} from './diff';
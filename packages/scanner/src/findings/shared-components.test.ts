@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findSharedComponents } from './shared-components';
+
+const logo = { target: ['header > img'], html: '<img src="/logo.png">' };
+const search = { target: ['#search-42'], html: '<input id="search-42">' };
+
+const page = (path: string, hero = `<img src="${path}.jpg">`) => ({
+  url: `https://www.example.ca${path}`,
+  violations: [
+    {
+      id: 'image-alt',
+      impact: 'critical' as const,
+      description: 'Images must have alternate text',
+      estimatedFixTime: 5,
+      nodes: [logo, { target: ['main > img'], html: hero }],
+    },
+    {
+      id: 'label',
+      impact: 'serious' as const,
+      description: 'Form elements must have labels',
+      estimatedFixTime: 10,
+      nodes: [search],
+    },
+  ],
+});
+
+describe('Shared components', () => {
+  describe('findSharedComponents', () => {
+    it('should group identical elements across pages', () => {
+      const shared = findSharedComponents([page('/'), page('/about'), page('/contact')]);
+
+      expect(shared).toHaveLength(2);
+      expect(shared[0]).toMatchObject({
+        ruleId: 'image-alt',
+        impact: 'critical',
+        selector: 'header > img',
+        pages: 3,
+        estimatedFixTime: 5,
+      });
+      expect(shared[0].urls).toEqual([
+        'https://www.example.ca/',
+        'https://www.example.ca/about',
+        'https://www.example.ca/contact',
+      ]);
+      expect(shared[1]).toMatchObject({ ruleId: 'label', selector: '#*', pages: 3 });
+    });
+
+    it('should keep page-specific elements out', () => {
+      const shared = findSharedComponents([page('/'), page('/about')]);
+
+      expect(shared.some((component) => component.selector === 'main > img')).toBe(false);
+    });
+
+    it('should skip failed pages and honour the page minimum', () => {
+      const shared = findSharedComponents([page('/'), { ...page('/about'), error: 'Timeout' }]);
+
+      expect(shared).toEqual([]);
+      expect(findSharedComponents([page('/')], 1)).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Shared Components
+ *
+ * Headers, footers and navigation render the same failing elements on every page
+ * of a site. Grouping identical issues (same fingerprint) across pages turns forty
+ * copies of a header violation into one shared-component finding: fixed once,
+ * with one fix time.
+ */
+
+import type { ResultNode, SharedComponent, Violation } from '../types';
+import { fingerprintNode, normalizeSelector } from './fingerprint';
+
+// The parts of a page result grouping reads
+export interface FindingPage {
+  url: string;
+  error?: string;
+  violations: Array<
+    Pick<Violation, 'id' | 'impact' | 'estimatedFixTime'> &
+      Partial<Pick<Violation, 'description' | 'help'>> & {
+        nodes: Array<Pick<ResultNode, 'target' | 'html'>>;
+      }
+  >;
+}
+
+// Pages an issue must appear on to count as a shared component
+export const SHARED_COMPONENT_MIN_PAGES = 2;
+
+const IMPACT_ORDER = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * Group identical failing elements across pages, keeping those on at least
+ * `minPages` pages, most widespread first
+ */
+export function findSharedComponents(
+  pages: FindingPage[],
+  minPages = SHARED_COMPONENT_MIN_PAGES
+): SharedComponent[] {
+  const groups = new Map<string, SharedComponent>();
+
+  for (const page of pages) {
+    if (page.error) continue;
+    for (const violation of page.violations) {
+      for (const node of violation.nodes) {
+        const fingerprint = fingerprintNode(violation.id, node);
+        const group = groups.get(fingerprint) ?? {
+          fingerprint,
+          ruleId: violation.id,
+          description: violation.description || violation.help || violation.id,
+          impact: violation.impact,
+          selector: normalizeSelector(node.target),
+          html: node.html,
+          pages: 0,
+          urls: [],
+          estimatedFixTime: violation.estimatedFixTime,
+        };
+        if (!group.urls.includes(page.url)) {
+          group.urls.push(page.url);
+          group.pages++;
+        }
+        groups.set(fingerprint, group);
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.pages >= minPages)
+    .sort(
+      (a, b) => b.pages - a.pages || IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact)
+    );
+}
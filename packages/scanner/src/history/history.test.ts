@@ -0,0 +1,362 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult, ScanSnapshot, SiteReport } from '../types';
+import {
+  compareSnapshots,
+  detectRegressions,
+  getHistoryKey,
+  getScoreTrend,
+  historyToCsv,
+  isComparable,
+  selectExpired,
+  snapshotScan,
+  snapshotSiteReport,
+} from './history';
+
+const violation = (id: string, impact: 'critical' | 'serious' | 'moderate', targets: string[]) => ({
+  id,
+  impact,
+  description: `${id} description`,
+  help: `${id} help`,
+  helpUrl: `https://dequeuniversity.com/rules/axe/4.10/${id}`,
+  nodes: targets.map((target) => ({
+    html: `<div class="${target}"></div>`,
+    target: [`.${target}`],
+    failureSummary: 'Fix this',
+  })),
+});
+
+const scanResult: ScanResult = {
+  schemaVersion: 2,
+  url: 'https://www.example.ca/services#hours',
+  timestamp: '2026-03-01T10:00:00.000Z',
+  violations: [
+    violation('image-alt', 'critical', ['hero', 'logo']),
+    violation('region', 'moderate', ['banner']),
+  ],
+  passes: 40,
+  incomplete: 0,
+  score: { score: 72, grade: 'C' } as ScanResult['score'],
+  jurisdiction: 'ontario',
+  summary: { total: 2, critical: 1, serious: 0, moderate: 1, minor: 0 },
+  compliance: { wcag2AA: false, ontarioAODA: false, bilingualCompliant: true },
+};
+
+const snapshot = (
+  timestamp: string,
+  score: number,
+  findings: Array<[string, 'critical' | 'serious' | 'moderate']> = [],
+  key = 'https://www.example.ca/'
+): ScanSnapshot => ({
+  kind: 'page',
+  key,
+  origin: 'https://www.example.ca',
+  timestamp,
+  score,
+  grade: 'B',
+  pages: 1,
+  findings: findings.map(([fingerprint, impact]) => ({
+    fingerprint,
+    ruleId: fingerprint.split('|')[0],
+    impact,
+  })),
+});
+
+// Site snapshot over pages (path -> score) with findings on some of them
+const siteSnapshot = (
+  timestamp: string,
+  pages: Record<string, number>,
+  findings: Array<[string, 'critical' | 'serious' | 'moderate', string[]]> = [],
+  extra: Partial<ScanSnapshot> = {}
+): ScanSnapshot => {
+  const scores = Object.values(pages);
+  return {
+    kind: 'site',
+    key: 'https://www.example.ca',
+    origin: 'https://www.example.ca',
+    timestamp,
+    score: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    grade: 'B',
+    pages: scores.length,
+    pageScores: Object.entries(pages).map(([path, score]) => ({
+      url: `https://www.example.ca${path}`,
+      score,
+    })),
+    findings: findings.map(([fingerprint, impact, paths]) => ({
+      fingerprint,
+      ruleId: fingerprint.split('|')[0],
+      impact,
+      urls: paths.map((path) => `https://www.example.ca${path}`),
+    })),
+    ...extra,
+  };
+};
+
+describe('Scan history', () => {
+  describe('getHistoryKey', () => {
+    it('should drop the fragment, or key sites by origin', () => {
+      expect(getHistoryKey('https://www.example.ca/services#hours')).toBe(
+        'https://www.example.ca/services'
+      );
+      expect(getHistoryKey('https://www.example.ca/en/#top', 'site')).toBe(
+        'https://www.example.ca'
+      );
+      expect(getHistoryKey('not a url')).toBe('not a url');
+    });
+  });
+
+  describe('snapshotScan', () => {
+    it('should record the score and one finding per element', () => {
+      const result = snapshotScan(scanResult);
+
+      expect(result).toMatchObject({
+        kind: 'page',
+        key: 'https://www.example.ca/services',
+        origin: 'https://www.example.ca',
+        score: 72,
+        grade: 'C',
+        jurisdiction: 'ontario',
+        pages: 1,
+      });
+      expect(result.findings.map((finding) => finding.ruleId)).toEqual([
+        'image-alt',
+        'image-alt',
+        'region',
+      ]);
+    });
+  });
+
+  describe('snapshotSiteReport', () => {
+    it('should key by origin and record shared elements once', () => {
+      const page = (url: string) => ({
+        schemaVersion: 2 as const,
+        url,
+        score: 80,
+        grade: 'B',
+        violations: [violation('region', 'moderate', ['banner'])],
+        passes: 10,
+        timestamp: '2026-03-01T10:00:00.000Z',
+      });
+      const report = {
+        baseUrl: 'https://www.example.ca/en/',
+        avgScore: 80,
+        grade: 'B',
+        scannedPages: 2,
+        timestamp: '2026-03-01T10:00:00.000Z',
+        pageResults: [page('https://www.example.ca/'), page('https://www.example.ca/about')],
+      } as unknown as SiteReport;
+
+      const result = snapshotSiteReport(report);
+
+      expect(result).toMatchObject({ kind: 'site', key: 'https://www.example.ca', pages: 2 });
+      expect(result.scope).toBeUndefined();
+      expect(result.pageScores).toEqual([
+        { url: 'https://www.example.ca/', score: 80 },
+        { url: 'https://www.example.ca/about', score: 80 },
+      ]);
+      expect(result.findings).toHaveLength(1);
+      expect(result.findings[0].urls).toEqual([
+        'https://www.example.ca/',
+        'https://www.example.ca/about',
+      ]);
+    });
+
+    it('should record the URL filters as the scope', () => {
+      const report = {
+        baseUrl: 'https://www.example.ca/',
+        avgScore: 80,
+        grade: 'B',
+        scannedPages: 0,
+        timestamp: '2026-03-01T10:00:00.000Z',
+        pageResults: [],
+        filters: { pathPrefix: '/en', exclude: [] },
+      } as unknown as SiteReport;
+
+      expect(snapshotSiteReport(report).scope).toBe('{"pathPrefix":"/en"}');
+    });
+  });
+
+  describe('isComparable', () => {
+    const base = siteSnapshot('2026-03-01T00:00:00.000Z', { '/': 80, '/about': 70 });
+
+    it('should compare scans of the same scope, model and jurisdiction', () => {
+      const next = siteSnapshot('2026-04-01T00:00:00.000Z', { '/about': 75, '/news': 90 });
+      expect(isComparable(base, next)).toBe(true);
+      // Scores from before models used weighted-impact
+      expect(
+        isComparable(base, {
+          ...next,
+          jurisdiction: 'ontario',
+          scoringModel: { id: 'weighted-impact', version: '1.0.0' },
+        })
+      ).toBe(true);
+    });
+
+    it('should not compare scans that differ in scope, model or jurisdiction', () => {
+      const next = siteSnapshot('2026-04-01T00:00:00.000Z', { '/': 80 });
+      expect(isComparable(base, { ...next, scope: '{"pathPrefix":"/en"}' })).toBe(false);
+      expect(
+        isComparable(base, { ...next, scoringModel: { id: 'pass-ratio', version: '1.0.0' } })
+      ).toBe(false);
+      expect(
+        isComparable(base, {
+          ...next,
+          scoringModel: { id: 'weighted-impact', version: '1.0.0', config: { maxScore: 90 } },
+        })
+      ).toBe(false);
+      expect(isComparable(base, { ...next, jurisdiction: 'eu' })).toBe(false);
+    });
+
+    it('should not compare site scans without a page in common', () => {
+      const next = siteSnapshot('2026-04-01T00:00:00.000Z', { '/news': 90 });
+      expect(isComparable(base, next)).toBe(false);
+    });
+  });
+
+  describe('compareSnapshots', () => {
+    it('should list introduced and resolved findings', () => {
+      const changes = compareSnapshots(
+        snapshot('2026-03-01T00:00:00.000Z', 80, [
+          ['image-alt|img|1', 'critical'],
+          ['label|input|2', 'serious'],
+        ]),
+        snapshot('2026-04-01T00:00:00.000Z', 85, [
+          ['image-alt|img|1', 'critical'],
+          ['region|div|3', 'moderate'],
+        ])
+      );
+
+      expect(changes.introduced.map((finding) => finding.fingerprint)).toEqual(['region|div|3']);
+      expect(changes.resolved.map((finding) => finding.fingerprint)).toEqual(['label|input|2']);
+      expect(changes.scoreChange).toBe(5);
+      expect(changes.comparable).toBe(true);
+    });
+
+    it('should only compare findings and scores on pages both site scans covered', () => {
+      const changes = compareSnapshots(
+        siteSnapshot('2026-03-01T00:00:00.000Z', { '/': 80, '/about': 60 }, [
+          ['label|input|2', 'serious', ['/about']],
+          ['region|div|3', 'moderate', ['/']],
+        ]),
+        siteSnapshot('2026-04-01T00:00:00.000Z', { '/': 90, '/news': 40 }, [
+          ['list|ul|5', 'moderate', ['/news']],
+        ])
+      );
+
+      expect(changes.introduced).toEqual([]);
+      expect(changes.resolved.map((finding) => finding.fingerprint)).toEqual(['region|div|3']);
+      expect(changes.scoreChange).toBe(10);
+    });
+
+    it('should report nothing for scans that are not comparable', () => {
+      const changes = compareSnapshots(
+        siteSnapshot('2026-03-01T00:00:00.000Z', { '/': 80 }, [
+          ['region|div|3', 'moderate', ['/']],
+        ]),
+        siteSnapshot('2026-04-01T00:00:00.000Z', { '/': 90 }, [], { scope: '{"pathPrefix":"/en"}' })
+      );
+
+      expect(changes).toEqual({ comparable: false, introduced: [], resolved: [], scoreChange: 0 });
+    });
+  });
+
+  describe('getScoreTrend', () => {
+    it('should order points and summarize the change', () => {
+      const trend = getScoreTrend([
+        snapshot('2026-05-01T00:00:00.000Z', 88),
+        snapshot('2026-03-01T00:00:00.000Z', 70),
+        snapshot('2026-04-01T00:00:00.000Z', 65),
+      ]);
+
+      expect(trend.points.map((point) => point.score)).toEqual([70, 65, 88]);
+      expect(trend).toMatchObject({ change: 18, direction: 'improving', best: 88, worst: 65 });
+    });
+
+    it('should be steady without history', () => {
+      expect(getScoreTrend([])).toMatchObject({ points: [], change: 0, direction: 'steady' });
+    });
+  });
+
+  describe('detectRegressions', () => {
+    it('should flag score drops, lost compliance and new blockers', () => {
+      const regressions = detectRegressions(
+        snapshot('2026-03-01T00:00:00.000Z', 92, [['region|div|3', 'moderate']]),
+        snapshot('2026-04-01T00:00:00.000Z', 84, [
+          ['region|div|3', 'moderate'],
+          ['label|input|2', 'serious'],
+          ['label|input|4', 'serious'],
+          ['list|ul|5', 'moderate'],
+        ])
+      );
+
+      expect(regressions).toEqual([
+        { kind: 'score-drop', points: 8 },
+        { kind: 'compliance-lost', score: 84 },
+        { kind: 'new-blockers', ruleIds: ['label'] },
+      ]);
+    });
+
+    it('should ignore rules and scores on pages only one site scan covered', () => {
+      const regressions = detectRegressions(
+        siteSnapshot('2026-03-01T00:00:00.000Z', { '/': 92, '/about': 95 }),
+        siteSnapshot('2026-04-01T00:00:00.000Z', { '/': 92, '/forms': 40 }, [
+          ['label|input|2', 'serious', ['/forms']],
+        ])
+      );
+
+      expect(regressions).toEqual([]);
+    });
+
+    it('should not flag scans with a different scoring model', () => {
+      const regressions = detectRegressions(snapshot('2026-03-01T00:00:00.000Z', 92), {
+        ...snapshot('2026-04-01T00:00:00.000Z', 60),
+        scoringModel: { id: 'pass-ratio', version: '1.0.0' },
+      });
+
+      expect(regressions).toEqual([]);
+    });
+
+    it('should not flag small dips', () => {
+      const regressions = detectRegressions(
+        snapshot('2026-03-01T00:00:00.000Z', 80),
+        snapshot('2026-04-01T00:00:00.000Z', 77)
+      );
+
+      expect(regressions).toEqual([]);
+    });
+  });
+
+  describe('selectExpired', () => {
+    it('should expire old snapshots and those beyond the per-key limit', () => {
+      const snapshots = [
+        snapshot('2025-01-01T00:00:00.000Z', 60),
+        snapshot('2026-03-01T00:00:00.000Z', 70),
+        snapshot('2026-04-01T00:00:00.000Z', 75),
+        snapshot('2026-05-01T00:00:00.000Z', 80),
+        snapshot('2026-03-01T00:00:00.000Z', 90, [], 'https://www.example.ca/about'),
+      ];
+
+      const expired = selectExpired(
+        snapshots,
+        { maxEntries: 2, maxAgeDays: 365 },
+        new Date('2026-06-01T00:00:00.000Z')
+      );
+
+      expect(expired.map((entry) => entry.score)).toEqual([70, 60]);
+    });
+  });
+
+  describe('historyToCsv', () => {
+    it('should write one row per scan, oldest first', () => {
+      const csv = historyToCsv([
+        snapshot('2026-04-01T00:00:00.000Z', 85, [['label|input|2', 'serious']]),
+        snapshot('2026-03-01T00:00:00.000Z', 80, [], 'https://www.example.ca/a,b'),
+      ]);
+
+      expect(csv.split('\n')).toEqual([
+        'date,kind,url,score,grade,pages,violations,critical,serious,moderate,minor',
+        '2026-03-01T00:00:00.000Z,page,"https://www.example.ca/a,b",80,B,1,0,0,0,0,0',
+        '2026-04-01T00:00:00.000Z,page,https://www.example.ca/,85,B,1,1,0,1,0,0',
+      ]);
+    });
+  });
+});
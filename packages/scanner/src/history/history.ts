@@ -0,0 +1,352 @@
+/**
+ * Scan History
+ *
+ * Snapshots of past scans, kept per page URL and per site origin, for score
+ * trends, introduced and resolved violations, and regression alerts. Findings
+ * are stored by fingerprint so the same issue is recognized from scan to scan.
+ * Site scans only compare with scans of the same scope, scoring model and
+ * jurisdiction, and only on the pages both scanned (sampling and `changedSince`
+ * scan a different set each time).
+ * Storage is up to the caller (the extension keeps snapshots in IndexedDB);
+ * retention is decided here.
+ */
+
+import { fingerprintNode } from '../findings/fingerprint';
+import { getJurisdiction } from '../jurisdictions/profiles';
+import { isCompliant } from '../scoring/aoda-score';
+import { getScoringModel } from '../scoring/models';
+import type {
+  ImpactLevel,
+  ResultNode,
+  ScanResult,
+  ScanSnapshot,
+  ScoringModelRef,
+  SiteReport,
+  SnapshotFinding,
+} from '../types';
+
+export interface SnapshotChanges {
+  comparable: boolean; // False when the scans differ in scope, model or jurisdiction
+  introduced: SnapshotFinding[];
+  resolved: SnapshotFinding[];
+  scoreChange: number; // On the pages both scans covered
+}
+
+export interface ScoreTrend {
+  points: Array<{ timestamp: string; score: number }>; // Oldest first
+  change: number; // Latest score minus the first
+  direction: 'improving' | 'declining' | 'steady';
+  best: number;
+  worst: number;
+}
+
+export type Regression =
+  | { kind: 'score-drop'; points: number }
+  | { kind: 'compliance-lost'; score: number }
+  | { kind: 'new-blockers'; ruleIds: string[] }; // Critical or serious rules not failing before
+
+export interface RetentionPolicy {
+  maxEntries: number; // Per page or site
+  maxAgeDays: number;
+}
+
+// Over a year of weekly scans, and long enough for year-over-year reports
+export const DEFAULT_RETENTION: RetentionPolicy = { maxEntries: 60, maxAgeDays: 400 };
+
+// Score points a scan must lose against the previous one to count as a regression
+export const REGRESSION_SCORE_DROP = 5;
+
+const BLOCKER_IMPACTS: ImpactLevel[] = ['critical', 'serious'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * History key of a page (its URL without the fragment) or a site (its origin)
+ */
+export function getHistoryKey(url: string, kind: ScanSnapshot['kind'] = 'page'): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return kind === 'site' ? parsed.origin : parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Snapshot of a single-page scan
+ */
+export function snapshotScan(result: ScanResult): ScanSnapshot {
+  return {
+    kind: 'page',
+    key: getHistoryKey(result.url),
+    origin: getOrigin(result.url),
+    timestamp: result.timestamp,
+    score: result.score?.score ?? 0,
+    grade: result.score?.grade ?? 'F',
+    jurisdiction: result.jurisdiction,
+    scoringModel: result.score?.model,
+    pages: 1,
+    findings: collectFindings([result], false),
+  };
+}
+
+/**
+ * Snapshot of a site scan, keyed by the site's origin, with its scope and pages
+ */
+export function snapshotSiteReport(report: SiteReport): ScanSnapshot {
+  const pages = report.pageResults.filter((page) => !page.error);
+  return {
+    kind: 'site',
+    key: getHistoryKey(report.baseUrl, 'site'),
+    origin: getOrigin(report.baseUrl),
+    timestamp: report.timestamp,
+    score: report.avgScore,
+    grade: report.grade,
+    jurisdiction: report.jurisdiction,
+    scoringModel: report.scoringModel,
+    pages: report.scannedPages,
+    scope: describeScope(report.filters),
+    pageScores: pages.map((page) => ({ url: getHistoryKey(page.url), score: page.score })),
+    findings: collectFindings(pages, true),
+  };
+}
+
+/**
+ * Whether two snapshots of a page or site can be compared: same scope, scoring
+ * model (and its config) and jurisdiction, and at least one page in common
+ */
+export function isComparable(previous: ScanSnapshot, current: ScanSnapshot): boolean {
+  return (
+    previous.kind === current.kind &&
+    previous.key === current.key &&
+    previous.scope === current.scope &&
+    getJurisdiction(previous.jurisdiction).id === getJurisdiction(current.jurisdiction).id &&
+    describeModel(previous.scoringModel) === describeModel(current.scoringModel) &&
+    getSharedPages(previous, current)?.size !== 0
+  );
+}
+
+/**
+ * Findings introduced and resolved since the previous snapshot, on the pages both
+ * scanned; nothing when the snapshots are not comparable
+ */
+export function compareSnapshots(previous: ScanSnapshot, current: ScanSnapshot): SnapshotChanges {
+  if (!isComparable(previous, current)) {
+    return { comparable: false, introduced: [], resolved: [], scoreChange: 0 };
+  }
+
+  const shared = getSharedPages(previous, current);
+  const before = new Set(previous.findings.map((finding) => finding.fingerprint));
+  const after = new Set(current.findings.map((finding) => finding.fingerprint));
+  const scores = getSharedScores(previous, current, shared);
+
+  return {
+    comparable: true,
+    introduced: current.findings.filter(
+      (finding) => isOnPages(finding, shared) && !before.has(finding.fingerprint)
+    ),
+    resolved: previous.findings.filter(
+      (finding) => isOnPages(finding, shared) && !after.has(finding.fingerprint)
+    ),
+    scoreChange: scores.current - scores.previous,
+  };
+}
+
+/**
+ * Score trend over snapshots of one page or site, in any order
+ */
+export function getScoreTrend(snapshots: ScanSnapshot[]): ScoreTrend {
+  const points = sortByTime(snapshots).map(({ timestamp, score }) => ({ timestamp, score }));
+  const scores = points.map((point) => point.score);
+  const change = points.length > 0 ? scores[scores.length - 1] - scores[0] : 0;
+
+  return {
+    points,
+    change,
+    direction: change > 0 ? 'improving' : change < 0 ? 'declining' : 'steady',
+    best: scores.length > 0 ? Math.max(...scores) : 0,
+    worst: scores.length > 0 ? Math.min(...scores) : 0,
+  };
+}
+
+/**
+ * Regressions since the previous snapshot: a score drop of at least `scoreDrop`
+ * points, losing compliance, or critical or serious rules that were not failing.
+ * Only pages both snapshots scanned are compared; snapshots that are not
+ * comparable have none.
+ */
+export function detectRegressions(
+  previous: ScanSnapshot,
+  current: ScanSnapshot,
+  scoreDrop = REGRESSION_SCORE_DROP
+): Regression[] {
+  if (!isComparable(previous, current)) return [];
+
+  const regressions: Regression[] = [];
+  const shared = getSharedPages(previous, current);
+  const scores = getSharedScores(previous, current, shared);
+  const points = scores.previous - scores.current;
+  if (points >= scoreDrop) regressions.push({ kind: 'score-drop', points });
+
+  const profile = getJurisdiction(current.jurisdiction);
+  if (isCompliant(scores.previous, profile) && !isCompliant(scores.current, profile)) {
+    regressions.push({ kind: 'compliance-lost', score: scores.current });
+  }
+
+  const failing = new Set(
+    previous.findings
+      .filter((finding) => isOnPages(finding, shared))
+      .map((finding) => finding.ruleId)
+  );
+  const ruleIds = [
+    ...new Set(
+      current.findings
+        .filter((finding) => isOnPages(finding, shared))
+        .filter((finding) => BLOCKER_IMPACTS.includes(finding.impact))
+        .map((finding) => finding.ruleId)
+        .filter((ruleId) => !failing.has(ruleId))
+    ),
+  ];
+  if (ruleIds.length > 0) regressions.push({ kind: 'new-blockers', ruleIds });
+
+  return regressions;
+}
+
+/**
+ * Snapshots to delete under a retention policy: older than `maxAgeDays`, or
+ * beyond the newest `maxEntries` of their page or site
+ */
+export function selectExpired<T extends Pick<ScanSnapshot, 'key' | 'timestamp'>>(
+  snapshots: T[],
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  now: Date = new Date()
+): T[] {
+  const cutoff = now.getTime() - policy.maxAgeDays * DAY_MS;
+  const kept = new Map<string, number>();
+
+  return sortByTime(snapshots)
+    .reverse()
+    .filter((snapshot) => {
+      const count = (kept.get(snapshot.key) ?? 0) + 1;
+      kept.set(snapshot.key, count);
+      return count > policy.maxEntries || new Date(snapshot.timestamp).getTime() < cutoff;
+    });
+}
+
+/**
+ * Snapshots as CSV (one row per scan, oldest first) for progress reports
+ */
+export function historyToCsv(snapshots: ScanSnapshot[]): string {
+  const header = 'date,kind,url,score,grade,pages,violations,critical,serious,moderate,minor';
+  const rows = sortByTime(snapshots).map((snapshot) => {
+    const count = (impact: ImpactLevel) =>
+      snapshot.findings.filter((finding) => finding.impact === impact).length;
+    return [
+      snapshot.timestamp,
+      snapshot.kind,
+      csvField(snapshot.key),
+      snapshot.score,
+      snapshot.grade,
+      snapshot.pages,
+      snapshot.findings.length,
+      count('critical'),
+      count('serious'),
+      count('moderate'),
+      count('minor'),
+    ].join(',');
+  });
+  return [header, ...rows].join('\n');
+}
+
+// Each failing element once, by fingerprint, with the pages it fails on if `withUrls`
+function collectFindings(
+  pages: Array<{
+    url: string;
+    violations: Array<{
+      id: string;
+      impact: ImpactLevel;
+      nodes: Array<Pick<ResultNode, 'target' | 'html'>>;
+    }>;
+  }>,
+  withUrls: boolean
+): SnapshotFinding[] {
+  const findings = new Map<string, SnapshotFinding>();
+  for (const page of pages) {
+    const url = getHistoryKey(page.url);
+    for (const violation of page.violations) {
+      for (const node of violation.nodes) {
+        const fingerprint = fingerprintNode(violation.id, node);
+        const urls = findings.get(fingerprint)?.urls ?? [];
+        findings.set(fingerprint, {
+          fingerprint,
+          ruleId: violation.id,
+          impact: violation.impact,
+          ...(withUrls && { urls: urls.includes(url) ? urls : [...urls, url] }),
+        });
+      }
+    }
+  }
+  return [...findings.values()];
+}
+
+// URL filters as stable JSON, or undefined when nothing narrows the scan
+function describeScope(filters: SiteReport['filters']): string | undefined {
+  const rules = Object.entries(filters ?? {})
+    .filter(([, value]) => value !== undefined && value !== '' && value.length !== 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return rules.length > 0 ? JSON.stringify(Object.fromEntries(rules)) : undefined;
+}
+
+// Scores without a recorded model predate models and used weighted-impact
+function describeModel(ref?: ScoringModelRef): string {
+  const model = getScoringModel(ref?.id);
+  return JSON.stringify([model.id, ref?.version ?? model.version, ref?.config ?? {}]);
+}
+
+// History keys of the pages both site snapshots scanned; null when either does not
+// list its pages (page snapshots, older site snapshots), so everything is compared
+function getSharedPages(previous: ScanSnapshot, current: ScanSnapshot): Set<string> | null {
+  if (!previous.pageScores || !current.pageScores) return null;
+  const before = new Set(previous.pageScores.map((page) => page.url));
+  return new Set(current.pageScores.map((page) => page.url).filter((url) => before.has(url)));
+}
+
+// Site scores when both scans covered the same pages, otherwise the mean on shared pages
+function getSharedScores(
+  previous: ScanSnapshot,
+  current: ScanSnapshot,
+  shared: Set<string> | null
+): { previous: number; current: number } {
+  const covers = (snapshot: ScanSnapshot) => snapshot.pageScores?.length === shared?.size;
+  if (!shared || (covers(previous) && covers(current))) {
+    return { previous: previous.score, current: current.score };
+  }
+  const mean = (snapshot: ScanSnapshot) => {
+    const scores = (snapshot.pageScores ?? []).filter((page) => shared.has(page.url));
+    return Math.round(scores.reduce((sum, page) => sum + page.score, 0) / scores.length);
+  };
+  return { previous: mean(previous), current: mean(current) };
+}
+
+// Whether a finding fails on one of the shared pages (findings without pages always count)
+function isOnPages(finding: SnapshotFinding, shared: Set<string> | null): boolean {
+  return !shared || !finding.urls || finding.urls.some((url) => shared.has(url));
+}
+
+function sortByTime<T extends { timestamp: string }>(items: T[]): T[] {
+  return [...items].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,17 @@
+export {
+  getHistoryKey,
+  snapshotScan,
+  snapshotSiteReport,
+  isComparable,
+  compareSnapshots,
+  getScoreTrend,
+  detectRegressions,
+  selectExpired,
+  historyToCsv,
+  DEFAULT_RETENTION,
+  REGRESSION_SCORE_DROP,
+  type Regression,
+  type RetentionPolicy,
+  type ScoreTrend,
+  type SnapshotChanges,
+} from './history';
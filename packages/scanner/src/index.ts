@@ -1,6 +1,17 @@
 export * from './types/index';
 export * from './ontario/aoda-rules';
+export * from './ontario/rule-pack';
 export * from './ontario/bilingual-detection';
+export * from './ontario/page-structure';
+export * from './ontario/language-parity';
+export * from './ontario/language-toggle';
+export * from './ontario/axe-rules';
+export * from './ontario/obligations';
+export * from './jurisdictions';
 export * from './scoring';
+export * from './findings';
+export * from './history';
 export * from './discovery';
+export * from './wcag';
+export * from './language';
 export { AODA_RULES_MAP, getAODAMapping, isOntarioCritical } from './ontario/aoda-rules';
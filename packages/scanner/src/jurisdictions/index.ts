@@ -0,0 +1,11 @@
+export {
+  DEFAULT_JURISDICTION,
+  JURISDICTIONS,
+  applyJurisdiction,
+  citeViolation,
+  expectsLanguageToggle,
+  getJurisdiction,
+  getJurisdictionCriteria,
+  isGovernmentDomain,
+  type JurisdictionProfile,
+} from './profiles';
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { ONTARIO_RULE_TAG } from '../ontario/axe-rules';
+import type { Violation } from '../types';
+import {
+  JURISDICTIONS,
+  applyJurisdiction,
+  citeViolation,
+  expectsLanguageToggle,
+  getJurisdiction,
+  getJurisdictionCriteria,
+  isGovernmentDomain,
+} from './profiles';
+
+function violation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    id: 'color-contrast',
+    impact: 'serious',
+    description: 'Elements must meet minimum color contrast ratio thresholds',
+    help: 'Elements must meet minimum color contrast ratio thresholds',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/color-contrast',
+    wcagCriterion: '1.4.3 Contrast (Minimum)',
+    aodaSection: 'IASR s.14(4)',
+    penalty: 'Up to $100,000/day',
+    nodes: [],
+    ...overrides,
+  };
+}
+
+describe('Jurisdiction Profiles', () => {
+  describe('getJurisdiction', () => {
+    it('should return the profile for a known id', () => {
+      expect(getJurisdiction('quebec').id).toBe('quebec');
+    });
+
+    it('should fall back to Ontario', () => {
+      expect(getJurisdiction().id).toBe('ontario');
+      expect(getJurisdiction('atlantis').id).toBe('ontario');
+      expect(getJurisdiction(null).id).toBe('ontario');
+    });
+  });
+
+  it('should only run the IASR rules for Ontario', () => {
+    for (const profile of Object.values(JURISDICTIONS)) {
+      expect(profile.axeTags.includes(ONTARIO_RULE_TAG)).toBe(profile.id === 'ontario');
+    }
+  });
+
+  describe('isGovernmentDomain', () => {
+    it('should match a government domain and its subdomains', () => {
+      const federal = getJurisdiction('federal');
+      expect(isGovernmentDomain('canada.ca', federal)).toBe(true);
+      expect(isGovernmentDomain('www.tbs-sct.gc.ca', federal)).toBe(true);
+      expect(isGovernmentDomain('www.ontario.ca', federal)).toBe(false);
+      expect(isGovernmentDomain('notcanada.ca', federal)).toBe(false);
+    });
+
+    it('should keep each government with its own profile', () => {
+      expect(isGovernmentDomain('www.quebec.ca', getJurisdiction('quebec'))).toBe(true);
+      expect(isGovernmentDomain('www.quebec.ca', getJurisdiction('ontario'))).toBe(false);
+    });
+  });
+
+  it('should expect a language toggle only with two official languages', () => {
+    expect(expectsLanguageToggle(getJurisdiction('ontario'))).toBe(true);
+    expect(expectsLanguageToggle(getJurisdiction('quebec'))).toBe(false);
+    expect(expectsLanguageToggle(getJurisdiction('eu'))).toBe(false);
+  });
+
+  describe('citeViolation', () => {
+    it('should cite EN 301 549 clauses', () => {
+      expect(citeViolation(getJurisdiction('eu'), '1.4.3 Contrast (Minimum)')).toBe(
+        'EN 301 549 cl. 9.1.4.3'
+      );
+    });
+
+    it('should cite the WCAG criterion for other standards', () => {
+      expect(citeViolation(getJurisdiction('quebec'), '2.4.7')).toBe('SGQRI 008 (WCAG 2.4.7)');
+      expect(citeViolation(getJurisdiction('quebec'), 'IASR 11 Feedback')).toBe('SGQRI 008');
+    });
+
+    it('should leave Ontario citations to the rule pack', () => {
+      expect(citeViolation(getJurisdiction('ontario'), '1.4.3')).toBeUndefined();
+    });
+  });
+
+  describe('applyJurisdiction', () => {
+    it('should restate citations and penalties', () => {
+      const [cited] = applyJurisdiction([violation()], getJurisdiction('federal'));
+      expect(cited.aodaSection).toBe('ACA / CAN/ASC-EN 301 549 cl. 9.1.4.3');
+      expect(cited.penalty).toBe('Up to $250,000 per violation (Accessible Canada Act)');
+    });
+
+    it('should leave Ontario violations untouched', () => {
+      const violations = [violation()];
+      expect(applyJurisdiction(violations, getJurisdiction('ontario'))).toBe(violations);
+    });
+  });
+
+  describe('getJurisdictionCriteria', () => {
+    it('should list the criteria of the profile WCAG version', () => {
+      const ids = getJurisdictionCriteria(getJurisdiction('eu'))?.map((criterion) => criterion.id);
+      expect(ids).toContain('1.3.4');
+      expect(getJurisdictionCriteria(getJurisdiction('quebec'))?.map((c) => c.id)).not.toContain(
+        '1.3.4'
+      );
+    });
+
+    it('should defer to the IASR list for Ontario', () => {
+      expect(getJurisdictionCriteria(getJurisdiction('ontario'))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Jurisdiction Profiles
+ *
+ * The legal framework a scan is assessed against. A profile chooses which WCAG
+ * version and rules run, how violations are cited and what penalty they carry,
+ * which official languages sites are expected to offer, and the score a page
+ * needs to count as compliant. Ontario keeps the IASR citations and penalties of
+ * the AODA rule pack; the other profiles cite their own standard.
+ */
+
+import type { LanguageCode } from '../language/language-id';
+import { ONTARIO_RULE_TAG } from '../ontario/axe-rules';
+import type { JurisdictionId, Violation, WCAGLevel } from '../types';
+import { type WCAGCriterion, type WCAGVersion, getCriteria, getCriterion } from '../wcag/criteria';
+
+export interface JurisdictionProfile {
+  id: JurisdictionId;
+  name: string;
+  law: string;
+  standard: string;
+  wcag: { version: WCAGVersion; level: WCAGLevel };
+  axeTags: string[]; // axe-core tags to run
+  // Legal citation for violations; undefined keeps the rule pack's IASR sections
+  citation?: string;
+  clauseNumbering?: boolean; // Cite EN 301 549 clause 9.x.x.x, which mirrors WCAG numbering
+  penalty?: string; // Undefined keeps the rule pack's penalties
+  bilingual: {
+    languages: LanguageCode[]; // Languages sites are expected to offer
+    requiredFor: 'government' | 'all' | 'none';
+    law?: string;
+  };
+  governmentDomains: string[]; // Hostname suffixes of the jurisdiction's government sites
+  complianceThreshold: number; // Minimum page score counted as compliant
+}
+
+const WCAG_20_AA_TAGS = ['wcag2a', 'wcag2aa'];
+const WCAG_21_AA_TAGS = [...WCAG_20_AA_TAGS, 'wcag21a', 'wcag21aa'];
+
+export const JURISDICTIONS: Record<JurisdictionId, JurisdictionProfile> = {
+  ontario: {
+    id: 'ontario',
+    name: 'Ontario (AODA)',
+    law: 'Accessibility for Ontarians with Disabilities Act, 2005 (O. Reg. 191/11, IASR)',
+    standard: 'WCAG 2.0 Level AA (IASR s.14)',
+    wcag: { version: '2.0', level: 'AA' },
+    // WCAG 2.1 rules have always run for Ontario scans; IASR rules are Ontario-only
+    axeTags: [...WCAG_21_AA_TAGS, ONTARIO_RULE_TAG],
+    bilingual: {
+      languages: ['en', 'fr'],
+      requiredFor: 'government',
+      law: 'French Language Services Act',
+    },
+    governmentDomains: ['ontario.ca', 'on.ca'],
+    complianceThreshold: 90,
+  },
+  federal: {
+    id: 'federal',
+    name: 'Canada (Accessible Canada Act)',
+    law: 'Accessible Canada Act (S.C. 2019, c. 10)',
+    standard: 'CAN/ASC-EN 301 549:2024 (WCAG 2.1 Level AA)',
+    wcag: { version: '2.1', level: 'AA' },
+    axeTags: WCAG_21_AA_TAGS,
+    citation: 'ACA / CAN/ASC-EN 301 549',
+    clauseNumbering: true,
+    penalty: 'Up to $250,000 per violation (Accessible Canada Act)',
+    bilingual: {
+      languages: ['en', 'fr'],
+      requiredFor: 'government',
+      law: 'Official Languages Act',
+    },
+    governmentDomains: ['gc.ca', 'canada.ca'],
+    complianceThreshold: 90,
+  },
+  quebec: {
+    id: 'quebec',
+    name: 'Québec (SGQRI 008)',
+    law: 'Standard sur l’accessibilité d’un site Web (SGQRI 008)',
+    standard: 'SGQRI 008 2.0 (WCAG 2.0 Level AA)',
+    wcag: { version: '2.0', level: 'AA' },
+    axeTags: WCAG_20_AA_TAGS,
+    citation: 'SGQRI 008',
+    penalty: 'Non-compliance with a Conseil du trésor standard binding public bodies',
+    bilingual: {
+      languages: ['fr'],
+      requiredFor: 'all',
+      law: 'Charter of the French Language',
+    },
+    governmentDomains: ['gouv.qc.ca', 'quebec.ca'],
+    complianceThreshold: 90,
+  },
+  manitoba: {
+    id: 'manitoba',
+    name: 'Manitoba (AMA)',
+    law: 'The Accessibility for Manitobans Act (C.C.S.M. c. A1.7)',
+    standard: 'Accessible Information and Communication Standard (WCAG 2.1 Level AA)',
+    wcag: { version: '2.1', level: 'AA' },
+    axeTags: WCAG_21_AA_TAGS,
+    citation: 'AMA Information and Communication Standard',
+    penalty: 'Compliance orders and administrative penalties under the AMA',
+    bilingual: {
+      languages: ['en', 'fr'],
+      requiredFor: 'government',
+      law: 'French Language Services Policy',
+    },
+    governmentDomains: ['gov.mb.ca', 'manitoba.ca'],
+    complianceThreshold: 90,
+  },
+  eu: {
+    id: 'eu',
+    name: 'European Union (EN 301 549)',
+    law: 'Web Accessibility Directive (EU) 2016/2102 and European Accessibility Act (EU) 2019/882',
+    standard: 'EN 301 549 V3.2.1 clause 9 (WCAG 2.1 Level AA)',
+    wcag: { version: '2.1', level: 'AA' },
+    axeTags: WCAG_21_AA_TAGS,
+    citation: 'EN 301 549',
+    clauseNumbering: true,
+    penalty: 'Penalties set by each member state',
+    bilingual: { languages: [], requiredFor: 'none' },
+    governmentDomains: ['europa.eu'],
+    complianceThreshold: 90,
+  },
+};
+
+export const DEFAULT_JURISDICTION: JurisdictionId = 'ontario';
+
+/**
+ * Profile for a jurisdiction id, falling back to Ontario for unknown or missing ids
+ * (settings and results saved before profiles existed)
+ */
+export function getJurisdiction(id?: string | null): JurisdictionProfile {
+  return id && id in JURISDICTIONS
+    ? JURISDICTIONS[id as JurisdictionId]
+    : JURISDICTIONS[DEFAULT_JURISDICTION];
+}
+
+/**
+ * Whether a hostname belongs to the jurisdiction's government
+ */
+export function isGovernmentDomain(hostname: string, profile: JurisdictionProfile): boolean {
+  const host = hostname.toLowerCase();
+  return profile.governmentDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Whether pages in the jurisdiction are checked for an English/French toggle
+ */
+export function expectsLanguageToggle(profile: JurisdictionProfile): boolean {
+  return profile.bilingual.languages.length > 1;
+}
+
+/**
+ * Legal citation of a violation under a profile
+ * Returns undefined for Ontario, whose citations come from the rule pack.
+ */
+export function citeViolation(
+  profile: JurisdictionProfile,
+  wcagCriterion?: string
+): string | undefined {
+  if (!profile.citation) return undefined;
+  const criterion = wcagCriterion ? getCriterion(wcagCriterion) : undefined;
+  if (!criterion) return profile.citation;
+  return profile.clauseNumbering
+    ? `${profile.citation} cl. 9.${criterion.id}`
+    : `${profile.citation} (WCAG ${criterion.id})`;
+}
+
+/**
+ * Restate violations in a jurisdiction's terms: its citations and penalties
+ */
+export function applyJurisdiction<T extends Violation>(
+  violations: T[],
+  profile: JurisdictionProfile
+): T[] {
+  if (!profile.citation && !profile.penalty) return violations;
+  return violations.map((violation) => ({
+    ...violation,
+    aodaSection: citeViolation(profile, violation.wcagCriterion) ?? violation.aodaSection,
+    penalty: profile.penalty ?? violation.penalty,
+  }));
+}
+
+/**
+ * Criteria a jurisdiction requires, for the coverage report
+ * Ontario uses the IASR list, which exempts two WCAG 2.0 AA criteria.
+ */
+export function getJurisdictionCriteria(profile: JurisdictionProfile): WCAGCriterion[] | undefined {
+  if (profile.id === 'ontario') return undefined;
+  return getCriteria(profile.wcag.version, profile.wcag.level);
+}
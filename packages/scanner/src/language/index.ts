@@ -0,0 +1,22 @@
+export {
+  LANGUAGE_CODES,
+  MIN_CONFIDENCE,
+  MIN_IDENTIFIABLE_LETTERS,
+  analyzeLanguageMix,
+  identifyLanguage,
+  primaryLanguage,
+  splitSegments,
+  type DetectedLanguage,
+  type LanguageCode,
+  type LanguageIdentification,
+  type LanguageMix,
+} from './language-id';
+export {
+  LANGUAGE_REGION_SELECTOR,
+  analyzeLanguageRegions,
+  collectLanguageRegions,
+  findLanguageMismatches,
+  type LanguageElement,
+  type LanguageRegion,
+  type RegionLanguage,
+} from './language-of-parts';
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_CONFIDENCE,
+  analyzeLanguageMix,
+  identifyLanguage,
+  primaryLanguage,
+  splitSegments,
+} from './language-id';
+import { extractNgrams } from './ngrams';
+
+describe('Language identification', () => {
+  describe('extractNgrams', () => {
+    it('should pad words and ignore punctuation and digits', () => {
+      expect(extractNgrams('Le 1er, été')).toEqual([
+        ' le',
+        'le ',
+        ' er',
+        'er ',
+        ' ét',
+        'été',
+        'té ',
+      ]);
+    });
+  });
+
+  describe('identifyLanguage', () => {
+    it('should identify English sentences', () => {
+      const result = identifyLanguage('To learn more about our programs, see the following page.');
+      expect(result.language).toBe('en');
+      expect(result.probabilities.en).toBeGreaterThan(0.99);
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should identify French sentences', () => {
+      const result = identifyLanguage(
+        'Pour en savoir plus sur nos programmes, consultez la page suivante.'
+      );
+      expect(result.language).toBe('fr');
+      expect(result.probabilities.fr).toBeGreaterThan(0.99);
+      expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it('should not be fooled by words both languages share', () => {
+      expect(identifyLanguage('Services and policies for residents and businesses').language).toBe(
+        'en'
+      );
+    });
+
+    it('should be less confident about short text', () => {
+      const short = identifyLanguage('Heures d’ouverture');
+      const long = identifyLanguage(
+        'Nos bureaux sont ouverts du lundi au vendredi, sauf les jours fériés.'
+      );
+      expect(short.confidence).toBeLessThan(long.confidence);
+    });
+
+    it('should leave text too short to identify undetermined', () => {
+      expect(identifyLanguage('Oui')).toMatchObject({ language: 'und', confidence: 0 });
+      expect(identifyLanguage('')).toMatchObject({ language: 'und', letters: 0 });
+      expect(identifyLanguage('12345 67890 !!!').language).toBe('und');
+    });
+
+    it('should only name a language above the confidence threshold', () => {
+      for (const text of ['Nouvelles', 'Accessibility', 'Ministry of Health']) {
+        const result = identifyLanguage(text);
+        expect(result.language === 'und').toBe(result.confidence < MIN_CONFIDENCE);
+      }
+    });
+  });
+
+  describe('splitSegments', () => {
+    it('should split on sentence ends and navigation separators', () => {
+      expect(splitSegments('Home | Accueil. Contact us - Contactez-nous\nSearch')).toEqual([
+        'Home',
+        'Accueil',
+        'Contact us',
+        'Contactez-nous',
+        'Search',
+      ]);
+    });
+  });
+
+  describe('analyzeLanguageMix', () => {
+    it('should return the share of text in each language', () => {
+      const mix = analyzeLanguageMix(
+        'Apply online for your health card today. ' +
+          'Faites votre demande de carte santé en ligne dès aujourd’hui.'
+      );
+
+      expect(mix.proportions.en).toBeGreaterThan(0.3);
+      expect(mix.proportions.fr).toBeGreaterThan(0.5);
+      expect(mix.proportions.en + mix.proportions.fr + mix.proportions.und).toBeCloseTo(1);
+      expect(mix.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('should count unidentifiable segments as undetermined', () => {
+      const mix = analyzeLanguageMix('OK | FAQ | 2024');
+      expect(mix.proportions.und).toBe(1);
+    });
+
+    it('should handle empty text', () => {
+      expect(analyzeLanguageMix('')).toEqual({
+        proportions: { en: 0, fr: 0, und: 1 },
+        confidence: 0,
+        letters: 0,
+      });
+    });
+  });
+
+  describe('primaryLanguage', () => {
+    it('should return the lowercased primary subtag', () => {
+      expect(primaryLanguage('fr-CA')).toBe('fr');
+      expect(primaryLanguage('EN')).toBe('en');
+      expect(primaryLanguage(null)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Language Identification
+ *
+ * Offline English/French identification with a character trigram model bundled
+ * with the package (built by scripts/build-language-model.ts). Text is split into
+ * segments (sentences, menu items) that are identified separately, so a page's
+ * result is the share of its text in each language rather than a single label.
+ */
+
+import modelData from './language-model.json';
+import { countLetters, extractNgrams } from './ngrams';
+
+export type LanguageCode = 'en' | 'fr';
+
+// 'und' (undetermined, BCP 47) covers text too short or too ambiguous to identify
+export type DetectedLanguage = LanguageCode | 'und';
+
+export const LANGUAGE_CODES: LanguageCode[] = ['en', 'fr'];
+
+export interface LanguageIdentification {
+  language: DetectedLanguage;
+  probabilities: Record<LanguageCode, number>; // Sum to 1
+  confidence: number; // 0-1; low for short text even when one language is likely
+  letters: number;
+}
+
+export interface LanguageMix {
+  proportions: Record<DetectedLanguage, number>; // Share of letters in each language; sum to 1
+  confidence: number; // Letter-weighted mean confidence of the segments
+  letters: number;
+}
+
+interface LanguageProfile {
+  total: number;
+  ngrams: Record<string, number>;
+}
+
+// Below this many letters a segment is not identified at all
+export const MIN_IDENTIFIABLE_LETTERS = 8;
+
+// Confidence needed to name a language instead of 'und'
+export const MIN_CONFIDENCE = 0.5;
+
+// Evidence scale: confidence reaches 63% of the model's certainty at this many trigrams,
+// 95% at three times as many (about one sentence)
+const EVIDENCE_NGRAMS = 20;
+
+// Additive smoothing for trigrams one language has and the other lacks
+const SMOOTHING = 0.5;
+
+// Sentence ends, line breaks and the separators used in navigation and titles
+const SEGMENT_BOUNDARY = /[.!?;:|•·\n\r\t]+|\s[-–—/]\s/;
+
+const PROFILES = modelData.languages as Record<LanguageCode, LanguageProfile>;
+const VOCABULARY_SIZE = new Set(
+  LANGUAGE_CODES.flatMap((code) => Object.keys(PROFILES[code].ngrams))
+).size;
+
+/**
+ * Identify the language of a piece of text
+ */
+export function identifyLanguage(text: string): LanguageIdentification {
+  const letters = countLetters(text);
+  const even: Record<LanguageCode, number> = { en: 0.5, fr: 0.5 };
+  if (letters < MIN_IDENTIFIABLE_LETTERS) {
+    return { language: 'und', probabilities: even, confidence: 0, letters };
+  }
+
+  // Trigrams neither language has carry no evidence; skip them
+  const ngrams = extractNgrams(text).filter((ngram) =>
+    LANGUAGE_CODES.some((code) => ngram in PROFILES[code].ngrams)
+  );
+  if (ngrams.length === 0) {
+    return { language: 'und', probabilities: even, confidence: 0, letters };
+  }
+
+  const logLikelihood = (code: LanguageCode) => {
+    const profile = PROFILES[code];
+    const denominator = Math.log(profile.total + SMOOTHING * VOCABULARY_SIZE);
+    return ngrams.reduce(
+      (sum, ngram) => sum + Math.log((profile.ngrams[ngram] ?? 0) + SMOOTHING) - denominator,
+      0
+    );
+  };
+
+  // Equal priors: the posterior is a logistic function of the log-likelihood difference
+  const french = 1 / (1 + Math.exp(logLikelihood('en') - logLikelihood('fr')));
+  const probabilities = { en: 1 - french, fr: french };
+  const language: LanguageCode = french > 0.5 ? 'fr' : 'en';
+
+  // Certainty that it is one or the other, scaled down for little evidence
+  const certainty = Math.abs(french - 0.5) * 2;
+  const confidence = certainty * (1 - Math.exp(-ngrams.length / EVIDENCE_NGRAMS));
+
+  return {
+    language: confidence >= MIN_CONFIDENCE ? language : 'und',
+    probabilities,
+    confidence: round(confidence),
+    letters,
+  };
+}
+
+/**
+ * Split text into the segments identified separately
+ */
+export function splitSegments(text: string): string[] {
+  return text
+    .split(SEGMENT_BOUNDARY)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Share of the text written in each language
+ * Each segment counts towards the language it is identified as, weighted by its
+ * letters; segments that cannot be identified confidently count as 'und'.
+ */
+export function analyzeLanguageMix(text: string): LanguageMix {
+  const letters: Record<DetectedLanguage, number> = { en: 0, fr: 0, und: 0 };
+  let weightedConfidence = 0;
+
+  for (const segment of splitSegments(text)) {
+    const result = identifyLanguage(segment);
+    letters[result.language] += result.letters;
+    weightedConfidence += result.confidence * result.letters;
+  }
+
+  const total = letters.en + letters.fr + letters.und;
+  if (total === 0) {
+    return { proportions: { en: 0, fr: 0, und: 1 }, confidence: 0, letters: 0 };
+  }
+
+  return {
+    proportions: {
+      en: letters.en / total,
+      fr: letters.fr / total,
+      und: letters.und / total,
+    },
+    confidence: round(weightedConfidence / total),
+    letters: total,
+  };
+}
+
+/**
+ * Primary language subtag of a lang attribute ("fr-CA" → "fr")
+ */
+export function primaryLanguage(lang: string | null | undefined): string {
+  return (lang ?? '').trim().split('-')[0].toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type LanguageElement,
+  analyzeLanguageRegions,
+  collectLanguageRegions,
+  findLanguageMismatches,
+} from './language-of-parts';
+
+const ENGLISH = 'Apply online for your health card and driver’s licence.';
+const FRENCH = 'Pour obtenir des services en français, communiquez avec notre bureau.';
+
+function element(text: string, lang: string | null, tagName = 'P', id = ''): LanguageElement {
+  return {
+    tagName,
+    id,
+    textContent: text,
+    getAttribute: () => lang,
+    closest: () => (lang ? { getAttribute: () => lang } : null),
+  };
+}
+
+describe('Language of Parts', () => {
+  describe('collectLanguageRegions', () => {
+    it('should collect text with the effective lang attribute', () => {
+      const regions = collectLanguageRegions([
+        element(`  ${ENGLISH}\n  `, 'en-CA', 'LI', 'apply'),
+        element(FRENCH, null),
+      ]);
+
+      expect(regions).toEqual([
+        { selector: 'li#apply', lang: 'en-CA', text: ENGLISH },
+        { selector: 'p', lang: null, text: FRENCH },
+      ]);
+    });
+
+    it('should skip short and duplicate regions', () => {
+      const regions = collectLanguageRegions([
+        element('Français', 'en'),
+        element(ENGLISH, 'en'),
+        element(ENGLISH, 'en'),
+      ]);
+
+      expect(regions).toHaveLength(1);
+    });
+  });
+
+  describe('analyzeLanguageRegions', () => {
+    it('should flag French text marked as English and the reverse', () => {
+      const results = analyzeLanguageRegions([
+        { selector: 'p', lang: 'en', text: FRENCH },
+        { selector: 'p', lang: 'fr-CA', text: ENGLISH },
+        { selector: 'p', lang: 'fr', text: FRENCH },
+      ]);
+
+      expect(results.map((region) => region.mismatch)).toEqual([true, true, false]);
+      expect(results[0].identification.language).toBe('fr');
+    });
+
+    it('should not flag regions without a lang attribute or in other languages', () => {
+      const results = analyzeLanguageRegions([
+        { selector: 'p', lang: null, text: FRENCH },
+        { selector: 'p', lang: 'es', text: FRENCH },
+      ]);
+
+      expect(results.every((region) => !region.mismatch)).toBe(true);
+    });
+
+    it('should not flag text it cannot identify confidently', () => {
+      const results = analyzeLanguageRegions([
+        { selector: 'p', lang: 'fr', text: 'Ministry of Health' },
+      ]);
+
+      expect(results[0].mismatch).toBe(false);
+    });
+  });
+
+  describe('findLanguageMismatches', () => {
+    it('should report the region, declared and detected language', () => {
+      const mismatches = findLanguageMismatches([
+        { selector: 'p#notice', lang: 'en', text: `${FRENCH} ${FRENCH} ${FRENCH}` },
+      ]);
+
+      expect(mismatches).toHaveLength(1);
+      expect(mismatches[0]).toMatchObject({ selector: 'p#notice', declared: 'en', detected: 'fr' });
+      expect(mismatches[0].confidence).toBeGreaterThan(0.8);
+      expect(mismatches[0].text.endsWith('…')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Language of Parts (WCAG 3.1.2)
+ *
+ * Identifies the language of each text region of a page and compares it with the
+ * region's effective `lang` attribute. French passages left inside an English page
+ * (or the reverse) without a `lang` change are read with the wrong voice and
+ * pronunciation rules by screen readers.
+ */
+
+import type { LanguageMismatch } from '../types';
+import {
+  type LanguageCode,
+  type LanguageIdentification,
+  LANGUAGE_CODES,
+  identifyLanguage,
+  primaryLanguage,
+} from './language-id';
+
+// The parts of a DOM element region analysis reads; a browser `Element` satisfies it
+export interface LanguageElement {
+  tagName: string;
+  id: string;
+  textContent: string | null;
+  getAttribute(name: string): string | null;
+  closest(selector: string): { getAttribute(name: string): string | null } | null;
+}
+
+export interface LanguageRegion {
+  selector: string;
+  lang: string | null; // Effective lang attribute (nearest ancestor that sets one)
+  text: string;
+}
+
+export interface RegionLanguage extends LanguageRegion {
+  identification: LanguageIdentification;
+  mismatch: boolean;
+}
+
+// Elements whose text is read as one passage
+export const LANGUAGE_REGION_SELECTOR = [
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'p',
+  'li',
+  'blockquote',
+  'figcaption',
+  'caption',
+  'td',
+  'th',
+  'dt',
+  'dd',
+  'body [lang]',
+].join(', ');
+
+// Characters below which a region is too short to identify reliably (menu items, labels)
+const MIN_REGION_LENGTH = 20;
+
+// Confidence the identifier needs before a region is reported as mismatched
+const MISMATCH_CONFIDENCE = 0.8;
+
+// Regions analyzed per page, to bound the cost on very long pages
+const MAX_REGIONS = 300;
+
+// Characters of region text kept in a reported mismatch
+const EXCERPT_LENGTH = 80;
+
+/**
+ * Collect text regions with their effective lang attribute
+ */
+export function collectLanguageRegions(elements: ArrayLike<LanguageElement>): LanguageRegion[] {
+  const regions: LanguageRegion[] = [];
+  const seen = new Set<string>();
+
+  for (const element of Array.from(elements)) {
+    if (regions.length >= MAX_REGIONS) break;
+
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_REGION_LENGTH || seen.has(text)) continue;
+    seen.add(text);
+
+    regions.push({
+      selector: describeElement(element),
+      lang: element.closest('[lang]')?.getAttribute('lang') ?? null,
+      text,
+    });
+  }
+
+  return regions;
+}
+
+/**
+ * Identify each region's language and flag those that contradict their lang attribute
+ * Only English and French lang values are checked; the model knows no other language.
+ */
+export function analyzeLanguageRegions(regions: LanguageRegion[]): RegionLanguage[] {
+  return regions.map((region) => {
+    const identification = identifyLanguage(region.text);
+    const declared = primaryLanguage(region.lang);
+
+    const mismatch =
+      LANGUAGE_CODES.includes(declared as LanguageCode) &&
+      identification.language !== 'und' &&
+      identification.confidence >= MISMATCH_CONFIDENCE &&
+      identification.language !== declared;
+
+    return { ...region, identification, mismatch };
+  });
+}
+
+/**
+ * Regions whose text language does not match their lang attribute
+ */
+export function findLanguageMismatches(regions: LanguageRegion[]): LanguageMismatch[] {
+  return analyzeLanguageRegions(regions)
+    .filter((region) => region.mismatch)
+    .map((region) => ({
+      selector: region.selector,
+      declared: region.lang ?? '',
+      detected: region.identification.language as LanguageCode,
+      confidence: region.identification.confidence,
+      text:
+        region.text.length > EXCERPT_LENGTH
+          ? `${region.text.slice(0, EXCERPT_LENGTH)}…`
+          : region.text,
+    }));
+}
+
+/**
+ * Short selector for reports: tag name, plus the id when there is one
+ */
+function describeElement(element: LanguageElement): string {
+  const tag = element.tagName.toLowerCase();
+  return element.id ? `${tag}#${element.id}` : tag;
+}
@@ -0,0 +1,41 @@
+/**
+ * Character n-grams
+ *
+ * Shared by the language model build script and the identifier, so the model is
+ * always trained on the same features it is queried with.
+ */
+
+export const NGRAM_SIZE = 3;
+
+/**
+ * Words in the text, lowercased (letters only; digits and punctuation separate words)
+ */
+export function extractWords(text: string): string[] {
+  return (
+    text
+      .normalize('NFC')
+      .toLowerCase()
+      .match(/\p{L}+/gu) ?? []
+  );
+}
+
+/**
+ * Character trigrams of each word, padded with spaces so word starts and ends count
+ */
+export function extractNgrams(text: string): string[] {
+  const ngrams: string[] = [];
+  for (const word of extractWords(text)) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+      ngrams.push(padded.slice(i, i + NGRAM_SIZE));
+    }
+  }
+  return ngrams;
+}
+
+/**
+ * Number of letters in the text
+ */
+export function countLetters(text: string): number {
+  return extractWords(text).reduce((sum, word) => sum + word.length, 0);
+}
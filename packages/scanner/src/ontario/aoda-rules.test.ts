@@ -1,6 +1,13 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it } from 'vitest';
 import type { ImpactLevel } from '../types';
-import { AODA_RULES_MAP, getAODAMapping, isOntarioCritical } from './aoda-rules';
+import {
+  AODA_RULES_MAP,
+  configureRulePack,
+  getAODAMapping,
+  getRulePackInfo,
+  isOntarioCritical,
+  resetRulePack,
+} from './aoda-rules';
 
 describe('AODA Rules Mapping', () => {
   describe('AODA_RULES_MAP', () => {
@@ -287,4 +294,52 @@ describe('AODA Rules Mapping', () => {
       expect(minor.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Rule pack overrides', () => {
+    const orgPack = {
+      schemaVersion: 1,
+      id: 'org-overrides',
+      version: '1.0.0',
+      extends: { id: 'aoda-base', version: '1.0.0' },
+      rules: { region: { impact: 'critical' } },
+      disabled: ['avoid-inline-spacing'],
+    };
+
+    afterEach(() => {
+      resetRulePack();
+    });
+
+    it('should apply org overrides to getAODAMapping and isOntarioCritical', () => {
+      expect(isOntarioCritical('region')).toBe(false);
+
+      configureRulePack([orgPack]);
+
+      expect(getAODAMapping('region')?.impact).toBe('critical');
+      expect(isOntarioCritical('region')).toBe(true);
+      expect(getAODAMapping('avoid-inline-spacing')).toBeUndefined();
+      expect(getRulePackInfo().overrides).toEqual([{ id: 'org-overrides', version: '1.0.0' }]);
+    });
+
+    it('should leave the base map untouched', () => {
+      configureRulePack([orgPack]);
+      expect(AODA_RULES_MAP.region.impact).toBe('moderate');
+    });
+
+    it('should keep the active rules when an override pack is invalid', () => {
+      configureRulePack([orgPack]);
+
+      expect(() =>
+        configureRulePack([{ ...orgPack, rules: { region: { impact: 'x' } } }])
+      ).toThrow();
+      expect(getAODAMapping('region')?.impact).toBe('critical');
+    });
+
+    it('should restore the base pack on reset', () => {
+      configureRulePack([orgPack]);
+      resetRulePack();
+
+      expect(getAODAMapping('region')?.impact).toBe('moderate');
+      expect(getRulePackInfo()).toEqual({ id: 'aoda-base', version: '1.2.0', overrides: [] });
+    });
+  });
 });
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { AODA_RULES_MAP } from './aoda-rules';
+import {
+  ONTARIO_AXE_RULE_IDS,
+  ONTARIO_AXE_SPEC,
+  ONTARIO_RULE_TAG,
+  type PageDocument,
+  hasAccessibilityStatementLink,
+  hasAccessibleEmergencyInformation,
+  hasAccessibleFormatsNotice,
+  hasEmergencyInformation,
+  hasFeedbackMechanism,
+} from './axe-rules';
+
+interface FakeLink {
+  text?: string;
+  href: string;
+  ariaLabel?: string;
+}
+
+function createDocument(text: string, links: FakeLink[] = [], textareas = 0): PageDocument {
+  return {
+    body: { textContent: text },
+    querySelectorAll: (selector) => {
+      if (selector === 'form textarea') {
+        return Array.from({ length: textareas }, () => ({
+          textContent: '',
+          getAttribute: () => null,
+        }));
+      }
+      return links.map((link) => ({
+        textContent: link.text ?? '',
+        getAttribute: (name: string) =>
+          name === 'href' ? link.href : name === 'aria-label' ? (link.ariaLabel ?? null) : null,
+      }));
+    },
+  };
+}
+
+describe('Ontario axe rules', () => {
+  describe('hasAccessibilityStatementLink', () => {
+    it('should find accessibility links in English and French', () => {
+      expect(
+        hasAccessibilityStatementLink(createDocument('', [{ text: 'Accessibility', href: '/a' }]))
+      ).toBe(true);
+      expect(
+        hasAccessibilityStatementLink(
+          createDocument('', [{ text: 'Accessibilité', href: '/fr/politique' }])
+        )
+      ).toBe(true);
+      expect(
+        hasAccessibilityStatementLink(
+          createDocument('', [{ text: 'Our commitment', href: '/accessibility-plan' }])
+        )
+      ).toBe(true);
+    });
+
+    it('should fail without one', () => {
+      expect(hasAccessibilityStatementLink(createDocument('', [{ text: 'Home', href: '/' }]))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('hasFeedbackMechanism', () => {
+    it('should accept contact links, email, phone and forms', () => {
+      expect(hasFeedbackMechanism(createDocument('', [{ text: 'Contact us', href: '/c' }]))).toBe(
+        true
+      );
+      expect(
+        hasFeedbackMechanism(createDocument('', [{ text: 'Nous joindre', href: '/fr/n' }]))
+      ).toBe(true);
+      expect(
+        hasFeedbackMechanism(createDocument('', [{ text: 'Email', href: 'mailto:a@b.ca' }]))
+      ).toBe(true);
+      expect(hasFeedbackMechanism(createDocument('', [], 1))).toBe(true);
+    });
+
+    it('should fail without one', () => {
+      expect(hasFeedbackMechanism(createDocument('', [{ text: 'News', href: '/news' }]))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('hasAccessibleFormatsNotice', () => {
+    it('should find the notice in English and French', () => {
+      expect(
+        hasAccessibleFormatsNotice(
+          createDocument('This document is available in alternate formats upon request.')
+        )
+      ).toBe(true);
+      expect(
+        hasAccessibleFormatsNotice(
+          createDocument('Ce document est offert en formats accessibles sur demande.')
+        )
+      ).toBe(true);
+      expect(hasAccessibleFormatsNotice(createDocument('Welcome to the city.'))).toBe(false);
+    });
+  });
+
+  describe('hasEmergencyInformation', () => {
+    it('should detect emergency and public safety content', () => {
+      expect(hasEmergencyInformation(createDocument('Read our emergency plan'))).toBe(true);
+      expect(hasEmergencyInformation(createDocument('Ordre d’évacuation en vigueur'))).toBe(true);
+      expect(hasEmergencyInformation(createDocument('Garbage collection schedule'))).toBe(false);
+    });
+  });
+
+  describe('hasAccessibleEmergencyInformation', () => {
+    it('should accept named accessible formats and versions on request', () => {
+      expect(
+        hasAccessibleEmergencyInformation(
+          createDocument('Our emergency plan is available in large print and braille.')
+        )
+      ).toBe(true);
+      expect(
+        hasAccessibleEmergencyInformation(
+          createDocument('Plan d’urgence offert en gros caractères sur demande.')
+        )
+      ).toBe(true);
+    });
+
+    it('should fail emergency information offered in one format only', () => {
+      expect(
+        hasAccessibleEmergencyInformation(createDocument('Download the emergency plan (PDF).'))
+      ).toBe(false);
+    });
+  });
+
+  describe('ONTARIO_AXE_SPEC', () => {
+    it('should only reference registered checks', () => {
+      const checkIds = ONTARIO_AXE_SPEC.checks.map((check) => check.id);
+      for (const rule of ONTARIO_AXE_SPEC.rules) {
+        for (const id of rule.any) expect(checkIds).toContain(id);
+      }
+    });
+
+    it('should tag every rule and map it in the rule pack', () => {
+      for (const rule of ONTARIO_AXE_SPEC.rules) {
+        expect(rule.tags).toContain(ONTARIO_RULE_TAG);
+        expect(AODA_RULES_MAP[rule.id]).toBeDefined();
+      }
+      expect(ONTARIO_AXE_RULE_IDS).toHaveLength(4);
+    });
+
+    it('should evaluate against the node document', () => {
+      const [statement] = ONTARIO_AXE_SPEC.checks;
+      const doc = createDocument('', [{ text: 'Accessibility', href: '/a' }]);
+
+      expect(statement.evaluate({ ownerDocument: doc })).toBe(true);
+      expect(statement.evaluate({ ownerDocument: null })).toBe(false);
+    });
+
+    it('should only apply the emergency rule to pages with emergency information', () => {
+      const rule = ONTARIO_AXE_SPEC.rules.find((r) => r.id === 'ontario-emergency-information');
+
+      expect(rule?.matches?.({ ownerDocument: createDocument('Evacuation routes') })).toBe(true);
+      expect(rule?.matches?.({ ownerDocument: createDocument('Parks and trails') })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Ontario axe-core Rules
+ *
+ * Custom axe-core rules for IASR obligations WCAG does not cover: a link to the
+ * organization's accessibility statement and policies (s.3), a feedback process
+ * (s.11), notice that accessible formats are available on request (s.12) and
+ * accessible emergency and public safety information (s.13). Register them with
+ * `axe.configure(ONTARIO_AXE_SPEC)` and add `ONTARIO_RULE_TAG` to `runOnly`; their
+ * violations are mapped in the AODA rule pack like the stock rules.
+ *
+ * The rules are page-level: each runs once against <html> and reads the whole
+ * document, since the obligations are met anywhere on the page (usually the footer).
+ */
+
+import type { ImpactLevel } from '../types';
+
+// Tag carried by every Ontario rule
+export const ONTARIO_RULE_TAG = 'ontario';
+
+// The parts of a DOM element the checks read; a browser `Element` satisfies it
+export interface PageNode {
+  ownerDocument: PageDocument | null;
+}
+
+export interface PageLink {
+  textContent: string | null;
+  getAttribute(name: string): string | null;
+}
+
+// The parts of a DOM document the checks read; a browser `Document` satisfies it
+export interface PageDocument {
+  body: { textContent: string | null } | null;
+  querySelectorAll(selector: string): ArrayLike<PageLink>;
+}
+
+// The subset of axe-core's `Spec` the Ontario rules use, typed against `PageNode` so
+// the package needs no DOM types; `axe.configure` accepts it as is
+export interface AxeCheckSpec {
+  id: string;
+  evaluate: (node: PageNode) => boolean;
+  metadata: {
+    impact: ImpactLevel;
+    messages: { pass: string; fail: string };
+  };
+}
+
+export interface AxeRuleSpec {
+  id: string;
+  selector: string;
+  pageLevel: boolean;
+  excludeHidden: boolean;
+  tags: string[];
+  matches?: (node: PageNode) => boolean;
+  any: string[];
+  metadata: { description: string; help: string; helpUrl: string };
+}
+
+export interface AxeSpec {
+  checks: AxeCheckSpec[];
+  rules: AxeRuleSpec[];
+}
+
+const STATEMENT_PATTERN = /accessibilit[yeé]|\baoda\b/i;
+
+const FEEDBACK_PATTERN = /feedback|contact|r[ée]troaction|commentaires?|joindre|plainte|complaint/i;
+
+const ACCESSIBLE_FORMATS_PATTERN =
+  /(accessible|alternate|alternative) formats?|communication supports?|formats? (accessibles?|de substitution|alternatifs?)|aides? [àa] la communication/i;
+
+const EMERGENCY_PATTERN =
+  /emergency (plan|procedure|information|alert)|evacuation|public safety|plan d['’]urgence|mesures? d['’]urgence|[ée]vacuation|s[ée]curit[ée] publique/i;
+
+// Accessible versions of emergency information: named formats, or offered on request
+const EMERGENCY_FORMATS_PATTERN =
+  /large print|braille|audio (version|format|recording)|plain text|text[- ]only|accessible (formats?|version)|(alternate|alternative) formats?|(up)?on request|gros caract[èe]res|version (accessible|audio|texte)|formats? (accessibles?|de substitution|alternatifs?)|sur demande/i;
+
+const REGULATION_URL = 'https://www.ontario.ca/laws/regulation/110191';
+
+/**
+ * Whether the page links to an accessibility statement, policy or plan
+ */
+export function hasAccessibilityStatementLink(doc: PageDocument): boolean {
+  return getLinks(doc).some(
+    (link) => STATEMENT_PATTERN.test(getLinkText(link)) || STATEMENT_PATTERN.test(getHref(link))
+  );
+}
+
+/**
+ * Whether the page offers a way to give feedback: a contact or feedback link, a
+ * mailto/tel link, or a form with a free-text field
+ */
+export function hasFeedbackMechanism(doc: PageDocument): boolean {
+  const links = getLinks(doc);
+  if (links.some((link) => /^(mailto|tel):/i.test(getHref(link)))) return true;
+  if (
+    links.some(
+      (link) => FEEDBACK_PATTERN.test(getLinkText(link)) || FEEDBACK_PATTERN.test(getHref(link))
+    )
+  ) {
+    return true;
+  }
+  return doc.querySelectorAll('form textarea').length > 0;
+}
+
+/**
+ * Whether the page says accessible formats or communication supports are available
+ */
+export function hasAccessibleFormatsNotice(doc: PageDocument): boolean {
+  return ACCESSIBLE_FORMATS_PATTERN.test(getPageText(doc));
+}
+
+/**
+ * Whether the page publishes emergency procedures, plans or public safety information
+ */
+export function hasEmergencyInformation(doc: PageDocument): boolean {
+  return EMERGENCY_PATTERN.test(getPageText(doc));
+}
+
+/**
+ * Whether the page offers its emergency information in an accessible format, either
+ * a named one (large print, braille, audio, plain text) or on request
+ */
+export function hasAccessibleEmergencyInformation(doc: PageDocument): boolean {
+  return EMERGENCY_FORMATS_PATTERN.test(getPageText(doc));
+}
+
+/**
+ * Checks and rules to register with `axe.configure`
+ */
+export const ONTARIO_AXE_SPEC: AxeSpec = {
+  checks: [
+    {
+      id: 'ontario-has-accessibility-statement',
+      evaluate: (node: PageNode) => withDocument(node, hasAccessibilityStatementLink),
+      metadata: {
+        impact: 'moderate',
+        messages: {
+          pass: 'Page links to an accessibility statement or policy',
+          fail: 'Page has no link to an accessibility statement or policy',
+        },
+      },
+    },
+    {
+      id: 'ontario-has-feedback',
+      evaluate: (node: PageNode) => withDocument(node, hasFeedbackMechanism),
+      metadata: {
+        impact: 'serious',
+        messages: {
+          pass: 'Page offers a feedback or contact mechanism',
+          fail: 'Page has no feedback or contact link, email, phone number or form',
+        },
+      },
+    },
+    {
+      id: 'ontario-has-accessible-formats-notice',
+      evaluate: (node: PageNode) => withDocument(node, hasAccessibleFormatsNotice),
+      metadata: {
+        impact: 'moderate',
+        messages: {
+          pass: 'Page says accessible formats are available on request',
+          fail: 'Page does not say accessible formats or communication supports are available on request',
+        },
+      },
+    },
+    {
+      id: 'ontario-has-accessible-emergency-information',
+      evaluate: (node: PageNode) => withDocument(node, hasAccessibleEmergencyInformation),
+      metadata: {
+        impact: 'serious',
+        messages: {
+          pass: 'Page offers its emergency information in an accessible format or on request',
+          fail: 'Page publishes emergency or public safety information without offering it in an accessible format',
+        },
+      },
+    },
+  ],
+  rules: [
+    {
+      id: 'ontario-accessibility-statement',
+      selector: 'html',
+      pageLevel: true,
+      excludeHidden: false,
+      tags: [ONTARIO_RULE_TAG, 'iasr-3'],
+      any: ['ontario-has-accessibility-statement'],
+      metadata: {
+        description:
+          'Ensures the page links to the organization’s accessibility statement or policy',
+        help: 'Accessibility policies must be publicly available (IASR s.3)',
+        helpUrl: REGULATION_URL,
+      },
+    },
+    {
+      id: 'ontario-feedback-process',
+      selector: 'html',
+      pageLevel: true,
+      excludeHidden: false,
+      tags: [ONTARIO_RULE_TAG, 'iasr-11'],
+      any: ['ontario-has-feedback'],
+      metadata: {
+        description: 'Ensures the page offers an accessible way to give feedback',
+        help: 'Organizations must have an accessible feedback process (IASR s.11)',
+        helpUrl: REGULATION_URL,
+      },
+    },
+    {
+      id: 'ontario-accessible-formats',
+      selector: 'html',
+      pageLevel: true,
+      excludeHidden: false,
+      tags: [ONTARIO_RULE_TAG, 'iasr-12'],
+      any: ['ontario-has-accessible-formats-notice'],
+      metadata: {
+        description:
+          'Ensures the page says accessible formats and communication supports are available on request',
+        help: 'The public must be notified that accessible formats are available (IASR s.12)',
+        helpUrl: REGULATION_URL,
+      },
+    },
+    {
+      id: 'ontario-emergency-information',
+      selector: 'html',
+      pageLevel: true,
+      excludeHidden: false,
+      tags: [ONTARIO_RULE_TAG, 'iasr-13'],
+      // Only pages that publish emergency or public safety information
+      matches: (node: PageNode) => withDocument(node, hasEmergencyInformation),
+      any: ['ontario-has-accessible-emergency-information'],
+      metadata: {
+        description:
+          'Ensures emergency and public safety information is offered in accessible formats',
+        help: 'Emergency information must be provided in an accessible format on request (IASR s.13)',
+        helpUrl: REGULATION_URL,
+      },
+    },
+  ],
+};
+
+// Ids of the Ontario rules, for reports and the rule pack
+export const ONTARIO_AXE_RULE_IDS = ONTARIO_AXE_SPEC.rules.map((rule) => rule.id);
+
+function withDocument(node: PageNode, check: (doc: PageDocument) => boolean): boolean {
+  return node.ownerDocument ? check(node.ownerDocument) : false;
+}
+
+function getLinks(doc: PageDocument): PageLink[] {
+  return Array.from(doc.querySelectorAll('a[href]'));
+}
+
+function getLinkText(link: PageLink): string {
+  return [link.textContent, link.getAttribute('aria-label'), link.getAttribute('title')]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function getHref(link: PageLink): string {
+  return link.getAttribute('href') ?? '';
+}
+
+function getPageText(doc: PageDocument): string {
+  return (doc.body?.textContent ?? '').replace(/\s+/g, ' ');
+}
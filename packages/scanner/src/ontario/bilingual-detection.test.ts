@@ -1,50 +1,59 @@
 import { describe, expect, it } from 'vitest';
+import { getJurisdiction } from '../jurisdictions/profiles';
+import { LANGUAGE_REGION_SELECTOR } from '../language/language-of-parts';
 import {
   type BilingualDetectionOptions,
+  type BilingualDocument,
+  LANGUAGE_TOGGLE_SELECTOR,
+  analyzeBilingualDocument,
   checkBilingualSupport,
   determineBilingualStatus,
   extractLanguages,
-  hasFrenchKeywords,
+  hasSubstantialFrench,
   isOntarioGovernmentDomain,
 } from './bilingual-detection';
 
 describe('Bilingual Detection', () => {
-  describe('hasFrenchKeywords', () => {
-    it('should require multiple French keywords for confidence', () => {
-      // 2+ structural words = true
-      expect(hasFrenchKeywords('Bienvenue, français')).toBe(true);
-
-      // 3+ UI keywords = true
-      expect(hasFrenchKeywords('Accueil principal contactez recherche')).toBe(true);
-      expect(hasFrenchKeywords('accueil contactez services politique')).toBe(true);
-
-      // Only 1 keyword = false
-      expect(hasFrenchKeywords('Bonjour tout le monde')).toBe(false);
-      expect(hasFrenchKeywords('Accueil principal')).toBe(false);
-      expect(hasFrenchKeywords('Contactez-nous')).toBe(false);
+  describe('hasSubstantialFrench', () => {
+    it('should detect French sentences', () => {
+      expect(
+        hasSubstantialFrench(
+          'Bienvenue au gouvernement de l’Ontario. Trouvez de l’information sur les programmes.'
+        )
+      ).toBe(true);
+      expect(
+        hasSubstantialFrench('Pour en savoir plus sur nos programmes, consultez la page suivante.')
+      ).toBe(true);
     });
 
-    it('should be case insensitive', () => {
-      expect(hasFrenchKeywords('BIENVENUE FRANÇAIS')).toBe(true);
-      expect(hasFrenchKeywords('accueil contactez recherche')).toBe(true);
+    it('should not count words shared with English', () => {
+      expect(hasSubstantialFrench('Our services and policies for residents and businesses')).toBe(
+        false
+      );
     });
 
     it('should return false for English-only content', () => {
-      expect(hasFrenchKeywords('Welcome to our website')).toBe(false);
-      expect(hasFrenchKeywords('Hello world')).toBe(false);
-      expect(hasFrenchKeywords('Contact us for more information')).toBe(false);
+      expect(hasSubstantialFrench('Welcome to our website')).toBe(false);
+      expect(hasSubstantialFrench('Hello world')).toBe(false);
+      expect(hasSubstantialFrench('Contact us for more information')).toBe(false);
     });
 
     it('should return false for empty string', () => {
-      expect(hasFrenchKeywords('')).toBe(false);
+      expect(hasSubstantialFrench('')).toBe(false);
     });
 
-    it('should detect substantial French content in mixed text', () => {
-      expect(hasFrenchKeywords('Welcome | Bienvenue Français Langue')).toBe(true);
-      expect(hasFrenchKeywords('Accueil principal contactez recherche services')).toBe(true);
+    it('should require more than a language link or a few words', () => {
+      expect(hasSubstantialFrench('Français')).toBe(false);
+      expect(hasSubstantialFrench('Contactez-nous for support')).toBe(false);
+      expect(hasSubstantialFrench('Welcome and français only')).toBe(false);
+    });
 
-      // Single keyword in mixed content = false
-      expect(hasFrenchKeywords('Welcome and français only')).toBe(false);
+    it('should detect a French passage in mixed text', () => {
+      expect(
+        hasSubstantialFrench(
+          'Apply online today. Faites votre demande en ligne dès aujourd’hui et recevez votre carte santé par la poste.'
+        )
+      ).toBe(true);
     });
   });
 
@@ -60,14 +69,14 @@ describe('Bilingual Detection', () => {
       expect(isOntarioGovernmentDomain('portal.gov.on.ca')).toBe(true);
     });
 
-    it('should detect federal .gc.ca domains', () => {
-      expect(isOntarioGovernmentDomain('canada.gc.ca')).toBe(true);
-      expect(isOntarioGovernmentDomain('services.gc.ca')).toBe(true);
+    it('should not treat federal or Quebec domains as Ontario', () => {
+      expect(isOntarioGovernmentDomain('canada.gc.ca')).toBe(false);
+      expect(isOntarioGovernmentDomain('www.gouv.qc.ca')).toBe(false);
     });
 
-    it('should detect Quebec .gouv.qc.ca domains', () => {
-      expect(isOntarioGovernmentDomain('www.gouv.qc.ca')).toBe(true);
-      expect(isOntarioGovernmentDomain('service.gouv.qc.ca')).toBe(true);
+    it('should match whole domain labels', () => {
+      expect(isOntarioGovernmentDomain('notontario.ca')).toBe(false);
+      expect(isOntarioGovernmentDomain('ontario.ca.example.com')).toBe(false);
     });
 
     it('should return false for non-government domains', () => {
@@ -190,7 +199,7 @@ describe('Bilingual Detection', () => {
       const options: BilingualDetectionOptions = {
         htmlLang: 'en',
         hostname: 'ontario.ca',
-        bodyText: 'Welcome | Bienvenue Français Langue', // 3 structural words
+        bodyText: 'Welcome to Ontario | Bienvenue en Ontario, trouvez nos programmes et services',
         languageToggleElements: 1,
         elementsWithLang: [{ lang: 'en' }, { lang: 'fr' }],
       };
@@ -326,14 +335,18 @@ describe('Bilingual Detection', () => {
 
   describe('Edge cases and validation', () => {
     it('should handle extremely long body text', () => {
-      const longText = `${'English content '.repeat(10000)} français bienvenue langue`;
+      const english = 'Information for residents and businesses in Ontario. '.repeat(3000);
 
-      const options: BilingualDetectionOptions = {
-        bodyText: longText,
-      };
+      // A few French words at the end of a long English page are not French content
+      expect(
+        checkBilingualSupport({ bodyText: `${english} français bienvenue langue` }).hasFrenchContent
+      ).toBe(false);
 
-      const result = checkBilingualSupport(options);
-      expect(result.hasFrenchContent).toBe(true); // Has 3 structural words
+      const result = checkBilingualSupport({
+        bodyText: `${english} Consultez la version française de cette page pour en savoir plus.`,
+      });
+      expect(result.hasFrenchContent).toBe(true);
+      expect(result.language?.proportions.en).toBeGreaterThan(0.9);
     });
 
     it('should handle special characters in lang attributes', () => {
@@ -354,6 +367,26 @@ describe('Bilingual Detection', () => {
       const result = checkBilingualSupport(options);
       expect(result.isOntarioGov).toBe(true);
     });
+
+    it('should recognize government sites of the scan jurisdiction', () => {
+      const options: BilingualDetectionOptions = {
+        hostname: 'www.canada.ca',
+        bodyText:
+          'Gouvernement du Canada. Trouvez des renseignements sur les services et les prestations.',
+        languageToggleElements: 1,
+        elementsWithLang: [{ lang: 'en' }],
+      };
+
+      expect(checkBilingualSupport(options).isGovernment).toBe(false);
+
+      const result = checkBilingualSupport({
+        ...options,
+        jurisdiction: getJurisdiction('federal'),
+      });
+      expect(result.isGovernment).toBe(true);
+      expect(result.isOntarioGov).toBe(false);
+      expect(result.isBilingual).toBe(true);
+    });
   });
 
   describe('Real-world scenarios', () => {
@@ -407,4 +440,115 @@ describe('Bilingual Detection', () => {
       expect(result.isBilingual).toBe(true); // Has both en/fr lang attrs
     });
   });
+
+  describe('analyzeBilingualDocument', () => {
+    interface FakeElement {
+      lang: string | null;
+      text?: string;
+      id?: string;
+    }
+
+    const toElement = ({ lang, text = '', id = '' }: FakeElement) => ({
+      tagName: 'P',
+      id,
+      textContent: text,
+      getAttribute: () => lang,
+      closest: () => (lang ? { getAttribute: () => lang } : null),
+    });
+
+    const createDocument = (options: {
+      htmlLang?: string;
+      text?: string;
+      langs?: string[];
+      toggles?: number;
+      regions?: FakeElement[];
+    }): BilingualDocument => ({
+      documentElement: { lang: options.htmlLang ?? '' },
+      body: { innerText: '', textContent: options.text ?? '' },
+      querySelectorAll: (selector) => {
+        if (selector === '[lang]') return (options.langs ?? []).map((lang) => toElement({ lang }));
+        if (selector === LANGUAGE_TOGGLE_SELECTOR) {
+          return Array.from({ length: options.toggles ?? 0 }, () => toElement({ lang: null }));
+        }
+        if (selector === LANGUAGE_REGION_SELECTOR) return (options.regions ?? []).map(toElement);
+        return [];
+      },
+    });
+
+    it('should read lang attributes, toggles and text from the document', () => {
+      const result = analyzeBilingualDocument(
+        createDocument({ htmlLang: 'en-CA', langs: ['en-CA', 'fr-CA'], toggles: 1 }),
+        'https://www.example.com/page'
+      );
+
+      expect(result).toMatchObject({
+        hasLangAttribute: true,
+        isBilingual: true,
+        detectedLanguages: ['en', 'fr'],
+        hasLanguageToggle: true,
+        hasFrenchContent: false,
+        isOntarioGov: false,
+        languageToggles: 1,
+      });
+    });
+
+    it('should take the hostname from the page URL', () => {
+      const result = analyzeBilingualDocument(
+        createDocument({
+          htmlLang: 'en',
+          langs: ['en'],
+          toggles: 1,
+          text: 'Services for residents. Des services pour les résidents de toute la province.',
+        }),
+        'https://www.ontario.ca/page/services'
+      );
+
+      expect(result.isOntarioGov).toBe(true);
+      expect(result.hasFrenchContent).toBe(true);
+      expect(result.isBilingual).toBe(true);
+    });
+
+    it('should report regions whose language does not match their lang attribute', () => {
+      const result = analyzeBilingualDocument(
+        createDocument({
+          htmlLang: 'en',
+          regions: [
+            { lang: 'en', text: 'Apply online for your health card and driver’s licence.' },
+            {
+              lang: 'en',
+              id: 'notice',
+              text: 'Pour obtenir des services en français, communiquez avec notre bureau.',
+            },
+            { lang: 'fr', text: 'Pour obtenir des services en français, consultez la page.' },
+          ],
+        }),
+        'https://www.example.com'
+      );
+
+      expect(result.language?.mismatches).toHaveLength(1);
+      expect(result.language?.mismatches[0]).toMatchObject({
+        selector: 'p#notice',
+        declared: 'en',
+        detected: 'fr',
+      });
+    });
+
+    it('should not treat a single fr attribute as bilingual', () => {
+      const result = analyzeBilingualDocument(
+        createDocument({ htmlLang: 'fr', langs: ['fr'] }),
+        'https://example.com'
+      );
+
+      expect(result.detectedLanguages).toEqual(['fr']);
+      expect(result.isBilingual).toBe(false);
+    });
+
+    it('should handle a document without a body or a valid URL', () => {
+      const result = analyzeBilingualDocument({ ...createDocument({}), body: null }, 'not a url');
+
+      expect(result.hasFrenchContent).toBe(false);
+      expect(result.isOntarioGov).toBe(false);
+      expect(result.hasLangAttribute).toBe(false);
+    });
+  });
 });
@@ -1,12 +1,17 @@
-export interface BilingualCheck {
-  hasLangAttribute: boolean;
-  isBilingual: boolean;
-  detectedLanguages: string[];
-  hasLanguageToggle: boolean;
-  hasFrenchContent: boolean;
-  isOntarioGov: boolean;
-  languageToggles: number;
-}
+import {
+  type JurisdictionProfile,
+  getJurisdiction,
+  isGovernmentDomain,
+} from '../jurisdictions/profiles';
+import { type LanguageMix, analyzeLanguageMix } from '../language/language-id';
+import {
+  LANGUAGE_REGION_SELECTOR,
+  type LanguageElement,
+  type LanguageRegion,
+  collectLanguageRegions,
+  findLanguageMismatches,
+} from '../language/language-of-parts';
+import type { BilingualCheck } from '../types';
 
 export interface BilingualDetectionOptions {
   htmlLang?: string;
@@ -14,52 +19,53 @@ export interface BilingualDetectionOptions {
   bodyText?: string;
   languageToggleElements?: number;
   elementsWithLang?: Array<{ lang: string | null }>;
+  regions?: LanguageRegion[]; // Text regions checked for Language of Parts mismatches
+  jurisdiction?: JurisdictionProfile; // Whose government domains count (default Ontario)
+}
+
+// The parts of a DOM document the analyzer reads; a browser `Document` satisfies it
+export interface BilingualDocument {
+  documentElement: { lang: string } | null;
+  body: { innerText?: string; textContent: string | null } | null;
+  querySelectorAll(selector: string): ArrayLike<LanguageElement>;
 }
 
-// Common French UI/navigation words (must find multiple for confidence)
-const FRENCH_UI_KEYWORDS = [
-  'accueil', // home
-  'à propos', // about
-  'contactez', // contact
-  'recherche', // search
-  'services', // services
-  'politique', // policy
-  'confidentialité', // privacy
-];
-
-// Strong French indicators (structural words)
-const FRENCH_STRUCTURAL_WORDS = [
-  'bienvenue', // welcome
-  'français', // french
-  'langue', // language
-];
-
-const ONTARIO_GOV_DOMAINS = ['ontario.ca', '.on.ca', '.gc.ca', '.gouv.qc.ca'];
+// French letters a page needs before it counts as having French content
+// (about one sentence; a lone "Français" link does not qualify)
+const MIN_FRENCH_LETTERS = 40;
+
+// Links and controls that switch the page language
+export const LANGUAGE_TOGGLE_SELECTOR = [
+  'a[href$="/fr"]',
+  'a[href$="/en"]',
+  'a[href*="/fr/"]',
+  'a[href*="/en/"]',
+  'button[aria-label*="French"]',
+  'button[aria-label*="Français"]',
+  'button[aria-label*="English"]',
+  '[class*="language-toggle"]',
+  '[id*="language-toggle"]',
+  '[data-lang]',
+].join(', ');
 
 /**
- * Checks if text content contains substantial French content
- * Requires multiple French keywords for confidence
+ * Checks if text contains substantial French content
+ * Uses the language identifier, so shared words ("services", "politique") don't count.
  */
-export function hasFrenchKeywords(text: string, minKeywords = 3): boolean {
-  const lowerText = text.toLowerCase();
-
-  // Count UI keywords found
-  const uiKeywordsFound = FRENCH_UI_KEYWORDS.filter((word) => lowerText.includes(word)).length;
-
-  // Count structural words found
-  const structuralWordsFound = FRENCH_STRUCTURAL_WORDS.filter((word) =>
-    lowerText.includes(word)
-  ).length;
+export function hasSubstantialFrench(text: string): boolean {
+  return hasEnoughFrench(analyzeLanguageMix(text));
+}
 
-  // Need at least minKeywords UI words OR 2+ structural words
-  return uiKeywordsFound >= minKeywords || structuralWordsFound >= 2;
+function hasEnoughFrench(mix: LanguageMix): boolean {
+  return mix.proportions.fr * mix.letters >= MIN_FRENCH_LETTERS;
 }
 
 /**
  * Checks if hostname is an Ontario government domain
+ * Federal (.gc.ca) and Quebec (.gouv.qc.ca) sites belong to their own profiles.
  */
 export function isOntarioGovernmentDomain(hostname: string): boolean {
-  return ONTARIO_GOV_DOMAINS.some((domain) => hostname.includes(domain));
+  return isGovernmentDomain(hostname, getJurisdiction('ontario'));
 }
 
 /**
@@ -86,7 +92,7 @@ export function determineBilingualStatus(
   detectedLanguages: string[],
   hasLanguageToggle: boolean,
   hasFrenchContent: boolean,
-  isOntarioGov: boolean
+  isGovernment: boolean
 ): boolean {
   const hasEnglish = detectedLanguages.includes('en');
   const hasFrench = detectedLanguages.includes('fr');
@@ -97,7 +103,7 @@ export function determineBilingualStatus(
   }
 
   // SECONDARY: For government sites, require toggle AND substantial French content
-  if (isOntarioGov && hasLanguageToggle && hasFrenchContent) {
+  if (isGovernment && hasLanguageToggle && hasFrenchContent) {
     return true;
   }
 
@@ -115,11 +121,15 @@ export function checkBilingualSupport(options: BilingualDetectionOptions): Bilin
     bodyText = '',
     languageToggleElements = 0,
     elementsWithLang = [],
+    regions = [],
+    jurisdiction = getJurisdiction(),
   } = options;
 
   const hasLangAttribute = !!htmlLang;
-  const hasFrenchContent = hasFrenchKeywords(bodyText);
+  const mix = analyzeLanguageMix(bodyText);
+  const hasFrenchContent = hasEnoughFrench(mix);
   const isOntarioGov = isOntarioGovernmentDomain(hostname);
+  const isGovernment = isGovernmentDomain(hostname, jurisdiction);
   const detectedLanguages = extractLanguages(elementsWithLang);
   const hasLanguageToggle = languageToggleElements > 0;
 
@@ -127,7 +137,7 @@ export function checkBilingualSupport(options: BilingualDetectionOptions): Bilin
     detectedLanguages,
     hasLanguageToggle,
     hasFrenchContent,
-    isOntarioGov
+    isGovernment
   );
 
   return {
@@ -137,6 +147,46 @@ export function checkBilingualSupport(options: BilingualDetectionOptions): Bilin
     hasLanguageToggle,
     hasFrenchContent,
     isOntarioGov,
+    isGovernment,
     languageToggles: languageToggleElements,
+    language: {
+      proportions: mix.proportions,
+      confidence: mix.confidence,
+      mismatches: findLanguageMismatches(regions),
+    },
   };
 }
+
+/**
+ * Detect bilingual support from a rendered document
+ * Used by both the content script (live tab) and the offscreen document (fetched HTML),
+ * so the two scan paths agree on the bilingual bonus.
+ */
+export function analyzeBilingualDocument(
+  doc: BilingualDocument,
+  url: string,
+  jurisdiction?: JurisdictionProfile
+): BilingualCheck {
+  const body = doc.body;
+  const elementsWithLang = Array.from(doc.querySelectorAll('[lang]'), (el) => ({
+    lang: el.getAttribute('lang'),
+  }));
+
+  return checkBilingualSupport({
+    htmlLang: doc.documentElement?.lang ?? '',
+    hostname: getHostname(url),
+    bodyText: body ? body.innerText || body.textContent || '' : '',
+    languageToggleElements: doc.querySelectorAll(LANGUAGE_TOGGLE_SELECTOR).length,
+    elementsWithLang,
+    regions: collectLanguageRegions(doc.querySelectorAll(LANGUAGE_REGION_SELECTOR)),
+    jurisdiction,
+  });
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import type { BilingualCheck, PageStructure } from '../types';
+import {
+  type ParityPage,
+  auditLanguageParity,
+  comparePagePair,
+  findCounterpart,
+  findUnscannedCounterparts,
+  getPageLanguage,
+  guessCounterpartUrl,
+} from './language-parity';
+
+function structure(overrides: Partial<PageStructure> = {}): PageStructure {
+  return {
+    title: 'Services',
+    lang: 'en',
+    headings: [1, 2, 2],
+    images: { total: 4, withAlt: 4 },
+    formFields: { total: 2, labelled: 2 },
+    alternates: [],
+    ...overrides,
+  };
+}
+
+function textLanguage(en: number, fr: number): BilingualCheck {
+  return {
+    hasLangAttribute: true,
+    isBilingual: false,
+    detectedLanguages: [],
+    hasLanguageToggle: false,
+    hasFrenchContent: fr > 0,
+    isOntarioGov: false,
+    languageToggles: 0,
+    language: { proportions: { en, fr, und: 1 - en - fr }, confidence: 0.9, mismatches: [] },
+  };
+}
+
+function page(url: string, overrides: Partial<ParityPage> = {}): ParityPage {
+  return { url, violations: [], ...overrides };
+}
+
+describe('Language Parity', () => {
+  describe('getPageLanguage', () => {
+    it('should prefer the declared lang attribute', () => {
+      expect(
+        getPageLanguage(
+          page('https://example.com/en/a', { structure: structure({ lang: 'fr-CA' }) })
+        )
+      ).toBe('fr');
+    });
+
+    it('should fall back to the URL', () => {
+      expect(getPageLanguage(page('https://example.com/fr/a'))).toBe('fr');
+      expect(getPageLanguage(page('https://example.com/a?lang=en'))).toBe('en');
+    });
+
+    it('should fall back to the identified text language', () => {
+      const french = page('https://example.com/a', {
+        bilingualCheck: textLanguage(0.1, 0.9),
+      });
+      expect(getPageLanguage(french)).toBe('fr');
+      expect(getPageLanguage(page('https://example.com/a'))).toBeUndefined();
+    });
+  });
+
+  describe('guessCounterpartUrl', () => {
+    it('should swap the language path segment', () => {
+      expect(guessCounterpartUrl('https://example.com/en/services', 'fr')).toBe(
+        'https://example.com/fr/services'
+      );
+      expect(guessCounterpartUrl('https://example.com/fr/services', 'en')).toBe(
+        'https://example.com/en/services'
+      );
+    });
+
+    it('should swap the lang query parameter', () => {
+      expect(guessCounterpartUrl('https://example.com/page?lang=en', 'fr')).toBe(
+        'https://example.com/page?lang=fr'
+      );
+    });
+
+    it('should prefix /fr when there is no language marker', () => {
+      expect(guessCounterpartUrl('https://example.com/services', 'fr')).toBe(
+        'https://example.com/fr/services'
+      );
+      expect(guessCounterpartUrl('https://example.com/services', 'en')).toBeUndefined();
+    });
+  });
+
+  describe('findCounterpart', () => {
+    it('should prefer sitemap hreflang pairs', () => {
+      const en = page('https://example.com/services/', {
+        structure: structure({ languageToggle: 'https://example.com/fr/toggle' }),
+      });
+      expect(
+        findCounterpart(en, [
+          { en: 'https://example.com/services', fr: 'https://example.com/services-fr' },
+        ])
+      ).toEqual({ url: 'https://example.com/services-fr', pairedBy: 'hreflang' });
+    });
+
+    it('should use the page hreflang links, then the toggle, then the path', () => {
+      const alternates = [{ hreflang: 'fr', href: 'https://example.com/fr-alt' }];
+      const toggle = 'https://example.com/fr-toggle';
+
+      expect(
+        findCounterpart(page('https://example.com/en/a', { structure: structure({ alternates }) }))
+      ).toEqual({ url: 'https://example.com/fr-alt', pairedBy: 'hreflang' });
+      expect(
+        findCounterpart(
+          page('https://example.com/en/a', { structure: structure({ languageToggle: toggle }) })
+        )
+      ).toEqual({ url: toggle, pairedBy: 'toggle' });
+      expect(findCounterpart(page('https://example.com/en/a'))).toEqual({
+        url: 'https://example.com/fr/a',
+        pairedBy: 'path',
+      });
+    });
+  });
+
+  describe('comparePagePair', () => {
+    const en = page('https://example.com/en/a', { structure: structure() });
+
+    it('should report an unreachable French page as missing', () => {
+      const result = comparePagePair(en, page('https://example.com/fr/a', { error: 'HTTP 404' }));
+      expect(result.status).toBe('missing');
+      expect(result.issues[0].message).toContain('HTTP 404');
+    });
+
+    it('should not report a French page that was not scanned as missing', () => {
+      expect(comparePagePair(en, undefined)).toEqual({ status: 'unscanned', issues: [] });
+    });
+
+    it('should accept an equivalent French page', () => {
+      const fr = page('https://example.com/fr/a', {
+        structure: structure({ title: 'Services en ligne', lang: 'fr-CA' }),
+      });
+      expect(comparePagePair(en, fr)).toEqual({ status: 'equivalent', issues: [] });
+    });
+
+    it('should report each difference', () => {
+      const fr = page('https://example.com/fr/a', {
+        violations: [{}],
+        structure: structure({
+          lang: 'en',
+          headings: [1, 2],
+          images: { total: 4, withAlt: 2 },
+          formFields: { total: 2, labelled: 1 },
+        }),
+      });
+
+      const result = comparePagePair(en, fr);
+
+      expect(result.status).toBe('degraded');
+      expect(result.issues.map((issue) => issue.kind)).toEqual([
+        'lang',
+        'title',
+        'headings',
+        'images',
+        'forms',
+        'violations',
+      ]);
+      expect(result.issues[2].message).toBe(
+        'Heading outline differs: English h1×1, h2×2, French h1×1, h2×1'
+      );
+      expect(result.issues[3].message).toBe('Images with alt text: English 4/4, French 2/4');
+    });
+
+    it('should report French pages written in English', () => {
+      const fr = page('https://example.com/fr/a', {
+        structure: structure({ title: 'Services en ligne', lang: 'fr' }),
+        bilingualCheck: textLanguage(0.8, 0.1),
+      });
+
+      const result = comparePagePair(en, fr);
+      expect(result.issues).toEqual([
+        { kind: 'untranslated', message: 'French page text is mostly English (80% English)' },
+      ]);
+    });
+  });
+
+  describe('auditLanguageParity', () => {
+    it('should pair English pages and summarize the results', () => {
+      const pages = [
+        page('https://example.com/en/a', { structure: structure() }),
+        page('https://example.com/fr/a', {
+          structure: structure({ title: 'Services en ligne', lang: 'fr' }),
+        }),
+        page('https://example.com/en/b', { structure: structure() }),
+        page('https://example.com/fr/b', { error: 'HTTP 404' }),
+        page('https://example.com/en/c', { structure: structure() }),
+        page('https://example.com/fr/c', { structure: structure({ lang: 'fr', title: '' }) }),
+        page('https://example.com/en/d', { structure: structure() }),
+      ];
+
+      const report = auditLanguageParity(pages);
+
+      expect(report.summary).toEqual({
+        pairs: 4,
+        equivalent: 1,
+        degraded: 1,
+        missing: 1,
+        unscanned: 1,
+      });
+      expect(report.pairs[1]).toMatchObject({
+        en: 'https://example.com/en/b',
+        fr: 'https://example.com/fr/b',
+        pairedBy: 'path',
+        status: 'missing',
+      });
+    });
+
+    it('should skip pages that failed to load', () => {
+      const report = auditLanguageParity([page('https://example.com/en/a', { error: 'Timeout' })]);
+      expect(report.pairs).toEqual([]);
+    });
+  });
+
+  describe('findUnscannedCounterparts', () => {
+    it('should list French pages not yet scanned once each', () => {
+      const pages = [
+        page('https://example.com/en/a'),
+        page('https://example.com/en/a/'),
+        page('https://example.com/en/b'),
+        page('https://example.com/fr/b'),
+      ];
+
+      expect(findUnscannedCounterparts(pages)).toEqual(['https://example.com/fr/a']);
+    });
+  });
+});
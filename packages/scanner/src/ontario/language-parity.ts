@@ -0,0 +1,318 @@
+/**
+ * English/French Page Parity
+ *
+ * The French Language Services Act requires the French version of a page to exist
+ * and to be equivalent to the English one. Each English page of a site scan is
+ * paired with its French counterpart (sitemap hreflang alternates, the page's own
+ * hreflang links or language toggle, then the /en/ ↔ /fr/ path convention), and
+ * the pair is compared: existence, language, title, heading outline, image text
+ * alternatives, form labels and violation counts.
+ */
+
+import { normalizeUrl } from '../discovery/route-discovery';
+import type { LanguagePair } from '../discovery/sitemap-metadata';
+import { type LanguageCode, MIN_CONFIDENCE, primaryLanguage } from '../language/language-id';
+import type { BilingualCheck, PagePair, PageStructure, ParityIssue, ParityReport } from '../types';
+
+// The parts of a page scan result the audit reads
+export interface ParityPage {
+  url: string;
+  violations: unknown[];
+  bilingualCheck?: BilingualCheck;
+  structure?: PageStructure;
+  error?: string;
+}
+
+export interface PageCounterpart {
+  url: string;
+  pairedBy: NonNullable<PagePair['pairedBy']>;
+}
+
+// Drop in image alt or form label coverage tolerated before the French page is flagged
+const COVERAGE_TOLERANCE = 0.05;
+
+const OTHER_LANGUAGE: Record<LanguageCode, LanguageCode> = { en: 'fr', fr: 'en' };
+
+/**
+ * Language a scanned page is written in: its lang attribute, its URL, then its text
+ */
+export function getPageLanguage(page: ParityPage): LanguageCode | undefined {
+  const declared = primaryLanguage(page.structure?.lang);
+  if (declared === 'en' || declared === 'fr') return declared;
+
+  const fromUrl = getUrlLanguage(page.url);
+  if (fromUrl) return fromUrl;
+
+  const language = page.bilingualCheck?.language;
+  if (!language || language.confidence < MIN_CONFIDENCE) return undefined;
+  if (language.proportions.en > language.proportions.fr) return 'en';
+  if (language.proportions.fr > language.proportions.en) return 'fr';
+  return undefined;
+}
+
+/**
+ * Counterpart URL by convention: an `en`/`fr` path segment or `lang` query parameter,
+ * otherwise (for French) the same path under /fr
+ */
+export function guessCounterpartUrl(url: string, target: LanguageCode): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  const source = OTHER_LANGUAGE[target];
+  for (const param of ['lang', 'language']) {
+    if (primaryLanguage(parsed.searchParams.get(param)) === source) {
+      parsed.searchParams.set(param, target);
+      return parsed.href;
+    }
+  }
+
+  const segments = parsed.pathname.split('/');
+  const index = segments.findIndex((segment) => segment.toLowerCase() === source);
+  if (index !== -1) {
+    segments[index] = target;
+    parsed.pathname = segments.join('/');
+    return parsed.href;
+  }
+
+  if (target === 'fr') {
+    parsed.pathname = `/fr${parsed.pathname}`;
+    return parsed.href;
+  }
+  return undefined;
+}
+
+/**
+ * Find the French counterpart of an English page
+ * Explicit signals (hreflang, the toggle) win over the path convention, which is a guess.
+ */
+export function findCounterpart(
+  page: ParityPage,
+  hints: LanguagePair[] = []
+): PageCounterpart | undefined {
+  const key = normalizeUrl(page.url);
+
+  const hinted = hints.find((pair) => normalizeUrl(pair.en) === key);
+  if (hinted) return { url: hinted.fr, pairedBy: 'hreflang' };
+
+  const alternate = page.structure?.alternates.find(
+    (link) => primaryLanguage(link.hreflang) === 'fr'
+  );
+  if (alternate && normalizeUrl(alternate.href) !== key) {
+    return { url: alternate.href, pairedBy: 'hreflang' };
+  }
+
+  const toggle = page.structure?.languageToggle;
+  if (toggle && normalizeUrl(toggle) !== key) return { url: toggle, pairedBy: 'toggle' };
+
+  const guessed = guessCounterpartUrl(page.url, 'fr');
+  return guessed ? { url: guessed, pairedBy: 'path' } : undefined;
+}
+
+/**
+ * Compare an English page with its French version
+ * A French page that was not scanned cannot be compared, which says nothing about
+ * whether it exists.
+ */
+export function comparePagePair(
+  en: ParityPage,
+  fr: ParityPage | undefined
+): Pick<PagePair, 'status' | 'issues'> {
+  if (!fr) return { status: 'unscanned', issues: [] };
+  if (fr.error) {
+    return {
+      status: 'missing',
+      issues: [{ kind: 'missing', message: `French page could not be loaded (${fr.error})` }],
+    };
+  }
+
+  const issues: ParityIssue[] = [];
+
+  const frLang = primaryLanguage(fr.structure?.lang);
+  if (fr.structure && frLang !== 'fr') {
+    issues.push({
+      kind: 'lang',
+      message: frLang
+        ? `French page declares lang="${fr.structure.lang}"`
+        : 'French page has no lang attribute',
+    });
+  }
+
+  const text = fr.bilingualCheck?.language;
+  if (text && text.confidence >= MIN_CONFIDENCE && text.proportions.en > text.proportions.fr) {
+    issues.push({
+      kind: 'untranslated',
+      message: `French page text is mostly English (${percent(text.proportions.en)} English)`,
+    });
+  }
+
+  if (en.structure && fr.structure) {
+    issues.push(...compareStructure(en.structure, fr.structure));
+  }
+
+  if (fr.violations.length > en.violations.length) {
+    issues.push({
+      kind: 'violations',
+      message: `French page fails ${fr.violations.length} accessibility rules, English page ${en.violations.length}`,
+    });
+  }
+
+  return { status: issues.length > 0 ? 'degraded' : 'equivalent', issues };
+}
+
+/**
+ * Pair every English page of a site scan with its French version and compare them
+ * French pages without an English counterpart are not reported: the obligation
+ * runs from English to French.
+ */
+export function auditLanguageParity(pages: ParityPage[], hints: LanguagePair[] = []): ParityReport {
+  const byUrl = new Map(pages.map((page) => [normalizeUrl(page.url), page]));
+
+  const pairs: PagePair[] = pages
+    .filter((page) => !page.error && getPageLanguage(page) === 'en')
+    .map((page) => {
+      const counterpart = findCounterpart(page, hints);
+      if (!counterpart) {
+        return {
+          en: page.url,
+          status: 'missing',
+          issues: [{ kind: 'missing', message: 'No French version is linked from this page' }],
+        };
+      }
+
+      const fr = byUrl.get(normalizeUrl(counterpart.url));
+      return {
+        en: page.url,
+        fr: counterpart.url,
+        pairedBy: counterpart.pairedBy,
+        ...comparePagePair(page, fr),
+      };
+    });
+
+  return {
+    pairs,
+    summary: {
+      pairs: pairs.length,
+      equivalent: pairs.filter((pair) => pair.status === 'equivalent').length,
+      degraded: pairs.filter((pair) => pair.status === 'degraded').length,
+      missing: pairs.filter((pair) => pair.status === 'missing').length,
+      unscanned: pairs.filter((pair) => pair.status === 'unscanned').length,
+    },
+  };
+}
+
+/**
+ * French counterparts a site scan still has to visit to complete the audit
+ */
+export function findUnscannedCounterparts(
+  pages: ParityPage[],
+  hints: LanguagePair[] = []
+): string[] {
+  const scanned = new Set(pages.map((page) => normalizeUrl(page.url)));
+  const missing = new Map<string, string>();
+
+  for (const page of pages) {
+    if (page.error || getPageLanguage(page) !== 'en') continue;
+    const counterpart = findCounterpart(page, hints);
+    if (!counterpart) continue;
+
+    const key = normalizeUrl(counterpart.url);
+    if (!scanned.has(key) && !missing.has(key)) missing.set(key, counterpart.url);
+  }
+
+  return Array.from(missing.values());
+}
+
+/**
+ * Language a URL is marked as by an `en`/`fr` path segment or `lang` query parameter
+ */
+export function getUrlLanguage(url: string): LanguageCode | undefined {
+  try {
+    const parsed = new URL(url);
+    const param = primaryLanguage(
+      parsed.searchParams.get('lang') ?? parsed.searchParams.get('language')
+    );
+    if (param === 'en' || param === 'fr') return param;
+
+    const segment = parsed.pathname
+      .split('/')
+      .map((part) => part.toLowerCase())
+      .find((part) => part === 'en' || part === 'fr');
+    return segment as LanguageCode | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function compareStructure(en: PageStructure, fr: PageStructure): ParityIssue[] {
+  const issues: ParityIssue[] = [];
+
+  if (!fr.title) {
+    issues.push({ kind: 'title', message: 'French page has no title' });
+  } else if (en.title && fr.title === en.title) {
+    issues.push({ kind: 'title', message: `French page title is the English title "${en.title}"` });
+  }
+
+  if (en.headings.join() !== fr.headings.join()) {
+    issues.push({
+      kind: 'headings',
+      message: `Heading outline differs: English ${describeHeadings(en.headings)}, French ${describeHeadings(fr.headings)}`,
+    });
+  }
+
+  const images = compareCoverage(
+    en.images.withAlt,
+    en.images.total,
+    fr.images.withAlt,
+    fr.images.total
+  );
+  if (images) {
+    issues.push({ kind: 'images', message: `Images with alt text: ${images}` });
+  }
+
+  const forms = compareCoverage(
+    en.formFields.labelled,
+    en.formFields.total,
+    fr.formFields.labelled,
+    fr.formFields.total
+  );
+  if (forms) {
+    issues.push({ kind: 'forms', message: `Labelled form fields: ${forms}` });
+  }
+
+  return issues;
+}
+
+/**
+ * Describe a coverage drop ("English 10/10, French 6/10"), or undefined when there is none
+ */
+function compareCoverage(
+  enCovered: number,
+  enTotal: number,
+  frCovered: number,
+  frTotal: number
+): string | undefined {
+  const ratio = (covered: number, total: number) => (total === 0 ? 1 : covered / total);
+  if (ratio(frCovered, frTotal) >= ratio(enCovered, enTotal) - COVERAGE_TOLERANCE) return undefined;
+  return `English ${enCovered}/${enTotal}, French ${frCovered}/${frTotal}`;
+}
+
+/**
+ * Summarize a heading outline by level ("h1×1, h2×4")
+ */
+function describeHeadings(levels: number[]): string {
+  if (levels.length === 0) return 'none';
+  const counts = new Map<number, number>();
+  for (const level of levels) counts.set(level, (counts.get(level) ?? 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([level, count]) => `h${level}×${count}`)
+    .join(', ');
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
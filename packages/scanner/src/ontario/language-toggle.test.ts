@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGE_TOGGLE_SELECTOR } from './bilingual-detection';
+import {
+  type ToggleDocument,
+  type ToggleElement,
+  checkLanguageToggles,
+  createToggleViolation,
+} from './language-toggle';
+
+interface FakeOptions {
+  text?: string;
+  attributes?: Record<string, string>;
+  lang?: string; // Effective lang (nearest [lang] ancestor)
+  inHeader?: boolean;
+  child?: ToggleElement;
+}
+
+function element(tagName: string, options: FakeOptions = {}): ToggleElement {
+  const { text = '', attributes = {}, lang = 'en', inHeader = true, child } = options;
+  return {
+    tagName: tagName.toUpperCase(),
+    id: attributes.id ?? '',
+    textContent: text,
+    outerHTML: `<${tagName}>${text}</${tagName}>`,
+    getAttribute: (name) => attributes[name] ?? null,
+    closest: (selector) => {
+      if (selector === '[lang]') return { getAttribute: () => attributes.lang ?? lang };
+      if (selector.includes('header')) return inHeader ? { getAttribute: () => null } : null;
+      return null;
+    },
+    querySelector: () => child ?? null,
+  };
+}
+
+function createDocument(
+  toggles: ToggleElement[],
+  focusable: ToggleElement[] = toggles,
+  lang = 'en'
+): ToggleDocument {
+  return {
+    documentElement: { lang },
+    querySelectorAll: (selector) => (selector === LANGUAGE_TOGGLE_SELECTOR ? toggles : focusable),
+  };
+}
+
+const url = 'https://www.ontario.ca/page/services';
+
+describe('Language Toggle', () => {
+  it('should pass an accessible toggle', () => {
+    const toggle = element('a', {
+      text: 'Français',
+      attributes: { href: '/fr/page/services', lang: 'fr', hreflang: 'fr' },
+    });
+
+    const result = checkLanguageToggles(createDocument([toggle]), url);
+
+    expect(result).toEqual({ toggles: 1, violations: [], passes: 4 });
+  });
+
+  it('should report nothing when the page has no toggle', () => {
+    expect(checkLanguageToggles(createDocument([]), url)).toEqual({
+      toggles: 0,
+      violations: [],
+      passes: 0,
+    });
+  });
+
+  it('should ignore links that stay in the page language', () => {
+    const link = element('a', { text: 'Services', attributes: { href: '/en/services' } });
+    expect(checkLanguageToggles(createDocument([link]), url).toggles).toBe(0);
+  });
+
+  it('should require the name in the target language', () => {
+    const toggle = element('a', {
+      text: 'French',
+      attributes: { href: '/fr/page/services', lang: 'fr' },
+    });
+
+    const [violation] = checkLanguageToggles(createDocument([toggle]), url).violations;
+
+    expect(violation.id).toBe('ontario-language-toggle-name');
+    expect(violation.nodes[0].failureSummary).toContain('use "Français"');
+    expect(violation.nodes[0].target).toEqual(['a[href="/fr/page/services"]']);
+  });
+
+  it('should report a toggle without an accessible name', () => {
+    const toggle = element('a', { attributes: { href: '/fr', lang: 'fr' } });
+    const [violation] = checkLanguageToggles(createDocument([toggle]), url).violations;
+    expect(violation.nodes[0].failureSummary).toContain('no accessible name');
+  });
+
+  it('should check English toggles on French pages', () => {
+    const toggle = element('a', {
+      text: 'English',
+      lang: 'fr',
+      attributes: { href: 'https://www.ontario.ca/en/page' },
+    });
+
+    const result = checkLanguageToggles(createDocument([toggle], [toggle], 'fr-CA'), url);
+
+    expect(result.violations.map((v) => v.id)).toEqual(['ontario-language-toggle-lang']);
+    expect(result.violations[0].nodes[0].failureSummary).toContain('add lang="en"');
+  });
+
+  it('should report a wrong hreflang', () => {
+    const toggle = element('a', {
+      text: 'Français',
+      attributes: { href: '/fr', lang: 'fr', hreflang: 'en' },
+    });
+
+    const [violation] = checkLanguageToggles(createDocument([toggle]), url).violations;
+
+    expect(violation.id).toBe('ontario-language-toggle-lang');
+    expect(violation.nodes[0].failureSummary).toContain('hreflang="en"');
+  });
+
+  it('should report toggles the keyboard cannot reach', () => {
+    const removed = element('a', {
+      text: 'Français',
+      attributes: { href: '/fr', lang: 'fr', tabindex: '-1' },
+    });
+    const clickable = element('span', {
+      text: 'Français',
+      attributes: { 'data-lang': 'fr', lang: 'fr' },
+    });
+
+    const result = checkLanguageToggles(createDocument([removed, clickable], []), url);
+    const keyboard = result.violations.find((v) => v.id === 'ontario-language-toggle-keyboard');
+
+    expect(keyboard?.nodes).toHaveLength(2);
+    expect(keyboard?.nodes[1].failureSummary).toContain('<span>');
+  });
+
+  it('should check the link inside a toggle container', () => {
+    const link = element('a', { text: 'Français', attributes: { href: '/fr', lang: 'fr' } });
+    const container = element('div', { attributes: { class: 'language-toggle' }, child: link });
+
+    const result = checkLanguageToggles(createDocument([container, link]), url);
+
+    expect(result.toggles).toBe(1);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('should report a toggle far down the page', () => {
+    const toggle = element('a', {
+      text: 'Français',
+      inHeader: false,
+      attributes: { href: '/fr', lang: 'fr' },
+    });
+    const links = Array.from({ length: 20 }, () => element('a', { attributes: { href: '/x' } }));
+
+    const footer = checkLanguageToggles(createDocument([toggle], [...links, toggle]), url);
+    expect(footer.violations.map((v) => v.id)).toEqual(['ontario-language-toggle-position']);
+
+    const early = checkLanguageToggles(createDocument([toggle], [toggle, ...links]), url);
+    expect(early.violations).toEqual([]);
+  });
+
+  it('should map toggle violations in the AODA rule pack', () => {
+    const violation = createToggleViolation('ontario-language-toggle-lang', []);
+
+    expect(violation.wcagCriterion).toBe('3.1.2 Language of Parts');
+    expect(violation.aodaSection).toContain('Bilingual');
+    expect(violation.estimatedFixTime).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Language Toggle Accessibility
+ *
+ * Ontario-specific rules for the English/French toggle. The toggle is how a French
+ * speaker reaches the French site, so it must be named in French ("Français", not
+ * "French"), marked with that language, reachable by keyboard and found near the top
+ * of the page. Results are regular violations, mapped in the AODA rule pack like the
+ * axe-core rules.
+ */
+
+import { type LanguageCode, primaryLanguage } from '../language/language-id';
+import type { ResultNode, Violation } from '../types';
+import { getAODAMapping } from './aoda-rules';
+import { LANGUAGE_TOGGLE_SELECTOR } from './bilingual-detection';
+import { getUrlLanguage } from './language-parity';
+
+// The parts of a DOM element the rules read; a browser `Element` satisfies it
+export interface ToggleElement {
+  tagName: string;
+  id: string;
+  textContent: string | null;
+  outerHTML: string;
+  getAttribute(name: string): string | null;
+  closest(selector: string): { getAttribute(name: string): string | null } | null;
+  querySelector(selector: string): ToggleElement | null;
+}
+
+// The parts of a DOM document the rules read; a browser `Document` satisfies it
+export interface ToggleDocument {
+  documentElement: { lang: string } | null;
+  querySelectorAll(selector: string): ArrayLike<ToggleElement>;
+}
+
+export type ToggleRuleId =
+  | 'ontario-language-toggle-name'
+  | 'ontario-language-toggle-lang'
+  | 'ontario-language-toggle-keyboard'
+  | 'ontario-language-toggle-position';
+
+export interface ToggleCheckResult {
+  toggles: number;
+  violations: Violation[];
+  passes: number; // Rules that applied and passed
+}
+
+interface ToggleRule {
+  impact: Violation['impact']; // Used when the rule pack does not map the rule
+  description: string;
+  help: string;
+  helpUrl: string;
+}
+
+export const LANGUAGE_TOGGLE_RULES: Record<ToggleRuleId, ToggleRule> = {
+  'ontario-language-toggle-name': {
+    impact: 'serious',
+    description:
+      'Ensures the language toggle has an accessible name written in the language it switches to',
+    help: 'Language toggle must be named in its target language, e.g. "Français"',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html',
+  },
+  'ontario-language-toggle-lang': {
+    impact: 'serious',
+    description:
+      'Ensures the language toggle is marked with its target language through lang or hreflang',
+    help: 'Language toggle must have lang (or hreflang) set to its target language',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/language-of-parts.html',
+  },
+  'ontario-language-toggle-keyboard': {
+    impact: 'critical',
+    description: 'Ensures the language toggle can be reached and activated with the keyboard',
+    help: 'Language toggle must be a link or button in the tab order',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/keyboard.html',
+  },
+  'ontario-language-toggle-position': {
+    impact: 'moderate',
+    description: 'Ensures the language toggle is found near the top of the page',
+    help: 'Language toggle should be in the page header, among the first focusable elements',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/consistent-navigation.html',
+  },
+};
+
+// Words that name each language in that language
+const LANGUAGE_NAMES: Record<LanguageCode, RegExp> = {
+  en: /\benglish\b/i,
+  fr: /fran[cç]ais/i,
+};
+
+const EXAMPLE_NAMES: Record<LanguageCode, string> = { en: 'English', fr: 'Français' };
+
+const LANGUAGE_LABELS: Record<LanguageCode, string> = { en: 'English', fr: 'French' };
+
+const INTERACTIVE_SELECTOR = 'a[href], button, [role="link"], [role="button"]';
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex^="-"])';
+
+// Focusable elements (skip links, logo, menu…) a keyboard user passes before the toggle
+const MAX_FOCUS_POSITION = 15;
+
+const HEADER_SELECTOR = 'header, [role="banner"]';
+
+// Characters of the toggle's markup kept in a reported node
+const HTML_EXCERPT_LENGTH = 250;
+
+interface Toggle {
+  element: ToggleElement;
+  target: LanguageCode;
+}
+
+/**
+ * Check the accessibility of the page's language toggles
+ * Links matched by the toggle selector that stay in the page's own language (such as
+ * every /en/ link on an English page) are not toggles and are ignored.
+ */
+export function checkLanguageToggles(doc: ToggleDocument, url: string): ToggleCheckResult {
+  const pageLanguage = getDocumentLanguage(doc, url);
+  const toggles = findToggles(doc, url, pageLanguage);
+  if (toggles.length === 0) return { toggles: 0, violations: [], passes: 0 };
+
+  const failures: Record<ToggleRuleId, ResultNode[]> = {
+    'ontario-language-toggle-name': [],
+    'ontario-language-toggle-lang': [],
+    'ontario-language-toggle-keyboard': [],
+    'ontario-language-toggle-position': [],
+  };
+
+  for (const toggle of toggles) {
+    const nameFailure = checkName(toggle);
+    if (nameFailure) failures['ontario-language-toggle-name'].push(toNode(toggle, nameFailure));
+
+    const langFailure = checkLang(toggle);
+    if (langFailure) failures['ontario-language-toggle-lang'].push(toNode(toggle, langFailure));
+
+    const keyboardFailure = checkKeyboard(toggle.element);
+    if (keyboardFailure) {
+      failures['ontario-language-toggle-keyboard'].push(toNode(toggle, keyboardFailure));
+    }
+  }
+
+  // A second toggle in the footer is fine as long as one is near the top
+  const focusable = Array.from(doc.querySelectorAll(FOCUSABLE_SELECTOR));
+  if (!toggles.some((toggle) => isNearTop(toggle.element, focusable))) {
+    failures['ontario-language-toggle-position'].push(
+      toNode(
+        toggles[0],
+        `Language toggle is outside the page header and not among the first ${MAX_FOCUS_POSITION} focusable elements`
+      )
+    );
+  }
+
+  const ruleIds = Object.keys(failures) as ToggleRuleId[];
+  const violations = ruleIds
+    .filter((ruleId) => failures[ruleId].length > 0)
+    .map((ruleId) => createToggleViolation(ruleId, failures[ruleId]));
+
+  return { toggles: toggles.length, violations, passes: ruleIds.length - violations.length };
+}
+
+/**
+ * Build a violation for a toggle rule, with its AODA mapping from the active rule pack
+ */
+export function createToggleViolation(ruleId: ToggleRuleId, nodes: ResultNode[]): Violation {
+  const rule = LANGUAGE_TOGGLE_RULES[ruleId];
+  const mapping = getAODAMapping(ruleId);
+
+  return {
+    id: ruleId,
+    impact: mapping?.impact ?? rule.impact,
+    description: rule.description,
+    help: rule.help,
+    helpUrl: rule.helpUrl,
+    wcagCriterion: mapping?.wcagCriterion,
+    wcagLevel: mapping?.wcagLevel,
+    aodaSection: mapping?.aodaSection,
+    penalty: mapping?.penalty,
+    estimatedFixTime: mapping?.estimatedFixTime,
+    affectedUsers: mapping?.affectedUsers,
+    nodes,
+  };
+}
+
+/**
+ * Language toggles of a page with the language each switches to
+ * Container matches (a `.language-toggle` list) resolve to the link or button inside them.
+ */
+function findToggles(
+  doc: ToggleDocument,
+  url: string,
+  pageLanguage: LanguageCode | undefined
+): Toggle[] {
+  const toggles: Toggle[] = [];
+  const seen = new Set<ToggleElement>();
+
+  for (const match of Array.from(doc.querySelectorAll(LANGUAGE_TOGGLE_SELECTOR))) {
+    const element = isInteractive(match)
+      ? match
+      : (match.querySelector(INTERACTIVE_SELECTOR) ?? match);
+    if (seen.has(element)) continue;
+    seen.add(element);
+
+    const target = getTargetLanguage(element, url, pageLanguage);
+    if (target && target !== pageLanguage) toggles.push({ element, target });
+  }
+
+  return toggles;
+}
+
+function getDocumentLanguage(doc: ToggleDocument, url: string): LanguageCode | undefined {
+  const declared = primaryLanguage(doc.documentElement?.lang);
+  if (declared === 'en' || declared === 'fr') return declared;
+  return getUrlLanguage(url);
+}
+
+/**
+ * Language the toggle switches to: its link, hreflang or data-lang, else the other language
+ */
+function getTargetLanguage(
+  element: ToggleElement,
+  url: string,
+  pageLanguage: LanguageCode | undefined
+): LanguageCode | undefined {
+  const href = element.getAttribute('href');
+  if (href) {
+    try {
+      const fromUrl = getUrlLanguage(new URL(href, url).href);
+      if (fromUrl) return fromUrl;
+    } catch {
+      // Unparseable href; fall through to the attributes
+    }
+  }
+
+  for (const attribute of ['hreflang', 'data-lang']) {
+    const declared = primaryLanguage(element.getAttribute(attribute));
+    if (declared === 'en' || declared === 'fr') return declared;
+  }
+
+  if (pageLanguage === 'en') return 'fr';
+  if (pageLanguage === 'fr') return 'en';
+  return undefined;
+}
+
+function checkName({ element, target }: Toggle): string | undefined {
+  const name = getAccessibleName(element);
+  if (name === undefined) return undefined; // aria-labelledby: named elsewhere on the page
+  if (!name) return 'Language toggle has no accessible name';
+  if (LANGUAGE_NAMES[target].test(name)) return undefined;
+  return `Accessible name "${name}" does not name ${LANGUAGE_LABELS[target]} in ${LANGUAGE_LABELS[target]}; use "${EXAMPLE_NAMES[target]}"`;
+}
+
+function checkLang({ element, target }: Toggle): string | undefined {
+  const lang = primaryLanguage(element.closest('[lang]')?.getAttribute('lang'));
+  const hreflang = element.getAttribute('hreflang');
+
+  if (hreflang !== null && primaryLanguage(hreflang) !== target) {
+    return `hreflang="${hreflang}" does not match the target language "${target}"`;
+  }
+  if (lang === target || hreflang !== null) return undefined;
+  return `Toggle text is read as "${lang || 'unknown'}"; add lang="${target}" so screen readers pronounce it correctly`;
+}
+
+function checkKeyboard(element: ToggleElement): string | undefined {
+  const tag = element.tagName.toLowerCase();
+  const tabindex = element.getAttribute('tabindex');
+
+  if (tabindex !== null && Number(tabindex) < 0) {
+    return `tabindex="${tabindex}" removes the toggle from the tab order`;
+  }
+  if (tag === 'button' && element.getAttribute('disabled') !== null) {
+    return 'Toggle button is disabled';
+  }
+
+  const nativelyFocusable =
+    (tag === 'a' && element.getAttribute('href') !== null) || tag === 'button' || tag === 'select';
+  if (nativelyFocusable || tabindex !== null) return undefined;
+  return `<${tag}> toggle without href or tabindex cannot be reached with the keyboard`;
+}
+
+function isNearTop(element: ToggleElement, focusable: ToggleElement[]): boolean {
+  if (element.closest(HEADER_SELECTOR)) return true;
+  const position = focusable.indexOf(element);
+  return position !== -1 && position < MAX_FOCUS_POSITION;
+}
+
+/**
+ * Accessible name from aria-label, text, title or image alt
+ * Returns undefined when the name comes from aria-labelledby, which is not resolved here.
+ */
+function getAccessibleName(element: ToggleElement): string | undefined {
+  const label = element.getAttribute('aria-label')?.trim();
+  if (label) return label;
+  if (element.getAttribute('aria-labelledby')) return undefined;
+
+  const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+  if (text) return text;
+
+  return (
+    element.getAttribute('title')?.trim() ||
+    element.querySelector('img[alt]')?.getAttribute('alt')?.trim() ||
+    ''
+  );
+}
+
+function isInteractive(element: ToggleElement): boolean {
+  const tag = element.tagName.toLowerCase();
+  const role = element.getAttribute('role');
+  return tag === 'a' || tag === 'button' || role === 'link' || role === 'button';
+}
+
+function toNode({ element }: Toggle, failure: string): ResultNode {
+  const html =
+    element.outerHTML.length > HTML_EXCERPT_LENGTH
+      ? `${element.outerHTML.slice(0, HTML_EXCERPT_LENGTH)}…`
+      : element.outerHTML;
+  return {
+    html,
+    target: [describeElement(element)],
+    failureSummary: `Fix the following:\n  ${failure}`,
+  };
+}
+
+/**
+ * CSS selector for reports: the id when there is one, else the tag and href
+ */
+function describeElement(element: ToggleElement): string {
+  const tag = element.tagName.toLowerCase();
+  if (element.id) return `${tag}#${element.id}`;
+  const href = element.getAttribute('href');
+  return href ? `${tag}[href="${href}"]` : tag;
+}
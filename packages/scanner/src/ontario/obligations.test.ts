@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { Organization, Violation } from '../types';
+import {
+  applyObligations,
+  getObligations,
+  getOrganizationCategory,
+  getPenaltyRange,
+  getViolationObligation,
+  parseIASRSection,
+  summarizeObligations,
+} from './obligations';
+
+const government: Organization = { type: 'government', employees: 60000 };
+const largePrivate: Organization = { type: 'private', employees: 120 };
+const smallPrivate: Organization = { type: 'private', employees: 12 };
+const smallPublic: Organization = { type: 'public-sector', employees: 30 };
+
+const asOf = new Date('2020-06-01');
+
+function violation(aodaSection: string, overrides: Partial<Violation> = {}): Violation {
+  return {
+    id: 'image-alt',
+    impact: 'critical',
+    description: 'Images must have alternate text',
+    help: 'Images must have alternate text',
+    helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/image-alt',
+    nodes: [],
+    aodaSection,
+    penalty: 'Up to $100,000/day for organizations',
+    ...overrides,
+  };
+}
+
+describe('AODA Obligations', () => {
+  describe('getOrganizationCategory', () => {
+    it('should split organizations at 50 employees', () => {
+      expect(getOrganizationCategory(government)).toBe('government');
+      expect(getOrganizationCategory(largePrivate)).toBe('large-private');
+      expect(getOrganizationCategory(smallPrivate)).toBe('small-private');
+      expect(getOrganizationCategory(smallPublic)).toBe('small-public');
+      expect(getOrganizationCategory({ type: 'public-sector', employees: 50 })).toBe(
+        'large-public'
+      );
+    });
+  });
+
+  describe('getPenaltyRange', () => {
+    it('should depend on the organization', () => {
+      expect(getPenaltyRange(government)).toContain('No monetary penalties');
+      expect(getPenaltyRange(largePrivate)).toContain('$100,000/day');
+      expect(getPenaltyRange({ ...smallPrivate, incorporated: false })).toContain('$50,000/day');
+    });
+  });
+
+  describe('getObligations', () => {
+    it('should exempt small private organizations from the website requirement', () => {
+      const websites = getObligations(smallPrivate).find((entry) => entry.section === 'IASR 14');
+      expect(websites).toMatchObject({ applies: false, inEffect: false });
+      expect(websites?.deadline).toBeUndefined();
+    });
+
+    it('should report deadlines not yet reached', () => {
+      const websites = getObligations(largePrivate, asOf).find(
+        (entry) => entry.section === 'IASR 14'
+      );
+      expect(websites).toMatchObject({ applies: true, deadline: '2021-01-01', inEffect: false });
+
+      const forGovernment = getObligations(government, asOf).find(
+        (entry) => entry.section === 'IASR 14'
+      );
+      expect(forGovernment).toMatchObject({ deadline: '2016-01-01', inEffect: true });
+    });
+  });
+
+  describe('parseIASRSection', () => {
+    it('should read the first section of a citation', () => {
+      expect(parseIASRSection('IASR 14(4) + IASR 11(1) Feedback Processes')).toBe(14);
+      expect(parseIASRSection('IASR 3(3) - Accessibility Policies')).toBe(3);
+      expect(parseIASRSection('EN 301 549 cl. 9.1.4.3')).toBeUndefined();
+      expect(parseIASRSection()).toBeUndefined();
+    });
+  });
+
+  describe('getViolationObligation', () => {
+    it('should find the obligation a violation falls under', () => {
+      expect(
+        getViolationObligation(violation('IASR 11(1) - Feedback Processes'), smallPublic)
+      ).toMatchObject({ section: 'IASR 11', applies: true, deadline: '2016-01-01' });
+      expect(getViolationObligation(violation('WCAG only'), smallPublic)).toBeUndefined();
+    });
+  });
+
+  describe('applyObligations', () => {
+    it('should replace the generic penalty with the organization range', () => {
+      const [applied] = applyObligations([violation('IASR 14(4)')], largePrivate, asOf);
+      expect(applied.obligation?.section).toBe('IASR 14');
+      expect(applied.penalty).toBe(`${getPenaltyRange(largePrivate)} (from 2021-01-01)`);
+    });
+
+    it('should say when a requirement does not apply', () => {
+      const [applied] = applyObligations([violation('IASR 14(4)')], smallPrivate);
+      expect(applied.obligation?.applies).toBe(false);
+      expect(applied.penalty).toBe('Not an IASR requirement for this organization');
+    });
+
+    it('should add French Language Services Act exposure for the government only', () => {
+      const bilingual = violation('IASR 14(4) + Ontario Bilingual Requirements');
+      expect(applyObligations([bilingual], government)[0].penalty).toContain(
+        'French Language Services Act'
+      );
+      expect(applyObligations([bilingual], largePrivate)[0].penalty).not.toContain(
+        'French Language Services Act'
+      );
+    });
+
+    it('should leave violations without an IASR section untouched', () => {
+      const unmapped = violation('', { aodaSection: undefined });
+      expect(applyObligations([unmapped], largePrivate)[0]).toBe(unmapped);
+    });
+  });
+
+  describe('summarizeObligations', () => {
+    it('should count violations per obligation', () => {
+      const summary = summarizeObligations(
+        [violation('IASR 14(4)'), violation('IASR 14(4)(a)'), violation('IASR 11(1)')],
+        largePrivate,
+        asOf
+      );
+      expect(summary.find((entry) => entry.section === 'IASR 14')?.violations).toBe(2);
+      expect(summary.find((entry) => entry.section === 'IASR 11')?.violations).toBe(1);
+      expect(summary.find((entry) => entry.section === 'IASR 3')?.violations).toBe(0);
+    });
+  });
+});
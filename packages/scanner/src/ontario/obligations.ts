@@ -0,0 +1,237 @@
+/**
+ * AODA Obligations by Organization
+ *
+ * IASR requirements phase in by organization category: the Government of Ontario
+ * first, then large and small designated public sector organizations, then large
+ * (50+ employees) and small private and not-for-profit organizations. Some do not
+ * apply at all to small private organizations (publishing accessibility policies,
+ * s.3(3); accessible websites, s.14). Penalties also differ: the Crown is not fined,
+ * corporations face higher ranges than individuals and unincorporated organizations.
+ *
+ * The engine derives which requirements apply to an organization, their compliance
+ * dates and the penalty range, and attaches them to violations and site reports.
+ */
+
+import type { Obligation, Organization, Violation } from '../types';
+
+export type OrganizationCategory =
+  | 'government'
+  | 'large-public'
+  | 'small-public'
+  | 'large-private'
+  | 'small-private';
+
+interface Requirement {
+  section: number;
+  requirement: string;
+  // Compliance date per category; absent where the requirement does not apply
+  deadlines: Partial<Record<OrganizationCategory, string>>;
+}
+
+// Employees at which an organization counts as large (IASR s.1)
+export const LARGE_ORGANIZATION_EMPLOYEES = 50;
+
+// IASR requirements the scanner's rules can fail (O. Reg. 191/11)
+const IASR_REQUIREMENTS: Requirement[] = [
+  {
+    section: 3,
+    requirement: 'Accessibility policies, publicly available',
+    deadlines: {
+      government: '2012-01-01',
+      'large-public': '2013-01-01',
+      'small-public': '2014-01-01',
+      'large-private': '2014-01-01',
+    },
+  },
+  {
+    section: 7,
+    requirement: 'Training on the IASR and the Human Rights Code',
+    deadlines: {
+      government: '2013-01-01',
+      'large-public': '2014-01-01',
+      'small-public': '2015-01-01',
+      'large-private': '2015-01-01',
+      'small-private': '2016-01-01',
+    },
+  },
+  {
+    section: 11,
+    requirement: 'Accessible feedback processes',
+    deadlines: {
+      government: '2014-01-01',
+      'large-public': '2015-01-01',
+      'small-public': '2016-01-01',
+      'large-private': '2016-01-01',
+      'small-private': '2017-01-01',
+    },
+  },
+  {
+    section: 12,
+    requirement: 'Accessible formats and communication supports',
+    deadlines: {
+      government: '2014-01-01',
+      'large-public': '2015-01-01',
+      'small-public': '2016-01-01',
+      'large-private': '2016-01-01',
+      'small-private': '2017-01-01',
+    },
+  },
+  {
+    section: 13,
+    requirement: 'Accessible emergency procedures, plans and public safety information',
+    deadlines: {
+      government: '2012-01-01',
+      'large-public': '2012-01-01',
+      'small-public': '2012-01-01',
+      'large-private': '2012-01-01',
+      'small-private': '2012-01-01',
+    },
+  },
+  {
+    // Final date for all internet content (WCAG 2.0 AA, without live captions and
+    // prerecorded audio description); new sites had earlier dates
+    section: 14,
+    requirement: 'Accessible websites and web content (WCAG 2.0 Level AA)',
+    deadlines: {
+      government: '2016-01-01',
+      'large-public': '2021-01-01',
+      'small-public': '2021-01-01',
+      'large-private': '2021-01-01',
+    },
+  },
+];
+
+const NOT_APPLICABLE_PENALTY = 'Not an IASR requirement for this organization';
+
+/**
+ * IASR category of an organization
+ */
+export function getOrganizationCategory(organization: Organization): OrganizationCategory {
+  if (organization.type === 'government') return 'government';
+  const size = organization.employees >= LARGE_ORGANIZATION_EMPLOYEES ? 'large' : 'small';
+  return `${size}-${organization.type === 'public-sector' ? 'public' : 'private'}`;
+}
+
+/**
+ * Penalty range an organization faces for an AODA contravention
+ * Administrative penalties under O. Reg. 191/11; fines on conviction under AODA s.37.
+ */
+export function getPenaltyRange(organization: Organization): string {
+  if (organization.type === 'government') {
+    return 'No monetary penalties for the Crown; non-compliance is reported to the Accessibility Directorate';
+  }
+  return organization.incorporated === false
+    ? 'Administrative penalties of $200–$2,000; up to $50,000/day on conviction'
+    : 'Administrative penalties of $500–$15,000; up to $100,000/day on conviction';
+}
+
+/**
+ * Every tracked IASR requirement as it applies to an organization
+ */
+export function getObligations(organization: Organization, asOf = new Date()): Obligation[] {
+  return IASR_REQUIREMENTS.map((requirement) => toObligation(requirement, organization, asOf));
+}
+
+/**
+ * Obligation a violation falls under: the first IASR section its citation names
+ * ("IASR 14(4) + IASR 11(1) Feedback Processes" falls under s.14)
+ */
+export function getViolationObligation(
+  violation: Pick<Violation, 'aodaSection'>,
+  organization: Organization,
+  asOf = new Date()
+): Obligation | undefined {
+  const section = parseIASRSection(violation.aodaSection);
+  const requirement = IASR_REQUIREMENTS.find((entry) => entry.section === section);
+  return requirement ? toObligation(requirement, organization, asOf) : undefined;
+}
+
+/**
+ * Attach each violation's obligation and replace the rule pack's generic penalty
+ * with the organization's range
+ */
+export function applyObligations<T extends Violation>(
+  violations: T[],
+  organization: Organization,
+  asOf = new Date()
+): T[] {
+  return violations.map((violation) => {
+    const obligation = getViolationObligation(violation, organization, asOf);
+    if (!obligation) return violation;
+    return {
+      ...violation,
+      obligation,
+      penalty: describePenalty(violation, obligation, organization),
+    };
+  });
+}
+
+/**
+ * Obligations for a site report, with the number of violations under each
+ */
+export function summarizeObligations(
+  violations: Array<Pick<Violation, 'aodaSection'>>,
+  organization: Organization,
+  asOf = new Date()
+): Array<Obligation & { violations: number }> {
+  const counts = new Map<number, number>();
+  for (const violation of violations) {
+    const section = parseIASRSection(violation.aodaSection);
+    if (section !== undefined) counts.set(section, (counts.get(section) ?? 0) + 1);
+  }
+
+  return IASR_REQUIREMENTS.map((requirement) => ({
+    ...toObligation(requirement, organization, asOf),
+    violations: counts.get(requirement.section) ?? 0,
+  }));
+}
+
+/**
+ * First IASR section number in a rule pack citation
+ */
+export function parseIASRSection(aodaSection?: string): number | undefined {
+  const match = aodaSection ? /IASR (?:s\.)?(\d+)/.exec(aodaSection) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function toObligation(
+  requirement: Requirement,
+  organization: Organization,
+  asOf: Date
+): Obligation {
+  const deadline = requirement.deadlines[getOrganizationCategory(organization)];
+  const section = `IASR ${requirement.section}`;
+  if (!deadline) {
+    return {
+      section,
+      requirement: requirement.requirement,
+      applies: false,
+      inEffect: false,
+      penalty: NOT_APPLICABLE_PENALTY,
+    };
+  }
+
+  return {
+    section,
+    requirement: requirement.requirement,
+    applies: true,
+    deadline,
+    inEffect: asOf.getTime() >= Date.parse(deadline),
+    penalty: getPenaltyRange(organization),
+  };
+}
+
+function describePenalty(
+  violation: Violation,
+  obligation: Obligation,
+  organization: Organization
+): string {
+  if (!obligation.applies) return obligation.penalty;
+  const penalty = obligation.inEffect
+    ? obligation.penalty
+    : `${obligation.penalty} (from ${obligation.deadline})`;
+  // The French Language Services Act binds the Government of Ontario, not other organizations
+  return organization.type === 'government' && violation.aodaSection?.includes('Bilingual')
+    ? `${penalty}; French Language Services Act non-compliance`
+    : penalty;
+}
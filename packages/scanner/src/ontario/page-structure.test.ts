@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGE_TOGGLE_SELECTOR } from './bilingual-detection';
+import {
+  type StructureDocument,
+  type StructureElement,
+  collectPageStructure,
+} from './page-structure';
+
+interface FakeElement extends StructureElement {
+  matches: string[];
+  inLabel?: boolean;
+}
+
+function element(
+  tagName: string,
+  matches: string[],
+  attributes: Record<string, string> = {},
+  inLabel = false
+): FakeElement {
+  return {
+    tagName: tagName.toUpperCase(),
+    id: attributes.id ?? '',
+    matches,
+    inLabel,
+    getAttribute: (name) => attributes[name] ?? null,
+    closest: (selector) => (selector === 'label' && inLabel ? {} : null),
+  };
+}
+
+function createDocument(elements: FakeElement[], title = 'Page', lang = 'en'): StructureDocument {
+  return {
+    title,
+    documentElement: { lang },
+    querySelectorAll: (selector) => elements.filter((el) => el.matches.includes(selector)),
+  };
+}
+
+describe('collectPageStructure', () => {
+  const url = 'https://www.ontario.ca/en/services';
+
+  it('should collect title, lang and heading outline', () => {
+    const doc = createDocument(
+      [
+        element('h1', ['h1, h2, h3, h4, h5, h6']),
+        element('h2', ['h1, h2, h3, h4, h5, h6']),
+        element('h2', ['h1, h2, h3, h4, h5, h6']),
+      ],
+      '  Services  ',
+      'en-CA'
+    );
+
+    const structure = collectPageStructure(doc, url);
+
+    expect(structure.title).toBe('Services');
+    expect(structure.lang).toBe('en-CA');
+    expect(structure.headings).toEqual([1, 2, 2]);
+  });
+
+  it('should count images with text alternatives', () => {
+    const doc = createDocument([
+      element('img', ['img'], { alt: 'Logo' }),
+      element('img', ['img'], { alt: '' }),
+      element('img', ['img'], { role: 'presentation' }),
+      element('img', ['img']),
+    ]);
+
+    expect(collectPageStructure(doc, url).images).toEqual({ total: 4, withAlt: 3 });
+  });
+
+  it('should count labelled form fields', () => {
+    const fieldSelector = collectSelector('select');
+    const doc = createDocument([
+      element('input', [fieldSelector], { id: 'name' }),
+      element('input', [fieldSelector], { 'aria-label': 'Email' }),
+      element('select', [fieldSelector], {}, true),
+      element('textarea', [fieldSelector]),
+      element('label', ['label[for]'], { for: 'name' }),
+    ]);
+
+    expect(collectPageStructure(doc, url).formFields).toEqual({ total: 4, labelled: 3 });
+  });
+
+  it('should resolve hreflang alternates and the language toggle', () => {
+    const alternateSelector = 'link[rel="alternate"][hreflang], a[hreflang]';
+    const doc = createDocument([
+      element('link', [alternateSelector], { hreflang: 'fr-CA', href: '/fr/services' }),
+      element('link', [alternateSelector], { hreflang: 'en' }),
+      element('a', [LANGUAGE_TOGGLE_SELECTOR], { href: '#main' }),
+      element('a', [LANGUAGE_TOGGLE_SELECTOR], { href: '/fr/services' }),
+    ]);
+
+    const structure = collectPageStructure(doc, url);
+
+    expect(structure.alternates).toEqual([
+      { hreflang: 'fr-CA', href: 'https://www.ontario.ca/fr/services' },
+    ]);
+    expect(structure.languageToggle).toBe('https://www.ontario.ca/fr/services');
+  });
+
+  it('should ignore a toggle that links back to the page itself', () => {
+    const doc = createDocument([element('a', [LANGUAGE_TOGGLE_SELECTOR], { href: url })]);
+
+    expect(collectPageStructure(doc, url).languageToggle).toBeUndefined();
+  });
+});
+
+/**
+ * Find the selector the collector queries that contains a fragment
+ */
+function collectSelector(fragment: string): string {
+  const selectors: string[] = [];
+  collectPageStructure(
+    {
+      title: '',
+      documentElement: null,
+      querySelectorAll: (selector) => {
+        selectors.push(selector);
+        return [];
+      },
+    },
+    'https://example.com'
+  );
+  const match = selectors.find((selector) => selector.includes(fragment));
+  if (!match) throw new Error(`No selector contains ${fragment}`);
+  return match;
+}
@@ -0,0 +1,103 @@
+/**
+ * Page Structure
+ *
+ * Collects the parts of a page that must match between its English and French
+ * versions under the French Language Services Act: title, heading outline, image
+ * text alternatives, form labels, and the links that point to the other version.
+ */
+
+import type { PageStructure } from '../types';
+import { LANGUAGE_TOGGLE_SELECTOR } from './bilingual-detection';
+
+// The parts of a DOM element the collector reads; a browser `Element` satisfies it
+export interface StructureElement {
+  tagName: string;
+  id: string;
+  getAttribute(name: string): string | null;
+  closest(selector: string): unknown;
+}
+
+// The parts of a DOM document the collector reads; a browser `Document` satisfies it
+export interface StructureDocument {
+  title: string;
+  documentElement: { lang: string } | null;
+  querySelectorAll(selector: string): ArrayLike<StructureElement>;
+}
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// Fields a person fills in; buttons carry their own text and hidden inputs are never seen
+const FORM_FIELD_SELECTOR = [
+  'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"])',
+  'select',
+  'textarea',
+].join(', ');
+
+const ALTERNATE_SELECTOR = 'link[rel="alternate"][hreflang], a[hreflang]';
+
+/**
+ * Collect the structure of a rendered page
+ */
+export function collectPageStructure(doc: StructureDocument, url: string): PageStructure {
+  const all = (selector: string) => Array.from(doc.querySelectorAll(selector));
+
+  const images = all('img');
+  const fields = all(FORM_FIELD_SELECTOR);
+  const labelTargets = new Set(all('label[for]').map((label) => label.getAttribute('for')));
+
+  const alternates = all(ALTERNATE_SELECTOR).flatMap((element) => {
+    const href = resolveUrl(element.getAttribute('href'), url);
+    const hreflang = element.getAttribute('hreflang');
+    return href && hreflang ? [{ hreflang, href }] : [];
+  });
+
+  const languageToggle = all(LANGUAGE_TOGGLE_SELECTOR)
+    .filter((element) => element.tagName.toLowerCase() === 'a')
+    .map((element) => resolveUrl(element.getAttribute('href'), url))
+    .find((href) => href !== undefined && stripHash(href) !== stripHash(url));
+
+  return {
+    title: doc.title.trim(),
+    lang: doc.documentElement?.lang ?? '',
+    headings: all(HEADING_SELECTOR).map((heading) => Number(heading.tagName.slice(1))),
+    images: {
+      total: images.length,
+      withAlt: images.filter(
+        (image) =>
+          image.getAttribute('alt') !== null || image.getAttribute('role') === 'presentation'
+      ).length,
+    },
+    formFields: {
+      total: fields.length,
+      labelled: fields.filter((field) => isLabelled(field, labelTargets)).length,
+    },
+    alternates,
+    languageToggle,
+  };
+}
+
+/**
+ * Whether a form field has an accessible name from a label or ARIA
+ */
+function isLabelled(field: StructureElement, labelTargets: Set<string | null>): boolean {
+  return (
+    !!field.getAttribute('aria-label')?.trim() ||
+    !!field.getAttribute('aria-labelledby') ||
+    !!field.getAttribute('title')?.trim() ||
+    (!!field.id && labelTargets.has(field.id)) ||
+    !!field.closest('label')
+  );
+}
+
+function resolveUrl(href: string | null, base: string): string | undefined {
+  if (!href || href.startsWith('#') || /^(javascript|mailto|tel):/i.test(href)) return undefined;
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import basePackData from './rule-packs/aoda-base.json';
+import { RulePackError, parseRuleOverridePack, parseRulePack, resolveRulePacks } from './rule-pack';
+
+const base = parseRulePack({
+  schemaVersion: 1,
+  id: 'test-base',
+  version: '2.1.0',
+  rules: {
+    'color-contrast': {
+      wcagCriterion: '1.4.3 Contrast (Minimum)',
+      wcagLevel: 'AA',
+      aodaSection: 'IASR 14(4)(a) - Web Accessibility',
+      impact: 'critical',
+      affectedUsers: ['Low vision'],
+      estimatedFixTime: 30,
+      penalty: 'Up to $100,000/day for organizations',
+    },
+    region: {
+      wcagCriterion: '1.3.1 Info and Relationships',
+      wcagLevel: 'A',
+      aodaSection: 'IASR 14(4) - Web Accessibility',
+      impact: 'moderate',
+      affectedUsers: ['Screen reader users'],
+      estimatedFixTime: 20,
+      penalty: 'Up to $100,000/day for organizations',
+    },
+  },
+});
+
+function overrides(extra: Record<string, unknown>) {
+  return parseRuleOverridePack({
+    schemaVersion: 1,
+    id: 'city-of-ottawa',
+    version: '1.0.0',
+    extends: { id: 'test-base', version: '2.0.0' },
+    ...extra,
+  });
+}
+
+describe('Rule packs', () => {
+  describe('parseRulePack', () => {
+    it('should accept the shipped AODA base pack', () => {
+      const pack = parseRulePack(basePackData);
+      expect(pack.id).toBe('aoda-base');
+      expect(Object.keys(pack.rules).length).toBeGreaterThan(50);
+    });
+
+    it('should reject unknown impact levels with the offending path', () => {
+      const invalid = {
+        ...base,
+        rules: { region: { ...base.rules.region, impact: 'severe' } },
+      };
+
+      expect(() => parseRulePack(invalid)).toThrow(RulePackError);
+      expect(() => parseRulePack(invalid)).toThrow(/rules\.region\.impact/);
+    });
+
+    it('should reject unsupported schema versions and non-semver versions', () => {
+      expect(() => parseRulePack({ ...base, schemaVersion: 2 })).toThrow(/schemaVersion/);
+      expect(() => parseRulePack({ ...base, version: 'latest' })).toThrow(/semantic version/);
+    });
+  });
+
+  describe('parseRuleOverridePack', () => {
+    it('should accept partial rules and default disabled to an empty list', () => {
+      const pack = overrides({ rules: { region: { impact: 'serious' } } });
+      expect(pack.rules.region).toEqual({ impact: 'serious' });
+      expect(pack.disabled).toEqual([]);
+    });
+
+    it('should require the base pack it extends', () => {
+      expect(() =>
+        parseRuleOverridePack({ schemaVersion: 1, id: 'org', version: '1.0.0', rules: {} })
+      ).toThrow(/extends/);
+    });
+  });
+
+  describe('resolveRulePacks', () => {
+    it('should return the base rules when there are no overrides', () => {
+      const resolved = resolveRulePacks(base);
+      expect(resolved.rules).toEqual(base.rules);
+      expect(resolved.info).toEqual({ id: 'test-base', version: '2.1.0', overrides: [] });
+    });
+
+    it('should merge partial overrides into existing rules', () => {
+      const resolved = resolveRulePacks(base, [
+        overrides({ rules: { region: { impact: 'serious', estimatedFixTime: 45 } } }),
+      ]);
+
+      expect(resolved.rules.region.impact).toBe('serious');
+      expect(resolved.rules.region.estimatedFixTime).toBe(45);
+      expect(resolved.rules.region.wcagCriterion).toBe('1.3.1 Info and Relationships');
+      expect(resolved.info.overrides).toEqual([{ id: 'city-of-ottawa', version: '1.0.0' }]);
+    });
+
+    it('should not modify the base pack', () => {
+      resolveRulePacks(base, [overrides({ rules: { region: { impact: 'critical' } } })]);
+      expect(base.rules.region.impact).toBe('moderate');
+    });
+
+    it('should apply later packs over earlier ones', () => {
+      const resolved = resolveRulePacks(base, [
+        overrides({ rules: { region: { impact: 'serious' } } }),
+        overrides({ id: 'department', rules: { region: { impact: 'minor' } } }),
+      ]);
+
+      expect(resolved.rules.region.impact).toBe('minor');
+    });
+
+    it('should add complete new rules and remove disabled ones', () => {
+      const resolved = resolveRulePacks(base, [
+        overrides({
+          rules: { 'custom-rule': { ...base.rules.region, aodaSection: 'IASR 11 - Feedback' } },
+          disabled: ['color-contrast'],
+        }),
+      ]);
+
+      expect(resolved.rules['custom-rule'].aodaSection).toBe('IASR 11 - Feedback');
+      expect(resolved.rules['color-contrast']).toBeUndefined();
+    });
+
+    it('should reject incomplete new rules', () => {
+      expect(() =>
+        resolveRulePacks(base, [overrides({ rules: { 'custom-rule': { impact: 'minor' } } })])
+      ).toThrow(/adds rule "custom-rule"/);
+    });
+
+    it('should reject overrides written for another base pack or major version', () => {
+      expect(() =>
+        resolveRulePacks(base, [overrides({ extends: { id: 'other', version: '2.0.0' } })])
+      ).toThrow(/extends "other"/);
+      expect(() =>
+        resolveRulePacks(base, [overrides({ extends: { id: 'test-base', version: '1.4.0' } })])
+      ).toThrow(/incompatible/);
+    });
+  });
+});
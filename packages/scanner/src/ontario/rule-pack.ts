@@ -0,0 +1,169 @@
+/**
+ * AODA Rule Packs
+ *
+ * The axe-core → AODA/WCAG mapping is data, not code: a versioned JSON rule pack
+ * validated with zod. Organizations layer override packs on top of the base pack
+ * to adjust a rule's impact, fix time or IASR section, add rules, or disable them,
+ * without rebuilding the extension.
+ */
+
+import { z } from 'zod';
+import { ImpactLevel, WCAGLevel } from '../types';
+
+// Bumped when the rule pack file format changes incompatibly
+export const RULE_PACK_SCHEMA_VERSION = 1;
+
+const SemVer = z.string().regex(/^\d+\.\d+\.\d+$/, 'Expected a semantic version such as 1.2.0');
+
+export const AODARuleSchema = z.object({
+  wcagCriterion: z.string().min(1),
+  wcagLevel: WCAGLevel,
+  aodaSection: z.string().min(1),
+  impact: ImpactLevel,
+  affectedUsers: z.array(z.string().min(1)).min(1),
+  estimatedFixTime: z.number().min(1).max(240), // in minutes
+  penalty: z.string().min(1),
+});
+
+export type AODARule = z.infer<typeof AODARuleSchema>;
+
+export const RulePackSchema = z.object({
+  schemaVersion: z.literal(RULE_PACK_SCHEMA_VERSION),
+  id: z.string().min(1),
+  version: SemVer,
+  name: z.string().optional(),
+  rules: z.record(AODARuleSchema),
+});
+
+export type RulePack = z.infer<typeof RulePackSchema>;
+
+export const RuleOverridePackSchema = z.object({
+  schemaVersion: z.literal(RULE_PACK_SCHEMA_VERSION),
+  id: z.string().min(1),
+  version: SemVer,
+  name: z.string().optional(),
+  // Base pack the overrides were written against; the major versions must match
+  extends: z.object({
+    id: z.string().min(1),
+    version: SemVer,
+  }),
+  // Partial entries adjust existing rules; complete entries may add new ones
+  rules: z.record(AODARuleSchema.partial()).default({}),
+  disabled: z.array(z.string()).default([]),
+});
+
+export type RuleOverridePack = z.infer<typeof RuleOverridePackSchema>;
+
+export interface RulePackInfo {
+  id: string;
+  version: string;
+  overrides: Array<{ id: string; version: string }>;
+}
+
+export interface ResolvedRules {
+  rules: Record<string, AODARule>;
+  info: RulePackInfo;
+}
+
+/**
+ * Raised when a rule pack fails validation or cannot be layered on its base
+ */
+export class RulePackError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'RulePackError';
+  }
+}
+
+/**
+ * Validate a base rule pack (parsed JSON)
+ */
+export function parseRulePack(data: unknown): RulePack {
+  const result = RulePackSchema.safeParse(data);
+  if (!result.success) {
+    throw new RulePackError('Invalid rule pack', formatIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Validate an override pack (parsed JSON)
+ */
+export function parseRuleOverridePack(data: unknown): RuleOverridePack {
+  const result = RuleOverridePackSchema.safeParse(data);
+  if (!result.success) {
+    throw new RulePackError('Invalid rule override pack', formatIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Layer override packs, in order, on top of a base pack
+ * Later packs win; a rule added by an override must be complete.
+ */
+export function resolveRulePacks(
+  base: RulePack,
+  overrides: RuleOverridePack[] = []
+): ResolvedRules {
+  const rules: Record<string, AODARule> = { ...base.rules };
+
+  for (const pack of overrides) {
+    if (pack.extends.id !== base.id) {
+      throw new RulePackError(
+        `Override pack "${pack.id}" extends "${pack.extends.id}", but the base pack is "${base.id}"`
+      );
+    }
+    if (majorVersion(pack.extends.version) !== majorVersion(base.version)) {
+      throw new RulePackError(
+        `Override pack "${pack.id}" was written for ${base.id} ${pack.extends.version}, ` +
+          `which is incompatible with ${base.version}`
+      );
+    }
+
+    for (const [ruleId, override] of Object.entries(pack.rules)) {
+      const existing = rules[ruleId];
+      if (existing) {
+        rules[ruleId] = { ...existing, ...override };
+        continue;
+      }
+
+      const added = AODARuleSchema.safeParse(override);
+      if (!added.success) {
+        throw new RulePackError(
+          `Override pack "${pack.id}" adds rule "${ruleId}" without all required fields`,
+          formatIssues(added.error)
+        );
+      }
+      rules[ruleId] = added.data;
+    }
+
+    for (const ruleId of pack.disabled) {
+      delete rules[ruleId];
+    }
+  }
+
+  return {
+    rules,
+    info: {
+      id: base.id,
+      version: base.version,
+      overrides: overrides.map(({ id, version }) => ({ id, version })),
+    },
+  };
+}
+
+function majorVersion(version: string): number {
+  return Number.parseInt(version.split('.')[0], 10);
+}
+
+/**
+ * Turn zod issues into readable "path: message" strings
+ */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+}
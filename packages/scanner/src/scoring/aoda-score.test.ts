@@ -1,13 +1,14 @@
 import { describe, expect, it } from 'vitest';
+import { getJurisdiction } from '../jurisdictions/profiles';
 import type { ImpactLevel } from '../types';
 import {
-  calculateEstimatedFixTime,
   calculateScore,
   getGrade,
   getGradeColor,
   getGradeDescription,
   getNextMilestone,
   isCompliant,
+  summarizeLedger,
 } from './aoda-score';
 
 describe('AODA Scoring System', () => {
@@ -149,6 +150,20 @@ describe('AODA Scoring System', () => {
       expect(withBonus.score).toBe(withoutBonus.score + 5);
     });
 
+    it('should apply the bonus by jurisdiction', () => {
+      const scan = {
+        violations: [{ impact: 'critical' as ImpactLevel, nodes: [{ target: ['#el1'] }] }],
+        passes: 45,
+        incomplete: 0,
+        bilingualCheck: { isBilingual: true, isOntarioGov: false, isGovernment: true },
+      };
+      const base = calculateScore({ ...scan, bilingualCheck: undefined }).score;
+
+      expect(calculateScore(scan, getJurisdiction('federal')).score).toBe(base + 5);
+      expect(calculateScore(scan, getJurisdiction('eu')).score).toBe(base);
+      expect(calculateScore(scan, getJurisdiction('quebec')).score).toBe(base);
+    });
+
     it('should not exceed score of 100', () => {
       const result = calculateScore({
         violations: [],
@@ -179,6 +194,95 @@ describe('AODA Scoring System', () => {
       expect(result.score).toBe(0);
       expect(result.score).toBeGreaterThanOrEqual(0);
     });
+
+    it('should deduct manual review failures and count manual passes as checks', () => {
+      const result = calculateScore({
+        violations: [],
+        passes: 10,
+        incomplete: 2,
+        manualReview: {
+          passed: 3,
+          failed: [{ impact: 'critical' }, { impact: 'minor' }],
+        },
+      });
+
+      // 20 * log10(2) + 2 * log10(2)
+      expect(result.score).toBe(93);
+      expect(result.deductions.critical).toBe(6);
+      expect(result.breakdown.passedChecks).toBe(13);
+      expect(result.breakdown.totalChecks).toBe(15);
+      expect(result.breakdown.violationCount).toBe(2);
+    });
+
+    it('should record a ledger entry per violated rule', () => {
+      const result = calculateScore({
+        violations: [
+          { id: 'image-alt', impact: 'critical', nodes: [{ target: ['#a'] }, { target: ['#b'] }] },
+        ],
+        passes: 10,
+        incomplete: 0,
+        manualReview: { passed: 0, failed: [{ impact: 'minor', criterionId: '2.4.7' }] },
+      });
+
+      expect(result.ledger).toEqual([
+        {
+          ruleId: 'image-alt',
+          source: 'automated',
+          impact: 'critical',
+          elementCount: 2,
+          baseWeight: 20,
+          scaling: 0.48,
+          points: 9.54,
+        },
+        {
+          ruleId: '2.4.7',
+          source: 'manual-review',
+          impact: 'minor',
+          elementCount: 1,
+          baseWeight: 2,
+          scaling: 0.3,
+          points: 0.6,
+        },
+      ]);
+      expect(result.adjustments).toEqual([]);
+    });
+
+    it('should record the bilingual bonus and the clamp as adjustments', () => {
+      const result = calculateScore({
+        violations: [],
+        passes: 10,
+        incomplete: 0,
+        bilingualCheck: { isBilingual: true, isOntarioGov: true },
+      });
+
+      expect(result.score).toBe(100);
+      expect(result.adjustments).toEqual([
+        { reason: 'bilingual-bonus', points: 5 },
+        { reason: 'clamp', points: -5 },
+      ]);
+    });
+  });
+
+  describe('summarizeLedger', () => {
+    it('should reconcile the score with the ledger and adjustments', () => {
+      const result = summarizeLedger(
+        [
+          {
+            source: 'automated',
+            impact: 'serious',
+            elementCount: 9,
+            baseWeight: 10,
+            scaling: 1,
+            points: 10,
+          },
+        ],
+        [{ reason: 'bilingual-bonus', points: 5 }]
+      );
+
+      expect(result.score).toBe(95);
+      expect(result.deductions.serious).toBe(10);
+      expect(result.grade).toBe('A+');
+    });
   });
 
   describe('getGrade', () => {
@@ -249,60 +353,6 @@ describe('AODA Scoring System', () => {
     });
   });
 
-  describe('calculateEstimatedFixTime', () => {
-    it('should return 0 for no violations', () => {
-      expect(calculateEstimatedFixTime([])).toBe(0);
-    });
-
-    it('should calculate time for single violation', () => {
-      const result = calculateEstimatedFixTime([
-        {
-          fixTime: 30,
-          nodes: [{}],
-        },
-      ]);
-
-      expect(result).toBeGreaterThan(0);
-      expect(result).toBeLessThanOrEqual(30);
-    });
-
-    it('should scale time based on element count', () => {
-      const singleElement = calculateEstimatedFixTime([
-        {
-          fixTime: 30,
-          nodes: [{}],
-        },
-      ]);
-
-      const multipleElements = calculateEstimatedFixTime([
-        {
-          fixTime: 30,
-          nodes: [{}, {}, {}, {}, {}],
-        },
-      ]);
-
-      expect(multipleElements).toBeGreaterThan(singleElement);
-    });
-
-    it('should cap element multiplier at 5 elements', () => {
-      const fiveElements = calculateEstimatedFixTime([
-        {
-          fixTime: 30,
-          nodes: [{}, {}, {}, {}, {}],
-        },
-      ]);
-
-      const tenElements = calculateEstimatedFixTime([
-        {
-          fixTime: 30,
-          nodes: [{}, {}, {}, {}, {}, {}, {}, {}, {}, {}],
-        },
-      ]);
-
-      expect(tenElements).toBe(fiveElements);
-    });
-  });
-
   describe('isCompliant', () => {
     it('should return true for scores 90 and above', () => {
       expect(isCompliant(100)).toBe(true);
@@ -315,6 +365,12 @@ describe('AODA Scoring System', () => {
       expect(isCompliant(80)).toBe(false);
       expect(isCompliant(0)).toBe(false);
     });
+
+    it('should use the jurisdiction threshold', () => {
+      const strict = { ...getJurisdiction('eu'), complianceThreshold: 95 };
+      expect(isCompliant(92, strict)).toBe(false);
+      expect(isCompliant(95, strict)).toBe(true);
+    });
   });
 
   describe('getNextMilestone', () => {
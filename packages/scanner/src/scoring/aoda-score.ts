@@ -3,16 +3,37 @@
  *
  * Calculates a 0-100 compliance score for Ontario AODA requirements
  * Weighted by violation severity and Ontario penalty impact
+ * This is the default `weighted-impact` model; other strategies live in models.ts.
  */
 
-import type { ImpactLevel } from '../types';
+import { type JurisdictionProfile, getJurisdiction } from '../jurisdictions/profiles';
+import type {
+  ImpactLevel,
+  ScanScore,
+  ScoreAdjustment,
+  ScoreLedgerEntry,
+  WCAGLevel,
+} from '../types';
 
-// Impact weights based on Ontario AODA penalties
-const IMPACT_WEIGHTS: Record<ImpactLevel, number> = {
-  critical: 20, // Up to $100,000/day penalties
-  serious: 10, // Significant compliance risk
-  moderate: 5, // Important but lower priority
-  minor: 2, // Nice-to-have improvements
+export interface WeightedImpactConfig {
+  impactWeights: Record<ImpactLevel, number>; // Points per violated rule before scaling
+  elementScaling: 'log10' | 'linear' | 'none'; // How the element count scales a rule's weight
+  bilingualBonus: number; // Points for bilingual government sites, where the jurisdiction asks
+}
+
+export const WEIGHTED_IMPACT_VERSION = '1.0.0';
+
+export const DEFAULT_WEIGHTED_IMPACT_CONFIG: WeightedImpactConfig = {
+  // Impact weights based on Ontario AODA penalties
+  impactWeights: {
+    critical: 20, // Up to $100,000/day penalties
+    serious: 10, // Significant compliance risk
+    moderate: 5, // Important but lower priority
+    minor: 2, // Nice-to-have improvements
+  },
+  // Logarithmic scaling prevents a single violation from dominating the score
+  elementScaling: 'log10',
+  bilingualBonus: 5,
 };
 
 // Grade thresholds
@@ -29,83 +50,124 @@ const GRADE_THRESHOLDS = {
 
 export type Grade = keyof typeof GRADE_THRESHOLDS;
 
-export interface ScanScore {
-  score: number; // 0-100
-  grade: Grade; // A+ to F
-  maxPossibleScore: number;
-  deductions: {
-    critical: number;
-    serious: number;
-    moderate: number;
-    minor: number;
-    total: number;
-  };
-  breakdown: {
-    passedChecks: number;
-    totalChecks: number;
-    violationCount: number;
-    elementCount: number;
-  };
-}
-
 interface Violation {
+  id?: string;
   impact: ImpactLevel;
   nodes: Array<{ target: string[] }>;
+  wcagLevel?: WCAGLevel;
 }
 
-interface ScanResult {
+// The parts of a scan result the scoring models read
+export interface ScoreInput {
   violations: Violation[];
   passes: number;
   incomplete: number;
   bilingualCheck?: {
     isBilingual: boolean;
     isOntarioGov: boolean;
+    isGovernment?: boolean;
+  };
+  // Auditor decisions on criteria automation cannot verify
+  manualReview?: {
+    passed: number;
+    failed: Array<{ impact: ImpactLevel; criterionId?: string }>;
   };
 }
 
 /**
  * Calculate AODA compliance score for a single page
+ * The jurisdiction decides whether bilingual government sites earn the bonus.
+ * The ledger records what each violated rule cost, so the score can be explained.
  */
-export function calculateScore(scanResult: ScanResult): ScanScore {
-  let score = 100;
-
-  const deductions = {
-    critical: 0,
-    serious: 0,
-    moderate: 0,
-    minor: 0,
-    total: 0,
-  };
-
-  let totalElements = 0;
+export function calculateScore(
+  scanResult: ScoreInput,
+  profile: JurisdictionProfile = getJurisdiction(),
+  config: WeightedImpactConfig = DEFAULT_WEIGHTED_IMPACT_CONFIG
+): ScanScore {
+  const ledger: ScoreLedgerEntry[] = [];
 
   // Calculate deductions for each violation
   for (const violation of scanResult.violations) {
     const elementCount = violation.nodes.length;
-    totalElements += elementCount;
+    // Get weight for this impact level, scaled by the number of elements (logarithmic by default)
+    const baseWeight = config.impactWeights[violation.impact];
+    const scaling = scaleElements(elementCount, config.elementScaling);
 
-    // Get weight for this impact level
-    const baseWeight = IMPACT_WEIGHTS[violation.impact];
+    ledger.push({
+      ruleId: violation.id,
+      source: 'automated',
+      impact: violation.impact,
+      elementCount,
+      baseWeight,
+      scaling,
+      points: baseWeight * scaling,
+    });
+  }
 
-    // Apply logarithmic scaling for multiple elements
-    // This prevents a single violation from dominating the score
-    const penalty = baseWeight * Math.log10(elementCount + 1);
+  // Manual review failures count like a violation on a single element
+  const manualFailures = scanResult.manualReview?.failed ?? [];
+  for (const failure of manualFailures) {
+    const baseWeight = config.impactWeights[failure.impact];
+    const scaling = scaleElements(1, config.elementScaling);
 
-    deductions[violation.impact] += penalty;
-    deductions.total += penalty;
-    score -= penalty;
+    ledger.push({
+      ruleId: failure.criterionId,
+      source: 'manual-review',
+      impact: failure.impact,
+      elementCount: 1,
+      baseWeight,
+      scaling,
+      points: baseWeight * scaling,
+    });
   }
+  const manualPasses = scanResult.manualReview?.passed ?? 0;
 
-  // Apply bilingual bonus for Ontario government sites
-  if (scanResult.bilingualCheck?.isBilingual && scanResult.bilingualCheck?.isOntarioGov) {
-    score += 5; // 5-point bonus for bilingual compliance
+  // Apply bilingual bonus for government sites of jurisdictions with official languages
+  const adjustments: ScoreAdjustment[] = [];
+  if (earnsBilingualBonus(scanResult, profile)) {
+    adjustments.push({ reason: 'bilingual-bonus', points: config.bilingualBonus });
   }
 
-  // Floor at 0, ceil at 100
-  score = Math.max(0, Math.min(100, score));
+  return {
+    ...summarizeLedger(ledger, adjustments),
+    breakdown: {
+      passedChecks: scanResult.passes + manualPasses,
+      totalChecks:
+        scanResult.passes + manualPasses + scanResult.violations.length + manualFailures.length,
+      violationCount: scanResult.violations.length + manualFailures.length,
+      elementCount: scanResult.violations.reduce((sum, v) => sum + v.nodes.length, 0),
+    },
+    model: { id: 'weighted-impact', version: WEIGHTED_IMPACT_VERSION },
+  };
+}
 
-  // Round to whole number
-  score = Math.round(score);
+/**
+ * Score, grade and deductions from a ledger: 100 less the deducted points, plus
+ * adjustments, floored at 0 and capped at 100 (the clamp is recorded as an adjustment)
+ */
+export function summarizeLedger(
+  ledger: ScoreLedgerEntry[],
+  adjustments: ScoreAdjustment[] = []
+): Pick<
+  ScanScore,
+  'score' | 'grade' | 'maxPossibleScore' | 'deductions' | 'ledger' | 'adjustments'
+> {
+  const deductions = { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 };
+  for (const entry of ledger) {
+    deductions[entry.impact] += entry.points;
+    deductions.total += entry.points;
+  }
+
+  const raw = adjustments.reduce(
+    (sum, adjustment) => sum + adjustment.points,
+    100 - deductions.total
+  );
+  const clamped = Math.max(0, Math.min(100, raw));
+  const applied =
+    clamped === raw
+      ? adjustments
+      : [...adjustments, { reason: 'clamp' as const, points: clamped - raw }];
+  const score = Math.round(clamped);
 
   return {
     score,
@@ -118,15 +180,43 @@ export function calculateScore(scanResult: ScanResult): ScanScore {
       minor: Math.round(deductions.minor),
       total: Math.round(deductions.total),
     },
-    breakdown: {
-      passedChecks: scanResult.passes,
-      totalChecks: scanResult.passes + scanResult.violations.length,
-      violationCount: scanResult.violations.length,
-      elementCount: totalElements,
-    },
+    ledger: ledger.map((entry) => ({
+      ...entry,
+      scaling: roundPoints(entry.scaling),
+      points: roundPoints(entry.points),
+    })),
+    adjustments: applied.map((adjustment) => ({
+      ...adjustment,
+      points: roundPoints(adjustment.points),
+    })),
   };
 }
 
+/**
+ * Whether a page earns the bilingual bonus: a bilingual government site in a
+ * jurisdiction with official languages (results from before profiles only carry
+ * the Ontario flag)
+ */
+export function earnsBilingualBonus(scanResult: ScoreInput, profile: JurisdictionProfile): boolean {
+  const bilingual = scanResult.bilingualCheck;
+  return (
+    profile.bilingual.requiredFor === 'government' &&
+    !!bilingual?.isBilingual &&
+    (bilingual.isGovernment ?? bilingual.isOntarioGov)
+  );
+}
+
+// Ledger values keep two decimals; scores are rounded only at the end
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+function scaleElements(count: number, scaling: WeightedImpactConfig['elementScaling']): number {
+  if (scaling === 'linear') return count;
+  if (scaling === 'none') return 1;
+  return Math.log10(count + 1);
+}
+
 /**
  * Convert numeric score to letter grade
  */
@@ -176,32 +266,15 @@ export function getGradeDescription(grade: Grade): string {
 }
 
 /**
- * Calculate estimated fix time based on violations
- */
-export function calculateEstimatedFixTime(
-  violations: Array<{ fixTime?: number; nodes: Array<unknown> }>
-): number {
-  let totalMinutes = 0;
-
-  for (const violation of violations) {
-    if (violation.fixTime) {
-      // Fix time is per violation type, not per element
-      // But we add a small multiplier for multiple instances
-      const elementMultiplier = Math.min(violation.nodes.length, 5) / 5;
-      totalMinutes += violation.fixTime * (0.5 + elementMultiplier * 0.5);
-    }
-  }
-
-  return Math.round(totalMinutes);
-}
-
-/**
- * Determine if score meets AODA compliance threshold
+ * Determine if score meets the jurisdiction's compliance threshold
  */
-export function isCompliant(score: number): boolean {
+export function isCompliant(
+  score: number,
+  profile: JurisdictionProfile = getJurisdiction()
+): boolean {
   // AODA compliance requires addressing all critical violations
-  // We consider 90+ as compliant (Grade A)
-  return score >= 90;
+  // Profiles consider 90+ as compliant (Grade A)
+  return score >= profile.complianceThreshold;
 }
 
 /**
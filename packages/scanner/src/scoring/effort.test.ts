@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { estimateEffort, formatEffort } from './effort';
+
+const nodes = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    target: [`main > img.${prefix}${i}`],
+    html: `<img src="/${prefix}-${i}.jpg">`,
+  }));
+
+const header = { target: ['header > a'], html: '<a href="/"><svg></svg></a>' };
+
+describe('Effort estimation', () => {
+  describe('estimateEffort', () => {
+    it('should return no effort for no violations', () => {
+      expect(estimateEffort([])).toEqual({ minutes: 0, low: 0, high: 0, lines: [] });
+    });
+
+    it('should add a marginal effort for each further element', () => {
+      const result = estimateEffort([
+        {
+          violations: [
+            { id: 'image-alt', impact: 'critical', estimatedFixTime: 10, nodes: nodes('a', 6) },
+          ],
+        },
+      ]);
+
+      // 10 for the first image, then 2 (20% of 10) for each of the other five
+      expect(result.lines[0]).toMatchObject({ instances: 6, base: 10, perInstance: 2 });
+      expect(result.minutes).toBe(20);
+      expect(result.low).toBe(15);
+      expect(result.high).toBe(30);
+    });
+
+    it('should count shared components once across pages', () => {
+      const page = (path: string) => ({
+        violations: [
+          { id: 'link-name', impact: 'serious' as const, estimatedFixTime: 15, nodes: [header] },
+          {
+            id: 'image-alt',
+            impact: 'critical' as const,
+            estimatedFixTime: 10,
+            nodes: nodes(path, 1),
+          },
+        ],
+      });
+      const result = estimateEffort(Array.from({ length: 40 }, (_, i) => page(`p${i}`)));
+
+      expect(result.lines.find((line) => line.ruleId === 'link-name')).toMatchObject({
+        instances: 1,
+        minutes: 15,
+      });
+      // Forty different images: 10 + 39 × 2
+      expect(result.lines.find((line) => line.ruleId === 'image-alt')?.minutes).toBe(88);
+      expect(result.lines[0].ruleId).toBe('image-alt');
+    });
+
+    it('should fall back to impact defaults with a wider range', () => {
+      const result = estimateEffort([
+        { violations: [{ id: 'custom-rule', impact: 'serious', nodes: nodes('c', 1) }] },
+      ]);
+
+      expect(result.lines[0]).toMatchObject({ base: 20, defaulted: true });
+      expect(result.high).toBe(40);
+    });
+
+    it('should apply per-rule overrides and skip failed pages', () => {
+      const violations = [
+        {
+          id: 'color-contrast',
+          impact: 'serious' as const,
+          estimatedFixTime: 15,
+          nodes: nodes('x', 3),
+        },
+      ];
+      const result = estimateEffort(
+        [{ violations }, { error: 'Timeout', violations: [{ ...violations[0], id: 'label' }] }],
+        { rules: { 'color-contrast': { base: 60, perInstance: 1 } } }
+      );
+
+      expect(result.lines).toHaveLength(1);
+      expect(result.minutes).toBe(62);
+    });
+  });
+
+  describe('formatEffort', () => {
+    it('should show minutes under an hour and half hours above', () => {
+      expect(formatEffort({ low: 15, high: 30 })).toBe('15–30 min');
+      expect(formatEffort({ low: 100, high: 260 })).toBe('1.5–4.5 h');
+    });
+
+    it('should show a single value for equal bounds', () => {
+      expect(formatEffort({ low: 20, high: 20 })).toBe('20 min');
+      expect(formatEffort({ low: 150, high: 150 })).toBe('2.5 h');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Effort Estimation
+ *
+ * Estimates the work to fix a page or a site for sprint planning and quotes:
+ * - Each failed rule costs a base effort once (its rule pack fix time: finding
+ *   the pattern, writing and testing the fix) plus a marginal effort for every
+ *   further element it fails on
+ * - Elements are counted by fingerprint, so a header failing on forty pages is
+ *   one element, fixed once
+ * - Totals come with a range: estimates run over more often than under, and
+ *   rules without a fix time are less certain still
+ */
+
+import { fingerprintNode } from '../findings/fingerprint';
+import type { EffortEstimate, EffortLine, ImpactLevel, ResultNode } from '../types';
+
+export interface EffortConfig {
+  marginalRate: number; // Each further element, as a share of the base effort
+  defaultBase: Record<ImpactLevel, number>; // Minutes, for rules without a fix time
+  rules: Record<string, { base?: number; perInstance?: number }>; // Per-rule overrides
+  range: {
+    low: number;
+    high: number;
+    defaultedHigh: number; // Upper bound for rules without a fix time
+  };
+}
+
+export const DEFAULT_EFFORT_CONFIG: EffortConfig = {
+  marginalRate: 0.2,
+  defaultBase: { critical: 30, serious: 20, moderate: 15, minor: 10 },
+  rules: {},
+  range: { low: 0.75, high: 1.5, defaultedHigh: 2 },
+};
+
+// The parts of a page result estimation reads
+export interface EffortPage {
+  error?: string;
+  violations: Array<{
+    id: string;
+    impact: ImpactLevel;
+    estimatedFixTime?: number;
+    nodes: Array<Pick<ResultNode, 'target' | 'html'>>;
+  }>;
+}
+
+/**
+ * Estimate the effort to fix every violation across pages (skipping failed ones)
+ */
+export function estimateEffort(
+  pages: EffortPage[],
+  config: Partial<EffortConfig> = {}
+): EffortEstimate {
+  const settings = { ...DEFAULT_EFFORT_CONFIG, ...config };
+  const rules = new Map<string, { impact: ImpactLevel; fixTime?: number; prints: Set<string> }>();
+
+  for (const page of pages) {
+    if (page.error) continue;
+    for (const violation of page.violations) {
+      const rule = rules.get(violation.id) ?? {
+        impact: violation.impact,
+        fixTime: violation.estimatedFixTime,
+        prints: new Set<string>(),
+      };
+      for (const node of violation.nodes) rule.prints.add(fingerprintNode(violation.id, node));
+      rules.set(violation.id, rule);
+    }
+  }
+
+  const lines = [...rules].map(([ruleId, rule]): EffortLine => {
+    const override = settings.rules[ruleId] ?? {};
+    const defaulted = override.base === undefined && !rule.fixTime;
+    const base = override.base ?? (rule.fixTime || settings.defaultBase[rule.impact]);
+    const perInstance = override.perInstance ?? base * settings.marginalRate;
+    const instances = Math.max(rule.prints.size, 1);
+
+    return {
+      ruleId,
+      impact: rule.impact,
+      instances,
+      base,
+      perInstance: round(perInstance),
+      minutes: round(base + perInstance * (instances - 1)),
+      defaulted,
+    };
+  });
+
+  const sum = (minutes: (line: EffortLine) => number) =>
+    Math.round(lines.reduce((total, line) => total + minutes(line), 0));
+
+  return {
+    minutes: sum((line) => line.minutes),
+    low: sum((line) => line.minutes * settings.range.low),
+    high: sum(
+      (line) => line.minutes * (line.defaulted ? settings.range.defaultedHigh : settings.range.high)
+    ),
+    lines: lines.sort((a, b) => b.minutes - a.minutes),
+  };
+}
+
+/**
+ * Effort range for display: "20–45 min" or, from an hour up, "2–4.5 h"; a range
+ * with equal bounds shows a single value ("45 min", "2.5 h")
+ */
+export function formatEffort(estimate: Pick<EffortEstimate, 'low' | 'high'>): string {
+  const format = (low: number, high: number) => (low === high ? `${low}` : `${low}–${high}`);
+  if (estimate.high < 60) return `${format(estimate.low, estimate.high)} min`;
+  const hours = (minutes: number) => Math.round((minutes / 60) * 2) / 2;
+  return `${format(hours(estimate.low), hours(estimate.high))} h`;
+}
+
+function round(minutes: number): number {
+  return Math.round(minutes * 10) / 10;
+}
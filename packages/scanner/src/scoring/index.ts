@@ -3,9 +3,54 @@ export {
   getGrade,
   getGradeColor,
   getGradeDescription,
-  calculateEstimatedFixTime,
   isCompliant,
   getNextMilestone,
-  type ScanScore,
+  summarizeLedger,
+  DEFAULT_WEIGHTED_IMPACT_CONFIG,
+  WEIGHTED_IMPACT_VERSION,
   type Grade,
+  type ScoreInput,
+  type WeightedImpactConfig,
 } from './aoda-score';
+export {
+  SCORING_MODELS,
+  DEFAULT_SCORING_MODEL,
+  getScoringModel,
+  scorePage,
+  scoreSite,
+  formatScoringModel,
+  getPageWeight,
+  type CriterionCapConfig,
+  type PageScore,
+  type PageWeightedConfig,
+  type PassRatioConfig,
+  type ScoringConfigs,
+  type ScoringModel,
+  type ScoringOptions,
+  type SiteScore,
+} from './models';
+export {
+  scoreIfFixed,
+  rankFixes,
+  planNextMilestone,
+  type FixGain,
+  type MilestonePlan,
+  type WhatIfOptions,
+  type WhatIfResult,
+} from './what-if';
+export {
+  scoreSitePages,
+  groupPagesByTemplate,
+  getPageImportance,
+  KEY_PAGE_WEIGHT,
+  type SitePage,
+  type SiteScoreSummary,
+  type SiteScoringOptions,
+} from './site-score';
+export {
+  estimateEffort,
+  formatEffort,
+  DEFAULT_EFFORT_CONFIG,
+  type EffortConfig,
+  type EffortPage,
+} from './effort';
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { getJurisdiction } from '../jurisdictions/profiles';
+import type { ImpactLevel, WCAGLevel } from '../types';
+import { calculateScore } from './aoda-score';
+import {
+  DEFAULT_SCORING_MODEL,
+  SCORING_MODELS,
+  formatScoringModel,
+  getPageWeight,
+  getScoringModel,
+  scorePage,
+  scoreSite,
+} from './models';
+
+const violation = (impact: ImpactLevel, wcagLevel?: WCAGLevel, elements = 1) => ({
+  impact,
+  wcagLevel,
+  nodes: Array.from({ length: elements }, (_, i) => ({ target: [`#el${i}`] })),
+});
+
+describe('Scoring models', () => {
+  describe('getScoringModel', () => {
+    it('should fall back to weighted-impact for unknown or missing ids', () => {
+      expect(getScoringModel().id).toBe(DEFAULT_SCORING_MODEL);
+      expect(getScoringModel('unknown').id).toBe('weighted-impact');
+      expect(getScoringModel('pass-ratio').id).toBe('pass-ratio');
+    });
+
+    it('should give every model a version and defaults', () => {
+      for (const model of Object.values(SCORING_MODELS)) {
+        expect(model.version).toMatch(/^\d+\.\d+\.\d+$/);
+        expect(model.defaults).toBeDefined();
+      }
+    });
+  });
+
+  describe('scorePage', () => {
+    const input = { violations: [violation('serious', 'AA', 3)], passes: 40, incomplete: 0 };
+
+    it('should match calculateScore for weighted-impact and record the model', () => {
+      const result = scorePage('weighted-impact', input);
+
+      expect(result.score).toBe(calculateScore(input).score);
+      expect(result.model).toEqual({ id: 'weighted-impact', version: '1.0.0' });
+    });
+
+    it('should apply and record config that differs from the defaults', () => {
+      const result = scorePage('weighted-impact', input, {
+        config: { elementScaling: 'linear', bilingualBonus: 5 },
+      });
+
+      expect(result.score).toBe(70);
+      expect(result.model?.config).toEqual({ elementScaling: 'linear' });
+    });
+
+    it('should score the weighted share of passed checks for pass-ratio', () => {
+      const result = scorePage('pass-ratio', {
+        violations: [violation('critical'), violation('minor')],
+        passes: 45,
+        incomplete: 0,
+      });
+
+      // 45 passes against 4 + 1 weighted failures
+      expect(result.score).toBe(90);
+      expect(result.deductions.total).toBe(10);
+      expect(result.deductions.critical).toBe(8);
+      expect(result.model?.id).toBe('pass-ratio');
+    });
+
+    it('should score 100 with pass-ratio when nothing was checked', () => {
+      expect(scorePage('pass-ratio', { violations: [], passes: 0, incomplete: 0 }).score).toBe(100);
+    });
+
+    it('should cap the score while a Level A criterion fails', () => {
+      const levelA = { violations: [violation('minor', 'A')], passes: 40, incomplete: 0 };
+
+      expect(calculateScore(levelA).score).toBeGreaterThan(69);
+      expect(scorePage('criterion-cap', levelA).score).toBe(69);
+      expect(scorePage('criterion-cap', levelA).grade).toBe('D');
+    });
+
+    it('should cap Level AA failures below grade A', () => {
+      const levelAA = { violations: [violation('minor', 'AA')], passes: 40, incomplete: 0 };
+
+      expect(scorePage('criterion-cap', levelAA).score).toBe(89);
+      expect(scorePage('criterion-cap', levelAA, { config: { caps: { A: 69 } } }).score).toBe(99);
+    });
+
+    it('should apply the bilingual bonus only where the jurisdiction asks', () => {
+      const bilingual = {
+        violations: [violation('critical')],
+        passes: 45,
+        incomplete: 0,
+        bilingualCheck: { isBilingual: true, isOntarioGov: true },
+      };
+
+      expect(scorePage('pass-ratio', bilingual).score).toBe(97);
+      expect(
+        scorePage('pass-ratio', bilingual, { jurisdiction: getJurisdiction('eu') }).score
+      ).toBe(92);
+    });
+  });
+
+  describe('scoreSite', () => {
+    const pages = [
+      { url: 'https://example.ca/', score: 100 },
+      { url: 'https://example.ca/about', score: 60 },
+    ];
+
+    it('should average page scores for most models', () => {
+      expect(scoreSite('weighted-impact', pages)).toEqual({
+        score: 80,
+        grade: 'B',
+        model: { id: 'weighted-impact', version: '1.0.0' },
+      });
+    });
+
+    it('should weigh the home page more for page-weighted', () => {
+      expect(scoreSite('page-weighted', pages).score).toBe(90);
+    });
+
+    it('should apply supplied weights instead of the page weights', () => {
+      const weighted = [
+        { ...pages[0], weight: 3 },
+        { ...pages[1], weight: 1 },
+      ];
+      expect(scoreSite('page-weighted', weighted).score).toBe(90);
+    });
+
+    it('should score 0 for no pages', () => {
+      expect(scoreSite('page-weighted', []).score).toBe(0);
+    });
+  });
+
+  describe('formatScoringModel', () => {
+    it('should name the model, version and custom config', () => {
+      expect(formatScoringModel({ id: 'pass-ratio', version: '1.0.0' })).toBe('Pass ratio 1.0.0');
+      expect(
+        formatScoringModel({
+          id: 'weighted-impact',
+          version: '1.0.0',
+          config: { bilingualBonus: 0 },
+        })
+      ).toBe('Weighted impact 1.0.0 (custom)');
+    });
+
+    it('should describe scores from before models as weighted-impact', () => {
+      expect(formatScoringModel()).toBe('Weighted impact 1.0.0');
+    });
+  });
+
+  describe('getPageWeight', () => {
+    const config = {
+      ...SCORING_MODELS['page-weighted'].defaults,
+      pageWeights: [
+        { pathPrefix: '/services', weight: 2 },
+        { pathPrefix: '/services/apply', weight: 4 },
+      ],
+    };
+
+    it('should use the longest matching path prefix', () => {
+      expect(getPageWeight('https://example.ca/services/apply/form', config)).toBe(4);
+      expect(getPageWeight('https://example.ca/services/list', config)).toBe(2);
+      expect(getPageWeight('https://example.ca/news', config)).toBe(1);
+      expect(getPageWeight('https://example.ca/', config)).toBe(3);
+    });
+
+    it('should weigh unparseable URLs as 1', () => {
+      expect(getPageWeight('not a url', config)).toBe(1);
+    });
+  });
+});
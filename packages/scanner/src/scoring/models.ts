@@ -0,0 +1,295 @@
+/**
+ * Scoring Models
+ *
+ * Interchangeable strategies for turning scan results into a 0-100 score:
+ * - weighted-impact: severity-weighted deductions with log scaling (the original model)
+ * - pass-ratio: share of passed checks, with failures weighted by severity
+ * - criterion-cap: weighted-impact, but any failed Level A (or AA) criterion caps the score
+ * - page-weighted: weighted-impact pages, averaged by page importance for site scores
+ *
+ * Each model has typed config with defaults and a version, recorded on every score
+ * so results stay comparable when a model or its config changes.
+ */
+
+import { type JurisdictionProfile, getJurisdiction } from '../jurisdictions/profiles';
+import type {
+  ImpactLevel,
+  ScanScore,
+  ScoreAdjustment,
+  ScoringModelId,
+  ScoringModelRef,
+  WCAGLevel,
+} from '../types';
+import {
+  DEFAULT_WEIGHTED_IMPACT_CONFIG,
+  type Grade,
+  type ScoreInput,
+  WEIGHTED_IMPACT_VERSION,
+  type WeightedImpactConfig,
+  calculateScore,
+  earnsBilingualBonus,
+  getGrade,
+  summarizeLedger,
+} from './aoda-score';
+
+export interface PassRatioConfig {
+  failureWeights: Record<ImpactLevel, number>; // Failed checks each rule counts as
+  bilingualBonus: number;
+}
+
+export interface CriterionCapConfig extends WeightedImpactConfig {
+  caps: Partial<Record<WCAGLevel, number>>; // Highest score with a failure at the level
+}
+
+export interface PageWeightedConfig extends WeightedImpactConfig {
+  homePageWeight: number;
+  // Weight of pages under a path prefix; the longest matching prefix wins, others weigh 1
+  pageWeights: Array<{ pathPrefix: string; weight: number }>;
+}
+
+export interface ScoringConfigs {
+  'weighted-impact': WeightedImpactConfig;
+  'pass-ratio': PassRatioConfig;
+  'criterion-cap': CriterionCapConfig;
+  'page-weighted': PageWeightedConfig;
+}
+
+// A scanned page's (or page template's) contribution to a site score
+export interface PageScore {
+  url: string;
+  score: number;
+  weight?: number; // Importance or traffic weight (default 1, or the model's page weight)
+}
+
+export interface ScoringModel<C> {
+  id: ScoringModelId;
+  version: string;
+  name: string;
+  description: string;
+  defaults: C;
+  scorePage(input: ScoreInput, config: C, profile: JurisdictionProfile): ScanScore;
+  scoreSite(pages: PageScore[], config: C): number;
+}
+
+export interface ScoringOptions<K extends ScoringModelId> {
+  config?: Partial<ScoringConfigs[K]>;
+  jurisdiction?: JurisdictionProfile;
+}
+
+export interface SiteScore {
+  score: number;
+  grade: Grade;
+  model: ScoringModelRef;
+}
+
+const CRITERION_CAP_ORDER: WCAGLevel[] = ['A', 'AA', 'AAA'];
+
+const weightedImpact: ScoringModel<WeightedImpactConfig> = {
+  id: 'weighted-impact',
+  version: WEIGHTED_IMPACT_VERSION,
+  name: 'Weighted impact',
+  description: 'Deducts severity weights per violated rule, scaled by affected elements',
+  defaults: DEFAULT_WEIGHTED_IMPACT_CONFIG,
+  scorePage: (input, config, profile) => calculateScore(input, profile, config),
+  scoreSite: weightedMeanScore,
+};
+
+const passRatio: ScoringModel<PassRatioConfig> = {
+  id: 'pass-ratio',
+  version: '1.0.0',
+  name: 'Pass ratio',
+  description: 'Share of checks passed, with failures weighted by severity',
+  defaults: {
+    failureWeights: { critical: 4, serious: 3, moderate: 2, minor: 1 },
+    bilingualBonus: 5,
+  },
+  scorePage: (input, config, profile) => {
+    const failures = [
+      ...input.violations.map((violation) => ({
+        ruleId: violation.id,
+        source: 'automated' as const,
+        impact: violation.impact,
+        elementCount: violation.nodes.length,
+      })),
+      ...(input.manualReview?.failed ?? []).map((failure) => ({
+        ruleId: failure.criterionId,
+        source: 'manual-review' as const,
+        impact: failure.impact,
+        elementCount: 1,
+      })),
+    ];
+    const passes = input.passes + (input.manualReview?.passed ?? 0);
+    const failed = failures.reduce(
+      (sum, failure) => sum + config.failureWeights[failure.impact],
+      0
+    );
+    const ratio = passes + failed > 0 ? (100 * passes) / (passes + failed) : 100;
+
+    // Each failure costs its share of the lost points, by weight
+    const ledger = failures.map((failure) => {
+      const baseWeight = config.failureWeights[failure.impact];
+      return {
+        ...failure,
+        baseWeight,
+        scaling: 1,
+        points: failed > 0 ? ((100 - ratio) * baseWeight) / failed : 0,
+      };
+    });
+    const adjustments: ScoreAdjustment[] = earnsBilingualBonus(input, profile)
+      ? [{ reason: 'bilingual-bonus', points: config.bilingualBonus }]
+      : [];
+
+    return {
+      ...summarizeLedger(ledger, adjustments),
+      breakdown: {
+        passedChecks: passes,
+        totalChecks: passes + failures.length,
+        violationCount: failures.length,
+        elementCount: input.violations.reduce((sum, v) => sum + v.nodes.length, 0),
+      },
+    };
+  },
+  scoreSite: weightedMeanScore,
+};
+
+const criterionCap: ScoringModel<CriterionCapConfig> = {
+  id: 'criterion-cap',
+  version: '1.0.0',
+  name: 'Criterion cap',
+  description: 'Weighted impact, capped below grade A while any Level A or AA criterion fails',
+  defaults: { ...DEFAULT_WEIGHTED_IMPACT_CONFIG, caps: { A: 69, AA: 89 } },
+  scorePage: (input, config, profile) => {
+    const result = calculateScore(input, profile, config);
+    // The strictest level failed sets the cap (Level A before AA)
+    const failed = new Set(input.violations.map((violation) => violation.wcagLevel));
+    const level = CRITERION_CAP_ORDER.find(
+      (candidate) => failed.has(candidate) && config.caps[candidate] !== undefined
+    );
+    const cap = level ? config.caps[level] : undefined;
+    if (cap === undefined || result.score <= cap) return result;
+    return {
+      ...result,
+      score: cap,
+      grade: getGrade(cap),
+      adjustments: [
+        ...(result.adjustments ?? []),
+        { reason: 'criterion-cap', points: cap - result.score },
+      ],
+    };
+  },
+  scoreSite: weightedMeanScore,
+};
+
+const pageWeighted: ScoringModel<PageWeightedConfig> = {
+  id: 'page-weighted',
+  version: '1.0.0',
+  name: 'Page weighted',
+  description: 'Weighted impact per page; site scores weigh the home page and key sections more',
+  defaults: { ...DEFAULT_WEIGHTED_IMPACT_CONFIG, homePageWeight: 3, pageWeights: [] },
+  scorePage: (input, config, profile) => calculateScore(input, profile, config),
+  scoreSite: (pages, config) => {
+    let weighted = 0;
+    let total = 0;
+    for (const page of pages) {
+      // A supplied weight already accounts for the page's importance
+      const weight = page.weight ?? getPageWeight(page.url, config);
+      weighted += page.score * weight;
+      total += weight;
+    }
+    return total > 0 ? Math.round(weighted / total) : 0;
+  },
+};
+
+export const SCORING_MODELS: { [K in ScoringModelId]: ScoringModel<ScoringConfigs[K]> } = {
+  'weighted-impact': weightedImpact,
+  'pass-ratio': passRatio,
+  'criterion-cap': criterionCap,
+  'page-weighted': pageWeighted,
+};
+
+export const DEFAULT_SCORING_MODEL: ScoringModelId = 'weighted-impact';
+
+/**
+ * Model for an id, falling back to weighted-impact for unknown or missing ids
+ * (settings and results saved before models existed)
+ */
+export function getScoringModel(id?: string | null): ScoringModel<unknown> {
+  const key = id && id in SCORING_MODELS ? (id as ScoringModelId) : DEFAULT_SCORING_MODEL;
+  return SCORING_MODELS[key] as ScoringModel<unknown>;
+}
+
+/**
+ * Score a page with a model, recording the model, version and any config that
+ * differs from its defaults
+ */
+export function scorePage<K extends ScoringModelId>(
+  id: K,
+  input: ScoreInput,
+  options: ScoringOptions<K> = {}
+): ScanScore {
+  const model = getScoringModel(id);
+  const config = resolveConfig(model, options.config);
+  const result = model.scorePage(input, config, options.jurisdiction ?? getJurisdiction());
+  return { ...result, model: describeModel(model, options.config) };
+}
+
+/**
+ * Aggregate page scores into a site score with a model
+ */
+export function scoreSite<K extends ScoringModelId>(
+  id: K,
+  pages: PageScore[],
+  options: Pick<ScoringOptions<K>, 'config'> = {}
+): SiteScore {
+  const model = getScoringModel(id);
+  const score = pages.length > 0 ? model.scoreSite(pages, resolveConfig(model, options.config)) : 0;
+  return { score, grade: getGrade(score), model: describeModel(model, options.config) };
+}
+
+/**
+ * Model name and version for reports ("Pass ratio 1.0.0"); scores without a
+ * recorded model predate models and used weighted-impact
+ */
+export function formatScoringModel(ref?: ScoringModelRef): string {
+  const model = getScoringModel(ref?.id);
+  const custom = ref?.config ? ' (custom)' : '';
+  return `${model.name} ${ref?.version ?? model.version}${custom}`;
+}
+
+/**
+ * Weight of a page in page-weighted site scores
+ */
+export function getPageWeight(url: string, config: PageWeightedConfig): number {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return 1;
+  }
+  if (path === '/' || path === '') return config.homePageWeight;
+
+  const match = config.pageWeights
+    .filter((entry) => path.startsWith(entry.pathPrefix))
+    .sort((a, b) => b.pathPrefix.length - a.pathPrefix.length)[0];
+  return match?.weight ?? 1;
+}
+
+function weightedMeanScore(pages: PageScore[]): number {
+  const total = pages.reduce((sum, page) => sum + (page.weight ?? 1), 0);
+  if (total === 0) return 0;
+  return Math.round(pages.reduce((sum, page) => sum + page.score * (page.weight ?? 1), 0) / total);
+}
+
+function resolveConfig<C>(model: ScoringModel<C>, overrides?: Partial<C>): C {
+  return { ...model.defaults, ...overrides };
+}
+
+function describeModel<C>(model: ScoringModel<C>, overrides?: Partial<C>): ScoringModelRef {
+  // Only keep settings that change the result, so default scores stay comparable
+  const changed = Object.entries(overrides ?? {}).filter(
+    ([key, value]) => JSON.stringify(value) !== JSON.stringify(model.defaults[key as keyof C])
+  );
+  return changed.length > 0
+    ? { id: model.id, version: model.version, config: Object.fromEntries(changed) }
+    : { id: model.id, version: model.version };
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { getPageImportance, groupPagesByTemplate, scoreSitePages } from './site-score';
+
+const page = (path: string, score: number, violations: Array<[string, number]> = []) => ({
+  url: `https://shop.example.ca${path}`,
+  score,
+  violations: violations.map(([id, elements]) => ({
+    id,
+    impact: 'serious',
+    description: `${id} description`,
+    nodes: Array.from({ length: elements }, (_, i) => ({
+      target: [`#${id}-${i}`],
+      html: `<div id="${id}-${i}"></div>`,
+    })),
+  })),
+});
+
+const blogPosts = (count: number, score = 100, violations: Array<[string, number]> = []) =>
+  Array.from({ length: count }, (_, i) =>
+    page(`/blog/how-to-choose-a-winter-coat-part-${i}`, score, violations)
+  );
+
+describe('Site scoring', () => {
+  describe('groupPagesByTemplate', () => {
+    it('should group templated pages under one template', () => {
+      const groups = groupPagesByTemplate([page('/', 90), ...blogPosts(6), page('/checkout', 40)]);
+
+      expect([...groups.keys()]).toEqual(['/', '/blog/:slug', '/checkout']);
+      expect(groups.get('/blog/:slug')).toHaveLength(6);
+    });
+  });
+
+  describe('getPageImportance', () => {
+    it('should weigh the home page, high-value and transaction pages more', () => {
+      expect(getPageImportance('https://shop.example.ca/')).toBe(3);
+      expect(getPageImportance('https://shop.example.ca/contact')).toBe(3);
+      expect(getPageImportance('https://shop.example.ca/checkout/payment')).toBe(3);
+      expect(getPageImportance('https://shop.example.ca/about')).toBe(1);
+    });
+  });
+
+  describe('scoreSitePages', () => {
+    it('should not let many clean templated pages hide a broken checkout', () => {
+      const pages = [page('/', 90), ...blogPosts(400), page('/checkout', 30)];
+      const mean = Math.round(pages.reduce((sum, p) => sum + p.score, 0) / pages.length);
+      const result = scoreSitePages(pages);
+
+      expect(mean).toBe(100);
+      // Home (3) at 90, blog template (1) at 100, checkout (3) at 30
+      expect(result.score).toBe(66);
+      expect(result.grade).toBe('D');
+      expect(result.templates).toContainEqual({
+        template: '/blog/:slug',
+        pages: 400,
+        score: 100,
+        weight: 1,
+      });
+    });
+
+    it('should weight templates by traffic when known', () => {
+      const pages = [page('/', 90), page('/about', 50)];
+      const result = scoreSitePages(pages, {
+        traffic: { 'https://shop.example.ca/': 100, 'https://shop.example.ca/about': 300 },
+      });
+
+      expect(result.score).toBe(60);
+      expect(result.templates.map((t) => t.weight)).toEqual([100, 300]);
+    });
+
+    it('should weigh compliance by template', () => {
+      const result = scoreSitePages([page('/', 95), ...blogPosts(6, 80), page('/checkout', 92)]);
+
+      // Home and checkout comply (3 + 3), the blog template does not (1)
+      expect(result.complianceRate).toBe(86);
+    });
+
+    it('should count shared elements once and flag systemic rules', () => {
+      const result = scoreSitePages([
+        page('/', 80, [['region', 2]]),
+        ...blogPosts(6, 80, [
+          ['region', 2],
+          ['image-alt', 3],
+        ]),
+        page('/checkout', 80, [
+          ['region', 2],
+          ['label', 1],
+        ]),
+      ]);
+
+      // The same two region elements repeat on every template
+      expect(result.topViolations[0]).toMatchObject({
+        ruleId: 'image-alt',
+        frequency: 3,
+        pages: 6,
+        systemic: false,
+      });
+      expect(result.topViolations.find((v) => v.ruleId === 'region')).toMatchObject({
+        frequency: 2,
+        pages: 8,
+        systemic: true,
+      });
+      expect(result.systemicRules.map((rule) => rule.ruleId)).toEqual(['region']);
+      expect(result.systemicRules[0].templates).toBe(3);
+    });
+
+    it('should skip failed pages and score empty sites as 0', () => {
+      const result = scoreSitePages([{ ...page('/', 90), error: 'Timeout' }]);
+
+      expect(result.score).toBe(0);
+      expect(result.complianceRate).toBe(0);
+      expect(result.templates).toEqual([]);
+    });
+
+    it('should aggregate with the selected model', () => {
+      const result = scoreSitePages([page('/', 90), page('/about', 50)], {
+        model: 'page-weighted',
+      });
+
+      // The model's home page weight (3) is applied once
+      expect(result.score).toBe(80);
+      expect(result.model.id).toBe('page-weighted');
+      expect(result.templates.map((template) => template.weight)).toEqual([3, 1]);
+    });
+
+    it('should weight templates by the page-weighted model config', () => {
+      const pages = [page('/', 90), page('/services/permits', 40), page('/about', 80)];
+      const base = scoreSitePages(pages, { model: 'page-weighted' });
+      const custom = scoreSitePages(pages, {
+        model: 'page-weighted',
+        config: { homePageWeight: 1, pageWeights: [{ pathPrefix: '/services', weight: 8 }] },
+      });
+
+      // (90 * 3 + 40 + 80) / 5 against (90 + 40 * 8 + 80) / 10
+      expect(base.score).toBe(78);
+      expect(custom.score).toBe(49);
+      expect(custom.templates.map((template) => template.weight)).toEqual([1, 8, 1]);
+    });
+  });
+});
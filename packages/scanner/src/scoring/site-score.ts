@@ -0,0 +1,240 @@
+/**
+ * Site Scoring
+ *
+ * Aggregates page results into a site score that reflects how the site is used
+ * rather than how many pages it has:
+ * - Templated pages (/blog/:slug, /news/:date/:slug) are grouped and scored once, so 400
+ *   clean blog posts cannot outweigh a broken checkout
+ * - Templates are weighted by traffic when known, otherwise by importance
+ *   (home page and key tasks such as checkout, sign-in, applications and contact),
+ *   or by the page-weighted model's own page weights when that model is selected
+ * - Rules are counted by distinct element and template, and rules failing across most
+ *   templates are reported as systemic (site-wide) rather than one-off issues
+ */
+
+import { getHighValueKind, getPathTemplate, groupByTemplate } from '../discovery/url-sampling';
+import { fingerprintNode } from '../findings/fingerprint';
+import { type JurisdictionProfile, getJurisdiction } from '../jurisdictions/profiles';
+import type {
+  PageTemplate,
+  ResultNode,
+  ScoringModelId,
+  ScoringModelRef,
+  SiteReport,
+  SiteRule,
+} from '../types';
+import { type Grade, isCompliant } from './aoda-score';
+import {
+  DEFAULT_SCORING_MODEL,
+  type PageWeightedConfig,
+  SCORING_MODELS,
+  type ScoringConfigs,
+  getPageWeight,
+  scoreSite,
+} from './models';
+
+// The parts of a page result site scoring reads
+export interface SitePage {
+  url: string;
+  score: number;
+  violations: Array<{
+    id: string;
+    impact: string;
+    description?: string;
+    help?: string;
+    nodes: Array<Pick<ResultNode, 'target' | 'html'>>;
+  }>;
+  error?: string;
+}
+
+export interface SiteScoringOptions {
+  model?: ScoringModelId;
+  config?: Partial<ScoringConfigs[ScoringModelId]>;
+  jurisdiction?: JurisdictionProfile;
+  traffic?: Record<string, number>; // Page views by URL; replaces importance weights
+  systemicShare?: number; // Share of templates a rule must fail on to be systemic
+}
+
+export interface SiteScoreSummary {
+  score: number;
+  grade: Grade;
+  model: ScoringModelRef;
+  complianceRate: number; // Weighted share of pages meeting the jurisdiction's threshold
+  templates: PageTemplate[];
+  topViolations: SiteReport['topViolations'];
+  systemicRules: SiteRule[];
+}
+
+// Weight of the home page and key task pages against other pages (1)
+export const KEY_PAGE_WEIGHT = 3;
+
+const DEFAULT_SYSTEMIC_SHARE = 0.5;
+const TOP_VIOLATIONS = 10;
+
+// Pages where users complete transactions, besides discovery's high-value pages
+const KEY_TASK_SEGMENT =
+  /^(checkout|cart|basket|payment|login|log-in|signin|sign-in|signup|sign-up|account|book|booking|donate)$/;
+
+/**
+ * Group pages by URL template (/news/:slug), as discovery samples them
+ */
+export function groupPagesByTemplate<T extends { url: string }>(pages: T[]): Map<string, T[]> {
+  const templates = groupByTemplate(pages.map((page) => page.url));
+  const groups = new Map<string, T[]>();
+  for (const page of pages) {
+    const template = templates.get(page.url) ?? page.url;
+    groups.set(template, [...(groups.get(template) ?? []), page]);
+  }
+  return groups;
+}
+
+/**
+ * Importance of a page: high-value pages (home, contact, forms, search, ...) and
+ * transaction pages (checkout, sign-in, ...) weigh KEY_PAGE_WEIGHT, others 1
+ */
+export function getPageImportance(url: string): number {
+  if (getHighValueKind(url)) return KEY_PAGE_WEIGHT;
+  const segments = getPathTemplate(url).toLowerCase().split('/');
+  return segments.some((segment) => KEY_TASK_SEGMENT.test(segment)) ? KEY_PAGE_WEIGHT : 1;
+}
+
+/**
+ * Score a site from its page results
+ */
+export function scoreSitePages(
+  pages: SitePage[],
+  options: SiteScoringOptions = {}
+): SiteScoreSummary {
+  const profile = options.jurisdiction ?? getJurisdiction();
+  const valid = pages.filter((page) => !page.error);
+  const groups = [...groupPagesByTemplate(valid).entries()];
+  const weights = getTemplateWeights(groups, options.traffic, getImportance(options));
+
+  const templates = groups.map(([template, members], index) => ({
+    template,
+    pages: members.length,
+    score: Math.round(members.reduce((sum, page) => sum + page.score, 0) / members.length),
+    weight: weights[index],
+  }));
+
+  const site = scoreSite(
+    options.model ?? DEFAULT_SCORING_MODEL,
+    groups.map(([, members], index) => ({
+      url: members[0].url,
+      score: members.reduce((sum, page) => sum + page.score, 0) / members.length,
+      weight: weights[index],
+    })),
+    { config: options.config }
+  );
+
+  // Each template contributes its share of compliant pages, by weight
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const compliantWeight = groups.reduce((sum, [, members], index) => {
+    const compliant = members.filter((page) => isCompliant(page.score, profile)).length;
+    return sum + (weights[index] * compliant) / members.length;
+  }, 0);
+
+  const rules = summarizeRules(groups);
+  const systemicShare = options.systemicShare ?? DEFAULT_SYSTEMIC_SHARE;
+  const isSystemic = (rule: SiteRule) =>
+    rule.templates >= 2 && rule.templates >= groups.length * systemicShare;
+
+  return {
+    score: site.score,
+    grade: site.grade,
+    model: site.model,
+    complianceRate: totalWeight > 0 ? Math.round((compliantWeight / totalWeight) * 100) : 0,
+    templates,
+    topViolations: [...rules]
+      .sort((a, b) => b.elements - a.elements || b.pages - a.pages)
+      .slice(0, TOP_VIOLATIONS)
+      .map((rule) => ({
+        ruleId: rule.ruleId,
+        description: rule.description,
+        frequency: rule.elements,
+        impact: rule.impact,
+        pages: rule.pages,
+        systemic: isSystemic(rule),
+      })),
+    systemicRules: rules
+      .filter(isSystemic)
+      .sort((a, b) => b.templates - a.templates || b.elements - a.elements),
+  };
+}
+
+/**
+ * Importance of a page for the selected model: the page-weighted model's configured
+ * page weights replace the built-in importance, so they are applied once
+ */
+function getImportance(options: SiteScoringOptions): (url: string) => number {
+  if (options.model !== 'page-weighted') return getPageImportance;
+  const config: PageWeightedConfig = {
+    ...SCORING_MODELS['page-weighted'].defaults,
+    ...(options.config as Partial<PageWeightedConfig>),
+  };
+  return (url) => getPageWeight(url, config);
+}
+
+/**
+ * Template weights: summed page views when traffic is known (pages without data
+ * count as the least-visited page), otherwise the importance of the template's
+ * most important page, counted once
+ */
+function getTemplateWeights(
+  groups: Array<[string, Array<{ url: string }>]>,
+  traffic: Record<string, number> | undefined,
+  importance: (url: string) => number
+): number[] {
+  if (traffic && Object.keys(traffic).length > 0) {
+    const views = Object.values(traffic).filter((count) => count > 0);
+    const fallback = views.length > 0 ? Math.min(...views) : 1;
+    return groups.map(([, members]) =>
+      members.reduce((sum, page) => sum + (traffic[page.url] ?? fallback), 0)
+    );
+  }
+  return groups.map(([, members]) => Math.max(...members.map((page) => importance(page.url))));
+}
+
+/**
+ * Reach of each failed rule: pages, templates, and distinct elements (by
+ * fingerprint, so shared headers count once) on each template's worst page
+ */
+function summarizeRules(groups: Array<[string, SitePage[]]>): SiteRule[] {
+  const rules = new Map<string, SiteRule>();
+  const elements = new Map<string, Set<string>>();
+
+  for (const [, members] of groups) {
+    const worst = new Map<string, SitePage['violations'][number]['nodes']>();
+    for (const page of members) {
+      const seen = new Set<string>();
+      for (const violation of page.violations) {
+        const rule = rules.get(violation.id) ?? {
+          ruleId: violation.id,
+          description: violation.description || violation.help || violation.id,
+          impact: violation.impact || 'unknown',
+          pages: 0,
+          templates: 0,
+          elements: 0,
+        };
+        if (!seen.has(violation.id)) rule.pages++;
+        seen.add(violation.id);
+        rules.set(violation.id, rule);
+        if (violation.nodes.length > (worst.get(violation.id)?.length ?? -1)) {
+          worst.set(violation.id, violation.nodes);
+        }
+      }
+    }
+
+    for (const [ruleId, nodes] of worst) {
+      const rule = rules.get(ruleId);
+      if (!rule) continue;
+      rule.templates++;
+      const prints = elements.get(ruleId) ?? new Set<string>();
+      for (const node of nodes) prints.add(fingerprintNode(ruleId, node));
+      elements.set(ruleId, prints);
+      rule.elements = prints.size;
+    }
+  }
+
+  return [...rules.values()];
+}
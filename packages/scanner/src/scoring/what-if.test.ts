@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { ImpactLevel } from '../types';
+import { planNextMilestone, rankFixes, scoreIfFixed } from './what-if';
+
+const violation = (id: string, impact: ImpactLevel, elements = 1) => ({
+  id,
+  impact,
+  nodes: Array.from({ length: elements }, (_, i) => ({ target: [`#${id}-${i}`] })),
+});
+
+const input = {
+  violations: [
+    violation('color-contrast', 'serious', 12),
+    violation('image-alt', 'critical', 3),
+    violation('region', 'minor', 1),
+  ],
+  passes: 40,
+  incomplete: 0,
+};
+
+describe('What-if scoring', () => {
+  describe('scoreIfFixed', () => {
+    it('should rescore without the fixed violations', () => {
+      const result = scoreIfFixed(input, ['image-alt']);
+
+      // 100 - 10 * log10(13) - 20 * log10(4) - 2 * log10(2) = 76.2 before, 88.2 after
+      expect(result.before.score).toBe(76);
+      expect(result.after.score).toBe(88);
+      expect(result.gain).toBe(12);
+      expect(result.after.breakdown.passedChecks).toBe(41);
+    });
+
+    it('should rescore with the recorded model and config', () => {
+      const result = scoreIfFixed(input, ['region'], {
+        model: { id: 'criterion-cap', version: '1.0.0' },
+      });
+
+      expect(result.after.model?.id).toBe('criterion-cap');
+    });
+
+    it('should mark manual review failures fixed by criterion', () => {
+      const result = scoreIfFixed(
+        {
+          violations: [],
+          passes: 10,
+          incomplete: 0,
+          manualReview: { passed: 0, failed: [{ impact: 'critical', criterionId: '2.4.7' }] },
+        },
+        ['2.4.7']
+      );
+
+      expect(result.after.score).toBe(100);
+      expect(result.after.breakdown.passedChecks).toBe(11);
+    });
+  });
+
+  describe('rankFixes', () => {
+    it('should rank fixes by points gained', () => {
+      const ranked = rankFixes(input);
+
+      expect(ranked.map((fix) => fix.ruleId)).toEqual(['image-alt', 'color-contrast', 'region']);
+      expect(ranked[0]).toMatchObject({ impact: 'critical', elementCount: 3, gain: 12 });
+    });
+
+    it('should break ties on the deducted points', () => {
+      const ranked = rankFixes({
+        violations: [violation('a', 'minor', 1), violation('b', 'minor', 2)],
+        passes: 10,
+        incomplete: 0,
+      });
+
+      expect(ranked.map((fix) => fix.ruleId)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('planNextMilestone', () => {
+    it('should list the fewest fixes that reach the next milestone', () => {
+      const plan = planNextMilestone(input);
+
+      expect(plan?.milestone).toEqual({ score: 80, grade: 'B' });
+      expect(plan?.fixes.map((fix) => fix.ruleId)).toEqual(['image-alt']);
+      expect(plan?.projected.score).toBe(88);
+      expect(plan?.reachable).toBe(true);
+    });
+
+    it('should return null past the last milestone', () => {
+      expect(planNextMilestone({ violations: [], passes: 10, incomplete: 0 })).toBeNull();
+    });
+
+    it('should report unreachable milestones', () => {
+      const plan = planNextMilestone({
+        violations: [],
+        passes: 0,
+        incomplete: 0,
+        manualReview: { passed: 0, failed: Array(12).fill({ impact: 'critical' }) },
+      });
+
+      expect(plan?.fixes).toEqual([]);
+      expect(plan?.reachable).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * What-If Scoring
+ *
+ * Recomputes a score as if selected violations were fixed, with the model (and
+ * config) the original score was calculated with, so developers can see which
+ * fix buys the most points and which fixes reach the next grade milestone.
+ */
+
+import type { JurisdictionProfile } from '../jurisdictions/profiles';
+import type { ImpactLevel, ScanScore, ScoringModelId, ScoringModelRef } from '../types';
+import { type Grade, type ScoreInput, getNextMilestone } from './aoda-score';
+import { DEFAULT_SCORING_MODEL, type ScoringConfigs, scorePage } from './models';
+
+export interface WhatIfOptions {
+  model?: ScoringModelRef; // Model the score was calculated with (default weighted-impact)
+  jurisdiction?: JurisdictionProfile;
+}
+
+export interface WhatIfResult {
+  before: ScanScore;
+  after: ScanScore;
+  gain: number; // Score points gained
+}
+
+// What fixing one rule (or manually failed criterion) is worth
+export interface FixGain {
+  ruleId: string;
+  impact: ImpactLevel;
+  elementCount: number;
+  points: number; // Points the rule deducts in the ledger
+  gain: number; // Score points gained by fixing it alone
+}
+
+export interface MilestonePlan {
+  milestone: { score: number; grade: Grade };
+  fixes: FixGain[]; // In the order to fix them; gains are cumulative steps
+  projected: ScanScore;
+  reachable: boolean; // False when fixing everything still falls short
+}
+
+/**
+ * Score a page as if the violations with the given rule ids (and manual review
+ * failures with the given criterion ids) were fixed
+ */
+export function scoreIfFixed(
+  input: ScoreInput,
+  fixed: Iterable<string>,
+  options: WhatIfOptions = {}
+): WhatIfResult {
+  const before = rescore(input, options);
+  const after = rescore(withoutFixed(input, new Set(fixed)), options);
+  return { before, after, gain: after.score - before.score };
+}
+
+/**
+ * Every fixable rule with what fixing it alone is worth, best first
+ * Ties (scores are whole numbers) go to the rule with the larger deduction.
+ */
+export function rankFixes(input: ScoreInput, options: WhatIfOptions = {}): FixGain[] {
+  const before = rescore(input, options);
+
+  return (before.ledger ?? [])
+    .filter((entry): entry is typeof entry & { ruleId: string } => entry.ruleId !== undefined)
+    .map((entry) => ({
+      ruleId: entry.ruleId,
+      impact: entry.impact,
+      elementCount: entry.elementCount,
+      points: entry.points,
+      gain: rescore(withoutFixed(input, new Set([entry.ruleId])), options).score - before.score,
+    }))
+    .sort((a, b) => b.gain - a.gain || b.points - a.points);
+}
+
+/**
+ * Fewest fixes (chosen greedily, best gain first) that reach the next milestone
+ * Returns null when the score is already past the last milestone.
+ */
+export function planNextMilestone(
+  input: ScoreInput,
+  options: WhatIfOptions = {}
+): MilestonePlan | null {
+  let projected = rescore(input, options);
+  const milestone = getNextMilestone(projected.score);
+  if (!milestone) return null;
+
+  const fixes: FixGain[] = [];
+  let remaining = input;
+  while (projected.score < milestone.score) {
+    const [best] = rankFixes(remaining, options);
+    if (!best) break;
+
+    fixes.push(best);
+    remaining = withoutFixed(remaining, new Set([best.ruleId]));
+    projected = rescore(remaining, options);
+  }
+
+  return { milestone, fixes, projected, reachable: projected.score >= milestone.score };
+}
+
+function rescore(input: ScoreInput, options: WhatIfOptions): ScanScore {
+  const model = options.model;
+  return scorePage(model?.id ?? DEFAULT_SCORING_MODEL, input, {
+    config: model?.config as Partial<ScoringConfigs[ScoringModelId]> | undefined,
+    jurisdiction: options.jurisdiction,
+  });
+}
+
+// Fixed rules and criteria count as passed checks
+function withoutFixed(input: ScoreInput, fixed: Set<string>): ScoreInput {
+  const isFixed = (id?: string) => id !== undefined && fixed.has(id);
+  const violations = input.violations.filter((violation) => !isFixed(violation.id));
+  const review = input.manualReview;
+  const failed = review?.failed.filter((failure) => !isFixed(failure.criterionId)) ?? [];
+
+  return {
+    ...input,
+    violations,
+    passes: input.passes + input.violations.length - violations.length,
+    manualReview: review && {
+      passed: review.passed + review.failed.length - failed.length,
+      failed,
+    },
+  };
+}
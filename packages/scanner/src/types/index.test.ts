@@ -3,9 +3,15 @@ import {
   type AODAViolation,
   AODAViolationSchema,
   ImpactLevel,
+  RESULT_SCHEMA_VERSION,
+  ResultValidationError,
   type ScanResult,
   ScanResultSchema,
   WCAGLevel,
+  createScanResult,
+  parsePageScanResult,
+  parseScanResult,
+  parseSiteReport,
 } from './index';
 
 describe('Zod Schema Validators', () => {
@@ -168,6 +174,7 @@ describe('Zod Schema Validators', () => {
 
   describe('ScanResultSchema', () => {
     const validScanResult: ScanResult = {
+      schemaVersion: 2,
       url: 'https://example.com',
       timestamp: '2024-01-15T10:30:00.000Z',
       violations: [],
@@ -313,6 +320,7 @@ describe('Zod Schema Validators', () => {
   describe('Schema integration tests', () => {
     it('should validate complete scan result with violations', () => {
       const completeScanResult: ScanResult = {
+        schemaVersion: 2,
         url: 'https://ontario.ca/page/test',
         timestamp: '2024-01-15T14:30:00.000Z',
         violations: [
@@ -379,4 +387,157 @@ describe('Zod Schema Validators', () => {
       expect(result.compliance.ontarioAODA).toBe(false);
     });
   });
+
+  describe('createScanResult', () => {
+    const violation = {
+      id: 'image-alt',
+      impact: 'critical' as const,
+      description: 'Images must have alternate text',
+      help: 'Images must have alternate text',
+      helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/image-alt',
+      nodes: [{ html: '<img src="a.png">', target: ['img'], failureSummary: 'Fix' }],
+    };
+
+    it('should derive the summary and compliance flags', () => {
+      const result = createScanResult({
+        url: 'https://example.com',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        violations: [violation, { ...violation, id: 'region', impact: 'moderate' }],
+        passes: 10,
+        incomplete: 0,
+      });
+
+      expect(result.schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+      expect(result.summary).toEqual({ total: 2, critical: 1, serious: 0, moderate: 1, minor: 0 });
+      expect(result.compliance).toEqual({
+        wcag2AA: false,
+        ontarioAODA: false,
+        bilingualCompliant: false,
+        jurisdictionCompliant: false,
+      });
+      expect(ScanResultSchema.parse(result)).toEqual(result);
+    });
+
+    it('should use the score for AODA compliance when present', () => {
+      const result = createScanResult({
+        url: 'https://example.com',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        violations: [violation],
+        passes: 10,
+        incomplete: 0,
+        score: {
+          score: 92,
+          grade: 'A',
+          maxPossibleScore: 100,
+          deductions: { critical: 8, serious: 0, moderate: 0, minor: 0, total: 8 },
+          breakdown: { passedChecks: 10, totalChecks: 11, violationCount: 1, elementCount: 1 },
+        },
+      });
+
+      expect(result.compliance.ontarioAODA).toBe(true);
+    });
+
+    it('should record compliance under the scan jurisdiction', () => {
+      const result = createScanResult({
+        url: 'https://example.com',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        violations: [],
+        passes: 10,
+        incomplete: 0,
+        jurisdiction: 'eu',
+      });
+
+      expect(result.jurisdiction).toBe('eu');
+      expect(result.compliance.jurisdictionCompliant).toBe(true);
+    });
+  });
+
+  describe('Result migration', () => {
+    const legacyViolation = {
+      id: 'image-alt',
+      impact: 'critical',
+      description: 'Images must have alternate text',
+      help: 'Images must have alternate text',
+      helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/image-alt',
+      fixTime: 15,
+      nodes: [{ html: '<img>', target: [['iframe', 'img']], failureSummary: 'Fix' }],
+    };
+
+    it('should migrate an unversioned scan result', () => {
+      const result = parseScanResult({
+        url: 'https://example.com',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        violations: [legacyViolation],
+        passes: 3,
+        incomplete: 0,
+      });
+
+      expect(result.schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+      expect(result.violations[0].estimatedFixTime).toBe(15);
+      expect(result.violations[0]).not.toHaveProperty('fixTime');
+      expect(result.violations[0].nodes[0].target).toEqual(['["iframe","img"]']);
+      expect(result.summary.critical).toBe(1);
+    });
+
+    it('should keep estimatedFixTime when both fields are present', () => {
+      const result = parseScanResult({
+        url: 'https://example.com',
+        timestamp: '2024-01-15T10:30:00.000Z',
+        violations: [{ ...legacyViolation, estimatedFixTime: 20 }],
+        passes: 3,
+        incomplete: 0,
+      });
+
+      expect(result.violations[0].estimatedFixTime).toBe(20);
+    });
+
+    it('should migrate site reports and their pages', () => {
+      const page = {
+        url: 'https://example.com/about',
+        score: 80,
+        grade: 'B',
+        violations: [legacyViolation],
+        passes: 3,
+        incomplete: 0,
+        timestamp: '2024-01-15T10:30:00.000Z',
+      };
+      const report = parseSiteReport({
+        baseUrl: 'https://example.com',
+        totalPages: 1,
+        scannedPages: 1,
+        avgScore: 80,
+        grade: 'B',
+        pageResults: [page],
+        topViolations: [],
+        estimatedFixTime: 15,
+        complianceRate: 0,
+        timestamp: '2024-01-15T10:30:00.000Z',
+        strategy: 'smart',
+      });
+
+      expect(report.schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+      expect(report.pageResults[0].schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+      expect(report.pageResults[0].violations[0].estimatedFixTime).toBe(15);
+      expect(parsePageScanResult(page).violations[0].estimatedFixTime).toBe(15);
+    });
+
+    it('should report every invalid field', () => {
+      try {
+        parseScanResult({ schemaVersion: RESULT_SCHEMA_VERSION, url: 'not a url' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ResultValidationError);
+        expect((error as ResultValidationError).issues).toEqual(
+          expect.arrayContaining([
+            expect.stringContaining('url:'),
+            expect.stringContaining('violations:'),
+          ])
+        );
+      }
+    });
+
+    it('should reject results from a newer version', () => {
+      expect(() => parseScanResult({ schemaVersion: 99 })).toThrow(ResultValidationError);
+    });
+  });
 });
@@ -1,56 +1,617 @@
 import { z } from 'zod';
+import { getJurisdiction } from '../jurisdictions/profiles';
+import { isCompliant } from '../scoring/aoda-score';
+import type { CoverageReport } from '../wcag/coverage';
+
+// Version of the scan result model; bump when the shape changes and add a migration below
+export const RESULT_SCHEMA_VERSION = 2;
 
 // WCAG Level enum
 export const WCAGLevel = z.enum(['A', 'AA', 'AAA']);
 export type WCAGLevel = z.infer<typeof WCAGLevel>;
 
+// Legal framework a scan is assessed against (see jurisdictions/profiles.ts)
+export const JurisdictionId = z.enum(['ontario', 'federal', 'quebec', 'manitoba', 'eu']);
+export type JurisdictionId = z.infer<typeof JurisdictionId>;
+
 // Impact severity
 export const ImpactLevel = z.enum(['critical', 'serious', 'moderate', 'minor']);
 export type ImpactLevel = z.infer<typeof ImpactLevel>;
 
-// AODA violation schema
-export const AODAViolationSchema = z.object({
+// Organization the AODA obligations are derived for (see ontario/obligations.ts)
+export const OrganizationType = z.enum(['government', 'public-sector', 'private']);
+export type OrganizationType = z.infer<typeof OrganizationType>;
+
+export const OrganizationSchema = z.object({
+  type: OrganizationType, // Private includes not-for-profits
+  employees: z.number().int().min(1), // Employees in Ontario; 50+ is a large organization
+  incorporated: z.boolean().optional(), // Default true; sets the penalty range
+});
+
+export type Organization = z.infer<typeof OrganizationSchema>;
+
+// IASR requirement as it applies to one organization
+export const ObligationSchema = z.object({
+  section: z.string(), // "IASR 14"
+  requirement: z.string(),
+  applies: z.boolean(),
+  deadline: z.string().optional(), // yyyy-mm-dd compliance date, when it applies
+  inEffect: z.boolean(), // Deadline has passed
+  penalty: z.string(),
+});
+
+export type Obligation = z.infer<typeof ObligationSchema>;
+
+// Element an axe-core rule flagged
+export const ResultNodeSchema = z.object({
+  html: z.string(),
+  target: z.array(z.string()),
+  failureSummary: z.string(),
+});
+
+export type ResultNode = z.infer<typeof ResultNodeSchema>;
+
+// Violation as produced by a scan; AODA fields are absent for rules the rule pack does not map
+export const ViolationSchema = z.object({
   id: z.string(),
-  wcagCriterion: z.string(),
-  wcagLevel: WCAGLevel,
-  aodaSection: z.string(),
-  description: z.string(),
   impact: ImpactLevel,
-  affectedUsers: z.array(z.string()),
+  description: z.string(),
   help: z.string(),
   helpUrl: z.string(),
-  estimatedFixTime: z.number(), // in minutes
-  penalty: z.string(),
-  nodes: z.array(
-    z.object({
-      html: z.string(),
-      target: z.array(z.string()),
-      failureSummary: z.string(),
-    })
-  ),
+  nodes: z.array(ResultNodeSchema),
+  wcagCriterion: z.string().optional(),
+  wcagLevel: WCAGLevel.optional(),
+  aodaSection: z.string().optional(),
+  affectedUsers: z.array(z.string()).optional(),
+  estimatedFixTime: z.number().optional(), // in minutes
+  penalty: z.string().optional(),
+  obligation: ObligationSchema.optional(), // When an organization is configured
+});
+
+export type Violation = z.infer<typeof ViolationSchema>;
+
+// AODA violation schema (a violation the rule pack maps)
+export const AODAViolationSchema = ViolationSchema.required({
+  wcagCriterion: true,
+  wcagLevel: true,
+  aodaSection: true,
+  affectedUsers: true,
+  estimatedFixTime: true,
+  penalty: true,
 });
 
 export type AODAViolation = z.infer<typeof AODAViolationSchema>;
 
-// Scan result schema
-export const ScanResultSchema = z.object({
-  url: z.string().url(),
-  timestamp: z.string().datetime(),
-  violations: z.array(AODAViolationSchema),
-  passes: z.number(),
-  incomplete: z.number(),
-  summary: z.object({
-    total: z.number(),
+// axe-core result that needs a human decision (kept with its nodes for manual review)
+export const IncompleteResultSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  help: z.string(),
+  helpUrl: z.string(),
+  impact: ImpactLevel.optional(),
+  criteria: z.array(z.string()), // WCAG criterion ids ("1.4.3")
+  nodes: z.array(ResultNodeSchema),
+});
+
+export type IncompleteResult = z.infer<typeof IncompleteResultSchema>;
+
+// Text region whose language contradicts its lang attribute (WCAG 3.1.2 Language of Parts)
+export const LanguageMismatchSchema = z.object({
+  selector: z.string(),
+  declared: z.string(), // The region's effective lang attribute
+  detected: z.enum(['en', 'fr']),
+  confidence: z.number(), // 0-1
+  text: z.string(), // Excerpt
+});
+
+export type LanguageMismatch = z.infer<typeof LanguageMismatchSchema>;
+
+// Languages identified in a page's text (see language/language-id.ts)
+export const PageLanguageSchema = z.object({
+  proportions: z.object({ en: z.number(), fr: z.number(), und: z.number() }), // Share of letters
+  confidence: z.number(), // 0-1
+  mismatches: z.array(LanguageMismatchSchema),
+});
+
+export type PageLanguage = z.infer<typeof PageLanguageSchema>;
+
+// Bilingual (English/French) support detected on a page
+export const BilingualCheckSchema = z.object({
+  hasLangAttribute: z.boolean(),
+  isBilingual: z.boolean(),
+  detectedLanguages: z.array(z.string()),
+  hasLanguageToggle: z.boolean(),
+  hasFrenchContent: z.boolean(),
+  isOntarioGov: z.boolean(),
+  isGovernment: z.boolean().optional(), // Government site of the scan's jurisdiction
+  languageToggles: z.number(),
+  language: PageLanguageSchema.optional(),
+});
+
+export type BilingualCheck = z.infer<typeof BilingualCheckSchema>;
+
+// Page structure compared between the English and French versions of a page
+export const PageStructureSchema = z.object({
+  title: z.string(),
+  lang: z.string(), // <html lang>
+  headings: z.array(z.number()), // Heading levels in document order
+  images: z.object({ total: z.number(), withAlt: z.number() }),
+  formFields: z.object({ total: z.number(), labelled: z.number() }),
+  alternates: z.array(z.object({ hreflang: z.string(), href: z.string() })), // hreflang links
+  languageToggle: z.string().optional(), // Where the page's language toggle points
+});
+
+export type PageStructure = z.infer<typeof PageStructureSchema>;
+
+export const GradeSchema = z.enum(['A+', 'A', 'B+', 'B', 'C+', 'C', 'D', 'F']);
+
+// Scoring strategies (see scoring/models.ts)
+export const ScoringModelId = z.enum([
+  'weighted-impact',
+  'pass-ratio',
+  'criterion-cap',
+  'page-weighted',
+]);
+export type ScoringModelId = z.infer<typeof ScoringModelId>;
+
+// Model a score was computed with, so reports can explain and reproduce it
+export const ScoringModelRefSchema = z.object({
+  id: ScoringModelId,
+  version: z.string(),
+  config: z.record(z.unknown()).optional(), // Only the settings that differ from the defaults
+});
+
+export type ScoringModelRef = z.infer<typeof ScoringModelRefSchema>;
+
+// One violated rule's share of a score's deductions
+export const ScoreLedgerEntrySchema = z.object({
+  ruleId: z.string().optional(), // axe-core rule, or WCAG criterion for manual review failures
+  source: z.enum(['automated', 'manual-review']),
+  impact: ImpactLevel,
+  elementCount: z.number(),
+  baseWeight: z.number(),
+  scaling: z.number(), // Factor the base weight is multiplied by for the element count
+  points: z.number(), // Points deducted
+});
+
+export type ScoreLedgerEntry = z.infer<typeof ScoreLedgerEntrySchema>;
+
+// Points added or removed after deductions
+export const ScoreAdjustmentSchema = z.object({
+  reason: z.enum(['bilingual-bonus', 'criterion-cap', 'clamp']),
+  points: z.number(),
+});
+
+export type ScoreAdjustment = z.infer<typeof ScoreAdjustmentSchema>;
+
+// Page score (see scoring/aoda-score.ts)
+export const ScanScoreSchema = z.object({
+  score: z.number(), // 0-100
+  grade: GradeSchema,
+  maxPossibleScore: z.number(),
+  deductions: z.object({
     critical: z.number(),
     serious: z.number(),
     moderate: z.number(),
     minor: z.number(),
+    total: z.number(),
   }),
+  breakdown: z.object({
+    passedChecks: z.number(),
+    totalChecks: z.number(),
+    violationCount: z.number(),
+    elementCount: z.number(),
+  }),
+  model: ScoringModelRefSchema.optional(), // Absent on scores from before models: weighted-impact
+  // Per-rule deductions and adjustments: 100 - ledger points + adjustments = score (before rounding)
+  ledger: z.array(ScoreLedgerEntrySchema).optional(),
+  adjustments: z.array(ScoreAdjustmentSchema).optional(),
+});
+
+export type ScanScore = z.infer<typeof ScanScoreSchema>;
+
+// Coverage reports are built by wcag/coverage.ts; only their outline is checked here
+const CoverageReportSchema = z.custom<CoverageReport>(
+  (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as CoverageReport).criteria) &&
+    typeof (value as CoverageReport).summary === 'object',
+  'Invalid coverage report'
+);
+
+const ViolationSummarySchema = z.object({
+  total: z.number(),
+  critical: z.number(),
+  serious: z.number(),
+  moderate: z.number(),
+  minor: z.number(),
+});
+
+// Scan result schema: one page, as returned by the content script
+export const ScanResultSchema = z.object({
+  schemaVersion: z.literal(RESULT_SCHEMA_VERSION),
+  url: z.string().url(),
+  timestamp: z.string().datetime(),
+  violations: z.array(ViolationSchema),
+  passes: z.number(),
+  incomplete: z.number(),
+  incompleteResults: z.array(IncompleteResultSchema).optional(),
+  bilingualCheck: BilingualCheckSchema.optional(),
+  structure: PageStructureSchema.optional(),
+  score: ScanScoreSchema.optional(),
+  coverage: CoverageReportSchema.optional(),
+  jurisdiction: JurisdictionId.optional(), // Absent on results from before profiles: Ontario
+  summary: ViolationSummarySchema,
   compliance: z.object({
     wcag2AA: z.boolean(),
     ontarioAODA: z.boolean(),
     bilingualCompliant: z.boolean(),
+    jurisdictionCompliant: z.boolean().optional(), // Meets the jurisdiction's threshold
   }),
 });
 
 export type ScanResult = z.infer<typeof ScanResultSchema>;
+
+// One page of a site scan; failed pages keep their error and score 0
+export const PageScanResultSchema = z.object({
+  schemaVersion: z.literal(RESULT_SCHEMA_VERSION),
+  url: z.string(),
+  score: z.number(),
+  grade: z.string(),
+  violations: z.array(ViolationSchema),
+  passes: z.number(),
+  incomplete: z.number(),
+  bilingualCheck: BilingualCheckSchema.optional(),
+  structure: PageStructureSchema.optional(),
+  jurisdiction: JurisdictionId.optional(),
+  timestamp: z.string().datetime(),
+  error: z.string().optional(),
+});
+
+export type PageScanResult = z.infer<typeof PageScanResultSchema>;
+
+export const ParityIssueKind = z.enum([
+  'missing',
+  'lang',
+  'untranslated',
+  'title',
+  'headings',
+  'images',
+  'forms',
+  'violations',
+]);
+export type ParityIssueKind = z.infer<typeof ParityIssueKind>;
+
+// Difference between the English and French versions of a page
+export const ParityIssueSchema = z.object({
+  kind: ParityIssueKind,
+  message: z.string(),
+});
+
+export type ParityIssue = z.infer<typeof ParityIssueSchema>;
+
+// English page and its French counterpart (see ontario/language-parity.ts)
+export const PagePairSchema = z.object({
+  en: z.string(),
+  fr: z.string().optional(), // Absent when no counterpart could be found
+  pairedBy: z.enum(['hreflang', 'toggle', 'path']).optional(),
+  status: z.enum(['equivalent', 'degraded', 'missing', 'unscanned']), // Unscanned: not compared
+  issues: z.array(ParityIssueSchema),
+});
+
+export type PagePair = z.infer<typeof PagePairSchema>;
+
+export const ParityReportSchema = z.object({
+  pairs: z.array(PagePairSchema),
+  summary: z.object({
+    pairs: z.number(),
+    equivalent: z.number(),
+    degraded: z.number(),
+    missing: z.number(),
+    unscanned: z.number().optional(), // Absent in older reports
+  }),
+});
+
+export type ParityReport = z.infer<typeof ParityReportSchema>;
+
+// Aggregated multi-page scan
+// A rule's reach across a site; templated pages count once
+export const SiteRuleSchema = z.object({
+  ruleId: z.string(),
+  description: z.string(),
+  impact: z.string(),
+  pages: z.number(),
+  templates: z.number(), // Page templates (groups of templated pages) the rule fails on
+  elements: z.number(), // Elements, counting each template once
+});
+
+export type SiteRule = z.infer<typeof SiteRuleSchema>;
+
+// An identical failing element found on several pages (a header, footer or menu)
+export const SharedComponentSchema = z.object({
+  fingerprint: z.string(), // Rule id, normalized selector and HTML hash
+  ruleId: z.string(),
+  description: z.string(),
+  impact: ImpactLevel,
+  selector: z.string(),
+  html: z.string(), // Snippet from the first page it was found on
+  pages: z.number(),
+  urls: z.array(z.string()),
+  estimatedFixTime: z.number().optional(), // Minutes to fix, once for all its pages
+});
+
+export type SharedComponent = z.infer<typeof SharedComponentSchema>;
+
+// Effort to fix one rule: a base effort for the first element, then a marginal
+// effort for each further distinct element
+export const EffortLineSchema = z.object({
+  ruleId: z.string(),
+  impact: ImpactLevel,
+  instances: z.number(), // Distinct elements, shared components counted once
+  base: z.number(), // Minutes for the first element
+  perInstance: z.number(), // Minutes for each further element
+  minutes: z.number(),
+  defaulted: z.boolean(), // No fix time for the rule; base effort from its impact
+});
+
+export type EffortLine = z.infer<typeof EffortLineSchema>;
+
+export const EffortEstimateSchema = z.object({
+  minutes: z.number(), // Most likely
+  low: z.number(),
+  high: z.number(),
+  lines: z.array(EffortLineSchema), // Largest first
+});
+
+export type EffortEstimate = z.infer<typeof EffortEstimateSchema>;
+
+// Pages sharing a URL template (/blog/:slug), scored once with a single weight
+export const PageTemplateSchema = z.object({
+  template: z.string(),
+  pages: z.number(),
+  score: z.number(), // Mean score of the template's pages
+  weight: z.number(), // Importance or traffic weight in the site score
+});
+
+export type PageTemplate = z.infer<typeof PageTemplateSchema>;
+
+export const SiteReportSchema = z.object({
+  schemaVersion: z.literal(RESULT_SCHEMA_VERSION),
+  baseUrl: z.string(),
+  totalPages: z.number(),
+  scannedPages: z.number(),
+  avgScore: z.number(),
+  grade: z.string(),
+  pageResults: z.array(PageScanResultSchema),
+  topViolations: z.array(
+    z.object({
+      ruleId: z.string(),
+      description: z.string(),
+      frequency: z.number(), // Elements, counting each template once (pages in older reports)
+      impact: z.string(),
+      pages: z.number().optional(),
+      systemic: z.boolean().optional(),
+    })
+  ),
+  estimatedFixTime: z.number(), // in minutes (effort.minutes when estimated)
+  effort: EffortEstimateSchema.optional(),
+  complianceRate: z.number(),
+  timestamp: z.string().datetime(),
+  strategy: z.string(),
+  sourceCounts: z.record(z.number()).optional(), // Keyed by discovery source
+  robots: z
+    .object({
+      found: z.boolean(),
+      respected: z.boolean(),
+      userAgent: z.string().optional(),
+      crawlDelay: z.number().optional(),
+      blockedUrls: z.array(z.string()),
+    })
+    .optional(),
+  excludedCounts: z.record(z.number()).optional(), // Keyed by exclusion reason
+  filters: z
+    .object({
+      pathPrefix: z.string().optional(),
+      include: z.array(z.string()).optional(),
+      exclude: z.array(z.string()).optional(),
+      query: z.union([z.enum(['keep', 'strip']), z.array(z.string())]).optional(),
+    })
+    .optional(),
+  parity: ParityReportSchema.optional(), // English/French page-pair audit, when requested
+  jurisdiction: JurisdictionId.optional(),
+  organization: OrganizationSchema.optional(),
+  scoringModel: ScoringModelRefSchema.optional(), // Model behind avgScore
+  templates: z.array(PageTemplateSchema).optional(), // How pages were grouped and weighted
+  systemicRules: z.array(SiteRuleSchema).optional(), // Rules failing across most templates
+  sharedComponents: z.array(SharedComponentSchema).optional(),
+  obligations: z.array(ObligationSchema.extend({ violations: z.number() })).optional(),
+});
+
+export type SiteReport = z.infer<typeof SiteReportSchema>;
+
+// One failing element recorded in a history snapshot
+export const SnapshotFindingSchema = z.object({
+  fingerprint: z.string(),
+  ruleId: z.string(),
+  impact: ImpactLevel,
+  urls: z.array(z.string()).optional(), // Site snapshots: history keys of the pages it fails on
+});
+
+export type SnapshotFinding = z.infer<typeof SnapshotFindingSchema>;
+
+// What scan history keeps of a page scan or site scan for trends and regressions
+export const ScanSnapshotSchema = z.object({
+  kind: z.enum(['page', 'site']),
+  key: z.string(), // Page URL without its fragment, or the site's origin
+  origin: z.string(),
+  timestamp: z.string().datetime(),
+  score: z.number(),
+  grade: z.string(),
+  jurisdiction: JurisdictionId.optional(),
+  scoringModel: ScoringModelRefSchema.optional(),
+  pages: z.number(),
+  // Site snapshots: the URL filters as JSON (absent when unfiltered) and each scanned page,
+  // so scans of a different scope are not compared. Absent in older snapshots.
+  scope: z.string().optional(),
+  pageScores: z.array(z.object({ url: z.string(), score: z.number() })).optional(),
+  findings: z.array(SnapshotFindingSchema), // Shared components recorded once
+});
+
+export type ScanSnapshot = z.infer<typeof ScanSnapshotSchema>;
+
+/**
+ * Raised when a result fails validation, even after migration
+ */
+export class ResultValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ResultValidationError';
+  }
+}
+
+/**
+ * Count violations by impact
+ */
+export function summarizeViolations(
+  violations: Array<Pick<Violation, 'impact'>>
+): ScanResult['summary'] {
+  const summary = { total: violations.length, critical: 0, serious: 0, moderate: 0, minor: 0 };
+  for (const violation of violations) summary[violation.impact]++;
+  return summary;
+}
+
+/**
+ * Build a scan result, deriving the summary and compliance flags
+ */
+export function createScanResult(
+  result: Omit<ScanResult, 'schemaVersion' | 'summary' | 'compliance'>
+): ScanResult {
+  const summary = summarizeViolations(result.violations);
+  const meetsThreshold = (jurisdiction?: JurisdictionId) =>
+    result.score
+      ? isCompliant(result.score.score, getJurisdiction(jurisdiction))
+      : summary.critical === 0 && summary.serious === 0;
+
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    ...result,
+    summary,
+    compliance: {
+      wcag2AA: summary.total === 0,
+      ontarioAODA: meetsThreshold('ontario'),
+      bilingualCompliant: result.bilingualCheck?.isBilingual ?? false,
+      jurisdictionCompliant: meetsThreshold(result.jurisdiction),
+    },
+  };
+}
+
+/**
+ * Validate a scan result received over a message boundary or loaded from storage,
+ * migrating results stored by earlier versions
+ */
+export function parseScanResult(data: unknown): ScanResult {
+  const migrated = migrateResult(data);
+  if (isRecord(migrated) && migrated.schemaVersion === 1) {
+    const {
+      schemaVersion: _version,
+      summary: _summary,
+      compliance: _compliance,
+      ...rest
+    } = migrated;
+    return validate(
+      ScanResultSchema,
+      createScanResult(rest as Parameters<typeof createScanResult>[0]),
+      'scan result'
+    );
+  }
+  return validate(ScanResultSchema, migrated, 'scan result');
+}
+
+/**
+ * Validate one page of a site scan, migrating older results
+ */
+export function parsePageScanResult(data: unknown): PageScanResult {
+  return validate(PageScanResultSchema, toCurrentVersion(migrateResult(data)), 'page scan result');
+}
+
+/**
+ * Validate a site report, migrating older reports and their pages
+ */
+export function parseSiteReport(data: unknown): SiteReport {
+  const migrated = toCurrentVersion(isRecord(data) ? { ...data } : data);
+  if (isRecord(migrated) && Array.isArray(migrated.pageResults)) {
+    migrated.pageResults = migrated.pageResults.map((page) =>
+      toCurrentVersion(migrateResult(page))
+    );
+  }
+  return validate(SiteReportSchema, migrated, 'site report');
+}
+
+// ============================================
+// MIGRATIONS
+// ============================================
+
+/**
+ * Version 1 (unversioned) results: violations carried `fixTime` instead of
+ * `estimatedFixTime`, and node targets could be nested arrays (shadow DOM / iframes)
+ * Returns the data with `schemaVersion: 1` kept, so callers can fill derived fields.
+ */
+function migrateResult(data: unknown): unknown {
+  if (!isRecord(data) || data.schemaVersion !== undefined) return data;
+
+  const migrated: Record<string, unknown> = { ...data, schemaVersion: 1 };
+  if (Array.isArray(data.violations)) {
+    migrated.violations = data.violations.map(migrateViolation);
+  }
+  return migrated;
+}
+
+function migrateViolation(violation: unknown): unknown {
+  if (!isRecord(violation)) return violation;
+
+  const { fixTime, ...rest } = violation;
+  const migrated: Record<string, unknown> = { ...rest };
+  if (migrated.estimatedFixTime === undefined && typeof fixTime === 'number') {
+    migrated.estimatedFixTime = fixTime;
+  }
+  if (Array.isArray(violation.nodes)) {
+    migrated.nodes = violation.nodes.map((node) =>
+      isRecord(node) && Array.isArray(node.target)
+        ? {
+            ...node,
+            target: node.target.map((part) =>
+              typeof part === 'string' ? part : JSON.stringify(part)
+            ),
+          }
+        : node
+    );
+  }
+  return migrated;
+}
+
+function toCurrentVersion(data: unknown): unknown {
+  if (!isRecord(data) || (data.schemaVersion !== undefined && data.schemaVersion !== 1))
+    return data;
+  return { ...data, schemaVersion: RESULT_SCHEMA_VERSION };
+}
+
+function validate<T extends z.ZodTypeAny>(schema: T, data: unknown, label: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ResultValidationError(
+      `Invalid ${label}`,
+      result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+    );
+  }
+  return result.data;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
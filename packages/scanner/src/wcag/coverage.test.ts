@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageReport, getRuleCriteria } from './coverage';
+import { getCriteria } from './criteria';
+
+const rule = (id: string, ...tags: string[]) => ({ id, tags: ['wcag2aa', ...tags] });
+
+function statusOf(report: ReturnType<typeof buildCoverageReport>, id: string) {
+  return report.criteria.find((entry) => entry.criterion.id === id)?.status;
+}
+
+describe('WCAG coverage report', () => {
+  describe('getRuleCriteria', () => {
+    it('should read criteria from axe-core tags', () => {
+      expect(getRuleCriteria(rule('image-alt', 'wcag111', 'section508'))).toEqual(['1.1.1']);
+      expect(getRuleCriteria(rule('label', 'wcag412', 'wcag131'))).toEqual(['4.1.2', '1.3.1']);
+    });
+
+    it('should fall back to the rule pack for untagged rules', () => {
+      expect(getRuleCriteria({ id: 'color-contrast', tags: [] })).toEqual(['1.4.3']);
+      expect(getRuleCriteria({ id: 'unknown-rule', tags: ['best-practice'] })).toEqual([]);
+    });
+  });
+
+  describe('buildCoverageReport', () => {
+    it('should cover the AODA-required criteria by default', () => {
+      const report = buildCoverageReport({ violations: [], passes: [], incomplete: [] });
+      expect(report.summary.total).toBe(36);
+    });
+
+    it('should mark criteria with violations as failed, even if other rules passed', () => {
+      const report = buildCoverageReport({
+        violations: [rule('image-alt', 'wcag111')],
+        passes: [rule('input-image-alt', 'wcag111')],
+        incomplete: [],
+      });
+
+      expect(statusOf(report, '1.1.1')).toBe('failed');
+      expect(report.criteria.find((entry) => entry.criterion.id === '1.1.1')?.rules).toEqual({
+        failed: ['image-alt'],
+        passed: ['input-image-alt'],
+        incomplete: [],
+        inapplicable: [],
+      });
+    });
+
+    it('should only pass fully automatable criteria', () => {
+      const report = buildCoverageReport({
+        violations: [],
+        passes: [rule('html-has-lang', 'wcag311'), rule('document-title', 'wcag242')],
+        incomplete: [],
+      });
+
+      expect(statusOf(report, '3.1.1')).toBe('passed');
+      expect(statusOf(report, '2.4.2')).toBe('manual');
+    });
+
+    it('should send incomplete and manual-only criteria to manual review', () => {
+      const report = buildCoverageReport({
+        violations: [],
+        passes: [],
+        incomplete: [rule('color-contrast', 'wcag143')],
+      });
+
+      expect(statusOf(report, '1.4.3')).toBe('manual');
+      expect(statusOf(report, '2.4.7')).toBe('manual');
+    });
+
+    it('should report criteria no rule touched as untested', () => {
+      const report = buildCoverageReport({
+        violations: [],
+        passes: [],
+        incomplete: [],
+        inapplicable: [rule('video-caption', 'wcag122')],
+      });
+
+      expect(statusOf(report, '1.1.1')).toBe('untested');
+      expect(statusOf(report, '1.2.2')).toBe('manual');
+    });
+
+    it('should summarize statuses and the share of criteria with a definitive result', () => {
+      const report = buildCoverageReport(
+        {
+          violations: [rule('image-alt', 'wcag111')],
+          passes: [rule('html-has-lang', 'wcag311')],
+          incomplete: [],
+        },
+        { criteria: getCriteria('2.0', 'A') }
+      );
+
+      expect(report.summary).toEqual({
+        total: 25,
+        passed: 1,
+        failed: 1,
+        manual: report.summary.manual,
+        untested: report.summary.untested,
+        notApplicable: 0,
+        testedPercent: 8,
+      });
+      expect(report.summary.manual + report.summary.untested).toBe(23);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * WCAG Coverage Report
+ *
+ * Places every success criterion in scope into one of four buckets after a scan:
+ * failed (an automated rule found violations), passed (fully automatable and all
+ * rules passed), manual (only a person can confirm it, or axe-core could not
+ * decide) and untested (no rule ran against it). A score is only meaningful next
+ * to what it did not test. Manual review decisions can later move criteria out of
+ * manual/untested, including to not-applicable.
+ */
+
+import { getAODAMapping } from '../ontario/aoda-rules';
+import {
+  type WCAGCriterion,
+  criterionFromAxeTag,
+  getAODARequiredCriteria,
+  getCriterion,
+} from './criteria';
+import type { ManualReviewEntry } from './manual-review';
+
+export type CoverageStatus = 'passed' | 'failed' | 'manual' | 'untested' | 'not-applicable';
+
+// The part of an axe-core rule result coverage needs
+export interface AxeRuleOutcome {
+  id: string;
+  tags: string[];
+}
+
+export interface AxeRuleResults {
+  violations: AxeRuleOutcome[];
+  passes: AxeRuleOutcome[];
+  incomplete: AxeRuleOutcome[];
+  inapplicable?: AxeRuleOutcome[];
+}
+
+export interface CriterionCoverage {
+  criterion: WCAGCriterion;
+  status: CoverageStatus;
+  rules: {
+    failed: string[];
+    passed: string[];
+    incomplete: string[]; // axe-core needs a human to decide
+    inapplicable: string[]; // Nothing on the page for the rule to test
+  };
+  review?: ManualReviewEntry; // Set once an auditor has decided the criterion
+}
+
+export interface CoverageReport {
+  criteria: CriterionCoverage[];
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    manual: number;
+    untested: number;
+    notApplicable: number;
+    testedPercent: number; // Criteria with a definitive result (passed, failed or not applicable)
+  };
+}
+
+export interface CoverageOptions {
+  criteria?: WCAGCriterion[]; // Default: the criteria IASR section 14 requires
+}
+
+type RuleBucket = keyof CriterionCoverage['rules'];
+
+/**
+ * Map an axe-core rule to the criteria it tests
+ * Uses the rule's `wcagNNN` tags, falling back to the AODA rule pack for untagged rules.
+ */
+export function getRuleCriteria(rule: AxeRuleOutcome): string[] {
+  const ids = new Set<string>();
+  for (const tag of rule.tags) {
+    const id = criterionFromAxeTag(tag);
+    if (id) ids.add(id);
+  }
+
+  if (ids.size === 0) {
+    const mapped = getAODAMapping(rule.id);
+    const criterion = mapped ? getCriterion(mapped.wcagCriterion) : undefined;
+    if (criterion) ids.add(criterion.id);
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Build a coverage report from axe-core results
+ */
+export function buildCoverageReport(
+  results: AxeRuleResults,
+  options: CoverageOptions = {}
+): CoverageReport {
+  const criteria = options.criteria ?? getAODARequiredCriteria();
+
+  const rulesByCriterion = new Map<string, CriterionCoverage['rules']>();
+  const record = (bucket: RuleBucket, outcomes: AxeRuleOutcome[] = []) => {
+    for (const outcome of outcomes) {
+      for (const id of getRuleCriteria(outcome)) {
+        let rules = rulesByCriterion.get(id);
+        if (!rules) {
+          rules = { failed: [], passed: [], incomplete: [], inapplicable: [] };
+          rulesByCriterion.set(id, rules);
+        }
+        if (!rules[bucket].includes(outcome.id)) rules[bucket].push(outcome.id);
+      }
+    }
+  };
+
+  record('failed', results.violations);
+  record('passed', results.passes);
+  record('incomplete', results.incomplete);
+  record('inapplicable', results.inapplicable);
+
+  const coverage = criteria.map((criterion) => {
+    const rules = rulesByCriterion.get(criterion.id) ?? {
+      failed: [],
+      passed: [],
+      incomplete: [],
+      inapplicable: [],
+    };
+    return { criterion, status: getCoverageStatus(criterion, rules), rules };
+  });
+
+  return { criteria: coverage, summary: summarizeCoverage(coverage) };
+}
+
+/**
+ * Count criteria per status
+ */
+export function summarizeCoverage(criteria: CriterionCoverage[]): CoverageReport['summary'] {
+  const count = (status: CoverageStatus) =>
+    criteria.filter((entry) => entry.status === status).length;
+  const passed = count('passed');
+  const failed = count('failed');
+  const notApplicable = count('not-applicable');
+
+  return {
+    total: criteria.length,
+    passed,
+    failed,
+    manual: count('manual'),
+    untested: count('untested'),
+    notApplicable,
+    testedPercent:
+      criteria.length > 0
+        ? Math.round(((passed + failed + notApplicable) / criteria.length) * 100)
+        : 0,
+  };
+}
+
+/**
+ * Decide a criterion's status from the rules that touched it
+ * Passing rules only prove a criterion when automation covers all of it;
+ * for partially automatable criteria a person still has to confirm the rest.
+ */
+function getCoverageStatus(
+  criterion: WCAGCriterion,
+  rules: CriterionCoverage['rules']
+): CoverageStatus {
+  if (rules.failed.length > 0) return 'failed';
+  if (criterion.automation === 'manual' || rules.incomplete.length > 0) return 'manual';
+  if (rules.passed.length > 0) return criterion.automation === 'automated' ? 'passed' : 'manual';
+  return 'untested';
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  WCAG_CRITERIA,
+  criterionFromAxeTag,
+  getAODARequiredCriteria,
+  getCriteria,
+  getCriterion,
+} from './criteria';
+
+describe('WCAG criterion catalog', () => {
+  it('should list every WCAG 2.2 criterion once, plus 4.1.1 Parsing', () => {
+    const ids = WCAG_CRITERIA.map((criterion) => criterion.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toHaveLength(87);
+  });
+
+  it('should count 38 WCAG 2.0 AA, 50 WCAG 2.1 AA and 55 WCAG 2.2 AA criteria', () => {
+    expect(getCriteria('2.0', 'AA')).toHaveLength(38);
+    expect(getCriteria('2.1', 'AA')).toHaveLength(50);
+    expect(getCriteria('2.2', 'AA')).toHaveLength(55);
+  });
+
+  it('should drop 4.1.1 Parsing from WCAG 2.2', () => {
+    expect(getCriteria('2.1', 'A').map((c) => c.id)).toContain('4.1.1');
+    expect(getCriteria('2.2', 'A').map((c) => c.id)).not.toContain('4.1.1');
+  });
+
+  it('should require WCAG 2.0 AA except the IASR 14 media exemptions', () => {
+    const required = getAODARequiredCriteria().map((criterion) => criterion.id);
+
+    expect(required).toHaveLength(36);
+    expect(required).not.toContain('1.2.4');
+    expect(required).not.toContain('1.2.5');
+    expect(getCriterion('1.2.4')?.aoda).toBe('exempt');
+    expect(getCriterion('1.4.10')?.aoda).toBe('beyond');
+    expect(getCriterion('1.4.6')?.aoda).toBe('beyond');
+  });
+
+  it('should look up criteria by id or rule pack label', () => {
+    expect(getCriterion('1.4.3')?.title).toBe('Contrast (Minimum)');
+    expect(getCriterion('3.1.1 Language of Page')?.level).toBe('A');
+    expect(getCriterion('Bilingual content')).toBeUndefined();
+  });
+
+  it('should convert axe-core criterion tags but not level tags', () => {
+    expect(criterionFromAxeTag('wcag143')).toBe('1.4.3');
+    expect(criterionFromAxeTag('wcag1410')).toBe('1.4.10');
+    expect(criterionFromAxeTag('wcag2aa')).toBeUndefined();
+    expect(criterionFromAxeTag('wcag21a')).toBeUndefined();
+    expect(criterionFromAxeTag('best-practice')).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * WCAG Success Criterion Catalog
+ *
+ * Every WCAG 2.2 success criterion (plus 4.1.1 Parsing, removed in 2.2 but still
+ * part of WCAG 2.0), with how far automated testing can cover it and whether
+ * IASR section 14 requires it. IASR 14 adopts WCAG 2.0 Level AA, except
+ * 1.2.4 Captions (Live) and 1.2.5 Audio Description (Prerecorded).
+ */
+
+import type { WCAGLevel } from '../types';
+
+export type WCAGVersion = '2.0' | '2.1' | '2.2';
+
+// How much of a criterion automated rules (axe-core) can verify
+export type Automation = 'automated' | 'partial' | 'manual';
+
+// required: IASR 14 applies; exempt: WCAG 2.0 AA but excluded by IASR 14(5); beyond: not required
+export type AODAApplicability = 'required' | 'exempt' | 'beyond';
+
+export interface WCAGCriterion {
+  id: string; // "1.4.3"
+  title: string;
+  level: WCAGLevel;
+  version: WCAGVersion; // Version that introduced the criterion
+  removedIn?: WCAGVersion;
+  automation: Automation;
+  aoda: AODAApplicability;
+}
+
+type CriterionRow = [
+  id: string,
+  title: string,
+  level: WCAGLevel,
+  version: WCAGVersion,
+  automation: Automation,
+];
+
+// IASR 14(5) exemptions
+const AODA_EXEMPT = new Set(['1.2.4', '1.2.5']);
+
+const CRITERIA: CriterionRow[] = [
+  // 1. Perceivable
+  ['1.1.1', 'Non-text Content', 'A', '2.0', 'partial'],
+  ['1.2.1', 'Audio-only and Video-only (Prerecorded)', 'A', '2.0', 'manual'],
+  ['1.2.2', 'Captions (Prerecorded)', 'A', '2.0', 'manual'],
+  ['1.2.3', 'Audio Description or Media Alternative (Prerecorded)', 'A', '2.0', 'manual'],
+  ['1.2.4', 'Captions (Live)', 'AA', '2.0', 'manual'],
+  ['1.2.5', 'Audio Description (Prerecorded)', 'AA', '2.0', 'manual'],
+  ['1.2.6', 'Sign Language (Prerecorded)', 'AAA', '2.0', 'manual'],
+  ['1.2.7', 'Extended Audio Description (Prerecorded)', 'AAA', '2.0', 'manual'],
+  ['1.2.8', 'Media Alternative (Prerecorded)', 'AAA', '2.0', 'manual'],
+  ['1.2.9', 'Audio-only (Live)', 'AAA', '2.0', 'manual'],
+  ['1.3.1', 'Info and Relationships', 'A', '2.0', 'partial'],
+  ['1.3.2', 'Meaningful Sequence', 'A', '2.0', 'manual'],
+  ['1.3.3', 'Sensory Characteristics', 'A', '2.0', 'manual'],
+  ['1.3.4', 'Orientation', 'AA', '2.1', 'partial'],
+  ['1.3.5', 'Identify Input Purpose', 'AA', '2.1', 'partial'],
+  ['1.3.6', 'Identify Purpose', 'AAA', '2.1', 'manual'],
+  ['1.4.1', 'Use of Color', 'A', '2.0', 'partial'],
+  ['1.4.2', 'Audio Control', 'A', '2.0', 'partial'],
+  ['1.4.3', 'Contrast (Minimum)', 'AA', '2.0', 'partial'],
+  ['1.4.4', 'Resize Text', 'AA', '2.0', 'partial'],
+  ['1.4.5', 'Images of Text', 'AA', '2.0', 'manual'],
+  ['1.4.6', 'Contrast (Enhanced)', 'AAA', '2.0', 'partial'],
+  ['1.4.7', 'Low or No Background Audio', 'AAA', '2.0', 'manual'],
+  ['1.4.8', 'Visual Presentation', 'AAA', '2.0', 'manual'],
+  ['1.4.9', 'Images of Text (No Exception)', 'AAA', '2.0', 'manual'],
+  ['1.4.10', 'Reflow', 'AA', '2.1', 'manual'],
+  ['1.4.11', 'Non-text Contrast', 'AA', '2.1', 'manual'],
+  ['1.4.12', 'Text Spacing', 'AA', '2.1', 'partial'],
+  ['1.4.13', 'Content on Hover or Focus', 'AA', '2.1', 'manual'],
+
+  // 2. Operable
+  ['2.1.1', 'Keyboard', 'A', '2.0', 'partial'],
+  ['2.1.2', 'No Keyboard Trap', 'A', '2.0', 'manual'],
+  ['2.1.3', 'Keyboard (No Exception)', 'AAA', '2.0', 'manual'],
+  ['2.1.4', 'Character Key Shortcuts', 'A', '2.1', 'manual'],
+  ['2.2.1', 'Timing Adjustable', 'A', '2.0', 'partial'],
+  ['2.2.2', 'Pause, Stop, Hide', 'A', '2.0', 'partial'],
+  ['2.2.3', 'No Timing', 'AAA', '2.0', 'manual'],
+  ['2.2.4', 'Interruptions', 'AAA', '2.0', 'partial'],
+  ['2.2.5', 'Re-authenticating', 'AAA', '2.0', 'manual'],
+  ['2.2.6', 'Timeouts', 'AAA', '2.1', 'manual'],
+  ['2.3.1', 'Three Flashes or Below Threshold', 'A', '2.0', 'manual'],
+  ['2.3.2', 'Three Flashes', 'AAA', '2.0', 'manual'],
+  ['2.3.3', 'Animation from Interactions', 'AAA', '2.1', 'manual'],
+  ['2.4.1', 'Bypass Blocks', 'A', '2.0', 'partial'],
+  ['2.4.2', 'Page Titled', 'A', '2.0', 'partial'],
+  ['2.4.3', 'Focus Order', 'A', '2.0', 'manual'],
+  ['2.4.4', 'Link Purpose (In Context)', 'A', '2.0', 'partial'],
+  ['2.4.5', 'Multiple Ways', 'AA', '2.0', 'manual'],
+  ['2.4.6', 'Headings and Labels', 'AA', '2.0', 'manual'],
+  ['2.4.7', 'Focus Visible', 'AA', '2.0', 'manual'],
+  ['2.4.8', 'Location', 'AAA', '2.0', 'manual'],
+  ['2.4.9', 'Link Purpose (Link Only)', 'AAA', '2.0', 'partial'],
+  ['2.4.10', 'Section Headings', 'AAA', '2.0', 'manual'],
+  ['2.4.11', 'Focus Not Obscured (Minimum)', 'AA', '2.2', 'manual'],
+  ['2.4.12', 'Focus Not Obscured (Enhanced)', 'AAA', '2.2', 'manual'],
+  ['2.4.13', 'Focus Appearance', 'AAA', '2.2', 'manual'],
+  ['2.5.1', 'Pointer Gestures', 'A', '2.1', 'manual'],
+  ['2.5.2', 'Pointer Cancellation', 'A', '2.1', 'manual'],
+  ['2.5.3', 'Label in Name', 'A', '2.1', 'partial'],
+  ['2.5.4', 'Motion Actuation', 'A', '2.1', 'manual'],
+  ['2.5.5', 'Target Size (Enhanced)', 'AAA', '2.1', 'partial'],
+  ['2.5.6', 'Concurrent Input Mechanisms', 'AAA', '2.1', 'manual'],
+  ['2.5.7', 'Dragging Movements', 'AA', '2.2', 'manual'],
+  ['2.5.8', 'Target Size (Minimum)', 'AA', '2.2', 'partial'],
+
+  // 3. Understandable
+  ['3.1.1', 'Language of Page', 'A', '2.0', 'automated'],
+  ['3.1.2', 'Language of Parts', 'AA', '2.0', 'partial'],
+  ['3.1.3', 'Unusual Words', 'AAA', '2.0', 'manual'],
+  ['3.1.4', 'Abbreviations', 'AAA', '2.0', 'manual'],
+  ['3.1.5', 'Reading Level', 'AAA', '2.0', 'manual'],
+  ['3.1.6', 'Pronunciation', 'AAA', '2.0', 'manual'],
+  ['3.2.1', 'On Focus', 'A', '2.0', 'manual'],
+  ['3.2.2', 'On Input', 'A', '2.0', 'manual'],
+  ['3.2.3', 'Consistent Navigation', 'AA', '2.0', 'manual'],
+  ['3.2.4', 'Consistent Identification', 'AA', '2.0', 'manual'],
+  ['3.2.5', 'Change on Request', 'AAA', '2.0', 'manual'],
+  ['3.2.6', 'Consistent Help', 'A', '2.2', 'manual'],
+  ['3.3.1', 'Error Identification', 'A', '2.0', 'manual'],
+  ['3.3.2', 'Labels or Instructions', 'A', '2.0', 'partial'],
+  ['3.3.3', 'Error Suggestion', 'AA', '2.0', 'manual'],
+  ['3.3.4', 'Error Prevention (Legal, Financial, Data)', 'AA', '2.0', 'manual'],
+  ['3.3.5', 'Help', 'AAA', '2.0', 'manual'],
+  ['3.3.6', 'Error Prevention (All)', 'AAA', '2.0', 'manual'],
+  ['3.3.7', 'Redundant Entry', 'A', '2.2', 'manual'],
+  ['3.3.8', 'Accessible Authentication (Minimum)', 'AA', '2.2', 'manual'],
+  ['3.3.9', 'Accessible Authentication (Enhanced)', 'AAA', '2.2', 'manual'],
+
+  // 4. Robust
+  ['4.1.1', 'Parsing', 'A', '2.0', 'partial'],
+  ['4.1.2', 'Name, Role, Value', 'A', '2.0', 'partial'],
+  ['4.1.3', 'Status Messages', 'AA', '2.1', 'manual'],
+];
+
+const LEVEL_ORDER: Record<WCAGLevel, number> = { A: 1, AA: 2, AAA: 3 };
+const VERSION_ORDER: Record<WCAGVersion, number> = { '2.0': 1, '2.1': 2, '2.2': 3 };
+
+export const WCAG_CRITERIA: readonly WCAGCriterion[] = CRITERIA.map(
+  ([id, title, level, version, automation]) => ({
+    id,
+    title,
+    level,
+    version,
+    ...(id === '4.1.1' ? { removedIn: '2.2' as const } : {}),
+    automation,
+    aoda: AODA_EXEMPT.has(id)
+      ? 'exempt'
+      : version === '2.0' && level !== 'AAA'
+        ? 'required'
+        : 'beyond',
+  })
+);
+
+const CRITERIA_BY_ID = new Map(WCAG_CRITERIA.map((criterion) => [criterion.id, criterion]));
+
+/**
+ * Look up a criterion by number ("1.4.3") or by a label that starts with one
+ * ("1.4.3 Contrast (Minimum)", as used in the AODA rule pack)
+ */
+export function getCriterion(idOrLabel: string): WCAGCriterion | undefined {
+  const id = /^\d+\.\d+\.\d+/.exec(idOrLabel.trim())?.[0];
+  return id ? CRITERIA_BY_ID.get(id) : undefined;
+}
+
+/**
+ * Criteria in a WCAG version at or below a conformance level
+ * `getCriteria('2.0', 'AA')` lists the 38 criteria of WCAG 2.0 AA.
+ */
+export function getCriteria(
+  version: WCAGVersion = '2.2',
+  level: WCAGLevel = 'AA'
+): WCAGCriterion[] {
+  return WCAG_CRITERIA.filter(
+    (criterion) =>
+      VERSION_ORDER[criterion.version] <= VERSION_ORDER[version] &&
+      LEVEL_ORDER[criterion.level] <= LEVEL_ORDER[level] &&
+      (!criterion.removedIn || VERSION_ORDER[criterion.removedIn] > VERSION_ORDER[version])
+  );
+}
+
+/**
+ * Criteria IASR section 14 requires (WCAG 2.0 AA without the live captions and
+ * prerecorded audio description exemptions)
+ */
+export function getAODARequiredCriteria(): WCAGCriterion[] {
+  return WCAG_CRITERIA.filter((criterion) => criterion.aoda === 'required');
+}
+
+/**
+ * Convert an axe-core tag such as `wcag143` or `wcag1410` to a criterion id
+ * Level tags (`wcag2aa`, `wcag21a`) are not criteria and return undefined.
+ */
+export function criterionFromAxeTag(tag: string): string | undefined {
+  const match = /^wcag(\d)(\d)(\d{1,2})$/.exec(tag);
+  if (!match) return undefined;
+  const id = `${match[1]}.${match[2]}.${match[3]}`;
+  return CRITERIA_BY_ID.has(id) ? id : undefined;
+}
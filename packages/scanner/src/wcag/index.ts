@@ -0,0 +1,37 @@
+export {
+  WCAG_CRITERIA,
+  criterionFromAxeTag,
+  getAODARequiredCriteria,
+  getCriteria,
+  getCriterion,
+  type AODAApplicability,
+  type Automation,
+  type WCAGCriterion,
+  type WCAGVersion,
+} from './criteria';
+export {
+  buildCoverageReport,
+  getRuleCriteria,
+  summarizeCoverage,
+  type AxeRuleOutcome,
+  type AxeRuleResults,
+  type CoverageOptions,
+  type CoverageReport,
+  type CoverageStatus,
+  type CriterionCoverage,
+} from './coverage';
+export {
+  ManualReviewEntrySchema,
+  ManualReviewSchema,
+  ReviewDecision,
+  applyManualReview,
+  clearReviewDecision,
+  createManualReview,
+  getManualReviewScore,
+  getReviewQueue,
+  recordReviewDecision,
+  type ManualReview,
+  type ManualReviewEntry,
+  type ManualReviewScore,
+  type ReviewItem,
+} from './manual-review';
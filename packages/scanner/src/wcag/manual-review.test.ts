@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageReport } from './coverage';
+import {
+  ManualReviewSchema,
+  applyManualReview,
+  clearReviewDecision,
+  createManualReview,
+  getManualReviewScore,
+  getReviewQueue,
+  recordReviewDecision,
+} from './manual-review';
+
+const rule = (id: string, ...tags: string[]) => ({ id, tags: ['wcag2aa', ...tags] });
+
+const coverage = buildCoverageReport({
+  violations: [rule('image-alt', 'wcag111')],
+  passes: [rule('html-has-lang', 'wcag311')],
+  incomplete: [rule('color-contrast', 'wcag143')],
+});
+
+const contrastIncomplete = {
+  id: 'color-contrast',
+  description: 'Ensures the contrast between foreground and background colors meets WCAG 2 AA',
+  help: 'Elements must meet minimum color contrast ratio thresholds',
+  helpUrl: 'https://dequeuniversity.com/rules/axe/4.8/color-contrast',
+  impact: 'serious' as const,
+  criteria: ['1.4.3'],
+  nodes: [{ html: '<span class="hero">Text</span>', target: ['.hero'], failureSummary: '' }],
+};
+
+function statusOf(report: typeof coverage, id: string) {
+  return report.criteria.find((entry) => entry.criterion.id === id)?.status;
+}
+
+describe('Manual review', () => {
+  describe('recordReviewDecision', () => {
+    it('should add entries with defaults and a timestamp', () => {
+      const review = recordReviewDecision(createManualReview('https://example.ca/'), {
+        criterionId: '2.4.7',
+        decision: 'fail',
+        notes: 'Focus ring removed on nav links',
+      });
+
+      const entry = review.entries['2.4.7'];
+      expect(entry.impact).toBe('serious');
+      expect(entry.evidence).toEqual([]);
+      expect(entry.notes).toBe('Focus ring removed on nav links');
+      expect(() => new Date(entry.reviewedAt).toISOString()).not.toThrow();
+      expect(ManualReviewSchema.safeParse(review).success).toBe(true);
+    });
+
+    it('should replace earlier decisions and reject unknown criterion ids', () => {
+      let review = createManualReview('https://example.ca/');
+      review = recordReviewDecision(review, { criterionId: '2.4.7', decision: 'fail' });
+      review = recordReviewDecision(review, { criterionId: '2.4.7', decision: 'pass' });
+
+      expect(Object.keys(review.entries)).toEqual(['2.4.7']);
+      expect(review.entries['2.4.7'].decision).toBe('pass');
+      expect(() =>
+        recordReviewDecision(review, { criterionId: 'focus', decision: 'pass' })
+      ).toThrow();
+    });
+
+    it('should clear a decision', () => {
+      const review = recordReviewDecision(createManualReview('https://example.ca/'), {
+        criterionId: '2.4.7',
+        decision: 'pass',
+      });
+      expect(clearReviewDecision(review, '2.4.7').entries).toEqual({});
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('should list unsettled criteria with their incomplete axe-core results', () => {
+      const queue = getReviewQueue(coverage, [contrastIncomplete]);
+      const ids = queue.map((item) => item.coverage.criterion.id);
+
+      expect(ids).toContain('1.4.3');
+      expect(ids).toContain('2.4.7');
+      expect(ids).not.toContain('1.1.1'); // failed automatically
+      expect(ids).not.toContain('3.1.1'); // passed automatically
+      expect(queue.find((item) => item.coverage.criterion.id === '1.4.3')?.incomplete).toEqual([
+        contrastIncomplete,
+      ]);
+    });
+  });
+
+  describe('applyManualReview', () => {
+    it('should return the report unchanged without a review', () => {
+      expect(applyManualReview(coverage, null)).toBe(coverage);
+    });
+
+    it('should apply pass, fail and not-applicable decisions', () => {
+      let review = createManualReview('https://example.ca/');
+      review = recordReviewDecision(review, { criterionId: '1.4.3', decision: 'pass' });
+      review = recordReviewDecision(review, { criterionId: '2.4.7', decision: 'fail' });
+      review = recordReviewDecision(review, { criterionId: '1.2.1', decision: 'not-applicable' });
+
+      const reviewed = applyManualReview(coverage, review);
+
+      expect(statusOf(reviewed, '1.4.3')).toBe('passed');
+      expect(statusOf(reviewed, '2.4.7')).toBe('failed');
+      expect(statusOf(reviewed, '1.2.1')).toBe('not-applicable');
+      expect(reviewed.criteria.find((entry) => entry.criterion.id === '2.4.7')?.review).toBe(
+        review.entries['2.4.7']
+      );
+      expect(reviewed.summary.notApplicable).toBe(1);
+      expect(reviewed.summary.passed).toBe(coverage.summary.passed + 1);
+      expect(reviewed.summary.failed).toBe(coverage.summary.failed + 1);
+    });
+
+    it('should not let a manual pass clear an automated failure', () => {
+      const review = recordReviewDecision(createManualReview('https://example.ca/'), {
+        criterionId: '1.1.1',
+        decision: 'pass',
+      });
+      expect(statusOf(applyManualReview(coverage, review), '1.1.1')).toBe('failed');
+    });
+  });
+
+  describe('getManualReviewScore', () => {
+    it('should count passes and failures, skipping criteria that already failed automatically', () => {
+      let review = createManualReview('https://example.ca/');
+      review = recordReviewDecision(review, { criterionId: '1.4.3', decision: 'pass' });
+      review = recordReviewDecision(review, {
+        criterionId: '2.4.7',
+        decision: 'fail',
+        impact: 'critical',
+      });
+      review = recordReviewDecision(review, { criterionId: '1.1.1', decision: 'fail' });
+      review = recordReviewDecision(review, { criterionId: '1.2.1', decision: 'not-applicable' });
+
+      expect(getManualReviewScore(review, coverage)).toEqual({
+        passed: 1,
+        failed: [{ impact: 'critical', criterionId: '2.4.7' }],
+      });
+      expect(getManualReviewScore(null)).toEqual({ passed: 0, failed: [] });
+    });
+  });
+});
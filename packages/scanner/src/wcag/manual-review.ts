@@ -0,0 +1,150 @@
+/**
+ * Manual Review
+ *
+ * Auditor decisions (pass / fail / not applicable, with notes and evidence) for
+ * the criteria automated rules cannot verify. Decisions are stored per URL and
+ * layered over the automated coverage report and the score.
+ */
+
+import { z } from 'zod';
+import { type IncompleteResult, ImpactLevel } from '../types';
+import { type CoverageReport, type CriterionCoverage, summarizeCoverage } from './coverage';
+
+export const ReviewDecision = z.enum(['pass', 'fail', 'not-applicable']);
+export type ReviewDecision = z.infer<typeof ReviewDecision>;
+
+export const ManualReviewEntrySchema = z.object({
+  criterionId: z.string().regex(/^\d+\.\d+\.\d+$/),
+  decision: ReviewDecision,
+  impact: ImpactLevel.default('serious'), // Severity of a failure, used for scoring
+  notes: z.string().default(''),
+  evidence: z.array(z.string()).default([]), // Screenshot names, recordings, ticket links
+  reviewer: z.string().optional(),
+  reviewedAt: z.string().datetime(),
+});
+
+export type ManualReviewEntry = z.infer<typeof ManualReviewEntrySchema>;
+
+export const ManualReviewSchema = z.object({
+  url: z.string(),
+  entries: z.record(ManualReviewEntrySchema), // Keyed by criterion id
+  updatedAt: z.string().datetime(),
+});
+
+export type ManualReview = z.infer<typeof ManualReviewSchema>;
+
+// One step of the guided review: a criterion plus the axe-core results that need a decision
+export interface ReviewItem {
+  coverage: CriterionCoverage;
+  incomplete: IncompleteResult[];
+}
+
+export interface ManualReviewScore {
+  passed: number;
+  failed: Array<{ impact: ImpactLevel; criterionId?: string }>;
+}
+
+/**
+ * Start an empty review for a URL
+ */
+export function createManualReview(url: string): ManualReview {
+  return { url, entries: {}, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Record (or replace) the decision for one criterion
+ */
+export function recordReviewDecision(
+  review: ManualReview,
+  entry: Omit<ManualReviewEntry, 'reviewedAt' | 'impact' | 'notes' | 'evidence'> &
+    Partial<Pick<ManualReviewEntry, 'impact' | 'notes' | 'evidence'>>
+): ManualReview {
+  const reviewedAt = new Date().toISOString();
+  const parsed = ManualReviewEntrySchema.parse({ ...entry, reviewedAt });
+  return {
+    ...review,
+    entries: { ...review.entries, [parsed.criterionId]: parsed },
+    updatedAt: reviewedAt,
+  };
+}
+
+/**
+ * Remove the decision for one criterion
+ */
+export function clearReviewDecision(review: ManualReview, criterionId: string): ManualReview {
+  const { [criterionId]: _removed, ...entries } = review.entries;
+  return { ...review, entries, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Criteria an auditor still has to look at: everything automation could not settle,
+ * with the incomplete axe-core results for each
+ */
+export function getReviewQueue(
+  coverage: CoverageReport,
+  incompleteResults: IncompleteResult[] = []
+): ReviewItem[] {
+  return coverage.criteria
+    .filter((entry) => entry.status === 'manual' || entry.status === 'untested' || entry.review)
+    .map((entry) => ({
+      coverage: entry,
+      incomplete: incompleteResults.filter((result) =>
+        result.criteria.includes(entry.criterion.id)
+      ),
+    }));
+}
+
+/**
+ * Layer review decisions over an automated coverage report
+ * A manual fail always wins; a pass or not-applicable cannot clear an automated
+ * failure, which has to be fixed and rescanned.
+ */
+export function applyManualReview(
+  coverage: CoverageReport,
+  review?: ManualReview | null
+): CoverageReport {
+  if (!review) return coverage;
+
+  const criteria = coverage.criteria.map((entry): CriterionCoverage => {
+    const decision = review.entries[entry.criterion.id];
+    if (!decision) return entry;
+
+    const automatedFailure = entry.rules.failed.length > 0;
+    const status =
+      decision.decision === 'fail' || automatedFailure
+        ? 'failed'
+        : decision.decision === 'pass'
+          ? 'passed'
+          : 'not-applicable';
+    return { ...entry, status, review: decision };
+  });
+
+  return { criteria, summary: summarizeCoverage(criteria) };
+}
+
+/**
+ * Reduce review decisions to what the score needs
+ * Only criteria without an automated failure count, so issues are never scored twice.
+ */
+export function getManualReviewScore(
+  review: ManualReview | null | undefined,
+  coverage?: CoverageReport
+): ManualReviewScore {
+  const result: ManualReviewScore = { passed: 0, failed: [] };
+  if (!review) return result;
+
+  const automatedFailures = new Set(
+    coverage?.criteria
+      .filter((entry) => entry.rules.failed.length > 0)
+      .map((entry) => entry.criterion.id)
+  );
+
+  for (const entry of Object.values(review.entries)) {
+    if (automatedFailures.has(entry.criterionId)) continue;
+    if (entry.decision === 'pass') result.passed++;
+    if (entry.decision === 'fail')
+      result.failed.push({ impact: entry.impact, criterionId: entry.criterionId });
+  }
+
+  return result;
+}